@@ -219,7 +219,14 @@ export default [
   },
   // CLI entry points: shebang scripts that also export factory functions for tests
   {
-    files: ['src/cli/textCli.ts', 'src/cli/slackCli.ts'],
+    files: [
+      'src/cli/textCli.ts',
+      'src/cli/slackCli.ts',
+      'src/cli/emailCli.ts',
+      'src/cli/discordCli.ts',
+      'src/cli/teamsCli.ts',
+      'src/cli/webhookCli.ts'
+    ],
     rules: {
       'unicorn/no-exports-in-scripts': 'off'
     }
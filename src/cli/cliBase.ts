@@ -5,6 +5,8 @@ import type { ProcessOutput } from '../interfaces/processOutput.js';
 import type { TvShowService } from '../interfaces/tvShowService.js';
 import type { ConfigService } from '../interfaces/configService.js';
 import type { Show } from '../schemas/domain.js';
+import { formatDiscoverCategories, formatSearchResults } from '../utils/formatUtils.js';
+import { summarizeShowCategories } from '../utils/showUtils.js';
 import { formatError, handleMainError, isDirectExecution } from '../utils/errorHandling.js';
 import { OutputService } from '../interfaces/outputService.js';
 
@@ -25,11 +27,74 @@ export class BaseCliApplication {
     protected readonly outputService: OutputService
   ) {}
 
+  /**
+   * Search for shows by name and print the matches with their TVMaze IDs
+   * @param query Show name (or part of it) to search for
+   */
+  private async runSearch(query: string): Promise<void> {
+    try {
+      const results = await this.tvShowService.searchShows(query);
+      if (results.length === 0) {
+        this.processOutput.log(`No shows found matching "${query}"`);
+        return;
+      }
+      for (const line of formatSearchResults(results)) {
+        this.processOutput.log(line);
+      }
+    } catch (error) {
+      this.processOutput.error(`Error searching TV shows: ${formatError(error)}`);
+    }
+  }
+
+  /**
+   * Fetch the schedule without filters and print the networks, genres, types
+   * and languages in it, marking the ones the current config keeps
+   * Badges are skipped, since finale badges can take a request per show
+   * @param isJson Print the results as JSON instead of text
+   */
+  private async runDiscover(isJson: boolean): Promise<void> {
+    const showOptions = this.configService.getShowOptions();
+    try {
+      const shows = await this.tvShowService.fetchShows({
+        provider: showOptions.provider,
+        date: showOptions.date,
+        endDate: showOptions.endDate,
+        country: showOptions.country,
+        timezone: showOptions.timezone,
+        networkAliases: showOptions.networkAliases
+      }, { skipBadges: true });
+      const categories = summarizeShowCategories(shows, showOptions);
+      if (isJson) {
+        this.processOutput.log(JSON.stringify({
+          date: showOptions.date,
+          endDate: showOptions.endDate ?? showOptions.date,
+          ...categories
+        }, null, 2));
+        return;
+      }
+      for (const line of formatDiscoverCategories(categories)) {
+        this.processOutput.log(line);
+      }
+    } catch (error) {
+      this.processOutput.error(`Error fetching TV shows: ${formatError(error)}`);
+    }
+  }
+
   /**
    * Run the CLI application
    */
   public async run(): Promise<void> {
     try {
+      const cliOptions = this.configService.getCliOptions();
+      if (cliOptions.command === 'search') {
+        await this.runSearch(cliOptions.query ?? '');
+        return;
+      }
+      if (cliOptions.command === 'discover') {
+        await this.runDiscover(cliOptions.json === true || cliOptions.format === 'json');
+        return;
+      }
+
       // Get configuration options for fetching shows
       const showOptions = this.configService.getShowOptions();
       
@@ -0,0 +1,44 @@
+#!/usr/bin/env tsx
+
+/**
+ * Discord integration for WhatsOnTV
+ * Posts TV show information to a Discord webhook
+ */
+
+import 'reflect-metadata';
+import { container, initializeDiscordContainer, DISCORD_PLATFORM } from '../discordContainer.js';
+import type { ProcessOutput } from '../interfaces/processOutput.js';
+import { BaseCliApplication as BaseCliApp, runMain } from './cliBase.js';
+import { createWebhookPlatformApp } from './webhookPlatformCli.js';
+import { registerGlobalErrorHandler } from '../utils/errorHandling.js';
+
+// Initialize the Discord container
+initializeDiscordContainer();
+
+// Get ProcessOutput service for global error handling
+const processOutput = container.resolve<ProcessOutput>('ProcessOutput');
+
+// Register global error handler
+registerGlobalErrorHandler(processOutput);
+
+/**
+ * Create a Discord CLI application instance with all required services
+ * @returns A new DiscordCliApplication instance
+ */
+export function createDiscordApp(): BaseCliApp {
+  return createDiscordAppWithContainer(container);
+}
+
+/**
+ * Create Discord app with a specific container (useful for testing)
+ * @param containerInstance The container to resolve services from
+ * @returns A new DiscordCliApplication instance
+ */
+export function createDiscordAppWithContainer(
+  containerInstance: typeof container
+): BaseCliApp {
+  return createWebhookPlatformApp(containerInstance, DISCORD_PLATFORM);
+}
+
+// Create the Discord app and run it if this file is executed directly
+runMain(() => createDiscordApp(), processOutput);
@@ -0,0 +1,82 @@
+#!/usr/bin/env tsx
+
+/**
+ * Email integration for WhatsOnTV
+ * Sends TV show information as an email digest
+ */
+
+import 'reflect-metadata';
+import { container, initializeEmailContainer } from '../emailContainer.js';
+import type { ProcessOutput } from '../interfaces/processOutput.js';
+import type { TvShowService } from '../interfaces/tvShowService.js';
+import type { ConfigService } from '../interfaces/configService.js';
+import type { OutputService } from '../interfaces/outputService.js';
+import { BaseCliApplication as BaseCliApp, runMain } from './cliBase.js';
+import { registerGlobalErrorHandler } from '../utils/errorHandling.js';
+
+// Initialize the email container
+initializeEmailContainer();
+
+// Get ProcessOutput service for global error handling
+const processOutput = container.resolve<ProcessOutput>('ProcessOutput');
+
+// Register global error handler
+registerGlobalErrorHandler(processOutput);
+
+/**
+ * Create an email CLI application instance with all required services
+ * @returns A new EmailCliApplication instance
+ */
+export function createEmailApp(): BaseCliApp {
+  return createEmailAppWithContainer(container);
+}
+
+/**
+ * Create email app with a specific container (useful for testing)
+ * @param containerInstance The container to resolve services from
+ * @returns A new EmailCliApplication instance
+ */
+export function createEmailAppWithContainer(
+  containerInstance: typeof container
+): BaseCliApp {
+  try {
+    // Resolve all required services from the specified container
+    const tvShowService = containerInstance.resolve<TvShowService>('TvShowService');
+    const configService = containerInstance.resolve<ConfigService>('ConfigService');
+    const outputService = containerInstance.resolve<OutputService>('EmailOutputService');
+    const processOutputFromContainer = containerInstance.resolve<ProcessOutput>('ProcessOutput');
+
+    // Create the email CLI application
+    return new BaseCliApp(
+      tvShowService,
+      configService,
+      processOutputFromContainer,
+      outputService
+    );
+  } catch (error) {
+    const processOutputForError = containerInstance.resolve<ProcessOutput>('ProcessOutput');
+    processOutputForError.error(`Error resolving services: ${String(error)}`);
+    
+    // Check if the error is related to missing service registrations
+    if (String(error).includes('EmailShowFormatter')) {
+      processOutputForError.error(
+        'The EmailShowFormatter service is not registered in the container.'
+      );
+      processOutputForError.error(
+        'Please make sure to register it before running this application.'
+      );
+    } else if (String(error).includes('EmailOutputService')) {
+      processOutputForError.error(
+        'The EmailOutputService service is not registered in the container.'
+      );
+      processOutputForError.error(
+        'Please make sure to register it before running this application.'
+      );
+    }
+    
+    throw error;
+  }
+}
+
+// Create the email app and run it if this file is executed directly
+runMain(() => createEmailApp(), processOutput);
@@ -0,0 +1,44 @@
+#!/usr/bin/env tsx
+
+/**
+ * Teams integration for WhatsOnTV
+ * Posts TV show information to a Microsoft Teams incoming webhook
+ */
+
+import 'reflect-metadata';
+import { container, initializeTeamsContainer, TEAMS_PLATFORM } from '../teamsContainer.js';
+import type { ProcessOutput } from '../interfaces/processOutput.js';
+import { BaseCliApplication as BaseCliApp, runMain } from './cliBase.js';
+import { createWebhookPlatformApp } from './webhookPlatformCli.js';
+import { registerGlobalErrorHandler } from '../utils/errorHandling.js';
+
+// Initialize the Teams container
+initializeTeamsContainer();
+
+// Get ProcessOutput service for global error handling
+const processOutput = container.resolve<ProcessOutput>('ProcessOutput');
+
+// Register global error handler
+registerGlobalErrorHandler(processOutput);
+
+/**
+ * Create a Teams CLI application instance with all required services
+ * @returns A new TeamsCliApplication instance
+ */
+export function createTeamsApp(): BaseCliApp {
+  return createTeamsAppWithContainer(container);
+}
+
+/**
+ * Create Teams app with a specific container (useful for testing)
+ * @param containerInstance The container to resolve services from
+ * @returns A new TeamsCliApplication instance
+ */
+export function createTeamsAppWithContainer(
+  containerInstance: typeof container
+): BaseCliApp {
+  return createWebhookPlatformApp(containerInstance, TEAMS_PLATFORM);
+}
+
+// Create the Teams app and run it if this file is executed directly
+runMain(() => createTeamsApp(), processOutput);
@@ -0,0 +1,75 @@
+#!/usr/bin/env tsx
+
+/**
+ * Generic webhook integration for WhatsOnTV
+ * Sends TV show information to any webhook as a templated body
+ */
+
+import 'reflect-metadata';
+import { container, initializeWebhookContainer } from '../webhookContainer.js';
+import type { ProcessOutput } from '../interfaces/processOutput.js';
+import type { TvShowService } from '../interfaces/tvShowService.js';
+import type { ConfigService } from '../interfaces/configService.js';
+import type { OutputService } from '../interfaces/outputService.js';
+import { BaseCliApplication as BaseCliApp, runMain } from './cliBase.js';
+import { registerGlobalErrorHandler } from '../utils/errorHandling.js';
+
+// Initialize the Webhook container
+initializeWebhookContainer();
+
+// Get ProcessOutput service for global error handling
+const processOutput = container.resolve<ProcessOutput>('ProcessOutput');
+
+// Register global error handler
+registerGlobalErrorHandler(processOutput);
+
+/**
+ * Create a Webhook CLI application instance with all required services
+ * @returns A new WebhookCliApplication instance
+ */
+export function createWebhookApp(): BaseCliApp {
+  return createWebhookAppWithContainer(container);
+}
+
+/**
+ * Create Webhook app with a specific container (useful for testing)
+ * @param containerInstance The container to resolve services from
+ * @returns A new WebhookCliApplication instance
+ */
+export function createWebhookAppWithContainer(
+  containerInstance: typeof container
+): BaseCliApp {
+  try {
+    // Resolve all required services from the specified container
+    const tvShowService = containerInstance.resolve<TvShowService>('TvShowService');
+    const configService = containerInstance.resolve<ConfigService>('ConfigService');
+    const outputService = containerInstance.resolve<OutputService>('WebhookOutputService');
+    const processOutputFromContainer = containerInstance.resolve<ProcessOutput>('ProcessOutput');
+
+    // Create the Webhook CLI application
+    return new BaseCliApp(
+      tvShowService,
+      configService,
+      processOutputFromContainer,
+      outputService
+    );
+  } catch (error) {
+    const processOutputForError = containerInstance.resolve<ProcessOutput>('ProcessOutput');
+    processOutputForError.error(`Error resolving services: ${String(error)}`);
+    
+    // Check if the error is related to missing service registrations
+    if (String(error).includes('WebhookOutputService')) {
+      processOutputForError.error(
+        'The WebhookOutputService service is not registered in the container.'
+      );
+      processOutputForError.error(
+        'Please make sure to register it before running this application.'
+      );
+    }
+    
+    throw error;
+  }
+}
+
+// Create the Webhook app and run it if this file is executed directly
+runMain(() => createWebhookApp(), processOutput);
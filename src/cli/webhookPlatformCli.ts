@@ -0,0 +1,54 @@
+/**
+ * CLI application setup shared by the webhook chat platforms (Discord, Teams)
+ */
+import 'reflect-metadata';
+import type { DependencyContainer } from 'tsyringe';
+import type { ProcessOutput } from '../interfaces/processOutput.js';
+import type { TvShowService } from '../interfaces/tvShowService.js';
+import type { ConfigService } from '../interfaces/configService.js';
+import type { OutputService } from '../interfaces/outputService.js';
+import type { WebhookPlatform } from '../webhookPlatformContainer.js';
+import { BaseCliApplication as BaseCliApp } from './cliBase.js';
+
+/**
+ * Create a CLI application for a webhook chat platform
+ * @param containerInstance The container to resolve services from
+ * @param platform Tokens of the platform's formatter and output service
+ * @returns A new CLI application instance
+ */
+export function createWebhookPlatformApp(
+  containerInstance: DependencyContainer,
+  platform: Pick<WebhookPlatform<unknown, unknown>, 'formatterToken' | 'outputServiceToken'>
+): BaseCliApp {
+  try {
+    // Resolve all required services from the specified container
+    const tvShowService = containerInstance.resolve<TvShowService>('TvShowService');
+    const configService = containerInstance.resolve<ConfigService>('ConfigService');
+    const outputService = containerInstance.resolve<OutputService>(platform.outputServiceToken);
+    const processOutputFromContainer = containerInstance.resolve<ProcessOutput>('ProcessOutput');
+
+    return new BaseCliApp(
+      tvShowService,
+      configService,
+      processOutputFromContainer,
+      outputService
+    );
+  } catch (error) {
+    const processOutputForError = containerInstance.resolve<ProcessOutput>('ProcessOutput');
+    processOutputForError.error(`Error resolving services: ${String(error)}`);
+
+    // Check if the error is related to missing service registrations
+    const missingToken = [platform.formatterToken, platform.outputServiceToken]
+      .find(token => String(error).includes(token));
+    if (missingToken !== undefined) {
+      processOutputForError.error(
+        `The ${missingToken} service is not registered in the container.`
+      );
+      processOutputForError.error(
+        'Please make sure to register it before running this application.'
+      );
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Discord dependency injection container setup
+ */
+import 'reflect-metadata';
+
+// Interface imports
+import type { DiscordClient } from './interfaces/discordClient.js';
+import type { DiscordShowFormatter } from './interfaces/showFormatter.js';
+
+// Implementation imports
+import {
+  DiscordWebhookClientImpl
+} from './implementations/discord/discordWebhookClientImpl.js';
+import { DiscordOutputServiceImpl } from './implementations/discord/discordOutputServiceImpl.js';
+import { DiscordShowFormatterImpl } from './implementations/discord/discordShowFormatterImpl.js';
+import {
+  initializeWebhookPlatformContainer,
+  type WebhookPlatform
+} from './webhookPlatformContainer.js';
+
+/** Discord services and their tokens */
+export const DISCORD_PLATFORM: WebhookPlatform<DiscordShowFormatter, DiscordClient> = {
+  platformType: 'discord',
+  formatterToken: 'DiscordShowFormatter',
+  formatter: DiscordShowFormatterImpl,
+  clientToken: 'DiscordClient',
+  client: DiscordWebhookClientImpl,
+  outputServiceToken: 'DiscordOutputService',
+  outputService: DiscordOutputServiceImpl
+};
+
+/**
+ * Initialize the Discord container with all required dependencies
+ */
+export function initializeDiscordContainer(): void {
+  initializeWebhookPlatformContainer(DISCORD_PLATFORM);
+}
+
+export { container } from 'tsyringe';
@@ -0,0 +1,69 @@
+/**
+ * Email dependency injection container setup
+ */
+import 'reflect-metadata';
+import { container } from 'tsyringe';
+
+// Interface imports
+import type { ConfigService } from './interfaces/configService.js';
+import type { ProcessOutput } from './interfaces/processOutput.js';
+import type { LoggerService } from './interfaces/loggerService.js';
+import type { OutputService } from './interfaces/outputService.js';
+import type { EmailClient } from './interfaces/emailClient.js';
+import type { EmailShowFormatter } from './interfaces/showFormatter.js';
+
+// Implementation imports
+import { CliConfigServiceImpl } from './implementations/text/cliConfigServiceImpl.js';
+import { ProcessOutputImpl } from './implementations/processOutputImpl.js';
+import { PinoLoggerServiceImpl } from './implementations/pino/pinoLoggerServiceImpl.js';
+import {
+  SmtpEmailClientImpl,
+  createSmtpTransport
+} from './implementations/email/smtpEmailClientImpl.js';
+import { EmailOutputServiceImpl } from './implementations/email/emailOutputServiceImpl.js';
+import { EmailShowFormatterImpl } from './implementations/email/emailShowFormatterImpl.js';
+import { registerHttpServices } from './httpServicesContainer.js';
+
+/**
+ * Initialize the email container with all required dependencies
+ */
+export function initializeEmailContainer(): void {
+  // Register core services
+  container.registerSingleton<ProcessOutput>('ProcessOutput', ProcessOutputImpl);
+  container.registerSingleton<LoggerService>('LoggerService', PinoLoggerServiceImpl);
+  
+  // Register email-specific services
+  container.registerSingleton<EmailShowFormatter>('EmailShowFormatter', EmailShowFormatterImpl);
+  
+  // Register ConfigService with factory to handle the optional parameter
+  container.register<ConfigService>('ConfigService', {
+    useFactory: () => new CliConfigServiceImpl(false)
+  });
+  
+  // Register the TvShowService, RateLimiter and HttpClient
+  registerHttpServices(container);
+  
+  // Register EmailTransportFactory for creating SMTP transports
+  container.register('EmailTransportFactory', {
+    useFactory: () => createSmtpTransport
+  });
+  
+  // Register real EmailClient implementation
+  container.registerSingleton<EmailClient>('EmailClient', SmtpEmailClientImpl);
+  
+  // Register EmailOutputService with factory to properly inject dependencies
+  container.register<OutputService>('EmailOutputService', {
+    useFactory: (dependencyContainer) => {
+      const formatter = dependencyContainer.resolve<EmailShowFormatter>('EmailShowFormatter');
+      const emailClient = dependencyContainer.resolve<EmailClient>('EmailClient');
+      const configService = dependencyContainer.resolve<ConfigService>('ConfigService');
+      const logger = dependencyContainer.resolve<LoggerService>('LoggerService');
+      return new EmailOutputServiceImpl(formatter, emailClient, configService, logger);
+    }
+  });
+  
+  // Register platform type
+  container.register('PlatformType', { useValue: 'email' });
+}
+
+export { container } from 'tsyringe';
@@ -0,0 +1,104 @@
+/**
+ * Registration of the schedule and HTTP services shared by every container
+ */
+import 'reflect-metadata';
+import { instanceCachingFactory, type DependencyContainer } from 'tsyringe';
+
+// Interface imports
+import type { ConfigService } from './interfaces/configService.js';
+import type { HttpClient } from './interfaces/httpClient.js';
+import type { LoggerService } from './interfaces/loggerService.js';
+import type { RateLimiter } from './interfaces/rateLimiter.js';
+import type { TvShowService } from './interfaces/tvShowService.js';
+
+// Implementation imports
+import { FetchHttpClientImpl } from './implementations/fetchHttpClientImpl.js';
+import { CachingHttpClientImpl } from './implementations/cachingHttpClientImpl.js';
+import { RecordingHttpClientImpl } from './implementations/recordingHttpClientImpl.js';
+import { ReplayHttpClientImpl } from './implementations/replayHttpClientImpl.js';
+import { TokenBucketRateLimiterImpl } from './implementations/tokenBucketRateLimiterImpl.js';
+import { TvMazeServiceImpl } from './implementations/tvMazeServiceImpl.js';
+import { XmltvServiceImpl } from './implementations/xmltvServiceImpl.js';
+import { hasContent } from './utils/stringUtils.js';
+
+/**
+ * Options for registering the HTTP services
+ */
+export interface HttpServicesOptions {
+  /**
+   * Whether the HttpClient may use the on-disk cache and --record/--replay
+   * files; Lambda has no persistent disk, so it sends every request directly
+   */
+  shouldUseLocalFiles?: boolean;
+}
+
+/**
+ * Register the TvShowService, RateLimiter, HttpClient and WebhookHttpClient
+ * Expects ConfigService and LoggerService to be registered by the caller
+ * @param dependencyContainer Container to register the services in
+ * @param options Registration options
+ */
+export function registerHttpServices(
+  dependencyContainer: DependencyContainer,
+  { shouldUseLocalFiles = true }: HttpServicesOptions = {}
+): void {
+  // Register the TvShowService for the configured provider
+  dependencyContainer.register<TvShowService>('TvShowService', {
+    useFactory: instanceCachingFactory((resolver) => {
+      const configService = resolver.resolve<ConfigService>('ConfigService');
+      return configService.getShowOptions().provider === 'xmltv'
+        ? resolver.resolve(XmltvServiceImpl)
+        : resolver.resolve(TvMazeServiceImpl);
+    })
+  });
+
+  // Register a single RateLimiter so every request shares the TVMaze request budget
+  dependencyContainer.register<RateLimiter>('RateLimiter', {
+    useFactory: instanceCachingFactory((resolver) => {
+      const configService = resolver.resolve<ConfigService>('ConfigService');
+      const logger = resolver.resolve<LoggerService>('LoggerService');
+      return new TokenBucketRateLimiterImpl(configService.getConfig().http?.rateLimit, logger);
+    })
+  });
+
+  // Register HttpClient with retries and rate limiting, wrapped in the on-disk
+  // response cache when configured; --replay serves recorded responses instead
+  // and --record writes every response to disk
+  dependencyContainer.register<HttpClient>('HttpClient', {
+    useFactory: (resolver) => {
+      const configService = resolver.resolve<ConfigService>('ConfigService');
+      const logger = resolver.resolve<LoggerService>('LoggerService');
+      const { record, replay } = shouldUseLocalFiles ? configService.getCliOptions() : {};
+      if (hasContent(replay)) {
+        return new ReplayHttpClientImpl(replay, logger);
+      }
+
+      const { cache: cacheConfig, http: httpConfig } = configService.getConfig();
+      let httpClient: HttpClient = new FetchHttpClientImpl({
+        retry: httpConfig?.retry,
+        rateLimiter: resolver.resolve<RateLimiter>('RateLimiter')
+      }, logger);
+      if (shouldUseLocalFiles && cacheConfig !== undefined && cacheConfig.enabled !== false) {
+        httpClient = new CachingHttpClientImpl(httpClient, cacheConfig, logger);
+      }
+      return hasContent(record)
+        ? new RecordingHttpClientImpl(httpClient, record, logger)
+        : httpClient;
+    }
+  });
+
+  // Register a separate client for outbound webhooks (Discord, Teams, generic),
+  // so posts neither wait on the TVMaze request budget nor go through the cache.
+  // Webhook URLs hold secret tokens, so they are never recorded or replayed and
+  // are only logged redacted
+  dependencyContainer.register<HttpClient>('WebhookHttpClient', {
+    useFactory: (resolver) => {
+      const configService = resolver.resolve<ConfigService>('ConfigService');
+      const logger = resolver.resolve<LoggerService>('LoggerService');
+      return new FetchHttpClientImpl({
+        retry: configService.getConfig().http?.retry,
+        shouldRedactUrls: true
+      }, logger);
+    }
+  });
+}
@@ -1,8 +1,14 @@
 import type { OutputService } from '../interfaces/outputService.js';
 import type { ConfigService } from '../interfaces/configService.js';
 import type { ShowFormatter } from '../interfaces/showFormatter.js';
-import type { Show } from '../schemas/domain.js';
-import { groupShowsByNetwork } from '../utils/showUtils.js';
+import type { DayGroups, NetworkGroups, Show } from '../schemas/domain.js';
+import { formatDate, getDateRange, parseDateString } from '../utils/dateUtils.js';
+import {
+  groupNetworksByChannelKind,
+  groupShowsByDay,
+  groupShowsByNetwork
+} from '../utils/showUtils.js';
+import { toCountryCodes } from '../utils/configUtils.js';
 
 /**
  * Base abstract class for output services
@@ -21,6 +27,35 @@ export abstract class BaseOutputServiceImpl<TOutput> implements OutputService {
     protected readonly configService: ConfigService
   ) {}
 
+  /**
+   * Render shows for a multi-day range
+   * @param dayGroups Shows grouped by day, then by network
+   */
+  private async renderDateRange(dayGroups: DayGroups): Promise<void> {
+    const days = Object.keys(dayGroups);
+    const startDate = parseDateString(days[0]);
+    const endDate = parseDateString(days.at(-1));
+
+    await this.renderRangeHeader(startDate, endDate);
+    for (const day of days) {
+      await this.renderDay(dayGroups[day], parseDateString(day));
+    }
+    await this.renderFooter();
+  }
+
+  /**
+   * Format network groups with the formatter, split into channel kind
+   * sections when groupByChannelKind is set
+   * @param networkGroups Shows grouped by network
+   * @returns Formatted output
+   */
+  protected formatNetworkGroups(networkGroups: NetworkGroups): TOutput[] {
+    if (this.configService.getShowOptions().groupByChannelKind === true) {
+      return this.showFormatter.formatChannelSections(groupNetworksByChannelKind(networkGroups));
+    }
+    return this.showFormatter.formatNetworkGroups(networkGroups);
+  }
+
   /**
    * Template method pattern for rendering output
    * This method defines the workflow and delegates specific steps to subclasses
@@ -30,8 +65,23 @@ export abstract class BaseOutputServiceImpl<TOutput> implements OutputService {
     try {
       // Get date from ConfigService - standardized approach
       const date = this.configService.getDate();
+
+      // Networks keep their country suffix when schedules from several countries are merged
+      const { endDate, country, networkAliases } = this.configService.getShowOptions();
+      const shouldKeepCountry = toCountryCodes(country).length > 1;
+
+      // A date range is rendered day by day, each day grouped by network
+      const dates = getDateRange(formatDate(date), endDate);
+      if (dates.length > 1) {
+        await this.renderDateRange(
+          groupShowsByDay(shows, dates, shouldKeepCountry, networkAliases)
+        );
+        return;
+      }
+
       // Common preprocessing logic
-      const networkGroups = groupShowsByNetwork(shows);
+      // Network aliases are resolved so each service appears under one heading
+      const networkGroups = groupShowsByNetwork(shows, shouldKeepCountry, networkAliases);
       
       // Debug information is now handled via structured logging (LoggerService.debug)
       // Set LOG_LEVEL=debug to see detailed debug information
@@ -44,6 +94,7 @@ export abstract class BaseOutputServiceImpl<TOutput> implements OutputService {
       await this.handleError(error);
     }
   }
+
   
   /**
    * Render the header section
@@ -61,6 +112,23 @@ export abstract class BaseOutputServiceImpl<TOutput> implements OutputService {
     date: Date
   ): Promise<void>;
   
+  /**
+   * Render the header section for a multi-day range
+   * @param startDate First day of the range
+   * @param endDate Last day of the range
+   */
+  protected abstract renderRangeHeader(startDate: Date, endDate: Date): Promise<void>;
+
+  /**
+   * Render the shows for a single day of a multi-day range
+   * @param networkGroups Shows airing that day, grouped by network
+   * @param date The day being rendered
+   */
+  protected abstract renderDay(
+    networkGroups: Record<string, Show[]>,
+    date: Date
+  ): Promise<void>;
+  
   /**
    * Render the footer section
    */
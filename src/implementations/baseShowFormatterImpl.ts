@@ -1,13 +1,15 @@
 import 'reflect-metadata';
 
 import type { ShowFormatter } from '../interfaces/showFormatter.js';
-import type { Show, NetworkGroups } from '../schemas/domain.js';
+import type { ChannelSection, Show, NetworkGroups } from '../schemas/domain.js';
 import {
   groupShowsByShowId,
   hasAirtime,
   allShowsHaveNoAirtime,
+  formatBadges,
   formatEpisodeInfo,
   formatNetworkName,
+  formatRuntime,
   formatShowType
 } from '../utils/formatUtils.js';
 import { sortShowsByTime, sortEpisodesByNumber } from '../utils/showUtils.js';
@@ -47,6 +49,45 @@ export abstract class BaseShowFormatterImpl<TOutput> implements ShowFormatter<TO
     );
   }
 
+  /**
+   * Format networks and their shows, without header and footer
+   * @param networkGroups Shows grouped by network
+   * @returns Formatted networks, separated by network separators
+   */
+  private formatNetworkList(networkGroups: NetworkGroups): TOutput[] {
+    const output: TOutput[] = [];
+
+    // Get network names and sort them alphabetically
+    const networks = Object.keys(networkGroups).sort((a, b) => a.localeCompare(b));
+    
+    // Process each network
+    for (const network of networks) {
+      // Get shows for this network
+      const shows = networkGroups[network];
+      
+      // Skip empty networks
+      if (!Array.isArray(shows) || shows.length === 0) {
+        continue;
+      }
+      
+      // Add separator between networks if needed
+      if (output.length > 0 && !this.isFirstNetwork(network, networks)) {
+        const separator = this.formatNetworkSeparator();
+        for (const item of separator) {
+          output.push(item);
+        }
+      }
+      
+      // Add the formatted network and its shows
+      const formattedNetwork = this.formatNetwork(network, shows);
+      for (const item of formattedNetwork) {
+        output.push(item);
+      }
+    }
+
+    return output;
+  }
+
   /**
    * Format a show with a specific airtime
    * @param show Show with a specific airtime
@@ -137,32 +178,9 @@ export abstract class BaseShowFormatterImpl<TOutput> implements ShowFormatter<TO
       output.push(item);
     }
     
-    // Get network names and sort them alphabetically
-    const networks = Object.keys(networkGroups).sort((a, b) => a.localeCompare(b));
-    
-    // Process each network
-    for (const network of networks) {
-      // Get shows for this network
-      const shows = networkGroups[network];
-      
-      // Skip empty networks
-      if (!Array.isArray(shows) || shows.length === 0) {
-        continue;
-      }
-      
-      // Add separator between networks if needed
-      if (output.length > 0 && !this.isFirstNetwork(network, networks)) {
-        const separator = this.formatNetworkSeparator();
-        for (const item of separator) {
-          output.push(item);
-        }
-      }
-      
-      // Add the formatted network and its shows
-      const formattedNetwork = this.formatNetwork(network, shows);
-      for (const item of formattedNetwork) {
-        output.push(item);
-      }
+    // Add the networks, sorted alphabetically
+    for (const item of this.formatNetworkList(networkGroups)) {
+      output.push(item);
     }
     
     // Add footer content
@@ -174,6 +192,35 @@ export abstract class BaseShowFormatterImpl<TOutput> implements ShowFormatter<TO
     return output;
   }
 
+  /**
+   * Format network groups split into sections by channel kind
+   * Each section has a heading followed by its networks, sorted alphabetically
+   * @param sections Sections of network groups, in display order
+   * @returns Formatted output for the sections
+   */
+  public formatChannelSections(sections: ChannelSection[]): TOutput[] {
+    const output: TOutput[] = [...this.formatHeader()];
+
+    let isFirstSection = true;
+    for (const section of sections) {
+      const networkOutput = this.formatNetworkList(section.networkGroups);
+      if (networkOutput.length === 0) {
+        continue;
+      }
+
+      // Sections are separated like networks
+      if (!isFirstSection) {
+        output.push(...this.formatNetworkSeparator());
+      }
+      isFirstSection = false;
+
+      output.push(...this.formatSectionHeader(section.title), ...networkOutput);
+    }
+
+    output.push(...this.formatFooter());
+    return output;
+  }
+
   /**
    * Format episode information in the format S01E01
    * @param show The show to format episode info for
@@ -201,6 +248,15 @@ export abstract class BaseShowFormatterImpl<TOutput> implements ShowFormatter<TO
     return formatShowType(type, this.UNKNOWN_TYPE);
   }
 
+  /**
+   * Format the premiere and finale badges of one or more episodes
+   * @param shows Episodes to collect badges from
+   * @returns Badge labels (empty when there are none)
+   */
+  protected formatBadges(shows: Show[]): string {
+    return formatBadges(shows);
+  }
+
   /**
    * Sort episodes by season and episode number
    * @param shows Shows to sort
@@ -217,14 +273,22 @@ export abstract class BaseShowFormatterImpl<TOutput> implements ShowFormatter<TO
    */
   protected prepareShowComponents(show: Show): {
     time: string;
+    timeZone: string;
     showName: string;
     episodeInfo: string;
     network: string;
     type: string;
+    episodeTitle: string;
+    runtime: string;
+    isFollowed: boolean;
+    badge: string;
   } {
     // Handle airtime with hasContent check
     const time = hasContent(show.airtime) ? show.airtime : this.NO_AIRTIME;
 
+    // Timezone abbreviation, only set when airtimes were converted
+    const timeZone = hasContent(show.airtimeZone) ? show.airtimeZone : '';
+
     // Handle show name with hasContent check
     const showName = hasContent(show.name) ? show.name : this.UNKNOWN_SHOW;
     
@@ -236,8 +300,20 @@ export abstract class BaseShowFormatterImpl<TOutput> implements ShowFormatter<TO
     
     // Handle show type with explicit null/undefined checks
     const type = this.formatShowType(show.type);
+
+    // Episode title and runtime are optional and empty when unknown
+    const episodeTitle = hasContent(show.episodeName) ? show.episodeName : '';
+    const runtime = formatRuntime(show.runtime);
+
+    // Followed shows are highlighted by the concrete formatters
+    const isFollowed = show.followed === true;
+
+    // Premiere/finale badge label, empty for regular episodes
+    const badge = this.formatBadges([show]);
     
-    return { time, showName, episodeInfo, network, type };
+    return {
+      time, timeZone, showName, episodeInfo, network, type, episodeTitle, runtime, isFollowed, badge
+    };
   }
 
   /**
@@ -272,6 +348,13 @@ export abstract class BaseShowFormatterImpl<TOutput> implements ShowFormatter<TO
    */
   protected abstract formatNetworkSeparator(): TOutput[];
 
+  /**
+   * Format the heading of a channel kind section
+   * @param title Section title (e.g., "Streaming")
+   * @returns Formatted section heading
+   */
+  protected abstract formatSectionHeader(title: string): TOutput[];
+
   /**
    * Check if this is the first network in the list
    * @param network Current network
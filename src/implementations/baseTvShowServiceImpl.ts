@@ -0,0 +1,398 @@
+/**
+ * Base class for TvShowService implementations
+ * Implements the template method pattern so every provider shares the same
+ * dedupe, followed-show, timezone and filter pipeline
+ */
+import type { LoggerService } from '../interfaces/loggerService.js';
+import type { FetchShowsOptions, TvShowService } from '../interfaces/tvShowService.js';
+import type { Show, ShowSearchResult } from '../schemas/domain.js';
+import type { ShowOptions } from '../schemas/config.js';
+import {
+  addDays,
+  convertToTimezone,
+  getDateRange,
+  getTodayDate,
+  isValidTimezone
+} from '../utils/dateUtils.js';
+import { safeResolve } from '../utils/errorHandling.js';
+import { filterByExpression, parseFilterExpression } from '../utils/filterExpressionUtils.js';
+import { getStringOrDefault, hasContent, isEmptyString } from '../utils/stringUtils.js';
+import {
+  filterByAirtime,
+  filterByChannelKind,
+  getEpisodeKey,
+  getNetworkName,
+  getPremiereBadge,
+  isFollowedShow,
+  normalizeNetworkName
+} from '../utils/showUtils.js';
+
+/**
+ * Base abstract class for TV show services
+ */
+export abstract class BaseTvShowServiceImpl implements TvShowService {
+  protected readonly logger: LoggerService;
+
+  /**
+   * Constructor
+   * @param logger Logger service for structured logging
+   * @param moduleName Module name added to every log entry
+   */
+  constructor(logger: LoggerService | undefined, moduleName: string) {
+    this.logger = logger?.child({ module: moduleName }) ?? {
+      error: () => { /* noop */ },
+      warn: () => { /* noop */ },
+      info: () => { /* noop */ },
+      debug: () => { /* noop */ },
+      child: () => this.logger
+    };
+  }
+
+  /**
+   * Escape special regex characters in a string for literal matching
+   * @param str String to escape
+   * @returns Escaped string safe for regex use
+   * @private
+   */
+  private escapeRegex(str: string): string {
+    return str.replaceAll(/[$()*+.?[\\\]^{|}]/g, String.raw`\$&`);
+  }
+
+  /**
+   * Flag shows that are on the followed shows list
+   * @param shows Shows to check
+   * @param followedShows TVMaze show IDs or show names
+   * @returns Shows, with followed ones marked
+   * @private
+   */
+  private markFollowedShows(shows: Show[], followedShows: ShowOptions['followedShows']): Show[] {
+    if (!Array.isArray(followedShows) || followedShows.length === 0) {
+      return shows;
+    }
+
+    return shows.map(show =>
+      isFollowedShow(show, followedShows) ? { ...show, followed: true } : show
+    );
+  }
+
+  /**
+   * Get the days whose schedules are needed for the requested days
+   * A display timezone can move episodes across midnight in either direction, so
+   * the day before and the day after are fetched too; convertAirtimes cuts the
+   * schedule back to the requested days.
+   * @param dates Requested days (YYYY-MM-DD)
+   * @param options Options with the display timezone
+   * @returns Days to fetch (YYYY-MM-DD)
+   * @private
+   */
+  private getScheduleDates(dates: string[], options: ShowOptions): string[] {
+    const timezone = options.displayTimezone;
+    if (!hasContent(timezone) || !isValidTimezone(timezone)) {
+      return dates;
+    }
+    return [addDays(dates[0], -1), ...dates, addDays(dates.at(-1) ?? dates[0], 1)];
+  }
+
+  /**
+   * Convert airtimes from network local time to the display timezone using airstamps
+   * The airdate moves with the airtime when the conversion crosses midnight, and
+   * only episodes on the requested days are kept afterwards.
+   * Shows without an airtime or airstamp keep their airtime and airdate unchanged.
+   * @param shows Shows to convert
+   * @param options Options with the display timezone
+   * @param dates Requested days (YYYY-MM-DD)
+   * @returns Shows with converted airtimes and airdates
+   * @private
+   */
+  private convertAirtimes(shows: Show[], options: ShowOptions, dates: string[]): Show[] {
+    const timezone = options.displayTimezone;
+    if (!hasContent(timezone)) {
+      return shows;
+    }
+    if (!isValidTimezone(timezone)) {
+      this.logger.warn({ timezone }, 'Unknown display timezone, keeping network airtimes');
+      return shows;
+    }
+
+    const requestedDates = new Set(dates);
+    return shows.flatMap(show => {
+      const local = hasContent(show.airtime) && hasContent(show.airstamp)
+        ? convertToTimezone(show.airstamp, timezone)
+        : null;
+      const converted: Show = local === null ? show : {
+        ...show,
+        airdate: local.date,
+        airtime: local.time,
+        ...(options.showTimezoneAbbreviation === true && { airtimeZone: local.abbreviation })
+      };
+      return hasContent(converted.airdate) && !requestedDates.has(converted.airdate)
+        ? []
+        : [converted];
+    });
+  }
+
+  /**
+   * Deduplicate shows based on unique combination of show ID and episode
+   * @param shows Shows to deduplicate
+   * @returns Deduplicated shows
+   * @private
+   */
+  private deduplicateShows(shows: Show[]): Show[] {
+    if (!Array.isArray(shows) || shows.length === 0) {
+      return [];
+    }
+
+    const seenKeys = new Set<string>();
+    const dedupedShows: Show[] = [];
+
+    for (const show of shows) {
+      // Create a unique key using show ID, season, and episode number
+      const key = getEpisodeKey(show);
+      if (!seenKeys.has(key)) {
+        seenKeys.add(key);
+        dedupedShows.push(show);
+      }
+    }
+
+    return dedupedShows;
+  }
+
+  /**
+   * Check whether a show is a special without an episode number
+   * Specials are left out of the schedule
+   * @param show Show to check
+   * @returns True when the show has no episode number
+   * @protected
+   */
+  protected isSpecial(show: Show): boolean {
+    return typeof show.number !== 'number' || show.number <= 0;
+  }
+
+  /**
+   * Apply filters to shows based on options
+   * @param shows Shows to filter
+   * @param options Filter options
+   * @returns Filtered shows
+   * @protected
+   */
+  protected applyFilters(shows: Show[], options: ShowOptions): Show[] {
+    if (!Array.isArray(shows) || shows.length === 0) {
+      return [];
+    }
+
+    let filteredShows = [...shows];
+
+    // Filter out shows without episode numbers (specials, etc.)
+    filteredShows = filteredShows.filter(show => !this.isSpecial(show));
+
+    // Followed shows bypass the remaining filters, so only filter the others
+    const candidates = filteredShows;
+    filteredShows = candidates.filter(show => show.followed !== true);
+
+    // Apply type filter
+    const typeValues = options.types;
+    if (Array.isArray(typeValues) && typeValues.length > 0) {
+      filteredShows = filteredShows.filter((show: Show) => {
+        return typeof show.type === 'string' &&
+               typeValues.some((type: string) =>
+                 show.type.toLowerCase() === type.toLowerCase()
+               );
+      });
+    }
+
+    // Apply network filter, resolving aliases on both sides
+    const networkValues = options.networks;
+    if (Array.isArray(networkValues) && networkValues.length > 0) {
+      const networkAliases = options.networkAliases ?? {};
+      const wantedNetworks = new Set(networkValues.map(network =>
+        normalizeNetworkName(network, networkAliases).toLowerCase()
+      ));
+      filteredShows = filteredShows.filter((show: Show) => {
+        if (typeof show.network !== 'string') {
+          return false;
+        }
+
+        // Remove country codes for exact matching
+        const showNetwork = getNetworkName(show, false, networkAliases).toLowerCase();
+
+        return wantedNetworks.has(showNetwork);
+      });
+    }
+
+    // Apply channel filter: streaming services, or linear (broadcast and cable) channels
+    filteredShows = filterByChannelKind(filteredShows, options.channels ?? 'all');
+
+    // Apply filter expression, ANDed with the list filters
+    filteredShows = filterByExpression(filteredShows, options.filter, options.networkAliases);
+
+    // Apply genre filter
+    const genreValues = options.genres;
+    if (Array.isArray(genreValues) && genreValues.length > 0) {
+      filteredShows = filteredShows.filter((show: Show) => {
+        return Array.isArray(show.genres) &&
+               genreValues.some((genre: string) =>
+                 show.genres.some((showGenre: string) =>
+                   showGenre.toLowerCase() === genre.toLowerCase()
+                 )
+               );
+      });
+    }
+
+    // Apply language filter
+    const languageValues = options.languages;
+    if (Array.isArray(languageValues) && languageValues.length > 0) {
+      filteredShows = filteredShows.filter((show: Show) => {
+        // Skip shows with no language
+        if (typeof show.language !== 'string') {
+          return false;
+        }
+
+        // Case-insensitive language matching
+        const showLanguage = show.language;
+        return languageValues.some((language: string) =>
+          showLanguage.toLowerCase() === language.toLowerCase()
+        );
+      });
+    }
+
+    // Apply airtime window filter, with per-network windows
+    filteredShows = filterByAirtime(filteredShows, options);
+
+    // Apply show name exclusion filter
+    const excludePatterns = options.excludeShowNames;
+    if (Array.isArray(excludePatterns) && excludePatterns.length > 0) {
+      const compiledPatterns = excludePatterns.map(pattern => {
+        try {
+          // eslint-disable-next-line security/detect-non-literal-regexp
+          return new RegExp(pattern, 'i');
+        } catch {
+          // Invalid regex - treat as literal string (input is escaped)
+          // eslint-disable-next-line security/detect-non-literal-regexp
+          return new RegExp(this.escapeRegex(pattern), 'i');
+        }
+      });
+
+      filteredShows = filteredShows.filter(show =>
+        compiledPatterns.every(regex => !regex.test(show.name))
+      );
+    }
+
+    // Add the followed shows back in their original order
+    const keptShows = new Set(filteredShows);
+    return candidates.filter(show => show.followed === true || keptShows.has(show));
+  }
+
+  /**
+   * Add premiere and finale badges to shows
+   * By default only premieres are detected, from the episode number alone;
+   * providers that know about season lengths can also add finales
+   * @param shows Shows to add badges to
+   * @param _shouldFindFinales Whether finale badges are wanted (unused here)
+   * @returns Shows, with badges set on premieres
+   * @protected
+   */
+  protected async addBadges(shows: Show[], _shouldFindFinales: boolean): Promise<Show[]> {
+    await safeResolve();
+    return shows.map(show => {
+      const badge = getPremiereBadge(show);
+      return badge === null ? show : { ...show, badge };
+    });
+  }
+
+  /**
+   * Fetch the unfiltered schedule for the requested days
+   * @param dates Days to fetch (YYYY-MM-DD)
+   * @param options Options for filtering shows
+   * @returns Promise resolving to every show airing on those days
+   * @protected
+   */
+  protected abstract fetchSchedule(dates: string[], options: ShowOptions): Promise<Show[]>;
+
+  /**
+   * Fetch TV shows based on the provided options
+   * @param options Options for filtering shows
+   * @param fetchOptions Per-call options; skipBadges also ignores premieresAndFinalesOnly
+   * @returns Promise resolving to an array of shows
+   */
+  async fetchShows(
+    options?: Partial<ShowOptions>,
+    fetchOptions: FetchShowsOptions = {}
+  ): Promise<Show[]> {
+    // Default options
+    const defaultOptions: ShowOptions = {
+      date: '',
+      country: 'US',
+      types: [],
+      genres: [],
+      languages: [],
+      networks: []
+    };
+
+    // Merge options with defaults
+    const mergedOptions: ShowOptions = {
+      ...defaultOptions,
+      ...options
+    };
+
+    // Get date string, default to today if not provided
+    const dateString = getStringOrDefault(mergedOptions.date, getTodayDate());
+
+    // Reject an invalid filter expression up front instead of returning no shows
+    const filter = mergedOptions.filter;
+    if (filter !== undefined && !isEmptyString(filter, true)) {
+      parseFilterExpression(filter);
+    }
+
+    try {
+      const dates = getDateRange(dateString, mergedOptions.endDate);
+      let shows = await this.fetchSchedule(
+        this.getScheduleDates(dates, mergedOptions),
+        mergedOptions
+      );
+
+      // Deduplicate shows (across days and sources) based on show ID and episode
+      shows = this.deduplicateShows(shows);
+
+      // Mark followed shows so they skip filtering and can be highlighted
+      shows = this.markFollowedShows(shows, mergedOptions.followedShows);
+
+      // Convert airtimes first so that minAirtime applies in the display timezone
+      shows = this.convertAirtimes(shows, mergedOptions, dates);
+
+      // Always apply filters - the applyFilters method will handle empty filter arrays
+      shows = this.applyFilters(shows, mergedOptions);
+
+      if (fetchOptions.skipBadges === true) {
+        return shows;
+      }
+
+      // Badges are added after filtering to limit any extra requests; finales may
+      // need a request per show, so they are only looked up when wanted
+      shows = await this.addBadges(
+        shows,
+        mergedOptions.finaleBadges === true || mergedOptions.premieresAndFinalesOnly === true
+      );
+      if (mergedOptions.premieresAndFinalesOnly === true) {
+        shows = shows.filter(show => show.badge !== undefined && show.badge !== null);
+      }
+
+      return shows;
+    } catch (error) {
+      // Log errors with structured logging for better observability
+      this.logger.error({
+        error: String(error),
+        options: mergedOptions,
+        environment: process.env.NODE_ENV,
+        stack: error instanceof Error ? error.stack : undefined
+      }, 'Failed to fetch TV shows');
+      return [];
+    }
+  }
+
+  /**
+   * Search for shows by name
+   * @param query Show name (or part of it) to search for
+   * @returns Promise resolving to matching shows, best match first
+   */
+  abstract searchShows(query: string): Promise<ShowSearchResult[]>;
+}
@@ -0,0 +1,234 @@
+/**
+ * Caching HTTP Client Implementation
+ *
+ * Decorates another HttpClient with a file-backed cache for GET requests.
+ * Fresh responses are served from disk; stale responses are revalidated with
+ * ETag/Last-Modified and served from disk when the network is unavailable.
+ */
+
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { z } from 'zod';
+import type {
+  HttpClient,
+  HttpResponse,
+  RequestOptions
+} from '../interfaces/httpClient.js';
+import type { LoggerService } from '../interfaces/loggerService.js';
+import type { HttpCacheConfig } from '../types/configTypes.js';
+import { httpCacheEntrySchema, type HttpCacheEntry } from '../schemas/http.js';
+
+/** Default number of seconds a cached response is considered fresh */
+export const DEFAULT_CACHE_TTL_SECONDS = 3600;
+
+/** HTTP status returned when a conditional request finds the resource unchanged */
+const NOT_MODIFIED = 304;
+
+/**
+ * Get the default cache directory, honouring XDG_CACHE_HOME when set
+ * @returns Absolute path to the cache directory
+ */
+export function getDefaultCacheDirectory(): string {
+  const xdgCacheHome = process.env.XDG_CACHE_HOME;
+  const baseDir = xdgCacheHome !== undefined && xdgCacheHome.trim() !== ''
+    ? xdgCacheHome
+    : path.join(os.homedir(), '.cache');
+  return path.join(baseDir, 'whatsontv');
+}
+
+/**
+ * HttpClient decorator that persists GET responses to disk
+ */
+export class CachingHttpClientImpl implements HttpClient {
+  private readonly directory: string;
+  private readonly ttlSeconds: number;
+  private readonly urlTtls: [string, number][];
+  private readonly logger: LoggerService;
+
+  /**
+   * Creates a new caching HTTP client
+   * @param httpClient Client used for requests that cannot be served from the cache
+   * @param options Cache configuration (location and TTLs)
+   * @param logger Logger service for structured logging
+   * @param now Clock used to compute entry age (injectable for tests)
+   */
+  constructor(
+    private readonly httpClient: HttpClient,
+    options: HttpCacheConfig = {},
+    logger?: LoggerService,
+    private readonly now: () => number = Date.now
+  ) {
+    this.directory = options.directory ?? getDefaultCacheDirectory();
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_CACHE_TTL_SECONDS;
+    // Longest pattern first so the most specific override wins
+    this.urlTtls = Object.entries(options.urlTtls ?? {})
+      .sort(([a], [b]) => b.length - a.length);
+    this.logger = logger?.child({ module: 'HttpCache' }) ?? {
+      error: () => { /* noop */ },
+      warn: () => { /* noop */ },
+      info: () => { /* noop */ },
+      debug: () => { /* noop */ },
+      child: () => this.logger
+    };
+  }
+
+  /**
+   * Resolve the TTL for a URL from the per-URL overrides or the default
+   * @param url Request URL
+   * @returns TTL in seconds
+   */
+  private getTtlSeconds(url: string): number {
+    const match = this.urlTtls.find(([pattern]) => url.includes(pattern));
+    return match === undefined ? this.ttlSeconds : match[1];
+  }
+
+  /**
+   * Build the cache file path for a request
+   * Query options are part of the key; headers and timeouts are not
+   * @param url Request URL
+   * @param options Request options
+   * @returns Absolute path to the cache file
+   */
+  private getCachePath(url: string, options?: RequestOptions): string {
+    const keySource = JSON.stringify([url, options?.query, options?.param]);
+    const key = createHash('sha256').update(keySource).digest('hex');
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  /**
+   * Read a cache entry, treating missing or corrupt files as a miss
+   * @param cachePath Cache file path
+   * @returns The cached entry or undefined
+   */
+  private async readEntry(cachePath: string): Promise<HttpCacheEntry | undefined> {
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      const contents = await fs.readFile(cachePath, 'utf8');
+      const result = httpCacheEntrySchema.safeParse(JSON.parse(contents));
+      return result.success ? result.data : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write a cache entry; failures are logged and otherwise ignored
+   * @param cachePath Cache file path
+   * @param entry Entry to persist
+   */
+  private async writeEntry(cachePath: string, entry: HttpCacheEntry): Promise<void> {
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      await fs.mkdir(this.directory, { recursive: true });
+      // Write to a temp file first so concurrent readers never see a partial entry
+      const temporaryPath = `${cachePath}.${process.pid}.tmp`;
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      await fs.writeFile(temporaryPath, JSON.stringify(entry), 'utf8');
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      await fs.rename(temporaryPath, cachePath);
+    } catch (error) {
+      this.logger.warn(
+        { error: String(error), url: entry.url },
+        'Failed to write HTTP cache entry'
+      );
+    }
+  }
+
+  /**
+   * Build conditional request headers from a cached entry
+   * @param entry Cached entry, if any
+   * @returns Headers for revalidation
+   */
+  private getConditionalHeaders(entry?: HttpCacheEntry): Record<string, string> {
+    return {
+      ...(entry?.etag !== undefined && { 'If-None-Match': entry.etag }),
+      ...(entry?.lastModified !== undefined && { 'If-Modified-Since': entry.lastModified })
+    };
+  }
+
+  /**
+   * Convert a cache entry to a response, validating it against the schema if provided
+   * @param entry Cached entry
+   * @param schema Optional Zod schema to validate the data
+   * @returns Response built from the entry
+   */
+  private toResponse<T>(entry: HttpCacheEntry, schema?: z.ZodType): HttpResponse<T> {
+    const data = schema ? schema.parse(entry.data) : entry.data;
+    return { data: data as T, status: entry.status, headers: entry.headers };
+  }
+
+  /**
+   * Make a GET request, serving from the cache when possible
+   * @param url The URL to request
+   * @param options Optional request options
+   * @param schema Optional Zod schema to validate the response
+   * @returns Promise resolving to the response
+   */
+  async get<T>(
+    url: string,
+    options?: RequestOptions,
+    schema?: z.ZodType
+  ): Promise<HttpResponse<T>> {
+    const cachePath = this.getCachePath(url, options);
+    const cached = await this.readEntry(cachePath);
+
+    if (cached !== undefined && this.now() - cached.storedAt < this.getTtlSeconds(url) * 1000) {
+      this.logger.debug({ url }, 'HTTP cache hit');
+      return this.toResponse<T>(cached, schema);
+    }
+
+    let response: HttpResponse<unknown>;
+    try {
+      response = await this.httpClient.get<unknown>(url, {
+        ...options,
+        headers: { ...options?.headers, ...this.getConditionalHeaders(cached) }
+      });
+    } catch (error) {
+      if (cached === undefined) {
+        throw error;
+      }
+      // Offline or upstream failure: a stale response beats no response
+      this.logger.warn({ url, error: String(error) }, 'Serving stale HTTP cache entry');
+      return this.toResponse<T>(cached, schema);
+    }
+
+    if (response.status === NOT_MODIFIED && cached !== undefined) {
+      this.logger.debug({ url }, 'HTTP cache entry revalidated');
+      await this.writeEntry(cachePath, { ...cached, storedAt: this.now() });
+      return this.toResponse<T>(cached, schema);
+    }
+
+    const entry: HttpCacheEntry = {
+      url,
+      storedAt: this.now(),
+      status: response.status,
+      headers: response.headers,
+      data: response.data,
+      etag: response.headers.etag,
+      lastModified: response.headers['last-modified']
+    };
+    if (response.status >= 200 && response.status < 300) {
+      await this.writeEntry(cachePath, entry);
+    }
+    return this.toResponse<T>(entry, schema);
+  }
+
+  /**
+   * Make a POST request (never cached)
+   * @param url The URL to request
+   * @param data Optional request body
+   * @param options Optional request options
+   * @param schema Optional Zod schema to validate the response
+   * @returns Promise resolving to the response
+   */
+  async post<T, D = unknown>(
+    url: string,
+    data?: D,
+    options?: RequestOptions,
+    schema?: z.ZodType
+  ): Promise<HttpResponse<T>> {
+    return await this.httpClient.post<T, D>(url, data, options, schema);
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * CSV Output Service Implementation
+ *
+ * Writes the filtered schedule as CSV, one row per episode, to stdout or to the
+ * file given with --output, for loading into spreadsheets.
+ */
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { ConfigService } from '../../interfaces/configService.js';
+import type { OutputService } from '../../interfaces/outputService.js';
+import type { ProcessOutput } from '../../interfaces/processOutput.js';
+import type { NetworkGroups, Show } from '../../schemas/domain.js';
+import { toCountryCodes } from '../../utils/configUtils.js';
+import { CSV_COLUMNS, createCsv, createCsvRecord, type CsvRecord } from '../../utils/csvUtils.js';
+import { formatDate, getDateRange } from '../../utils/dateUtils.js';
+import { formatError } from '../../utils/errorHandling.js';
+import { writeTextFile } from '../../utils/fileUtils.js';
+import { groupShowsByDay, sortShowsByTime } from '../../utils/showUtils.js';
+import { hasContent } from '../../utils/stringUtils.js';
+
+/**
+ * Output service that writes the schedule as CSV
+ */
+@injectable()
+export class CsvOutputServiceImpl implements OutputService {
+  /**
+   * Create a new CsvOutputService
+   * @param output Process output, used for stdout and errors
+   * @param configService Configuration service
+   */
+  constructor(
+    @inject('ProcessOutput') private readonly output: ProcessOutput,
+    @inject('ConfigService') private readonly configService: ConfigService
+  ) {}
+
+  /**
+   * Build the records of one day, sorted by airtime
+   * @param date Airdate (YYYY-MM-DD)
+   * @param networkGroups Shows airing that day, grouped by network
+   * @returns One record per episode
+   */
+  private toDayRecords(date: string, networkGroups: NetworkGroups): CsvRecord[] {
+    const networks = new Map<Show, string>();
+    for (const [network, shows] of Object.entries(networkGroups)) {
+      for (const show of shows) {
+        networks.set(show, network);
+      }
+    }
+
+    return sortShowsByTime(Object.values(networkGroups).flat())
+      .map(show => createCsvRecord(show, date, networks.get(show) ?? ''));
+  }
+
+  /**
+   * Build the CSV document for the shows
+   * @param shows Filtered shows
+   * @returns CSV document with the selected columns (all by default)
+   */
+  private createDocument(shows: Show[]): string {
+    const options = this.configService.getShowOptions();
+    const date = formatDate(this.configService.getDate());
+    const dates = getDateRange(date, options.endDate);
+    const shouldKeepCountry = toCountryCodes(options.country).length > 1;
+    const dayGroups = groupShowsByDay(shows, dates, shouldKeepCountry, options.networkAliases);
+    const columns = this.configService.getCliOptions().csvColumns ?? CSV_COLUMNS;
+
+    return createCsv(dates.flatMap(day => this.toDayRecords(day, dayGroups[day])), columns);
+  }
+
+  /**
+   * Write the schedule as CSV to stdout, or to the --output file
+   * @param shows Filtered shows
+   */
+  public async renderOutput(shows: Show[]): Promise<void> {
+    try {
+      const csv = this.createDocument(shows);
+      const outputFile = this.configService.getCliOptions().outputFile;
+      if (!hasContent(outputFile)) {
+        this.output.log(csv.trimEnd());
+        return;
+      }
+
+      await writeTextFile(outputFile, csv);
+    } catch (error) {
+      this.output.error(formatError(error, 'Error writing CSV output: '));
+    }
+  }
+}
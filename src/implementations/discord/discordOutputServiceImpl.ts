@@ -0,0 +1,151 @@
+import { inject, injectable } from 'tsyringe';
+import type { DiscordShowFormatter } from '../../interfaces/showFormatter.js';
+import type { ConfigService } from '../../interfaces/configService.js';
+import type { DiscordClient, DiscordEmbedField } from '../../interfaces/discordClient.js';
+import type { LoggerService } from '../../interfaces/loggerService.js';
+import type { Show } from '../../schemas/domain.js';
+import { BaseOutputServiceImpl } from '../baseOutputServiceImpl.js';
+import { formatDate, formatWeekday } from '../../utils/dateUtils.js';
+import { createDiscordMessages, DISCORD_LIMITS } from '../../utils/discordUtils.js';
+import { formatError, safeResolve } from '../../utils/errorHandling.js';
+import { truncateString } from '../../utils/stringUtils.js';
+
+/** Footer of the last embed of each schedule */
+const ATTRIBUTION = 'Data provided by TVMaze API';
+
+/**
+ * Discord implementation of the OutputService interface
+ * Posts TV show information to a Discord webhook as embeds
+ * Extends the BaseOutputServiceImpl abstract class
+ */
+@injectable()
+export class DiscordOutputServiceImpl extends BaseOutputServiceImpl<DiscordEmbedField> {
+  private readonly discordClient: DiscordClient;
+  private readonly logger: LoggerService;
+
+  constructor(
+    @inject('DiscordShowFormatter') formatter: DiscordShowFormatter,
+    @inject('DiscordClient') discordClient: DiscordClient,
+    @inject('ConfigService') configService: ConfigService,
+    @inject('LoggerService') logger?: LoggerService
+  ) {
+    super(formatter, configService);
+    this.discordClient = discordClient;
+    this.logger = logger?.child({ module: 'DiscordOutputService' }) ?? {
+      error: () => { /* noop */ },
+      warn: () => { /* noop */ },
+      info: () => { /* noop */ },
+      debug: () => { /* noop */ },
+      child: () => this.logger
+    };
+  }
+
+  /**
+   * Post the schedule as one or more messages, within Discord's embed limits
+   * @param networkGroups Shows grouped by network
+   * @param title Title of the first embed of each message
+   */
+  private async sendSchedule(
+    networkGroups: Record<string, Show[]>,
+    title: string
+  ): Promise<void> {
+    const messages = createDiscordMessages(
+      title,
+      this.formatNetworkGroups(networkGroups),
+      ATTRIBUTION,
+      'No shows found for the specified criteria.'
+    );
+
+    // Post in order, so the messages read as one schedule
+    for (const message of messages) {
+      await this.discordClient.sendMessage(message);
+    }
+  }
+
+  /**
+   * Render the header section
+   * The title is part of the embeds posted in renderContent(), so this is a no-op
+   * @param _date The date for which shows are being displayed (unused here)
+   */
+  protected async renderHeader(_date: Date): Promise<void> {
+    await safeResolve();
+  }
+
+  /**
+   * Render the main content section
+   * @param networkGroups Shows grouped by network
+   * @param date The date for which shows are being displayed
+   */
+  protected async renderContent(
+    networkGroups: Record<string, Show[]>,
+    date: Date
+  ): Promise<void> {
+    await this.sendSchedule(networkGroups, `TV Shows for ${formatDate(date)}`);
+  }
+
+  /**
+   * Render the header section for a multi-day range
+   * Each day is posted on its own, so there is no separate range header
+   * @param _startDate First day of the range (unused here)
+   * @param _endDate Last day of the range (unused here)
+   */
+  protected async renderRangeHeader(_startDate: Date, _endDate: Date): Promise<void> {
+    await safeResolve();
+  }
+
+  /**
+   * Render the shows for a single day of a multi-day range
+   * Days without shows are skipped
+   * @param networkGroups Shows airing that day, grouped by network
+   * @param date The day being rendered
+   */
+  protected async renderDay(
+    networkGroups: Record<string, Show[]>,
+    date: Date
+  ): Promise<void> {
+    if (Object.keys(networkGroups).length === 0) {
+      return;
+    }
+    await this.sendSchedule(
+      networkGroups,
+      `TV Shows for ${formatWeekday(date)}, ${formatDate(date)}`
+    );
+  }
+
+  /**
+   * Render the footer section
+   * The attribution is the footer of the last embed, so this is a no-op
+   */
+  protected async renderFooter(): Promise<void> {
+    await safeResolve();
+  }
+
+  /**
+   * Handle errors that occur during rendering
+   * @param error The error that occurred
+   */
+  protected async handleError(error: unknown): Promise<void> {
+    const errorMessage = formatError(error);
+
+    this.logger.error({
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined
+    }, 'Error rendering Discord output');
+
+    // Attempt to post the error to the channel
+    try {
+      await this.discordClient.sendMessage({
+        content: truncateString(
+          `Error fetching TV shows: ${errorMessage}`,
+          DISCORD_LIMITS.content,
+          '…'
+        )
+      });
+    } catch (sendError) {
+      this.logger.error({
+        originalError: errorMessage,
+        sendError: formatError(sendError)
+      }, 'Failed to send error message to Discord');
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import 'reflect-metadata';
+import { injectable } from 'tsyringe';
+
+import type { DiscordEmbedField } from '../../interfaces/discordClient.js';
+import type { DiscordShowFormatter } from '../../interfaces/showFormatter.js';
+import type { Show } from '../../schemas/domain.js';
+import { formatTimeWithPeriod } from '../../utils/dateUtils.js';
+import { splitFieldValue } from '../../utils/discordUtils.js';
+import { hasAirtime } from '../../utils/formatUtils.js';
+import { formatEpisodeRanges } from '../../utils/showUtils.js';
+import { escapeMarkdown, hasContent } from '../../utils/stringUtils.js';
+import { BaseShowFormatterImpl } from '../baseShowFormatterImpl.js';
+
+/**
+ * Formats TV show data into Discord embed fields, one field per network
+ * Networks with more shows than fit in one field continue in further fields.
+ */
+@injectable()
+export class DiscordShowFormatterImpl extends BaseShowFormatterImpl<DiscordEmbedField>
+  implements DiscordShowFormatter {
+  /** Prefix that highlights followed shows */
+  private readonly FOLLOWED_MARKER = '★';
+
+  /** Discord requires field values; a zero-width space renders as nothing */
+  private readonly EMPTY_VALUE = '\u{200B}';
+
+  /**
+   * Format a show as one line of a field value
+   * @param show Show to format
+   * @param customEpisodeInfo Optional episode range to override the episode info
+   * @param customBadge Optional badges to override the show's own badge
+   * @returns Field with the show name and the line in Discord markdown
+   */
+  private formatShow(
+    show: Show,
+    customEpisodeInfo?: string,
+    customBadge?: string
+  ): DiscordEmbedField {
+    const components = this.prepareShowComponents(show);
+    const showName = components.isFollowed
+      ? `${this.FOLLOWED_MARKER} **${escapeMarkdown(components.showName)}**`
+      : escapeMarkdown(components.showName);
+
+    // Episode title only applies to a single episode, not a range
+    const episodeInfo = hasContent(customEpisodeInfo) ? customEpisodeInfo : components.episodeInfo;
+    const episodeTitle = hasContent(customEpisodeInfo) ? '' : components.episodeTitle;
+    const badge = customBadge ?? components.badge;
+
+    const details = [
+      ...(hasAirtime(show)
+        ? [`${formatTimeWithPeriod(show.airtime)} ${components.timeZone}`.trim()]
+        : []),
+      ...(hasContent(components.runtime) ? [components.runtime] : [])
+    ];
+    const value = [
+      `• ${showName}`,
+      escapeMarkdown(episodeInfo),
+      ...(hasContent(episodeTitle) ? [`*${escapeMarkdown(episodeTitle)}*`] : []),
+      ...(hasContent(badge) ? [`**${badge}**`] : []),
+      ...(details.length > 0 ? [`(${details.join(', ')})`] : [])
+    ].join(' ');
+
+    return { name: components.showName, value };
+  }
+
+  /**
+   * Format a show with a specific airtime
+   * @param show Show with a specific airtime
+   * @returns Field for the show
+   */
+  public formatTimedShow(show: Show): DiscordEmbedField {
+    return this.formatShow(show);
+  }
+
+  /**
+   * Format a show with no specific airtime (TBA)
+   * @param show Show with no specific airtime
+   * @returns Field for the show
+   */
+  public formatUntimedShow(show: Show): DiscordEmbedField {
+    return this.formatShow(show);
+  }
+
+  /**
+   * Format multiple episodes of the same show as one line with an episode range
+   * @param shows Multiple episodes of the same show
+   * @returns Fields for the episodes
+   */
+  public formatMultipleEpisodes(shows: Show[]): DiscordEmbedField[] {
+    if (!Array.isArray(shows) || shows.length === 0) {
+      return [];
+    }
+
+    const sortedEpisodes = this.sortEpisodesByNumber(shows);
+    return [this.formatShow(
+      sortedEpisodes[0],
+      formatEpisodeRanges(sortedEpisodes),
+      this.formatBadges(sortedEpisodes)
+    )];
+  }
+
+  /**
+   * Format a single network and its shows as embed fields
+   * The show lines are split over several fields when they exceed the field value limit
+   * @param network Network name
+   * @param shows Shows in the network
+   * @returns Fields named after the network
+   */
+  public override formatNetwork(network: string, shows: Show[]): DiscordEmbedField[] {
+    if (shows.length === 0) {
+      return this.formatEmptyNetwork(network);
+    }
+
+    const name = this.formatNetworkName(network);
+    const lines = super.formatNetwork(network, shows).map(field => field.value);
+    return splitFieldValue(lines).map((value, index) => ({
+      value,
+      name: index === 0 ? name : `${name} (continued)`
+    }));
+  }
+
+  /**
+   * Format the header for network display (not used; the network is the field name)
+   * @param _network The network name
+   * @returns Empty array
+   */
+  protected formatNetworkHeader(_network: string): DiscordEmbedField[] {
+    return [];
+  }
+
+  /**
+   * Format content for an empty network
+   * @param network The network name
+   * @returns Field for the network
+   */
+  protected formatEmptyNetwork(network: string): DiscordEmbedField[] {
+    return [{ name: this.formatNetworkName(network), value: 'No shows found' }];
+  }
+
+  /**
+   * Format the header content for the network groups
+   * The title is added by DiscordOutputServiceImpl, so there is no header here
+   * @returns Empty array
+   */
+  protected formatHeader(): DiscordEmbedField[] {
+    return [];
+  }
+
+  /**
+   * Format the footer content for the network groups
+   * The attribution is the embed footer added by DiscordOutputServiceImpl
+   * @returns Empty array
+   */
+  protected formatFooter(): DiscordEmbedField[] {
+    return [];
+  }
+
+  /**
+   * Format separator between networks
+   * @returns Empty array; fields are separated by Discord
+   */
+  protected formatNetworkSeparator(): DiscordEmbedField[] {
+    return [];
+  }
+
+  /**
+   * Format the heading of a channel kind section
+   * @param title Section title (e.g., "Streaming")
+   * @returns Field with the underlined title and no value
+   */
+  protected formatSectionHeader(title: string): DiscordEmbedField[] {
+    return [{ name: `__${title}__`, value: this.EMPTY_VALUE }];
+  }
+}
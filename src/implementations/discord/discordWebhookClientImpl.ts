@@ -0,0 +1,88 @@
+import { injectable, inject } from 'tsyringe';
+import type { ConfigService } from '../../interfaces/configService.js';
+import type { DiscordClient, DiscordWebhookMessage } from '../../interfaces/discordClient.js';
+import type { HttpClient } from '../../interfaces/httpClient.js';
+import type { LoggerService } from '../../interfaces/loggerService.js';
+import type { DiscordConfig } from '../../types/configTypes.js';
+
+/** Webhook name when none is configured */
+const DEFAULT_USERNAME = 'WhatsOnTV';
+
+/**
+ * Implementation of the DiscordClient interface
+ * Posts messages to the webhook from the discord config through the WebhookHttpClient
+ */
+@injectable()
+export class DiscordWebhookClientImpl implements DiscordClient {
+  private readonly _options: DiscordConfig;
+  private readonly logger: LoggerService;
+
+  /**
+   * Creates a new DiscordWebhookClientImpl instance
+   * @param configService The configuration service
+   * @param httpClient HTTP client used to post to the webhook
+   * @param logger The logger service
+   * @throws Error if the config has no discord section
+   */
+  constructor(
+    @inject('ConfigService') private readonly configService: ConfigService,
+    @inject('WebhookHttpClient') private readonly httpClient: HttpClient,
+    @inject('LoggerService') logger?: LoggerService
+  ) {
+    const discordConfig = this.configService.getConfig().discord;
+    if (discordConfig === undefined) {
+      throw new Error('Discord is not configured: add a "discord" section to config.json');
+    }
+    this._options = discordConfig;
+    this.logger = logger?.child({ module: 'DiscordWebhookClient' }) ?? {
+      error: () => { /* noop */ },
+      warn: () => { /* noop */ },
+      info: () => { /* noop */ },
+      debug: () => { /* noop */ },
+      child: () => this.logger
+    };
+  }
+
+  /**
+   * Remove the webhook URL, which includes its secret token, from an error
+   * @param error Error thrown while posting
+   * @returns Error message without the webhook URL
+   */
+  private redactError(error: unknown): string {
+    return String(error).replaceAll(this._options.webhookUrl, '<webhook URL>');
+  }
+
+  /**
+   * Post a message to the configured webhook
+   * @param message The message to post
+   * @returns Promise resolving when Discord has accepted the message
+   */
+  public async sendMessage(message: DiscordWebhookMessage): Promise<void> {
+    const startTime = Date.now();
+    const embedsCount = message.embeds?.length ?? 0;
+    try {
+      const response = await this.httpClient.post<unknown, DiscordWebhookMessage>(
+        this._options.webhookUrl,
+        {
+          username: this._options.username ?? DEFAULT_USERNAME,
+          ...(this._options.avatarUrl !== undefined && { avatar_url: this._options.avatarUrl }),
+          ...message
+        }
+      );
+
+      this.logger.info({
+        embedsCount,
+        status: response.status,
+        duration: Date.now() - startTime
+      }, 'Successfully sent Discord message');
+    } catch (error) {
+      const errorMessage = this.redactError(error);
+      this.logger.error({
+        embedsCount,
+        error: errorMessage,
+        duration: Date.now() - startTime
+      }, 'Failed to send Discord message');
+      throw new Error(`Failed to send Discord message: ${errorMessage}`, { cause: error });
+    }
+  }
+}
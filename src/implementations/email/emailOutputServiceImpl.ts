@@ -0,0 +1,195 @@
+import { inject, injectable } from 'tsyringe';
+import type { ConfigService } from '../../interfaces/configService.js';
+import type { EmailClient, EmailDigestPart } from '../../interfaces/emailClient.js';
+import type { LoggerService } from '../../interfaces/loggerService.js';
+import type { EmailShowFormatter } from '../../interfaces/showFormatter.js';
+import type { Show } from '../../schemas/domain.js';
+import { BaseOutputServiceImpl } from '../baseOutputServiceImpl.js';
+import { formatDate, formatWeekday } from '../../utils/dateUtils.js';
+import { formatError, safeResolve } from '../../utils/errorHandling.js';
+import { createSeparator, escapeHtml, hasContent } from '../../utils/stringUtils.js';
+
+/** Attribution at the end of every digest */
+const ATTRIBUTION = 'Data provided by TVMaze API (https://api.tvmaze.com)';
+
+/**
+ * Email implementation of the OutputService interface
+ * Collects the schedule into one HTML and plain-text digest and sends it when
+ * rendering is complete
+ * Extends the BaseOutputServiceImpl abstract class
+ */
+@injectable()
+export class EmailOutputServiceImpl extends BaseOutputServiceImpl<EmailDigestPart> {
+  private readonly emailClient: EmailClient;
+  private readonly logger: LoggerService;
+  private subject = '';
+  private parts: EmailDigestPart[] = [];
+
+  constructor(
+    @inject('EmailShowFormatter') formatter: EmailShowFormatter,
+    @inject('EmailClient') emailClient: EmailClient,
+    @inject('ConfigService') configService: ConfigService,
+    @inject('LoggerService') logger?: LoggerService
+  ) {
+    super(formatter, configService);
+    this.emailClient = emailClient;
+    this.logger = logger?.child({ module: 'EmailOutputService' }) ?? {
+      error: () => { /* noop */ },
+      warn: () => { /* noop */ },
+      info: () => { /* noop */ },
+      debug: () => { /* noop */ },
+      child: () => this.logger
+    };
+  }
+
+  /**
+   * Build the HTML body of the digest
+   * @returns Complete HTML document
+   */
+  private createHtml(): string {
+    const body = this.parts
+      .map(part => part.html)
+      .filter(html => html !== '')
+      .join('\n');
+    const title = escapeHtml(this.subject);
+    return [
+      '<!DOCTYPE html>',
+      '<html>',
+      `<head><meta charset="utf-8"><title>${title}</title></head>`,
+      '<body style="font-family:Arial,Helvetica,sans-serif;font-size:14px;color:#222222">',
+      `<h1 style="font-size:20px">${title}</h1>`,
+      body,
+      `<p style="margin-top:24px;font-size:12px;color:#888888">${escapeHtml(ATTRIBUTION)}</p>`,
+      '</body>',
+      '</html>'
+    ].join('\n');
+  }
+
+  /**
+   * Build the plain-text body of the digest
+   * @returns Plain-text digest
+   */
+  private createText(): string {
+    return [
+      this.subject,
+      createSeparator(this.subject.length, '='),
+      '',
+      ...this.parts.map(part => part.text),
+      '',
+      createSeparator(),
+      ATTRIBUTION
+    ].join('\n');
+  }
+
+  /**
+   * Start a new digest
+   * @param subject Subject of the email
+   */
+  private startDigest(subject: string): void {
+    this.subject = subject;
+    this.parts = [];
+  }
+
+  /**
+   * Render the header section
+   * The header is the subject and title of the email sent in renderFooter()
+   * @param date The date for which shows are being displayed
+   */
+  protected async renderHeader(date: Date): Promise<void> {
+    await safeResolve();
+    this.startDigest(`TV Shows for ${formatDate(date)}`);
+  }
+
+  /**
+   * Render the main content section
+   * @param networkGroups Shows grouped by network
+   * @param _date The date for which shows are being displayed (unused here)
+   */
+  protected async renderContent(
+    networkGroups: Record<string, Show[]>,
+    _date: Date
+  ): Promise<void> {
+    await safeResolve();
+
+    if (Object.keys(networkGroups).length === 0) {
+      const message = 'No shows found for the specified criteria.';
+      this.parts.push({ html: `<p>${message}</p>`, text: message });
+      return;
+    }
+
+    this.parts.push(...this.formatNetworkGroups(networkGroups));
+  }
+
+  /**
+   * Render the header section for a multi-day range
+   * @param startDate First day of the range
+   * @param endDate Last day of the range
+   */
+  protected async renderRangeHeader(startDate: Date, endDate: Date): Promise<void> {
+    await safeResolve();
+    this.startDigest(`TV Shows for ${formatDate(startDate)} to ${formatDate(endDate)}`);
+  }
+
+  /**
+   * Render the shows for a single day of a multi-day range
+   * All days go into the same email, each under its own heading
+   * @param networkGroups Shows airing that day, grouped by network
+   * @param date The day being rendered
+   */
+  protected async renderDay(
+    networkGroups: Record<string, Show[]>,
+    date: Date
+  ): Promise<void> {
+    const dayHeader = `${formatWeekday(date)}, ${formatDate(date)}`;
+    this.parts.push({
+      html: '<h2 style="margin:24px 0 6px 0;border-bottom:1px solid #dddddd">' +
+        `${escapeHtml(dayHeader)}</h2>`,
+      text: `\n${dayHeader}\n${createSeparator(dayHeader.length, '-')}\n`
+    });
+
+    await this.renderContent(networkGroups, date);
+  }
+
+  /**
+   * Render the footer section
+   * Sends the collected digest as a single email
+   */
+  protected async renderFooter(): Promise<void> {
+    await this.emailClient.sendMail({
+      subject: this.subject,
+      html: this.createHtml(),
+      text: this.createText()
+    });
+  }
+
+  /**
+   * Handle errors that occur during rendering
+   * The error is sent to the operations address when configured, otherwise to
+   * the digest recipients
+   * @param error The error that occurred
+   */
+  protected async handleError(error: unknown): Promise<void> {
+    const errorMessage = formatError(error);
+    const { operationsEmail } = this.configService.getConfig();
+
+    this.logger.error({
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined
+    }, 'Error rendering email output');
+
+    const text = `Error fetching TV shows: ${errorMessage}`;
+    try {
+      await this.emailClient.sendMail({
+        ...(hasContent(operationsEmail) && { to: [operationsEmail] }),
+        text,
+        subject: 'WhatsOnTV error',
+        html: `<p>${escapeHtml(text)}</p>`
+      });
+    } catch (sendError) {
+      this.logger.error({
+        originalError: errorMessage,
+        sendError: formatError(sendError)
+      }, 'Failed to send error email');
+    }
+  }
+}
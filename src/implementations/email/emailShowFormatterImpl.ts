@@ -0,0 +1,170 @@
+import 'reflect-metadata';
+import { injectable } from 'tsyringe';
+
+import type { EmailDigestPart } from '../../interfaces/emailClient.js';
+import type { EmailShowFormatter } from '../../interfaces/showFormatter.js';
+import type { Show } from '../../schemas/domain.js';
+import { formatTimeWithPeriod } from '../../utils/dateUtils.js';
+import { formatNetworkHeader, hasAirtime } from '../../utils/formatUtils.js';
+import { formatEpisodeRanges } from '../../utils/showUtils.js';
+import { escapeHtml, hasContent } from '../../utils/stringUtils.js';
+import { BaseShowFormatterImpl } from '../baseShowFormatterImpl.js';
+
+/**
+ * Formats TV show data into the HTML and plain-text parts of an email digest
+ */
+@injectable()
+export class EmailShowFormatterImpl extends BaseShowFormatterImpl<EmailDigestPart>
+  implements EmailShowFormatter {
+  /** Prefix that highlights followed shows */
+  private readonly FOLLOWED_MARKER = '★';
+
+  /**
+   * Format a show as one line of the digest
+   * @param show Show to format
+   * @param customEpisodeInfo Optional episode range to override the episode info
+   * @param customBadge Optional badges to override the show's own badge
+   * @returns HTML paragraph and plain-text line for the show
+   */
+  private formatShow(
+    show: Show,
+    customEpisodeInfo?: string,
+    customBadge?: string
+  ): EmailDigestPart {
+    const components = this.prepareShowComponents(show);
+    const airtime = hasAirtime(show)
+      ? `${formatTimeWithPeriod(show.airtime)} ${components.timeZone}`.trim()
+      : this.NO_AIRTIME;
+    const showName = components.isFollowed
+      ? `${this.FOLLOWED_MARKER} ${components.showName}`
+      : components.showName;
+    const episodeInfo = hasContent(customEpisodeInfo) ? customEpisodeInfo : components.episodeInfo;
+
+    // Episode title only applies to a single episode, not a range
+    const episodeTitle = hasContent(customEpisodeInfo) ? '' : components.episodeTitle;
+    const badge = customBadge ?? components.badge;
+    const details = [components.type];
+    if (hasContent(components.runtime)) {
+      details.push(components.runtime);
+    }
+
+    const htmlName = components.isFollowed
+      ? `<strong>${escapeHtml(showName)}</strong>`
+      : escapeHtml(showName);
+    const html = [
+      `<p style="margin:0 0 4px 0"><span style="color:#555555">${escapeHtml(airtime)}</span>`,
+      htmlName,
+      escapeHtml(episodeInfo),
+      ...(hasContent(episodeTitle) ? [`<em>${escapeHtml(episodeTitle)}</em>`] : []),
+      ...(hasContent(badge) ? [`<strong style="color:#c0392b">${escapeHtml(badge)}</strong>`] : []),
+      `<span style="color:#888888">(${escapeHtml(details.join(', '))})</span></p>`
+    ].join(' ');
+
+    const text = [
+      `  ${airtime.padEnd(8)}`,
+      showName,
+      episodeInfo,
+      ...(hasContent(episodeTitle) ? [`"${episodeTitle}"`] : []),
+      ...(hasContent(badge) ? [badge] : []),
+      `(${details.join(', ')})`
+    ].join(' ');
+
+    return { html, text };
+  }
+
+  /**
+   * Format a show with a specific airtime
+   * @param show Show with a specific airtime
+   * @returns Formatted digest part
+   */
+  public formatTimedShow(show: Show): EmailDigestPart {
+    return this.formatShow(show);
+  }
+
+  /**
+   * Format a show with no specific airtime (TBA)
+   * @param show Show with no specific airtime
+   * @returns Formatted digest part
+   */
+  public formatUntimedShow(show: Show): EmailDigestPart {
+    return this.formatShow(show);
+  }
+
+  /**
+   * Format multiple episodes of the same show as one line with an episode range
+   * @param shows Multiple episodes of the same show
+   * @returns Formatted digest parts
+   */
+  public formatMultipleEpisodes(shows: Show[]): EmailDigestPart[] {
+    if (!Array.isArray(shows) || shows.length === 0) {
+      return [];
+    }
+
+    const sortedEpisodes = this.sortEpisodesByNumber(shows);
+    return [this.formatShow(
+      sortedEpisodes[0],
+      formatEpisodeRanges(sortedEpisodes),
+      this.formatBadges(sortedEpisodes)
+    )];
+  }
+
+  /**
+   * Format the header for network display
+   * @param network The network name
+   * @returns Network heading
+   */
+  protected formatNetworkHeader(network: string): EmailDigestPart[] {
+    const [networkHeader, separatorLine] = formatNetworkHeader(network, this.NO_NETWORK);
+    return [{
+      html: `<h3 style="margin:16px 0 6px 0">${escapeHtml(this.formatNetworkName(network))}</h3>`,
+      text: `${networkHeader}\n${separatorLine}`
+    }];
+  }
+
+  /**
+   * Format content for an empty network
+   * @param network The network name
+   * @returns Network heading
+   */
+  protected formatEmptyNetwork(network: string): EmailDigestPart[] {
+    return this.formatNetworkHeader(network);
+  }
+
+  /**
+   * Format the header content for the network groups
+   * The title is added by EmailOutputServiceImpl, so there is no header here
+   * @returns Empty array
+   */
+  protected formatHeader(): EmailDigestPart[] {
+    return [];
+  }
+
+  /**
+   * Format the footer content for the network groups
+   * The attribution is added once per email by EmailOutputServiceImpl
+   * @returns Empty array
+   */
+  protected formatFooter(): EmailDigestPart[] {
+    return [];
+  }
+
+  /**
+   * Format separator between networks
+   * @returns Blank line in the plain-text part
+   */
+  protected formatNetworkSeparator(): EmailDigestPart[] {
+    return [{ html: '', text: '' }];
+  }
+
+  /**
+   * Format the heading of a channel kind section
+   * @param title Section title (e.g., "Streaming")
+   * @returns Section heading, uppercase in the plain-text part
+   */
+  protected formatSectionHeader(title: string): EmailDigestPart[] {
+    return [{
+      html: `<h2 style="margin:20px 0 6px 0">${escapeHtml(title)}</h2>`,
+      text: `${title.toUpperCase()}\n`
+    }];
+  }
+}
@@ -0,0 +1,105 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import { injectable, inject } from 'tsyringe';
+import type { ConfigService } from '../../interfaces/configService.js';
+import type { EmailClient, EmailMessage } from '../../interfaces/emailClient.js';
+import type { LoggerService } from '../../interfaces/loggerService.js';
+import type { EmailConfig } from '../../types/configTypes.js';
+
+/** Port used for implicit TLS */
+const SMTPS_PORT = 465;
+
+/** Submission port, upgraded with STARTTLS when the server offers it */
+const SUBMISSION_PORT = 587;
+
+/**
+ * Create an SMTP transport from the email config
+ * @param config Email configuration
+ * @returns Nodemailer transport for the configured server
+ */
+export const createSmtpTransport = (config: EmailConfig): Transporter => {
+  const isSecure = config.secure ?? false;
+  return nodemailer.createTransport({
+    host: config.host,
+    port: config.port ?? (isSecure ? SMTPS_PORT : SUBMISSION_PORT),
+    secure: isSecure,
+    ...(config.auth !== undefined && { auth: config.auth })
+  });
+};
+
+/**
+ * Implementation of the EmailClient interface
+ * Sends email through the SMTP server from the email config
+ */
+@injectable()
+export class SmtpEmailClientImpl implements EmailClient {
+  private readonly _transport: Transporter;
+  private readonly _options: EmailConfig;
+  private readonly logger: LoggerService;
+
+  /**
+   * Creates a new SmtpEmailClientImpl instance
+   * @param configService The configuration service
+   * @param transportFactory Optional factory function for creating transports
+   * @param logger The logger service
+   * @throws Error if the config has no email section
+   */
+  constructor(
+    @inject('ConfigService') private readonly configService: ConfigService,
+    @inject('EmailTransportFactory')
+    private readonly transportFactory: ((config: EmailConfig) => Transporter) | undefined,
+    @inject('LoggerService') logger?: LoggerService
+  ) {
+    const emailConfig = this.configService.getConfig().email;
+    if (emailConfig === undefined) {
+      throw new Error('Email is not configured: add an "email" section to config.json');
+    }
+    this._options = emailConfig;
+    this.logger = logger?.child({ module: 'SmtpEmailClient' }) ?? {
+      error: () => { /* noop */ },
+      warn: () => { /* noop */ },
+      info: () => { /* noop */ },
+      debug: () => { /* noop */ },
+      child: () => this.logger
+    };
+
+    // Use the factory if provided, otherwise create an SMTP transport directly
+    this._transport = (this.transportFactory ?? createSmtpTransport)(this._options);
+  }
+
+  /**
+   * Send an email
+   * @param message The message to send
+   * @returns Promise resolving when the message is accepted by the server
+   */
+  public async sendMail(message: EmailMessage): Promise<void> {
+    const startTime = Date.now();
+    const to = message.to ?? this._options.to;
+    try {
+      const info = await this._transport.sendMail({
+        to,
+        from: this._options.from,
+        subject: message.subject,
+        html: message.html,
+        text: message.text
+      }) as { messageId?: string };
+
+      this.logger.info({
+        to,
+        host: this._options.host,
+        subject: message.subject,
+        duration: Date.now() - startTime,
+        messageId: info.messageId
+      }, 'Successfully sent email');
+    } catch (error) {
+      this.logger.error({
+        to,
+        error: String(error),
+        host: this._options.host,
+        subject: message.subject,
+        duration: Date.now() - startTime,
+        stack: error instanceof Error ? error.stack : undefined
+      }, 'Failed to send email');
+      throw new Error(`Failed to send email: ${String(error)}`, { cause: error });
+    }
+  }
+}
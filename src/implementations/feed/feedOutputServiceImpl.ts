@@ -0,0 +1,146 @@
+/**
+ * Feed Output Service Implementation
+ *
+ * Writes the filtered schedule as an Atom or RSS 2.0 feed, one entry per day
+ * or per episode, to stdout or to the file given with --output. With --append,
+ * entries of the existing feed file within the retention window are kept.
+ */
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { ConfigService } from '../../interfaces/configService.js';
+import type { OutputService } from '../../interfaces/outputService.js';
+import type { ProcessOutput } from '../../interfaces/processOutput.js';
+import type { NetworkGroups, Show } from '../../schemas/domain.js';
+import { toCountryCodes } from '../../utils/configUtils.js';
+import { formatDate, getDateRange } from '../../utils/dateUtils.js';
+import { formatError } from '../../utils/errorHandling.js';
+import {
+  createDayEntry,
+  createEpisodeEntry,
+  createFeed,
+  type FeedEntry,
+  type FeedFormat,
+  mergeFeedEntries,
+  readFeedEntries,
+  renderFeedEntry,
+  type RenderedFeedEntry
+} from '../../utils/feedUtils.js';
+import { fileExists, readFile, writeTextFile } from '../../utils/fileUtils.js';
+import { groupShowsByDay, sortShowsByTime } from '../../utils/showUtils.js';
+import { hasContent } from '../../utils/stringUtils.js';
+
+/** Feed title when none is configured */
+const DEFAULT_FEED_TITLE = 'WhatsOnTV';
+
+/** Days existing entries are kept when appending, when not configured */
+const DEFAULT_RETENTION_DAYS = 14;
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Output service that writes the schedule as an Atom or RSS feed
+ */
+@injectable()
+export class FeedOutputServiceImpl implements OutputService {
+  /**
+   * Create a new FeedOutputService
+   * @param output Process output, used for stdout and errors
+   * @param configService Configuration service
+   */
+  constructor(
+    @inject('ProcessOutput') private readonly output: ProcessOutput,
+    @inject('ConfigService') private readonly configService: ConfigService
+  ) {}
+
+  /**
+   * Build the entries of one day: a single day entry, or one entry per episode
+   * @param date Airdate (YYYY-MM-DD)
+   * @param networkGroups Shows airing that day, grouped by network
+   * @param isDayEntries Whether to write one entry per day
+   * @returns Feed entries
+   */
+  private toDayEntries(
+    date: string,
+    networkGroups: NetworkGroups,
+    isDayEntries: boolean
+  ): FeedEntry[] {
+    if (isDayEntries) {
+      return [createDayEntry(date, networkGroups)];
+    }
+
+    return Object.entries(networkGroups).flatMap(([network, shows]) =>
+      sortShowsByTime(shows).map(show => createEpisodeEntry(show, date, network))
+    );
+  }
+
+  /**
+   * Read the entries of the existing feed file when appending
+   * @param format Feed format
+   * @param outputFile Feed file from --output, if any
+   * @returns Existing entries, or none when not appending or the file is missing
+   */
+  private readExistingEntries(format: FeedFormat, outputFile?: string): RenderedFeedEntry[] {
+    const isAppending = this.configService.getCliOptions().append === true;
+    if (!isAppending || !hasContent(outputFile) || !fileExists(outputFile)) {
+      return [];
+    }
+    return readFeedEntries(readFile(outputFile), format);
+  }
+
+  /**
+   * Build the feed document for the shows
+   * @param shows Filtered shows
+   * @param format Feed format
+   * @param outputFile Feed file from --output, if any
+   * @returns Feed document
+   */
+  private createDocument(shows: Show[], format: FeedFormat, outputFile?: string): string {
+    const options = this.configService.getShowOptions();
+    const feedConfig = this.configService.getConfig().feed;
+    const date = formatDate(this.configService.getDate());
+    const dates = getDateRange(date, options.endDate);
+    const shouldKeepCountry = toCountryCodes(options.country).length > 1;
+    const dayGroups = groupShowsByDay(shows, dates, shouldKeepCountry, options.networkAliases);
+    const isDayEntries = feedConfig?.entries === 'day';
+
+    const entries = dates
+      .flatMap(day => this.toDayEntries(day, dayGroups[day], isDayEntries))
+      .map(entry => renderFeedEntry(entry, format));
+
+    const now = new Date();
+    const retentionDays = feedConfig?.retentionDays ?? DEFAULT_RETENTION_DAYS;
+    const cutoff = new Date(now.getTime() - retentionDays * MILLISECONDS_PER_DAY);
+
+    return createFeed(
+      format,
+      {
+        title: feedConfig?.title ?? DEFAULT_FEED_TITLE,
+        updated: now,
+        ...(feedConfig?.link !== undefined && { link: feedConfig.link })
+      },
+      mergeFeedEntries(entries, this.readExistingEntries(format, outputFile), cutoff)
+    );
+  }
+
+  /**
+   * Write the schedule as a feed to stdout, or to the --output file
+   * @param shows Filtered shows
+   */
+  public async renderOutput(shows: Show[]): Promise<void> {
+    try {
+      const cliOptions = this.configService.getCliOptions();
+      const format: FeedFormat = cliOptions.format === 'rss' ? 'rss' : 'atom';
+      const outputFile = cliOptions.outputFile;
+      const feed = this.createDocument(shows, format, outputFile);
+      if (!hasContent(outputFile)) {
+        this.output.log(feed.trimEnd());
+        return;
+      }
+
+      await writeTextFile(outputFile, feed);
+    } catch (error) {
+      this.output.error(formatError(error, 'Error writing feed output: '));
+    }
+  }
+}
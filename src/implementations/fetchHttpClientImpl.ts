@@ -7,15 +7,46 @@
 
 import 'reflect-metadata';
 import { injectable, inject } from 'tsyringe';
-import ky, { Options as KyOptions, Hooks, type AfterResponseState } from 'ky';
+import ky, {
+  Options as KyOptions,
+  Hooks,
+  isHTTPError,
+  type AfterResponseState,
+  type BeforeRetryState
+} from 'ky';
 import type { 
   HttpClient, 
   HttpResponse, 
   RequestOptions as HttpRequestOptions 
 } from '../interfaces/httpClient.js';
 import type { LoggerService } from '../interfaces/loggerService.js';
+import type { RateLimiter } from '../interfaces/rateLimiter.js';
+import type { HttpRetryConfig } from '../types/configTypes.js';
+import { redactUrl } from '../utils/stringUtils.js';
 import { z } from 'zod';
 
+/** HTTP status returned when a conditional request finds the resource unchanged */
+const NOT_MODIFIED = 304;
+
+/** Ky request functions for the methods post() can send */
+const KY_METHODS = { POST: 'post', PUT: 'put', PATCH: 'patch' } as const;
+
+/** Default retry behaviour for failed GET requests */
+export const DEFAULT_RETRY_LIMIT = 2;
+export const DEFAULT_RETRY_DELAY_MS = 500;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 30_000;
+
+/**
+ * Equal jitter: keep half of the computed backoff and randomize the other half
+ * so that concurrent clients do not retry in lockstep
+ * @param delay Computed backoff delay in milliseconds
+ * @returns Jittered delay in milliseconds
+ */
+function equalJitter(delay: number): number {
+  // eslint-disable-next-line sonarjs/pseudo-random -- jitter does not need a secure RNG
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
 /**
  * Options for configuring the KyHttpClient
  */
@@ -24,6 +55,17 @@ export interface KyHttpClientOptions {
   timeout?: number;
   headers?: Record<string, string>;
   hooks?: Hooks;
+  /** Retry settings for failed GET requests */
+  retry?: HttpRetryConfig;
+  /** Limiter consulted before every request attempt, including retries */
+  rateLimiter?: RateLimiter;
+  /** Fetch implementation (defaults to the global fetch) */
+  fetch?: typeof globalThis.fetch;
+  /**
+   * Log URLs with their IDs and tokens removed, and leave out request headers,
+   * for URLs that are secrets themselves such as webhooks
+   */
+  shouldRedactUrls?: boolean;
 }
 
 /**
@@ -35,6 +77,7 @@ export class FetchHttpClientImpl implements HttpClient {
   private readonly isTestEnvironment: boolean;
   private readonly baseUrl: string;
   private readonly logger: LoggerService;
+  private readonly shouldRedactUrls: boolean;
 
   /**
    * Creates a new Ky HTTP client
@@ -48,11 +91,16 @@ export class FetchHttpClientImpl implements HttpClient {
     const prefixUrl = options.baseUrl ?? '';
     const timeout = options.timeout ?? 30_000;
     const headers = options.headers ?? {};
+    const retryLimit = options.retry?.limit ?? DEFAULT_RETRY_LIMIT;
+    const retryDelayMs = options.retry?.delayMs ?? DEFAULT_RETRY_DELAY_MS;
+    const retryMaxDelayMs = options.retry?.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+    const rateLimiter = options.rateLimiter;
     
     this.isTestEnvironment = process.env.NODE_ENV === 'test' || 
                              process.env.JEST_WORKER_ID !== undefined;
     
     this.baseUrl = prefixUrl;
+    this.shouldRedactUrls = options.shouldRedactUrls ?? false;
     this.logger = logger?.child({ module: 'HttpClient' }) ?? {
       error: () => { /* noop */ },
       warn: () => { /* noop */ },
@@ -67,27 +115,49 @@ export class FetchHttpClientImpl implements HttpClient {
       ...(prefixUrl && { prefix: prefixUrl }),
       timeout,
       headers,
-      retry: 0, // Don't retry by default
+      retry: {
+        limit: retryLimit,
+        // Exponential backoff: delayMs, 2 * delayMs, 4 * delayMs, ...
+        delay: (attemptCount: number) => retryDelayMs * 2 ** (attemptCount - 1),
+        jitter: equalJitter,
+        backoffLimit: retryMaxDelayMs,
+        // Retry-After from a 429/503 is honoured but capped like any other delay
+        maxRetryAfter: retryMaxDelayMs
+      },
+      ...(options.fetch && { fetch: options.fetch }),
+      // 304 Not Modified answers a conditional request and is handled by the caller
+      throwHttpErrors: (status: number) => status !== NOT_MODIFIED,
       hooks: {
         beforeRequest: [
-          // No longer logging request URLs
+          // Wait for the shared rate limiter before the first attempt
+          async () => {
+            await rateLimiter?.acquire();
+          },
           ...(options.hooks?.beforeRequest ?? [])
         ],
+        beforeRetry: [
+          async (state: BeforeRetryState) => {
+            this.logRetry(state);
+            // Retries count against the rate limit too
+            await rateLimiter?.acquire();
+          },
+          ...(options.hooks?.beforeRetry ?? [])
+        ],
         afterResponse: [
           ({ response }: AfterResponseState) => {
             if (!this.isTestEnvironment) {
-              if (response.ok) {
+              if (response.ok || response.status === NOT_MODIFIED) {
                 this.logger.debug({
                   status: response.status,
                   statusText: response.statusText,
-                  url: response.url,
+                  url: this.getLoggedUrl(response.url),
                   contentLength: response.headers.get('content-length')
                 }, 'HTTP request completed successfully');
               } else {
                 this.logger.error({
                   status: response.status,
                   statusText: response.statusText,
-                  url: response.url,
+                  url: this.getLoggedUrl(response.url),
                   headers: Object.fromEntries(response.headers.entries())
                 }, 'HTTP request returned error response');
               }
@@ -103,6 +173,42 @@ export class FetchHttpClientImpl implements HttpClient {
     });
   }
 
+  /**
+   * Get a URL as it may be logged
+   * @param url Request URL
+   * @returns The URL, redacted when shouldRedactUrls is set
+   */
+  private getLoggedUrl(url: string): string {
+    return this.shouldRedactUrls ? redactUrl(url) : url;
+  }
+
+  /**
+   * Get log text, such as an error message, as it may be logged
+   * @param text Text that may include the request URL
+   * @param url Request URL
+   * @returns The text, with the URL redacted when shouldRedactUrls is set
+   */
+  private getLoggedText(text: string, url: string): string {
+    return this.shouldRedactUrls ? text.replaceAll(url, () => redactUrl(url)) : text;
+  }
+
+  /**
+   * Log a retry attempt with the reason for the previous failure
+   * @param state Ky retry state
+   */
+  private logRetry({ request, error, retryCount }: BeforeRetryState): void {
+    this.logger.warn({
+      retryCount,
+      url: this.getLoggedUrl(request.url),
+      method: request.method,
+      status: isHTTPError(error) ? error.response.status : undefined,
+      retryAfter: isHTTPError(error)
+        ? error.response.headers.get('retry-after') ?? undefined
+        : undefined,
+      error: this.getLoggedText(String(error), request.url)
+    }, 'Retrying HTTP request');
+  }
+
   /**
    * Convert RequestOptions to Ky options
    * @param options Request options
@@ -171,6 +277,18 @@ export class FetchHttpClientImpl implements HttpClient {
     return url;
   }
 
+  /**
+   * Get the size of a request body for error logs
+   * @param data Request body
+   * @returns Length of the body as sent
+   */
+  private getDataSize(data: unknown): number {
+    if (typeof data === 'string') {
+      return data.length;
+    }
+    return data !== null && data !== undefined ? JSON.stringify(data).length : 0;
+  }
+
   /** Test-only stubs for GET requests */
   private handleTestGet(
     url: string, options?: HttpRequestOptions
@@ -243,20 +361,23 @@ export class FetchHttpClientImpl implements HttpClient {
     return await response.text();
   }
 
-  /** Log a request error unless in test environment */
+  /** Log a request error unless in test environment; options are left out when redacting */
   private logRequestError(
     error: unknown, url: string, method: string,
-    extra?: Record<string, unknown>
+    extra?: { options?: HttpRequestOptions; dataSize?: number }
   ): void {
     if (this.isTestEnvironment) {
       return;
     }
     this.logger.error({
-      error: String(error),
-      url,
+      error: this.getLoggedText(String(error), url),
+      url: this.getLoggedUrl(url),
       method,
       ...extra,
-      stack: error instanceof Error ? error.stack : undefined
+      ...(this.shouldRedactUrls && { options: undefined }),
+      stack: error instanceof Error && error.stack !== undefined
+        ? this.getLoggedText(error.stack, url)
+        : undefined
     }, `${method} request failed`);
   }
 
@@ -297,9 +418,9 @@ export class FetchHttpClientImpl implements HttpClient {
   }
 
   /**
-   * Make a POST request
+   * Make a POST request, or a PUT or PATCH request with options.method
    * @param url The URL to request
-   * @param data Optional request body
+   * @param data Optional request body; strings are sent as is, anything else as JSON
    * @param options Optional request options
    * @param schema Optional schema for validation
    * @returns Promise resolving to the response
@@ -310,6 +431,7 @@ export class FetchHttpClientImpl implements HttpClient {
     options?: HttpRequestOptions,
     schema?: z.ZodType
   ): Promise<HttpResponse<T>> {
+    const method = options?.method ?? 'POST';
     try {
       if (this.isTestEnvironment) {
         const testResult = this.handleTestPost<T, D>(url, data, options);
@@ -321,21 +443,21 @@ export class FetchHttpClientImpl implements HttpClient {
       const kyOptions = this.convertOptions(options);
       const normalizedUrl = this.normalizeUrl(url);
 
-      if (data !== undefined) {
+      if (typeof data === 'string') {
+        kyOptions.body = data;
+      } else if (data !== undefined) {
         kyOptions.json = data;
       }
 
-      const response = await this.kyInstance.post(normalizedUrl, kyOptions);
+      const response = await this.kyInstance[KY_METHODS[method]](normalizedUrl, kyOptions);
 
       return await this.buildResponse<T>(response, schema);
     } catch (error) {
-      this.logRequestError(error, url, 'POST', {
-        dataSize: data !== null && data !== undefined
-          ? JSON.stringify(data).length
-          : 0,
+      this.logRequestError(error, url, method, {
+        dataSize: this.getDataSize(data),
         options
       });
-      throw this.ensureError(error, 'POST');
+      throw this.ensureError(error, method);
     }
   }
 }
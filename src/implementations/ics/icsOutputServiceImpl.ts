@@ -0,0 +1,62 @@
+/**
+ * iCalendar Output Service Implementation
+ *
+ * Writes the filtered schedule as an .ics calendar, one event per episode, to
+ * stdout or to the file given with --output, for calendar apps to import or
+ * subscribe to.
+ */
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { ConfigService } from '../../interfaces/configService.js';
+import type { OutputService } from '../../interfaces/outputService.js';
+import type { ProcessOutput } from '../../interfaces/processOutput.js';
+import type { Show } from '../../schemas/domain.js';
+import { formatDate, getDateRange } from '../../utils/dateUtils.js';
+import { formatError } from '../../utils/errorHandling.js';
+import { writeTextFile } from '../../utils/fileUtils.js';
+import { createIcsCalendar } from '../../utils/icsUtils.js';
+import { sortShowsByTime } from '../../utils/showUtils.js';
+import { hasContent } from '../../utils/stringUtils.js';
+
+/**
+ * Output service that writes the schedule as an iCalendar file
+ */
+@injectable()
+export class IcsOutputServiceImpl implements OutputService {
+  /**
+   * Create a new IcsOutputService
+   * @param output Process output, used for stdout and errors
+   * @param configService Configuration service
+   */
+  constructor(
+    @inject('ProcessOutput') private readonly output: ProcessOutput,
+    @inject('ConfigService') private readonly configService: ConfigService
+  ) {}
+
+  /**
+   * Write the schedule as a calendar to stdout, or to the --output file
+   * @param shows Filtered shows
+   */
+  public async renderOutput(shows: Show[]): Promise<void> {
+    try {
+      const date = formatDate(this.configService.getDate());
+      const dates = getDateRange(date, this.configService.getShowOptions().endDate);
+      const endDate = dates.at(-1) ?? date;
+      const calendar = createIcsCalendar(sortShowsByTime(shows), {
+        name: endDate === date ? `WhatsOnTV ${date}` : `WhatsOnTV ${date} to ${endDate}`,
+        fallbackDate: date
+      });
+
+      const outputFile = this.configService.getCliOptions().outputFile;
+      if (!hasContent(outputFile)) {
+        this.output.log(calendar.trimEnd());
+        return;
+      }
+
+      await writeTextFile(outputFile, calendar);
+    } catch (error) {
+      this.output.error(formatError(error, 'Error writing iCalendar output: '));
+    }
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * JSON Output Service Implementation
+ *
+ * Writes the filtered schedule as a versioned JSON document for other scripts,
+ * to stdout or to the file given with --output.
+ */
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { ConfigService } from '../../interfaces/configService.js';
+import type { OutputService } from '../../interfaces/outputService.js';
+import type { ProcessOutput } from '../../interfaces/processOutput.js';
+import type { ShowOptions } from '../../schemas/config.js';
+import type { NetworkGroups, Show } from '../../schemas/domain.js';
+import { toCountryCodes } from '../../utils/configUtils.js';
+import { formatDate, getDateRange } from '../../utils/dateUtils.js';
+import { formatError } from '../../utils/errorHandling.js';
+import { writeTextFile } from '../../utils/fileUtils.js';
+import { groupShowsByDay, sortShowsByTime } from '../../utils/showUtils.js';
+import { hasContent } from '../../utils/stringUtils.js';
+
+/**
+ * Version of the JSON document layout; bumped on incompatible changes only
+ */
+export const JSON_SCHEMA_VERSION = 1;
+
+/**
+ * Shows of one network on one day
+ */
+export interface JsonNetworkShows {
+  network: string;
+  shows: Show[];
+}
+
+/**
+ * Shows of one day, grouped by network or as one list sorted by airtime
+ */
+export interface JsonScheduleDay {
+  /** Airdate (YYYY-MM-DD) */
+  date: string;
+  /** Present when the output is grouped by network */
+  networks?: JsonNetworkShows[];
+  /** Present when the output is flat */
+  shows?: Show[];
+}
+
+/**
+ * JSON document written by JsonOutputServiceImpl
+ */
+export interface JsonSchedule {
+  schemaVersion: typeof JSON_SCHEMA_VERSION;
+  /** When the document was written (ISO 8601) */
+  generatedAt: string;
+  /** First day of the schedule (YYYY-MM-DD) */
+  date: string;
+  /** Last day of the schedule (YYYY-MM-DD); same as date for a single day */
+  endDate: string;
+  /** Options the shows were fetched and filtered with */
+  options: ShowOptions;
+  /** One entry per day, even for a single day */
+  days: JsonScheduleDay[];
+}
+
+/**
+ * Output service that writes the schedule as JSON
+ */
+@injectable()
+export class JsonOutputServiceImpl implements OutputService {
+  /**
+   * Create a new JsonOutputService
+   * @param output Process output, used for stdout and errors
+   * @param configService Configuration service
+   */
+  constructor(
+    @inject('ProcessOutput') private readonly output: ProcessOutput,
+    @inject('ConfigService') private readonly configService: ConfigService
+  ) {}
+
+  /**
+   * Build the entry for one day
+   * @param date Airdate (YYYY-MM-DD)
+   * @param networkGroups Shows airing that day, grouped by network
+   * @param isGrouped Keep the network groups instead of one flat list
+   * @returns Day entry
+   */
+  private toScheduleDay(
+    date: string,
+    networkGroups: NetworkGroups,
+    isGrouped: boolean
+  ): JsonScheduleDay {
+    if (isGrouped) {
+      return {
+        date,
+        networks: Object.entries(networkGroups)
+          .map(([network, shows]) => ({ network, shows: sortShowsByTime(shows) }))
+      };
+    }
+    return { date, shows: sortShowsByTime(Object.values(networkGroups).flat()) };
+  }
+
+  /**
+   * Build the JSON document for the shows
+   * @param shows Filtered shows
+   * @returns JSON document
+   */
+  private createSchedule(shows: Show[]): JsonSchedule {
+    const options = this.configService.getShowOptions();
+    const date = formatDate(this.configService.getDate());
+    const dates = getDateRange(date, options.endDate);
+    const shouldKeepCountry = toCountryCodes(options.country).length > 1;
+    const isGrouped = this.configService.getCliOptions().groupByNetwork;
+    const dayGroups = groupShowsByDay(shows, dates, shouldKeepCountry, options.networkAliases);
+
+    return {
+      date,
+      options,
+      schemaVersion: JSON_SCHEMA_VERSION,
+      generatedAt: new Date().toISOString(),
+      endDate: dates.at(-1) ?? date,
+      days: dates.map(day => this.toScheduleDay(day, dayGroups[day], isGrouped))
+    };
+  }
+
+  /**
+   * Write the schedule as JSON to stdout, or to the --output file
+   * @param shows Filtered shows
+   */
+  public async renderOutput(shows: Show[]): Promise<void> {
+    try {
+      const json = JSON.stringify(this.createSchedule(shows), null, 2);
+      const outputFile = this.configService.getCliOptions().outputFile;
+      if (!hasContent(outputFile)) {
+        this.output.log(json);
+        return;
+      }
+
+      await writeTextFile(outputFile, `${json}\n`);
+    } catch (error) {
+      this.output.error(formatError(error, 'Error writing JSON output: '));
+    }
+  }
+}
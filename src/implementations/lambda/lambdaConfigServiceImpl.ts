@@ -79,14 +79,27 @@ export class LambdaConfigServiceImpl extends BaseConfigServiceImpl {
    */
   private buildShowOptions(): ShowOptions {
     return {
+      provider: this.appConfig.provider ?? 'tvmaze',
       date: this.dateString,
       country: this.appConfig.country,
       types: this.appConfig.types,
       networks: this.appConfig.networks,
+      networkAliases: this.appConfig.networkAliases ?? {},
+      channels: this.appConfig.channels ?? 'all',
+      groupByChannelKind: this.appConfig.groupByChannelKind ?? false,
       genres: this.appConfig.genres,
       languages: this.appConfig.languages,
       minAirtime: this.appConfig.minAirtime,
-      excludeShowNames: this.appConfig.showNameFilter ?? []
+      maxAirtime: this.appConfig.maxAirtime,
+      networkAirtimes: this.appConfig.networkAirtimes ?? {},
+      includeUntimed: this.appConfig.includeUntimed ?? true,
+      excludeShowNames: this.appConfig.showNameFilter ?? [],
+      filter: this.appConfig.filter,
+      followedShows: this.appConfig.followedShows ?? [],
+      premieresAndFinalesOnly: this.appConfig.premieresAndFinalesOnly ?? false,
+      finaleBadges: this.appConfig.finaleBadges ?? false,
+      displayTimezone: this.appConfig.displayTimezone,
+      showTimezoneAbbreviation: this.appConfig.showTimezoneAbbreviation ?? false
     };
   }
 }
@@ -0,0 +1,118 @@
+/**
+ * Markdown Output Service Implementation
+ *
+ * Writes the filtered schedule as GitHub-flavored Markdown, to stdout or to the
+ * file given with --output, for pasting into wikis and pull request descriptions.
+ */
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { ConfigService } from '../../interfaces/configService.js';
+import type { ProcessOutput } from '../../interfaces/processOutput.js';
+import type { MarkdownShowFormatter } from '../../interfaces/showFormatter.js';
+import type { Show } from '../../schemas/domain.js';
+import { BaseOutputServiceImpl } from '../baseOutputServiceImpl.js';
+import { formatDate, formatWeekday } from '../../utils/dateUtils.js';
+import { formatError, safeResolve } from '../../utils/errorHandling.js';
+import { writeTextFile } from '../../utils/fileUtils.js';
+import { hasContent } from '../../utils/stringUtils.js';
+
+/**
+ * Output service that writes the schedule as Markdown
+ * Extends the BaseOutputServiceImpl abstract class
+ */
+@injectable()
+export class MarkdownOutputServiceImpl extends BaseOutputServiceImpl<string> {
+  private lines: string[] = [];
+
+  /**
+   * Create a new MarkdownOutputService
+   * @param formatter Formatter for Markdown output
+   * @param output Process output, used for stdout and errors
+   * @param configService Configuration service
+   */
+  constructor(
+    @inject('MarkdownShowFormatter') formatter: MarkdownShowFormatter,
+    @inject('ProcessOutput') private readonly output: ProcessOutput,
+    @inject('ConfigService') configService: ConfigService
+  ) {
+    super(formatter, configService);
+  }
+
+  /**
+   * Render the header section
+   * @param date The date for which shows are being displayed
+   */
+  protected async renderHeader(date: Date): Promise<void> {
+    await safeResolve();
+    this.lines = [`# TV Shows for ${formatDate(date)}`, ''];
+  }
+
+  /**
+   * Render the main content section
+   * @param networkGroups Shows grouped by network
+   * @param _date The date for which shows are being displayed (unused here)
+   */
+  protected async renderContent(
+    networkGroups: Record<string, Show[]>,
+    _date: Date
+  ): Promise<void> {
+    await safeResolve();
+
+    if (Object.keys(networkGroups).length === 0) {
+      this.lines.push('*No shows found for the specified criteria.*');
+      return;
+    }
+
+    this.lines.push(...this.formatNetworkGroups(networkGroups));
+  }
+
+  /**
+   * Render the header section for a multi-day range
+   * @param startDate First day of the range
+   * @param endDate Last day of the range
+   */
+  protected async renderRangeHeader(startDate: Date, endDate: Date): Promise<void> {
+    await safeResolve();
+    this.lines = [`# TV Shows for ${formatDate(startDate)} to ${formatDate(endDate)}`];
+  }
+
+  /**
+   * Render the shows for a single day of a multi-day range
+   * @param networkGroups Shows airing that day, grouped by network
+   * @param date The day being rendered
+   */
+  protected async renderDay(
+    networkGroups: Record<string, Show[]>,
+    date: Date
+  ): Promise<void> {
+    this.lines.push('', `## ${formatWeekday(date)}, ${formatDate(date)}`, '');
+    await this.renderContent(networkGroups, date);
+  }
+
+  /**
+   * Render the footer section
+   * Writes the document to stdout, or to the --output file
+   */
+  protected async renderFooter(): Promise<void> {
+    this.lines.push('', '---', '', '*Data provided by [TVMaze API](https://api.tvmaze.com)*');
+    const markdown = this.lines.join('\n');
+
+    const outputFile = this.configService.getCliOptions().outputFile;
+    if (!hasContent(outputFile)) {
+      this.output.log(markdown);
+      return;
+    }
+
+    await writeTextFile(outputFile, `${markdown}\n`);
+  }
+
+  /**
+   * Handle errors that occur during rendering
+   * @param error The error that occurred
+   */
+  protected async handleError(error: unknown): Promise<void> {
+    await safeResolve();
+    this.output.error(formatError(error, 'Error writing Markdown output: '));
+  }
+}
@@ -0,0 +1,145 @@
+import 'reflect-metadata';
+import { injectable } from 'tsyringe';
+
+import type { MarkdownShowFormatter } from '../../interfaces/showFormatter.js';
+import type { Show } from '../../schemas/domain.js';
+import { formatTimeWithPeriod } from '../../utils/dateUtils.js';
+import { hasAirtime } from '../../utils/formatUtils.js';
+import { formatEpisodeRanges } from '../../utils/showUtils.js';
+import { escapeMarkdown, hasContent } from '../../utils/stringUtils.js';
+import { BaseShowFormatterImpl } from '../baseShowFormatterImpl.js';
+
+/**
+ * Formats TV show data as GitHub-flavored Markdown, one table per network
+ */
+@injectable()
+export class MarkdownShowFormatterImpl extends BaseShowFormatterImpl<string>
+  implements MarkdownShowFormatter {
+  /** Prefix that highlights followed shows */
+  private readonly FOLLOWED_MARKER = '★';
+
+  /**
+   * Format a show as a table row
+   * @param show Show to format
+   * @param customEpisodeInfo Optional episode range to override the episode info
+   * @param customBadge Optional badges to override the show's own badge
+   * @returns Table row with time, show, episode and type
+   */
+  private formatShow(show: Show, customEpisodeInfo?: string, customBadge?: string): string {
+    const components = this.prepareShowComponents(show);
+    const time = hasAirtime(show)
+      ? `${formatTimeWithPeriod(show.airtime)} ${components.timeZone}`.trim()
+      : this.NO_AIRTIME;
+    const showName = components.isFollowed
+      ? `${this.FOLLOWED_MARKER} **${escapeMarkdown(components.showName)}**`
+      : escapeMarkdown(components.showName);
+
+    // Episode title only applies to a single episode, not a range
+    const episodeInfo = hasContent(customEpisodeInfo) ? customEpisodeInfo : components.episodeInfo;
+    const episodeTitle = hasContent(customEpisodeInfo) ? '' : components.episodeTitle;
+    const badge = customBadge ?? components.badge;
+    const episode = [
+      escapeMarkdown(episodeInfo),
+      ...(hasContent(episodeTitle) ? [`*${escapeMarkdown(episodeTitle)}*`] : []),
+      ...(hasContent(badge) ? [`**${badge}**`] : [])
+    ].join(' ');
+
+    const type = hasContent(components.runtime)
+      ? `${components.type}, ${components.runtime}`
+      : components.type;
+
+    return `| ${time} | ${showName} | ${episode} | ${escapeMarkdown(type)} |`;
+  }
+
+  /**
+   * Format a show with a specific airtime
+   * @param show Show with a specific airtime
+   * @returns Table row
+   */
+  public formatTimedShow(show: Show): string {
+    return this.formatShow(show);
+  }
+
+  /**
+   * Format a show with no specific airtime (TBA)
+   * @param show Show with no specific airtime
+   * @returns Table row
+   */
+  public formatUntimedShow(show: Show): string {
+    return this.formatShow(show);
+  }
+
+  /**
+   * Format multiple episodes of the same show as one row with an episode range
+   * @param shows Multiple episodes of the same show
+   * @returns Table rows
+   */
+  public formatMultipleEpisodes(shows: Show[]): string[] {
+    if (!Array.isArray(shows) || shows.length === 0) {
+      return [];
+    }
+
+    const sortedEpisodes = this.sortEpisodesByNumber(shows);
+    return [this.formatShow(
+      sortedEpisodes[0],
+      formatEpisodeRanges(sortedEpisodes),
+      this.formatBadges(sortedEpisodes)
+    )];
+  }
+
+  /**
+   * Format the header for network display
+   * @param network The network name
+   * @returns Network heading followed by the table header
+   */
+  protected formatNetworkHeader(network: string): string[] {
+    return [
+      `### ${escapeMarkdown(this.formatNetworkName(network))}`,
+      '',
+      '| Time | Show | Episode | Type |',
+      '| --- | --- | --- | --- |'
+    ];
+  }
+
+  /**
+   * Format content for an empty network
+   * @param network The network name
+   * @returns Network heading
+   */
+  protected formatEmptyNetwork(network: string): string[] {
+    return [`### ${escapeMarkdown(this.formatNetworkName(network))}`];
+  }
+
+  /**
+   * Format the header content for the network groups
+   * @returns Empty array; the title is added by MarkdownOutputServiceImpl
+   */
+  protected formatHeader(): string[] {
+    return [];
+  }
+
+  /**
+   * Format the footer content for the network groups
+   * @returns Empty array; the attribution is added by MarkdownOutputServiceImpl
+   */
+  protected formatFooter(): string[] {
+    return [];
+  }
+
+  /**
+   * Format separator between networks
+   * @returns Blank line that ends the previous table
+   */
+  protected formatNetworkSeparator(): string[] {
+    return [''];
+  }
+
+  /**
+   * Format the heading of a channel kind section
+   * @param title Section title (e.g., "Streaming")
+   * @returns Heading followed by a blank line
+   */
+  protected formatSectionHeader(title: string): string[] {
+    return [`## ${title}`, ''];
+  }
+}
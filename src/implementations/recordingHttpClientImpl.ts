@@ -0,0 +1,176 @@
+/**
+ * Recording HTTP Client Implementation
+ *
+ * Decorates another HttpClient and writes every response (and every failed
+ * request) to a directory, one JSON file per request, so that a day's API
+ * traffic can be replayed later with ReplayHttpClientImpl.
+ */
+
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod';
+import type {
+  HttpClient,
+  HttpResponse,
+  RequestOptions
+} from '../interfaces/httpClient.js';
+import type { LoggerService } from '../interfaces/loggerService.js';
+import type { HttpRecording } from '../schemas/http.js';
+
+/** Longest readable URL prefix kept in recording file names */
+const MAX_FILE_NAME_SLUG_LENGTH = 120;
+
+/**
+ * Build the recording file path for a request
+ * File names start with the method and URL so recordings can be browsed by
+ * hand; a hash of the full key keeps long or similar URLs apart. Query
+ * options are part of the key; headers and timeouts are not.
+ * @param directory Recording directory
+ * @param method HTTP method
+ * @param url Request URL
+ * @param options Request options
+ * @returns Absolute path to the recording file
+ */
+export function getRecordingPath(
+  directory: string,
+  method: HttpRecording['method'],
+  url: string,
+  options?: RequestOptions
+): string {
+  const keySource = JSON.stringify([method, url, options?.query, options?.param]);
+  const hash = createHash('sha256').update(keySource).digest('hex').slice(0, 12);
+  const slug = `${method}_${url.replace(/^https?:\/\//i, '')}`
+    .replaceAll(/[^\w.-]+/g, '_')
+    .slice(0, MAX_FILE_NAME_SLUG_LENGTH);
+  return path.resolve(directory, `${slug}_${hash}.json`);
+}
+
+/**
+ * HttpClient decorator that writes every response to a recording directory
+ */
+export class RecordingHttpClientImpl implements HttpClient {
+  private readonly logger: LoggerService;
+
+  /**
+   * Creates a new recording HTTP client
+   * @param httpClient Client that makes the actual requests
+   * @param directory Directory to write recordings to (created if missing)
+   * @param logger Logger service for structured logging
+   */
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly directory: string,
+    logger?: LoggerService
+  ) {
+    this.logger = logger?.child({ module: 'HttpRecorder' }) ?? {
+      error: () => { /* noop */ },
+      warn: () => { /* noop */ },
+      info: () => { /* noop */ },
+      debug: () => { /* noop */ },
+      child: () => this.logger
+    };
+  }
+
+  /**
+   * Write a recording; failures are logged and otherwise ignored
+   * @param recording Recording to persist
+   * @param options Request options, part of the recording key
+   */
+  private async writeRecording(
+    recording: HttpRecording,
+    options?: RequestOptions
+  ): Promise<void> {
+    const recordingPath = getRecordingPath(
+      this.directory, recording.method, recording.url, options
+    );
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      await fs.mkdir(this.directory, { recursive: true });
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      await fs.writeFile(recordingPath, JSON.stringify(recording, null, 2), 'utf8');
+      this.logger.debug({ url: recording.url, path: recordingPath }, 'Recorded HTTP response');
+    } catch (error) {
+      this.logger.warn(
+        { error: String(error), url: recording.url },
+        'Failed to write HTTP recording'
+      );
+    }
+  }
+
+  /**
+   * Run a request and record its response or error
+   * @param method HTTP method
+   * @param url Request URL
+   * @param options Request options
+   * @param request Function that makes the request
+   * @returns Promise resolving to the response
+   */
+  private async record<T>(
+    method: HttpRecording['method'],
+    url: string,
+    options: RequestOptions | undefined,
+    request: () => Promise<HttpResponse<T>>
+  ): Promise<HttpResponse<T>> {
+    const recordedAt = new Date().toISOString();
+    try {
+      const response = await request();
+      await this.writeRecording({
+        method,
+        url,
+        recordedAt,
+        status: response.status,
+        headers: response.headers,
+        data: response.data
+      }, options);
+      return response;
+    } catch (error) {
+      await this.writeRecording({
+        method,
+        url,
+        recordedAt,
+        status: 0,
+        headers: {},
+        data: null,
+        error: error instanceof Error ? error.message : String(error)
+      }, options);
+      throw error;
+    }
+  }
+
+  /**
+   * Make a GET request and record the response
+   * @param url The URL to request
+   * @param options Optional request options
+   * @param schema Optional Zod schema to validate the response
+   * @returns Promise resolving to the response
+   */
+  async get<T>(
+    url: string,
+    options?: RequestOptions,
+    schema?: z.ZodType
+  ): Promise<HttpResponse<T>> {
+    return await this.record('GET', url, options, async () =>
+      await this.httpClient.get<T>(url, options, schema)
+    );
+  }
+
+  /**
+   * Make a POST request and record the response
+   * @param url The URL to request
+   * @param data Optional request body
+   * @param options Optional request options
+   * @param schema Optional Zod schema to validate the response
+   * @returns Promise resolving to the response
+   */
+  async post<T, D = unknown>(
+    url: string,
+    data?: D,
+    options?: RequestOptions,
+    schema?: z.ZodType
+  ): Promise<HttpResponse<T>> {
+    return await this.record('POST', url, options, async () =>
+      await this.httpClient.post<T, D>(url, data, options, schema)
+    );
+  }
+}
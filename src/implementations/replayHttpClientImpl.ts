@@ -0,0 +1,124 @@
+/**
+ * Replay HTTP Client Implementation
+ *
+ * Serves responses written by RecordingHttpClientImpl without any network
+ * access. Requests that were not recorded fail, as if the network were down.
+ */
+
+import fs from 'node:fs/promises';
+import { z } from 'zod';
+import type {
+  HttpClient,
+  HttpResponse,
+  RequestOptions
+} from '../interfaces/httpClient.js';
+import type { LoggerService } from '../interfaces/loggerService.js';
+import { httpRecordingSchema, type HttpRecording } from '../schemas/http.js';
+import { getRecordingPath } from './recordingHttpClientImpl.js';
+
+/**
+ * HttpClient that serves recorded responses from a directory
+ */
+export class ReplayHttpClientImpl implements HttpClient {
+  private readonly logger: LoggerService;
+
+  /**
+   * Creates a new replay HTTP client
+   * @param directory Directory written by --record
+   * @param logger Logger service for structured logging
+   */
+  constructor(
+    private readonly directory: string,
+    logger?: LoggerService
+  ) {
+    this.logger = logger?.child({ module: 'HttpReplay' }) ?? {
+      error: () => { /* noop */ },
+      warn: () => { /* noop */ },
+      info: () => { /* noop */ },
+      debug: () => { /* noop */ },
+      child: () => this.logger
+    };
+  }
+
+  /**
+   * Read the recording for a request
+   * @param method HTTP method
+   * @param url Request URL
+   * @param options Request options, part of the recording key
+   * @returns The recording
+   * @throws Error if the request was not recorded or the file is invalid
+   */
+  private async readRecording(
+    method: HttpRecording['method'],
+    url: string,
+    options?: RequestOptions
+  ): Promise<HttpRecording> {
+    const recordingPath = getRecordingPath(this.directory, method, url, options);
+    let contents: string;
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      contents = await fs.readFile(recordingPath, 'utf8');
+    } catch {
+      this.logger.warn({ url, path: recordingPath }, 'No recorded HTTP response');
+      throw new Error(`No recorded response for ${method} ${url} in ${this.directory}`);
+    }
+    return httpRecordingSchema.parse(JSON.parse(contents));
+  }
+
+  /**
+   * Replay a recorded request
+   * @param method HTTP method
+   * @param url Request URL
+   * @param options Request options
+   * @param schema Optional Zod schema to validate the data
+   * @returns Promise resolving to the recorded response
+   * @throws Error with the recorded message if the request had failed
+   */
+  private async replay<T>(
+    method: HttpRecording['method'],
+    url: string,
+    options?: RequestOptions,
+    schema?: z.ZodType
+  ): Promise<HttpResponse<T>> {
+    const recording = await this.readRecording(method, url, options);
+    this.logger.debug({ url, recordedAt: recording.recordedAt }, 'Replaying HTTP response');
+    if (recording.error !== undefined) {
+      throw new Error(recording.error);
+    }
+
+    const data = schema ? schema.parse(recording.data) : recording.data;
+    return { data: data as T, status: recording.status, headers: recording.headers };
+  }
+
+  /**
+   * Serve a recorded GET response
+   * @param url The URL to request
+   * @param options Optional request options
+   * @param schema Optional Zod schema to validate the response
+   * @returns Promise resolving to the recorded response
+   */
+  async get<T>(
+    url: string,
+    options?: RequestOptions,
+    schema?: z.ZodType
+  ): Promise<HttpResponse<T>> {
+    return await this.replay<T>('GET', url, options, schema);
+  }
+
+  /**
+   * Serve a recorded POST response; the request body is not sent anywhere
+   * @param url The URL to request
+   * @param _data Request body (ignored)
+   * @param options Optional request options
+   * @param schema Optional Zod schema to validate the response
+   * @returns Promise resolving to the recorded response
+   */
+  async post<T, D = unknown>(
+    url: string,
+    _data?: D,
+    options?: RequestOptions,
+    schema?: z.ZodType
+  ): Promise<HttpResponse<T>> {
+    return await this.replay<T>('POST', url, options, schema);
+  }
+}
@@ -5,7 +5,7 @@ import type { LoggerService } from '../../interfaces/loggerService.js';
 import type { SlackClient, SlackBlock } from '../../interfaces/slackClient.js';
 import type { Show } from '../../schemas/domain.js';
 import { BaseOutputServiceImpl } from '../baseOutputServiceImpl.js';
-import { formatDate } from '../../utils/dateUtils.js';
+import { formatDate, formatWeekday } from '../../utils/dateUtils.js';
 import { formatError, safeResolve } from '../../utils/errorHandling.js';
 
 /**
@@ -36,25 +36,13 @@ export class SlackOutputServiceImpl extends BaseOutputServiceImpl<SlackBlock> {
   }
 
   /**
-   * Render the header section
-   * For Slack, we combine header and content into a single message,
-   * so this method is a no-op. The header is included in renderContent().
-   * @param _date The date for which shows are being displayed (unused here)
-   */
-  protected async renderHeader(_date: Date): Promise<void> {
-    // No-op: header is combined with content in renderContent()
-    await safeResolve();
-  }
-  
-  /**
-   * Render the main content section
-   * Combines header and content into a single Slack message
+   * Send a single Slack message with a header and the formatted network groups
    * @param networkGroups Shows grouped by network
-   * @param date The date for which shows are being displayed
+   * @param title Header text for the message
    */
-  protected async renderContent(
+  private async sendSchedule(
     networkGroups: Record<string, Show[]>,
-    date: Date
+    title: string
   ): Promise<void> {
     // Get Slack configuration options
     const slackOptions = this.configService.getSlackOptions();
@@ -65,13 +53,13 @@ export class SlackOutputServiceImpl extends BaseOutputServiceImpl<SlackBlock> {
       type: 'header',
       text: {
         type: 'plain_text',
-        text: `TV Shows for ${formatDate(date)}`,
+        text: title,
         emoji: true
       }
     };
 
     // Generate content blocks using the formatter
-    const contentBlocks = this.showFormatter.formatNetworkGroups(networkGroups);
+    const contentBlocks = this.formatNetworkGroups(networkGroups);
 
     // Combine header and content into single message
     const allBlocks = [dateHeaderBlock, ...contentBlocks];
@@ -79,10 +67,65 @@ export class SlackOutputServiceImpl extends BaseOutputServiceImpl<SlackBlock> {
     // Send single message to Slack
     await this.slackClient.sendMessage({
       channel: channelId,
-      text: `TV Shows for ${formatDate(date)}`,
+      text: title,
       blocks: allBlocks
     });
   }
+
+  /**
+   * Render the header section
+   * For Slack, we combine header and content into a single message,
+   * so this method is a no-op. The header is included in renderContent().
+   * @param _date The date for which shows are being displayed (unused here)
+   */
+  protected async renderHeader(_date: Date): Promise<void> {
+    // No-op: header is combined with content in renderContent()
+    await safeResolve();
+  }
+  
+  /**
+   * Render the main content section
+   * Combines header and content into a single Slack message
+   * @param networkGroups Shows grouped by network
+   * @param date The date for which shows are being displayed
+   */
+  protected async renderContent(
+    networkGroups: Record<string, Show[]>,
+    date: Date
+  ): Promise<void> {
+    await this.sendSchedule(networkGroups, `TV Shows for ${formatDate(date)}`);
+  }
+
+  /**
+   * Render the header section for a multi-day range
+   * Each day is sent as its own message, so there is no separate range header
+   * @param _startDate First day of the range (unused here)
+   * @param _endDate Last day of the range (unused here)
+   */
+  protected async renderRangeHeader(_startDate: Date, _endDate: Date): Promise<void> {
+    await safeResolve();
+  }
+
+  /**
+   * Render the shows for a single day of a multi-day range
+   * Sends one message per day to stay within Slack's per-message block limit;
+   * days without shows are skipped
+   * @param networkGroups Shows airing that day, grouped by network
+   * @param date The day being rendered
+   */
+  protected async renderDay(
+    networkGroups: Record<string, Show[]>,
+    date: Date
+  ): Promise<void> {
+    if (Object.keys(networkGroups).length === 0) {
+      return;
+    }
+    await this.sendSchedule(
+      networkGroups,
+      `TV Shows for ${formatWeekday(date)}, ${formatDate(date)}`
+    );
+  }
+
   
   /**
    * Render the footer section
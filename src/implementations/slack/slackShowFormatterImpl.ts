@@ -16,6 +16,7 @@ import {
   allShowsHaveNoAirtime
 } from '../../utils/formatUtils.js';
 import { sortShowsByTime } from '../../utils/showUtils.js';
+import { hasContent } from '../../utils/stringUtils.js';
 
 /**
  * Formats TV show data into Slack message blocks using compact context blocks
@@ -24,6 +25,34 @@ import { sortShowsByTime } from '../../utils/showUtils.js';
 export class SlackShowFormatterImpl extends BaseShowFormatterImpl<SlackBlock>
   implements SlackShowFormatter {
 
+  /**
+   * Format a show name, highlighting followed shows
+   * @param components Prepared show components
+   * @returns Show name in Slack mrkdwn
+   */
+  private formatShowName(components: { showName: string; isFollowed: boolean }): string {
+    return components.isFollowed ? `:star: *${components.showName}*` : components.showName;
+  }
+
+  /**
+   * Format an airtime in 12-hour format, with the timezone abbreviation if known
+   * @param show Show with an airtime
+   * @returns Formatted airtime (e.g., "8:00 PM" or "5:00 PM PST")
+   */
+  private formatAirtime(show: Show): string {
+    const airtime = formatTimeWithPeriod(show.airtime);
+    return hasContent(show.airtimeZone) ? `${airtime} ${show.airtimeZone}` : airtime;
+  }
+
+  /**
+   * Format a badge label for the end of a bullet
+   * @param badge Badge label (may be empty)
+   * @returns Bold badge preceded by a space, or an empty string
+   */
+  private formatBadgeSuffix(badge: string): string {
+    return badge === '' ? '' : ` *${badge}*`;
+  }
+
   /**
    * Format all shows for a network as a bullet list
    * @param shows Shows to format
@@ -70,13 +99,21 @@ export class SlackShowFormatterImpl extends BaseShowFormatterImpl<SlackBlock>
    */
   private formatShowAsBullet(show: Show): string {
     const components = this.prepareShowComponents(show);
-    const hasAirtimeValue = hasAirtime(show);
+    const title = components.episodeTitle === '' ? '' : ` _${components.episodeTitle}_`;
+    const badge = this.formatBadgeSuffix(components.badge);
 
-    if (hasAirtimeValue) {
-      const airtime = formatTimeWithPeriod(show.airtime);
-      return `• ${components.showName} ${components.episodeInfo} (${airtime})`;
+    const details: string[] = [];
+    if (hasAirtime(show)) {
+      details.push(this.formatAirtime(show));
     }
-    return `• ${components.showName} ${components.episodeInfo}`;
+    if (components.runtime !== '') {
+      details.push(components.runtime);
+    }
+    const suffix = details.length > 0 ? ` (${details.join(', ')})` : '';
+
+    const showName = this.formatShowName(components);
+
+    return `• ${showName} ${components.episodeInfo}${title}${badge}${suffix}`;
   }
 
   /**
@@ -109,10 +146,12 @@ export class SlackShowFormatterImpl extends BaseShowFormatterImpl<SlackBlock>
 
         const hasAirtimeValue = shows.some(show => hasAirtime(show));
         const airtime = hasAirtimeValue
-          ? ` (${formatTimeWithPeriod(firstEp.airtime)})`
+          ? ` (${this.formatAirtime(firstEp)})`
           : '';
 
-        return `• ${components.showName} ${season}E${firstEpNumber}-${lastEpNumber}${airtime}`;
+        const showName = this.formatShowName(components);
+        const badge = this.formatBadgeSuffix(this.formatBadges(sortedEpisodes));
+        return `• ${showName} ${season}E${firstEpNumber}-${lastEpNumber}${badge}${airtime}`;
       }
     }
 
@@ -257,4 +296,21 @@ export class SlackShowFormatterImpl extends BaseShowFormatterImpl<SlackBlock>
   protected formatNetworkSeparator(): SlackBlock[] {
     return [];
   }
+
+  /**
+   * Format the heading of a channel kind section
+   * @param title Section title (e.g., "Streaming")
+   * @returns Section block with the bold title
+   */
+  protected formatSectionHeader(title: string): SlackBlock[] {
+    const sectionBlock: SlackSectionBlock = {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*${title}*`
+      }
+    };
+
+    return [sectionBlock];
+  }
 }
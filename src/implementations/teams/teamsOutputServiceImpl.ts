@@ -0,0 +1,174 @@
+import { inject, injectable } from 'tsyringe';
+import type { TeamsShowFormatter } from '../../interfaces/showFormatter.js';
+import type { ConfigService } from '../../interfaces/configService.js';
+import type { LoggerService } from '../../interfaces/loggerService.js';
+import type {
+  AdaptiveCard,
+  AdaptiveCardElement,
+  TeamsClient
+} from '../../interfaces/teamsClient.js';
+import type { Show } from '../../schemas/domain.js';
+import { BaseOutputServiceImpl } from '../baseOutputServiceImpl.js';
+import { formatDate, formatWeekday } from '../../utils/dateUtils.js';
+import { formatError, safeResolve } from '../../utils/errorHandling.js';
+
+/** Adaptive Card schema and the version Teams renders */
+const ADAPTIVE_CARD_SCHEMA = 'https://adaptivecards.io/schemas/adaptive-card.json';
+const ADAPTIVE_CARD_VERSION = '1.4';
+
+/**
+ * Microsoft Teams implementation of the OutputService interface
+ * Posts TV show information to a Teams incoming webhook as an Adaptive Card
+ * Extends the BaseOutputServiceImpl abstract class
+ */
+@injectable()
+export class TeamsOutputServiceImpl extends BaseOutputServiceImpl<AdaptiveCardElement> {
+  private readonly teamsClient: TeamsClient;
+  private readonly logger: LoggerService;
+
+  constructor(
+    @inject('TeamsShowFormatter') formatter: TeamsShowFormatter,
+    @inject('TeamsClient') teamsClient: TeamsClient,
+    @inject('ConfigService') configService: ConfigService,
+    @inject('LoggerService') logger?: LoggerService
+  ) {
+    super(formatter, configService);
+    this.teamsClient = teamsClient;
+    this.logger = logger?.child({ module: 'TeamsOutputService' }) ?? {
+      error: () => { /* noop */ },
+      warn: () => { /* noop */ },
+      info: () => { /* noop */ },
+      debug: () => { /* noop */ },
+      child: () => this.logger
+    };
+  }
+
+  /**
+   * Create a full-width Adaptive Card
+   * @param body Card elements
+   * @returns Adaptive Card
+   */
+  private createCard(body: AdaptiveCardElement[]): AdaptiveCard {
+    return {
+      body,
+      type: 'AdaptiveCard',
+      $schema: ADAPTIVE_CARD_SCHEMA,
+      version: ADAPTIVE_CARD_VERSION,
+      msteams: { width: 'Full' }
+    };
+  }
+
+  /**
+   * Post a single card with a header and the formatted network groups
+   * @param networkGroups Shows grouped by network
+   * @param title Header text for the card
+   */
+  private async sendSchedule(
+    networkGroups: Record<string, Show[]>,
+    title: string
+  ): Promise<void> {
+    const hasNetworks = Object.keys(networkGroups).length > 0;
+    const content: AdaptiveCardElement[] = hasNetworks
+      ? this.formatNetworkGroups(networkGroups)
+      : [{ type: 'TextBlock', text: 'No shows found for the specified criteria.', wrap: true }];
+
+    await this.teamsClient.sendCard(this.createCard([
+      { type: 'TextBlock', text: title, size: 'Large', weight: 'Bolder', wrap: true },
+      ...content,
+      {
+        type: 'TextBlock',
+        text: 'Data provided by TVMaze API',
+        size: 'Small',
+        isSubtle: true,
+        spacing: 'Medium'
+      }
+    ]));
+  }
+
+  /**
+   * Render the header section
+   * The header is part of the card posted in renderContent(), so this is a no-op
+   * @param _date The date for which shows are being displayed (unused here)
+   */
+  protected async renderHeader(_date: Date): Promise<void> {
+    await safeResolve();
+  }
+
+  /**
+   * Render the main content section
+   * @param networkGroups Shows grouped by network
+   * @param date The date for which shows are being displayed
+   */
+  protected async renderContent(
+    networkGroups: Record<string, Show[]>,
+    date: Date
+  ): Promise<void> {
+    await this.sendSchedule(networkGroups, `TV Shows for ${formatDate(date)}`);
+  }
+
+  /**
+   * Render the header section for a multi-day range
+   * Each day is posted as its own card, so there is no separate range header
+   * @param _startDate First day of the range (unused here)
+   * @param _endDate Last day of the range (unused here)
+   */
+  protected async renderRangeHeader(_startDate: Date, _endDate: Date): Promise<void> {
+    await safeResolve();
+  }
+
+  /**
+   * Render the shows for a single day of a multi-day range
+   * Posts one card per day to stay within the webhook's message size limit;
+   * days without shows are skipped
+   * @param networkGroups Shows airing that day, grouped by network
+   * @param date The day being rendered
+   */
+  protected async renderDay(
+    networkGroups: Record<string, Show[]>,
+    date: Date
+  ): Promise<void> {
+    if (Object.keys(networkGroups).length === 0) {
+      return;
+    }
+    await this.sendSchedule(
+      networkGroups,
+      `TV Shows for ${formatWeekday(date)}, ${formatDate(date)}`
+    );
+  }
+
+  /**
+   * Render the footer section
+   * The attribution is part of each card, so this is a no-op
+   */
+  protected async renderFooter(): Promise<void> {
+    await safeResolve();
+  }
+
+  /**
+   * Handle errors that occur during rendering
+   * @param error The error that occurred
+   */
+  protected async handleError(error: unknown): Promise<void> {
+    const errorMessage = formatError(error);
+
+    this.logger.error({
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined
+    }, 'Error rendering Teams output');
+
+    // Attempt to post the error to the channel
+    try {
+      await this.teamsClient.sendCard(this.createCard([{
+        type: 'TextBlock',
+        text: `Error fetching TV shows: ${errorMessage}`,
+        color: 'Attention',
+        wrap: true
+      }]));
+    } catch (sendError) {
+      this.logger.error({
+        originalError: errorMessage,
+        sendError: formatError(sendError)
+      }, 'Failed to send error message to Teams');
+    }
+  }
+}
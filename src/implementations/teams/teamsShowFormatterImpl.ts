@@ -0,0 +1,205 @@
+import 'reflect-metadata';
+import { injectable } from 'tsyringe';
+
+import type { TeamsShowFormatter } from '../../interfaces/showFormatter.js';
+import type {
+  AdaptiveCardElement,
+  AdaptiveContainer,
+  AdaptiveFactSet,
+  AdaptiveTextBlock
+} from '../../interfaces/teamsClient.js';
+import type { Show } from '../../schemas/domain.js';
+import { formatTimeWithPeriod } from '../../utils/dateUtils.js';
+import { hasAirtime } from '../../utils/formatUtils.js';
+import { formatEpisodeRanges } from '../../utils/showUtils.js';
+import { hasContent } from '../../utils/stringUtils.js';
+import { BaseShowFormatterImpl } from '../baseShowFormatterImpl.js';
+
+/**
+ * Formats TV show data into Adaptive Card elements for Microsoft Teams:
+ * a container per network with a FactSet of airtime → show and episode
+ */
+@injectable()
+export class TeamsShowFormatterImpl extends BaseShowFormatterImpl<AdaptiveCardElement>
+  implements TeamsShowFormatter {
+  /** Prefix that highlights followed shows */
+  private readonly FOLLOWED_MARKER = '★';
+
+  /**
+   * Format a show as a FactSet with a single fact
+   * @param show Show to format
+   * @param customEpisodeInfo Optional episode range to override the episode info
+   * @param customBadge Optional badges to override the show's own badge
+   * @returns FactSet with the airtime as title and the show and episode as value
+   */
+  private formatShow(
+    show: Show,
+    customEpisodeInfo?: string,
+    customBadge?: string
+  ): AdaptiveFactSet {
+    const components = this.prepareShowComponents(show);
+    const airtime = hasAirtime(show)
+      ? `${formatTimeWithPeriod(show.airtime)} ${components.timeZone}`.trim()
+      : this.NO_AIRTIME;
+    const showName = components.isFollowed
+      ? `${this.FOLLOWED_MARKER} **${components.showName}**`
+      : components.showName;
+
+    // Episode title only applies to a single episode, not a range
+    const episodeInfo = hasContent(customEpisodeInfo) ? customEpisodeInfo : components.episodeInfo;
+    const episodeTitle = hasContent(customEpisodeInfo) ? '' : components.episodeTitle;
+    const badge = customBadge ?? components.badge;
+    const details = [components.type];
+    if (hasContent(components.runtime)) {
+      details.push(components.runtime);
+    }
+
+    const value = [
+      showName,
+      episodeInfo,
+      ...(hasContent(episodeTitle) ? [`"${episodeTitle}"`] : []),
+      ...(hasContent(badge) ? [badge] : []),
+      `(${details.join(', ')})`
+    ].join(' ');
+
+    return { type: 'FactSet', facts: [{ value, title: airtime }] };
+  }
+
+  /**
+   * Format the heading of a network
+   * @param network The network name
+   * @returns Bold TextBlock with the network name
+   */
+  private formatNetworkTitle(network: string): AdaptiveTextBlock {
+    return {
+      type: 'TextBlock',
+      text: this.formatNetworkName(network),
+      weight: 'Bolder',
+      wrap: true
+    };
+  }
+
+  /**
+   * Format a show with a specific airtime
+   * @param show Show with a specific airtime
+   * @returns FactSet for the show
+   */
+  public formatTimedShow(show: Show): AdaptiveFactSet {
+    return this.formatShow(show);
+  }
+
+  /**
+   * Format a show with no specific airtime (TBA)
+   * @param show Show with no specific airtime
+   * @returns FactSet for the show
+   */
+  public formatUntimedShow(show: Show): AdaptiveFactSet {
+    return this.formatShow(show);
+  }
+
+  /**
+   * Format multiple episodes of the same show as one fact with an episode range
+   * @param shows Multiple episodes of the same show
+   * @returns FactSets for the episodes
+   */
+  public formatMultipleEpisodes(shows: Show[]): AdaptiveCardElement[] {
+    if (!Array.isArray(shows) || shows.length === 0) {
+      return [];
+    }
+
+    const sortedEpisodes = this.sortEpisodesByNumber(shows);
+    return [this.formatShow(
+      sortedEpisodes[0],
+      formatEpisodeRanges(sortedEpisodes),
+      this.formatBadges(sortedEpisodes)
+    )];
+  }
+
+  /**
+   * Format a single network and its shows as one container
+   * The shows are grouped and collapsed by the base formatter, then merged into one FactSet
+   * @param network Network name
+   * @param shows Shows in the network
+   * @returns Container with the network heading and a FactSet of its shows
+   */
+  public override formatNetwork(network: string, shows: Show[]): AdaptiveCardElement[] {
+    if (shows.length === 0) {
+      return this.formatEmptyNetwork(network);
+    }
+
+    const facts = super.formatNetwork(network, shows)
+      .flatMap(element => element.type === 'FactSet' ? element.facts : []);
+    const container: AdaptiveContainer = {
+      type: 'Container',
+      separator: true,
+      items: [...this.formatNetworkHeader(network), { facts, type: 'FactSet' }]
+    };
+    return [container];
+  }
+
+  /**
+   * Format the header for network display
+   * @param network The network name
+   * @returns Network heading
+   */
+  protected formatNetworkHeader(network: string): AdaptiveCardElement[] {
+    return [this.formatNetworkTitle(network)];
+  }
+
+  /**
+   * Format content for an empty network
+   * @param network The network name
+   * @returns Container with the network heading and a note
+   */
+  protected formatEmptyNetwork(network: string): AdaptiveCardElement[] {
+    return [{
+      type: 'Container',
+      separator: true,
+      items: [
+        this.formatNetworkTitle(network),
+        { type: 'TextBlock', text: 'No shows found', isSubtle: true, wrap: true }
+      ]
+    }];
+  }
+
+  /**
+   * Format the header content for the network groups
+   * The date header is added by TeamsOutputServiceImpl, so there is no header here
+   * @returns Empty array
+   */
+  protected formatHeader(): AdaptiveCardElement[] {
+    return [];
+  }
+
+  /**
+   * Format the footer content for the network groups
+   * The attribution is added by TeamsOutputServiceImpl
+   * @returns Empty array
+   */
+  protected formatFooter(): AdaptiveCardElement[] {
+    return [];
+  }
+
+  /**
+   * Format separator between networks
+   * @returns Empty array; network containers draw their own separator
+   */
+  protected formatNetworkSeparator(): AdaptiveCardElement[] {
+    return [];
+  }
+
+  /**
+   * Format the heading of a channel kind section
+   * @param title Section title (e.g., "Streaming")
+   * @returns Medium bold TextBlock with the title
+   */
+  protected formatSectionHeader(title: string): AdaptiveCardElement[] {
+    return [{
+      type: 'TextBlock',
+      text: title,
+      size: 'Medium',
+      weight: 'Bolder',
+      spacing: 'Large'
+    }];
+  }
+}
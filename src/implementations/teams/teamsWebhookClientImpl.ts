@@ -0,0 +1,84 @@
+import { injectable, inject } from 'tsyringe';
+import type { ConfigService } from '../../interfaces/configService.js';
+import type { HttpClient } from '../../interfaces/httpClient.js';
+import type { LoggerService } from '../../interfaces/loggerService.js';
+import type { AdaptiveCard, TeamsClient } from '../../interfaces/teamsClient.js';
+import type { TeamsConfig } from '../../types/configTypes.js';
+
+/** Content type of Adaptive Card attachments */
+const ADAPTIVE_CARD_CONTENT_TYPE = 'application/vnd.microsoft.card.adaptive';
+
+/**
+ * Implementation of the TeamsClient interface
+ * Posts Adaptive Cards to the incoming webhook from the teams config
+ * through the WebhookHttpClient
+ */
+@injectable()
+export class TeamsWebhookClientImpl implements TeamsClient {
+  private readonly _options: TeamsConfig;
+  private readonly logger: LoggerService;
+
+  /**
+   * Creates a new TeamsWebhookClientImpl instance
+   * @param configService The configuration service
+   * @param httpClient HTTP client used to post to the webhook
+   * @param logger The logger service
+   * @throws Error if the config has no teams section
+   */
+  constructor(
+    @inject('ConfigService') private readonly configService: ConfigService,
+    @inject('WebhookHttpClient') private readonly httpClient: HttpClient,
+    @inject('LoggerService') logger?: LoggerService
+  ) {
+    const teamsConfig = this.configService.getConfig().teams;
+    if (teamsConfig === undefined) {
+      throw new Error('Teams is not configured: add a "teams" section to config.json');
+    }
+    this._options = teamsConfig;
+    this.logger = logger?.child({ module: 'TeamsWebhookClient' }) ?? {
+      error: () => { /* noop */ },
+      warn: () => { /* noop */ },
+      info: () => { /* noop */ },
+      debug: () => { /* noop */ },
+      child: () => this.logger
+    };
+  }
+
+  /**
+   * Remove the webhook URL, which includes its secret signature, from an error
+   * @param error Error thrown while posting
+   * @returns Error message without the webhook URL
+   */
+  private redactError(error: unknown): string {
+    return String(error).replaceAll(this._options.webhookUrl, '<webhook URL>');
+  }
+
+  /**
+   * Post a card to the configured incoming webhook
+   * @param card The card to post
+   * @returns Promise resolving when Teams has accepted the card
+   */
+  public async sendCard(card: AdaptiveCard): Promise<void> {
+    const startTime = Date.now();
+    try {
+      const response = await this.httpClient.post(this._options.webhookUrl, {
+        type: 'message',
+        attachments: [{ contentType: ADAPTIVE_CARD_CONTENT_TYPE, content: card }]
+      });
+
+      this.logger.info({
+        elementsCount: card.body.length,
+        status: response.status,
+        duration: Date.now() - startTime
+      }, 'Successfully sent Teams card');
+    } catch (error) {
+      const errorMessage = this.redactError(error);
+      this.logger.error({
+        elementsCount: card.body.length,
+        error: errorMessage,
+        duration: Date.now() - startTime
+      }, 'Failed to send Teams card');
+      throw new Error(`Failed to send Teams card: ${errorMessage}`, { cause: error });
+    }
+  }
+}
@@ -28,20 +28,43 @@ export class TestConfigServiceImpl implements ConfigService {
   ) {
     // Initialize show options with defaults
     this.showOptions = {
+      provider: showOptions.provider,
       date: showOptions.date ?? '2025-03-25',
+      endDate: showOptions.endDate,
       country: showOptions.country ?? 'US',
       types: showOptions.types ?? [],
       networks: showOptions.networks ?? [],
+      networkAliases: showOptions.networkAliases,
+      channels: showOptions.channels,
+      groupByChannelKind: showOptions.groupByChannelKind,
       genres: showOptions.genres ?? [],
       languages: showOptions.languages ?? ['English'],
       minAirtime: showOptions.minAirtime ?? '18:00',
-      excludeShowNames: showOptions.excludeShowNames ?? []
+      maxAirtime: showOptions.maxAirtime,
+      networkAirtimes: showOptions.networkAirtimes,
+      includeUntimed: showOptions.includeUntimed,
+      excludeShowNames: showOptions.excludeShowNames ?? [],
+      filter: showOptions.filter,
+      followedShows: showOptions.followedShows,
+      premieresAndFinalesOnly: showOptions.premieresAndFinalesOnly,
+      finaleBadges: showOptions.finaleBadges,
+      displayTimezone: showOptions.displayTimezone,
+      showTimezoneAbbreviation: showOptions.showTimezoneAbbreviation
     };
     
     // Initialize CLI options with defaults
     this.cliOptions = {
       debug: cliOptions.debug ?? false,
-      groupByNetwork: cliOptions.groupByNetwork ?? false
+      groupByNetwork: cliOptions.groupByNetwork ?? false,
+      command: cliOptions.command,
+      query: cliOptions.query,
+      format: cliOptions.format,
+      outputFile: cliOptions.outputFile,
+      csvColumns: cliOptions.csvColumns,
+      append: cliOptions.append,
+      json: cliOptions.json,
+      record: cliOptions.record,
+      replay: cliOptions.replay
     };
     
     // Initialize app config with defaults
@@ -57,7 +80,16 @@ export class TestConfigServiceImpl implements ConfigService {
         token: '',
         channelId: '',
         username: 'WhatsOnTV'
-      }
+      },
+      ...(appConfig.xmltv && { xmltv: appConfig.xmltv }),
+      ...(appConfig.email && { email: appConfig.email }),
+      ...(appConfig.discord && { discord: appConfig.discord }),
+      ...(appConfig.teams && { teams: appConfig.teams }),
+      ...(appConfig.webhook && { webhook: appConfig.webhook }),
+      ...(appConfig.feed && { feed: appConfig.feed }),
+      ...(appConfig.operationsEmail !== undefined && {
+        operationsEmail: appConfig.operationsEmail
+      })
     };
 
     // Initialize Slack options with defaults
@@ -6,14 +6,26 @@ import { injectable } from 'tsyringe';
 import yargs from 'yargs';
 
 import type { CliArgs as CliArguments } from '../../types/cliArgs.js';
+import type {
+  ChannelFilter,
+  CliCommand,
+  OutputFormat,
+  ShowProvider
+} from '../../types/configTypes.js';
 
 type StringOrArray = string | string[] | undefined;
-import { getTodayDate } from '../../utils/dateUtils.js';
+
+/** Subcommands other than the default `shows` */
+const SUBCOMMANDS: CliCommand[] = ['search', 'discover'];
+import { getTodayDate, isValidTimezone } from '../../utils/dateUtils.js';
 import { getStringValue } from '../../utils/stringUtils.js';
 import {
   toStringArray,
-  mergeShowOptions
+  mergeShowOptions,
+  resolveEndDate
 } from '../../utils/configUtils.js';
+import { CSV_COLUMNS, parseCsvColumns } from '../../utils/csvUtils.js';
+import { parseFilterExpression } from '../../utils/filterExpressionUtils.js';
 import { BaseConfigServiceImpl } from '../baseConfigServiceImpl.js';
 
 @injectable()
@@ -48,7 +60,16 @@ export class CliConfigServiceImpl extends BaseConfigServiceImpl {
     // Initialize CLI options from parsed arguments
     this.cliOptions = {
       debug: this.cliArgs.debug,
-      groupByNetwork: this.cliArgs.groupByNetwork
+      groupByNetwork: this.cliArgs.groupByNetwork,
+      command: this.cliArgs.command,
+      query: this.cliArgs.query,
+      format: this.cliArgs.format,
+      outputFile: this.cliArgs.outputFile,
+      csvColumns: this.cliArgs.csvColumns,
+      append: this.cliArgs.append,
+      json: this.cliArgs.json,
+      record: this.cliArgs.record,
+      replay: this.cliArgs.replay
     };
 
     // Set initial show options from config
@@ -70,10 +91,24 @@ export class CliConfigServiceImpl extends BaseConfigServiceImpl {
     // Parse the arguments - use parseSync to ensure we get a synchronous result
     const parsedArguments = yargsInstance.parseSync();
 
+    const date = getStringValue(
+      (parsedArguments.date as string | undefined) ?? '', getTodayDate()
+    );
+
+    const command = SUBCOMMANDS.find(name => name === parsedArguments._[0]) ?? 'shows';
+    const isSearch = command === 'search';
+
     // Convert to our CliArgs type with proper type handling
     return {
-      date: getStringValue(
-        (parsedArguments.date as string | undefined) ?? '', getTodayDate()
+      command,
+      ...(isSearch && {
+        query: toStringArray(parsedArguments.query as StringOrArray).join(' ')
+      }),
+      date,
+      endDate: resolveEndDate(
+        date,
+        parsedArguments.to as string | undefined,
+        parsedArguments.days as number | undefined
       ),
       country: getStringValue(
         (parsedArguments.country as string | undefined) ?? '', 'US'
@@ -85,8 +120,25 @@ export class CliConfigServiceImpl extends BaseConfigServiceImpl {
       minAirtime: getStringValue(
         (parsedArguments.minAirtime as string | undefined) ?? '', '18:00'
       ),
+      maxAirtime: parsedArguments.maxAirtime as string | undefined,
+      includeUntimed: parsedArguments.includeUntimed as boolean | undefined,
       debug: parsedArguments.debug as boolean,
-      groupByNetwork: true // Default to true, not configurable via CLI yet
+      groupByNetwork: (parsedArguments.groupByNetwork as boolean | undefined) ?? true,
+      format: parsedArguments.format as OutputFormat | undefined,
+      outputFile: parsedArguments.output as string | undefined,
+      append: parsedArguments.append as boolean | undefined,
+      ...(parsedArguments.columns !== undefined && {
+        csvColumns: parseCsvColumns(toStringArray(parsedArguments.columns as StringOrArray))
+      }),
+      provider: parsedArguments.provider as ShowProvider | undefined,
+      json: parsedArguments.json as boolean | undefined,
+      record: parsedArguments.record as string | undefined,
+      replay: parsedArguments.replay as string | undefined,
+      premieresAndFinalesOnly: parsedArguments.premieresAndFinalesOnly as boolean | undefined,
+      channels: parsedArguments.channels as ChannelFilter | undefined,
+      filter: parsedArguments.filter as string | undefined,
+      groupByChannelKind: parsedArguments.groupByChannelKind as boolean | undefined,
+      displayTimezone: parsedArguments.displayTimezone as string | undefined
     };
   }
 
@@ -98,16 +150,33 @@ export class CliConfigServiceImpl extends BaseConfigServiceImpl {
    */
   protected createYargsInstance(args: string[]): ReturnType<typeof yargs> {
     return yargs(args)
+      .command('$0', 'Show TV listings')
+      .command('search <query..>', 'Search TVMaze for shows by name and list their IDs')
+      .command(
+        'discover',
+        'List the networks, genres, types and languages in the schedule, with episode counts'
+      )
       .option({
         date: {
-          alias: 'd',
-          describe: 'Date to show TV listings for (format: YYYY-MM-DD)',
+          alias: ['d', 'from'],
+          describe: 'Date (or first date of a range) to show TV listings for ' +
+            '(format: YYYY-MM-DD)',
           type: 'string',
           default: getTodayDate()
         },
+        to: {
+          describe: 'Last date of a range to show TV listings for (format: YYYY-MM-DD)',
+          type: 'string',
+          conflicts: 'days'
+        },
+        days: {
+          describe: 'Number of days to show TV listings for, starting at --date ' +
+            '(e.g., 7 for a week view)',
+          type: 'number'
+        },
         country: {
           alias: 'c',
-          describe: 'Country code (e.g., US, UK, CA)',
+          describe: 'Country code, or comma-separated codes to merge (e.g., US or US,GB,CA)',
           type: 'string',
           default: 'US'
         },
@@ -140,6 +209,88 @@ export class CliConfigServiceImpl extends BaseConfigServiceImpl {
           type: 'string',
           default: '18:00'
         },
+        maxAirtime: {
+          describe: 'Maximum airtime to include (format: HH:MM); earlier than ' +
+            '--min-airtime wraps midnight, e.g. 20:00 to 02:00',
+          type: 'string'
+        },
+        includeUntimed: {
+          describe: 'Include shows without an airtime, such as streaming drops ' +
+            '(--no-include-untimed leaves them out)',
+          type: 'boolean'
+        },
+        channels: {
+          describe: 'Channels to include: streaming services only, or linear ' +
+            '(broadcast and cable) channels only',
+          type: 'string',
+          choices: ['all', 'streaming', 'linear']
+        },
+        filter: {
+          describe: 'Filter expression, e.g. ' +
+            '"(genre:Drama and network:HBO) or (type:Reality and network:Bravo)"',
+          type: 'string'
+        },
+        groupByChannelKind: {
+          describe: 'Split the listings into Broadcast, Cable and Streaming sections',
+          type: 'boolean'
+        },
+        displayTimezone: {
+          alias: 'tz',
+          describe: 'Timezone to show airtimes in (e.g., America/Los_Angeles)',
+          type: 'string'
+        },
+        provider: {
+          describe: 'Source of TV listings (xmltv reads the guide set in config.json)',
+          type: 'string',
+          choices: ['tvmaze', 'xmltv']
+        },
+        record: {
+          describe: 'Write every HTTP response to this directory, for --replay',
+          type: 'string',
+          conflicts: 'replay'
+        },
+        replay: {
+          describe: 'Serve HTTP responses recorded with --record from this directory, ' +
+            'without network access',
+          type: 'string'
+        },
+        format: {
+          alias: 'f',
+          describe: 'Output format of the schedule (json is versioned, for scripts; ' +
+            'ics is an iCalendar file; markdown is for wikis and pull requests; ' +
+            'csv has one row per episode; atom and rss are feeds)',
+          type: 'string',
+          choices: ['text', 'json', 'ics', 'markdown', 'csv', 'atom', 'rss']
+        },
+        append: {
+          describe: 'Merge new entries into the existing --output feed, dropping entries ' +
+            'older than feed.retentionDays',
+          type: 'boolean'
+        },
+        columns: {
+          describe: `Columns of CSV output, in order (any of ${CSV_COLUMNS.join(',')})`,
+          type: 'string',
+          coerce: (argument: string) => toStringArray(argument)
+        },
+        output: {
+          alias: 'o',
+          describe: 'Write the schedule to this file instead of stdout (formats other ' +
+            'than text)',
+          type: 'string'
+        },
+        groupByNetwork: {
+          describe: 'Group JSON output by network (--no-group-by-network for one ' +
+            'list per day, sorted by airtime)',
+          type: 'boolean'
+        },
+        json: {
+          describe: 'Print discover results as JSON',
+          type: 'boolean'
+        },
+        premieresAndFinalesOnly: {
+          describe: 'Only include series/season premieres and finales',
+          type: 'boolean'
+        },
         debug: {
           alias: 'D',
           describe: 'Enable debug mode',
@@ -147,6 +298,30 @@ export class CliConfigServiceImpl extends BaseConfigServiceImpl {
           default: false
         }
       })
+      .check((argv) => {
+        // Validate the date range up front so errors are reported as usage errors
+        resolveEndDate(argv.date, argv.to, argv.days);
+        if (argv.displayTimezone !== undefined && !isValidTimezone(argv.displayTimezone)) {
+          throw new Error(`Unknown timezone "${argv.displayTimezone}"`);
+        }
+        if (argv.filter !== undefined) {
+          parseFilterExpression(argv.filter);
+        }
+        if (argv.output !== undefined && (argv.format ?? 'text') === 'text') {
+          throw new Error('--output requires a --format other than text');
+        }
+        if (argv.append === true &&
+          (argv.output === undefined || (argv.format !== 'atom' && argv.format !== 'rss'))) {
+          throw new Error('--append requires --output and --format atom or rss');
+        }
+        if (argv.columns !== undefined) {
+          if (argv.format !== 'csv') {
+            throw new Error('--columns requires --format csv');
+          }
+          parseCsvColumns(argv.columns);
+        }
+        return true;
+      })
       .help()
       .alias('help', 'h');
   }
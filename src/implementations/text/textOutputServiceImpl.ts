@@ -7,7 +7,7 @@ import type { Show } from '../../schemas/domain.js';
 import type { ProcessOutput } from '../../interfaces/processOutput.js';
 import { BaseOutputServiceImpl } from '../baseOutputServiceImpl.js';
 import { createSeparator } from '../../utils/stringUtils.js';
-import { formatDate } from '../../utils/dateUtils.js';
+import { formatDate, formatWeekday } from '../../utils/dateUtils.js';
 import { formatError, safeResolve } from '../../utils/errorHandling.js';
 
 /**
@@ -53,6 +53,39 @@ export class TextOutputServiceImpl extends BaseOutputServiceImpl<string> {
     this.output.log('');
   }
   
+  /**
+   * Render the header section for a multi-day range
+   * @param startDate First day of the range
+   * @param endDate Last day of the range
+   */
+  protected async renderRangeHeader(startDate: Date, endDate: Date): Promise<void> {
+    await safeResolve();
+
+    this.output.log('');
+    this.output.log(`WhatsOnTV v${this.version}`);
+    this.output.log(createSeparator());
+    this.output.log(`Shows for ${formatDate(startDate)} to ${formatDate(endDate)}`);
+  }
+
+  /**
+   * Render the shows for a single day of a multi-day range
+   * @param networkGroups Shows airing that day, grouped by network
+   * @param date The day being rendered
+   */
+  protected async renderDay(
+    networkGroups: Record<string, Show[]>,
+    date: Date
+  ): Promise<void> {
+    const dayHeader = `${formatWeekday(date)}, ${formatDate(date)}`;
+
+    this.output.log('');
+    this.output.log(dayHeader);
+    this.output.log(createSeparator(dayHeader.length, '-'));
+    this.output.log('');
+
+    await this.renderContent(networkGroups, date);
+  }
+  
   /**
    * Render the main content section
    * @param networkGroups Shows grouped by network
@@ -71,7 +104,7 @@ export class TextOutputServiceImpl extends BaseOutputServiceImpl<string> {
     
     try {
       // Format the shows using the formatter
-      const formattedOutput = this.showFormatter.formatNetworkGroups(networkGroups);
+      const formattedOutput = this.formatNetworkGroups(networkGroups);
       
       // Display each line of output
       for (const line of formattedOutput) {
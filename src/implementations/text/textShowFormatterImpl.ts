@@ -11,7 +11,9 @@ import { BaseShowFormatterImpl } from '../baseShowFormatterImpl.js';
  */
 @injectable()
 export class TextShowFormatterImpl extends BaseShowFormatterImpl<string> {
-  
+  /** Prefix that highlights followed shows */
+  private readonly FOLLOWED_MARKER = '★';
+
   constructor(
     @inject('StyleService') private readonly styleService: StyleService
   ) {
@@ -23,19 +25,26 @@ export class TextShowFormatterImpl extends BaseShowFormatterImpl<string> {
    * @param show Show to format
    * @param shouldUseShowAirtime Whether to use the show's airtime or a placeholder
    * @param customEpisodeInfo Optional custom episode info to override the default
+   * @param customBadge Optional custom badge to override the default
    * @returns Formatted show representation
    */
   private formatShow(
     show: Show,
     shouldUseShowAirtime: boolean,
-    customEpisodeInfo?: string
+    customEpisodeInfo?: string,
+    customBadge?: string
   ): string {
     const components = this.prepareShowComponents(show);
 
     // Apply padding before styling
-    const timeValue = shouldUseShowAirtime ? components.time : this.NO_AIRTIME;
+    const timeValue = shouldUseShowAirtime
+      ? `${components.time} ${components.timeZone}`.trim()
+      : this.NO_AIRTIME;
     const paddedTime = timeValue.padEnd(8);
-    const paddedShowName = components.showName.padEnd(20);
+    const showName = components.isFollowed
+      ? `${this.FOLLOWED_MARKER} ${components.showName}`
+      : components.showName;
+    const paddedShowName = showName.padEnd(20);
 
     // Handle custom episode info with hasContent check
     const episodeInfo = hasContent(customEpisodeInfo) ? customEpisodeInfo : components.episodeInfo;
@@ -45,12 +54,29 @@ export class TextShowFormatterImpl extends BaseShowFormatterImpl<string> {
     const styledTime = this.styleService.bold(paddedTime);
     const styledNetwork = this.styleService.boldCyan(components.network);
     const styledType = this.styleService.magenta(components.type);
-    const styledShowName = this.styleService.green(paddedShowName);
+    const styledShowName = components.isFollowed
+      ? this.styleService.boldYellow(paddedShowName)
+      : this.styleService.green(paddedShowName);
     const styledEpisodeInfo = this.styleService.yellow(paddedEpisodeInfo);
 
+    // Episode title only applies to a single episode, not a range
+    const episodeTitle = hasContent(customEpisodeInfo) ? '' : components.episodeTitle;
+    const quotedEpisodeTitle = `"${episodeTitle}"`;
+    const styledEpisodeTitle = hasContent(episodeTitle)
+      ? `${this.styleService.dim(quotedEpisodeTitle)} `
+      : '';
+
+    const badge = customBadge ?? components.badge;
+    const styledBadge = hasContent(badge) ? `${this.styleService.boldRed(badge)} ` : '';
+
+    const details = [styledNetwork, styledType];
+    if (hasContent(components.runtime)) {
+      details.push(components.runtime);
+    }
+
     // Create formatted string
     return `${styledTime} ${styledShowName} ${styledEpisodeInfo} ` +
-      `(${styledNetwork}, ${styledType})`;
+      `${styledEpisodeTitle}${styledBadge}(${details.join(', ')})`;
   }
 
   /**
@@ -90,8 +116,11 @@ export class TextShowFormatterImpl extends BaseShowFormatterImpl<string> {
     // Format episode ranges using the shared utility (handles gaps correctly)
     const episodeRange = formatEpisodeRanges(sortedEpisodes);
 
-    // Use the existing formatShow method with custom episode range
-    const formattedShow = this.formatShow(firstShow, true, episodeRange);
+    // Use the existing formatShow method with custom episode range and the
+    // badges of every episode in it (e.g. a premiere and a finale in one drop)
+    const formattedShow = this.formatShow(
+      firstShow, true, episodeRange, this.formatBadges(sortedEpisodes)
+    );
 
     // Return as array with a single string
     return [formattedShow];
@@ -142,4 +171,13 @@ export class TextShowFormatterImpl extends BaseShowFormatterImpl<string> {
   protected formatNetworkSeparator(): string[] {
     return [''];
   }
+
+  /**
+   * Format the heading of a channel kind section
+   * @param title Section title (e.g., "Streaming")
+   * @returns Uppercase heading followed by a blank line
+   */
+  protected formatSectionHeader(title: string): string[] {
+    return [this.styleService.boldMagenta(title.toUpperCase()), ''];
+  }
 }
@@ -0,0 +1,106 @@
+/**
+ * Token bucket rate limiter
+ *
+ * Allows bursts of up to `requests` calls and refills continuously so that
+ * no more than `requests` calls are made per `intervalMs` on average.
+ */
+
+import { setTimeout as delay } from 'node:timers/promises';
+import type { RateLimiter } from '../interfaces/rateLimiter.js';
+import type { LoggerService } from '../interfaces/loggerService.js';
+import type { RateLimitConfig } from '../types/configTypes.js';
+
+/** TVMaze allows 20 calls every 10 seconds per IP address */
+export const DEFAULT_RATE_LIMIT_REQUESTS = 20;
+export const DEFAULT_RATE_LIMIT_INTERVAL_MS = 10_000;
+
+/**
+ * Wait for the given number of milliseconds
+ * @param ms Delay in milliseconds
+ */
+async function sleep(ms: number): Promise<void> {
+  await delay(ms);
+}
+
+/**
+ * Implementation of RateLimiter using a continuously refilled token bucket
+ */
+export class TokenBucketRateLimiterImpl implements RateLimiter {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly logger: LoggerService;
+  private tokens: number;
+  private lastRefill: number;
+  /** Tail of the wait queue so tokens are handed out in request order */
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new token bucket
+   * @param options Bucket size and refill interval
+   * @param logger Logger service for structured logging
+   * @param now Clock in epoch milliseconds (injectable for tests)
+   * @param wait Sleep function (injectable for tests)
+   */
+  constructor(
+    options: RateLimitConfig = {},
+    logger?: LoggerService,
+    private readonly now: () => number = Date.now,
+    private readonly wait: (ms: number) => Promise<void> = sleep
+  ) {
+    this.capacity = options.requests ?? DEFAULT_RATE_LIMIT_REQUESTS;
+    const intervalMs = options.intervalMs ?? DEFAULT_RATE_LIMIT_INTERVAL_MS;
+    this.refillPerMs = this.capacity / intervalMs;
+    this.tokens = this.capacity;
+    this.lastRefill = this.now();
+    this.logger = logger?.child({ module: 'RateLimiter' }) ?? {
+      error: () => { /* noop */ },
+      warn: () => { /* noop */ },
+      info: () => { /* noop */ },
+      debug: () => { /* noop */ },
+      child: () => this.logger
+    };
+  }
+
+  /**
+   * Add the tokens accrued since the last refill, up to the bucket capacity
+   */
+  private refill(): void {
+    const currentTime = this.now();
+    const elapsed = currentTime - this.lastRefill;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+    this.lastRefill = currentTime;
+  }
+
+  /**
+   * Take one token, sleeping until one is available
+   */
+  private async takeToken(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      this.logger.debug({ waitMs }, 'Rate limit reached, delaying request');
+      await this.wait(waitMs);
+      this.refill();
+    }
+    this.tokens = Math.max(0, this.tokens - 1);
+  }
+
+  /**
+   * Take a token once every earlier caller has taken theirs
+   * @param previous Turn of the caller queued before this one
+   */
+  private async takeTurn(previous: Promise<void>): Promise<void> {
+    await previous;
+    await this.takeToken();
+  }
+
+  /**
+   * Wait until a request may be sent, consuming one token
+   * @returns Promise that resolves when the request may proceed
+   */
+  async acquire(): Promise<void> {
+    const turn = this.takeTurn(this.queue);
+    this.queue = turn;
+    await turn;
+  }
+}
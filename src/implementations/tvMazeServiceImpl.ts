@@ -4,37 +4,38 @@
 import { inject, injectable } from 'tsyringe';
 import type { HttpClient } from '../interfaces/httpClient.js';
 import type { LoggerService } from '../interfaces/loggerService.js';
-import type { TvShowService } from '../interfaces/tvShowService.js';
-import type { Show } from '../schemas/domain.js';
+import type { Show, ShowSearchResult } from '../schemas/domain.js';
+import {
+  searchResultsToShowSearchResultsSchema,
+  showWithSeasonsSchema
+} from '../schemas/tvmaze.js';
+import type { ShowWithSeasons } from '../schemas/tvmaze.js';
 import type { ShowOptions } from '../schemas/config.js';
 import {
+  getFinaleBadge,
   getNetworkScheduleUrl,
+  getSearchShowsUrl,
+  getShowWithSeasonsUrl,
   getWebScheduleUrl,
   transformSchedule
 } from '../utils/tvMazeUtils.js';
-import { convertTimeToMinutes, getTodayDate } from '../utils/dateUtils.js';
-import { getStringOrDefault } from '../utils/stringUtils.js';
+import { toCountryCodes } from '../utils/configUtils.js';
+import { getPremiereBadge } from '../utils/showUtils.js';
+import { BaseTvShowServiceImpl } from './baseTvShowServiceImpl.js';
 
 /**
  * Implementation of the TvShowService interface for the TVMaze API
  */
 @injectable()
-export class TvMazeServiceImpl implements TvShowService {
+export class TvMazeServiceImpl extends BaseTvShowServiceImpl {
   private readonly _apiClient: HttpClient;
-  private readonly logger: LoggerService;
 
   constructor(
     @inject('HttpClient') apiClient: HttpClient,
     @inject('LoggerService') logger?: LoggerService
   ) {
+    super(logger, 'TvMazeService');
     this._apiClient = apiClient;
-    this.logger = logger?.child({ module: 'TvMazeService' }) ?? {
-      error: () => { /* noop */ },
-      warn: () => { /* noop */ },
-      info: () => { /* noop */ },
-      debug: () => { /* noop */ },
-      child: () => this.logger
-    };
   }
 
   /**
@@ -106,218 +107,116 @@ export class TvMazeServiceImpl implements TvShowService {
   }
 
   /**
-   * Escape special regex characters in a string for literal matching
-   * @param str String to escape
-   * @returns Escaped string safe for regex use
+   * Fetch a show with its seasons, used for finale detection
+   * @param showId TVMaze show ID
+   * @returns Show details, or null if the request or validation fails
    * @private
    */
-  private escapeRegex(str: string): string {
-    return str.replaceAll(/[$()*+.?[\\\]^{|}]/g, String.raw`\$&`);
+  private async getShowWithSeasons(showId: number): Promise<ShowWithSeasons | null> {
+    const url = getShowWithSeasonsUrl(showId);
+    try {
+      const response = await this._apiClient.get<unknown>(url);
+      return showWithSeasonsSchema.parse(response.data);
+    } catch (error) {
+      // A missing badge is better than failing the whole schedule
+      this.logger.warn({
+        url,
+        showId,
+        error: String(error)
+      }, 'Failed to fetch show seasons for finale detection');
+      return null;
+    }
   }
 
   /**
-   * Apply filters to shows based on options
-   * @param shows Shows to filter
-   * @param options Filter options
-   * @returns Filtered shows
-   * @private
+   * Add premiere and finale badges to shows
+   * Premieres are detected from the episode number alone; finales need the
+   * show's seasons, which are fetched once per show
+   * @param shows Shows to add badges to
+   * @param shouldFindFinales Whether to fetch seasons for finale badges
+   * @returns Shows, with badges set on premieres and, when wanted, finales
+   * @protected
    */
-  private applyFilters(shows: Show[], options: ShowOptions): Show[] {
-    if (!Array.isArray(shows) || shows.length === 0) {
-      return [];
+  protected override async addBadges(
+    shows: Show[],
+    shouldFindFinales: boolean
+  ): Promise<Show[]> {
+    if (!shouldFindFinales) {
+      return await super.addBadges(shows, false);
     }
 
-    let filteredShows = [...shows];
-
-    // Filter out shows without episode numbers (specials, etc.)
-    filteredShows = filteredShows.filter((show: Show) => {
-      return typeof show.number === 'number' && show.number > 0;
+    const showIds = [...new Set(
+      shows.filter(show => getPremiereBadge(show) === null).map(show => show.id)
+    )];
+    const detailsById = new Map<number, ShowWithSeasons | null>(
+      await Promise.all(showIds.map(async showId =>
+        [showId, await this.getShowWithSeasons(showId)] as const
+      ))
+    );
+
+    return shows.map(show => {
+      const details = detailsById.get(show.id);
+      const badge = getPremiereBadge(show) ??
+        (details ? getFinaleBadge(show, details) : null);
+      return badge === null ? show : { ...show, badge };
     });
-
-    // Apply type filter
-    const typeValues = options.types;
-    if (Array.isArray(typeValues) && typeValues.length > 0) {
-      filteredShows = filteredShows.filter((show: Show) => {
-        return typeof show.type === 'string' &&
-               typeValues.some((type: string) =>
-                 show.type.toLowerCase() === type.toLowerCase()
-               );
-      });
-    }
-
-    // Apply network filter
-    const networkValues = options.networks;
-    if (Array.isArray(networkValues) && networkValues.length > 0) {
-      filteredShows = filteredShows.filter((show: Show) => {
-        if (typeof show.network !== 'string') {
-          return false;
-        }
-
-        // Remove country codes for exact matching
-        const showNetwork = show.network.replace(/ \([A-Z]{2}\)$/, '').toLowerCase();
-
-        return networkValues.some((network: string) =>
-          showNetwork === network.toLowerCase()
-        );
-      });
-    }
-
-    // Apply genre filter
-    const genreValues = options.genres;
-    if (Array.isArray(genreValues) && genreValues.length > 0) {
-      filteredShows = filteredShows.filter((show: Show) => {
-        return Array.isArray(show.genres) &&
-               genreValues.some((genre: string) =>
-                 show.genres.some((showGenre: string) =>
-                   showGenre.toLowerCase() === genre.toLowerCase()
-                 )
-               );
-      });
-    }
-
-    // Apply language filter
-    const languageValues = options.languages;
-    if (Array.isArray(languageValues) && languageValues.length > 0) {
-      filteredShows = filteredShows.filter((show: Show) => {
-        // Skip shows with no language
-        if (typeof show.language !== 'string') {
-          return false;
-        }
-
-        // Case-insensitive language matching
-        const showLanguage = show.language;
-        return languageValues.some((language: string) =>
-          showLanguage.toLowerCase() === language.toLowerCase()
-        );
-      });
-    }
-
-    // Apply minimum airtime filter
-    const minAirtime = options.minAirtime;
-    if (minAirtime !== undefined && minAirtime !== '') {
-      // Convert minAirtime to minutes for comparison
-      const minTimeInMinutes = convertTimeToMinutes(minAirtime);
-
-      if (minTimeInMinutes >= 0) {
-        filteredShows = filteredShows.filter((show: Show) => {
-          // Skip shows with no airtime (streaming shows often have no airtime)
-          if (show.airtime === null ||
-              show.airtime.trim() === '') {
-            return true;
-          }
-
-          const showTimeInMinutes = convertTimeToMinutes(show.airtime);
-          return showTimeInMinutes >= minTimeInMinutes;
-        });
-      }
-    }
-
-    // Apply show name exclusion filter
-    const excludePatterns = options.excludeShowNames;
-    if (Array.isArray(excludePatterns) && excludePatterns.length > 0) {
-      const compiledPatterns = excludePatterns.map(pattern => {
-        try {
-          // eslint-disable-next-line security/detect-non-literal-regexp
-          return new RegExp(pattern, 'i');
-        } catch {
-          // Invalid regex - treat as literal string (input is escaped)
-          // eslint-disable-next-line security/detect-non-literal-regexp
-          return new RegExp(this.escapeRegex(pattern), 'i');
-        }
-      });
-
-      filteredShows = filteredShows.filter(show =>
-        compiledPatterns.every(regex => !regex.test(show.name))
-      );
-    }
-
-    return filteredShows;
   }
 
   /**
-   * Deduplicate shows based on unique combination of show ID and episode
-   * @param shows Shows to deduplicate
-   * @returns Deduplicated shows
-   * @private
+   * Fetch the network and web schedules for the requested days
+   * @param dates Days to fetch (YYYY-MM-DD)
+   * @param options Options with the countries to fetch network schedules for
+   * @returns Promise resolving to every show airing on those days
+   * @protected
    */
-  private deduplicateShows(shows: Show[]): Show[] {
-    if (!Array.isArray(shows) || shows.length === 0) {
-      return [];
-    }
-
-    const seenKeys = new Set<string>();
-    const dedupedShows: Show[] = [];
-
-    for (const show of shows) {
-      // Create a unique key using show ID, season, and episode number
-      const key = `${show.id}-${show.season}-${show.number}`;
-      if (!seenKeys.has(key)) {
-        seenKeys.add(key);
-        dedupedShows.push(show);
-      }
-    }
-
-    return dedupedShows;
+  protected async fetchSchedule(dates: string[], options: ShowOptions): Promise<Show[]> {
+    const countries = toCountryCodes(options.country);
+
+    // Always fetch from both network and web sources, for every day in the range;
+    // network schedules are per country, the web schedule is global
+    const requests = dates.flatMap(date => [
+      ...countries.map(country => ({ date, url: getNetworkScheduleUrl(date, country) })),
+      { date, url: getWebScheduleUrl(date) }
+    ]);
+
+    // Fetch all schedules in parallel
+    const scheduleResults = await Promise.all(
+      requests.map(async request => this.getSchedule(request.url))
+    );
+
+    // Transform and combine all schedule results, tagging each show with the
+    // requested date when the API did not supply an airdate
+    return scheduleResults.flatMap((scheduleResult, index) =>
+      transformSchedule(scheduleResult).map((show): Show => ({
+        ...show,
+        airdate: show.airdate ?? requests[index].date
+      }))
+    );
   }
 
   /**
-   * Fetch TV shows based on the provided options
-   * @param options Options for filtering shows
-   * @returns Promise resolving to an array of shows
+   * Search TVMaze for shows by name
+   * @param query Show name (or part of it) to search for
+   * @returns Promise resolving to matching shows, best match first
    */
-  async fetchShows(options?: Partial<ShowOptions>): Promise<Show[]> {
-    // Default options
-    const defaultOptions: ShowOptions = {
-      date: '',
-      country: 'US',
-      types: [],
-      genres: [],
-      languages: [],
-      networks: []
-    };
-
-    // Merge options with defaults
-    const mergedOptions: ShowOptions = {
-      ...defaultOptions,
-      ...options
-    };
-
-    // Get date string, default to today if not provided
-    const dateString = getStringOrDefault(mergedOptions.date, getTodayDate());
-    const countryString = getStringOrDefault(mergedOptions.country, 'US');
-
-    // Always fetch from both network and web sources
-    const urlsToFetch: string[] = [
-      getNetworkScheduleUrl(dateString, countryString),
-      getWebScheduleUrl(dateString)
-    ];
+  async searchShows(query: string): Promise<ShowSearchResult[]> {
+    if (query.trim() === '') {
+      return [];
+    }
 
+    const url = getSearchShowsUrl(query);
     try {
-      // Fetch all schedules in parallel
-      const schedulePromises = urlsToFetch.map(async url => this.getSchedule(url));
-      const scheduleResults = await Promise.all(schedulePromises);
-
-      // Transform and combine all schedule results using a functional approach
-      let shows = scheduleResults
-        .flatMap(scheduleResult => transformSchedule(scheduleResult));
-
-      // Deduplicate shows based on unique combination of show ID and episode
-      shows = this.deduplicateShows(shows);
-
-      // Always apply filters - the applyFilters method will handle empty filter arrays
-      shows = this.applyFilters(shows, mergedOptions);
-
-      return shows;
+      const response = await this._apiClient.get<unknown>(url);
+      const results = searchResultsToShowSearchResultsSchema.parse(response.data);
+      return results.sort((a, b) => b.score - a.score);
     } catch (error) {
-      // Log errors with structured logging for better observability
+      // Unlike schedules, a failed search must not look like "no matches"
       this.logger.error({
+        url,
         error: String(error),
-        options: mergedOptions,
-        urlsCount: urlsToFetch.length,
-        environment: process.env.NODE_ENV,
         stack: error instanceof Error ? error.stack : undefined
-      }, 'Failed to fetch TV shows');
-      return [];
+      }, 'Failed to search shows on TVMaze API');
+      throw error;
     }
   }
 }
@@ -0,0 +1,234 @@
+/**
+ * Webhook Output Service Implementation
+ *
+ * Sends the filtered schedule to any HTTP endpoint as a body rendered from a
+ * user-supplied Mustache-style template, so chat tools such as Mattermost,
+ * Rocket.Chat or Google Chat and home-automation endpoints need no code changes.
+ */
+import 'reflect-metadata';
+import { inject, injectable } from 'tsyringe';
+
+import type { ConfigService } from '../../interfaces/configService.js';
+import type { HttpClient } from '../../interfaces/httpClient.js';
+import type { OutputService } from '../../interfaces/outputService.js';
+import type { ProcessOutput } from '../../interfaces/processOutput.js';
+import type { ShowOptions } from '../../schemas/config.js';
+import type { NetworkGroups, Show } from '../../schemas/domain.js';
+import type { WebhookConfig } from '../../types/configTypes.js';
+import { toCountryCodes } from '../../utils/configUtils.js';
+import {
+  formatDate,
+  formatTimeWithPeriod,
+  formatWeekday,
+  getDateRange,
+  parseDateString
+} from '../../utils/dateUtils.js';
+import { formatError } from '../../utils/errorHandling.js';
+import { readFile } from '../../utils/fileUtils.js';
+import { formatEpisodeInfo, hasAirtime } from '../../utils/formatUtils.js';
+import { groupShowsByDay, sortShowsByTime } from '../../utils/showUtils.js';
+import { hasContent } from '../../utils/stringUtils.js';
+import { escapeJsonString, renderTemplate } from '../../utils/templateUtils.js';
+
+/** Content-Type sent when the config sets none */
+const JSON_CONTENT_TYPE = 'application/json';
+/** Content-Type of form bodies, whose variables are URL-encoded */
+const FORM_CONTENT_TYPE = 'application/x-www-form-urlencoded';
+
+/**
+ * Leave variables of bodies that are neither JSON nor forms unescaped
+ * @param text Variable text
+ * @returns The same text
+ */
+function keepText(text: string): string {
+  return text;
+}
+
+/**
+ * Episode as seen by templates
+ */
+export interface WebhookTemplateShow extends Show {
+  /** Airtime as shown by the other outputs, e.g. "8:00 PM"; empty without an airtime */
+  time: string;
+  /** Season and episode, e.g. "S01E03" */
+  episode: string;
+}
+
+/**
+ * Shows of one network on one day
+ */
+export interface WebhookTemplateNetwork {
+  network: string;
+  shows: WebhookTemplateShow[];
+}
+
+/**
+ * Shows of one day, grouped by network
+ */
+export interface WebhookTemplateDay {
+  /** Airdate (YYYY-MM-DD) */
+  date: string;
+  weekday: string;
+  /** Heading such as "TV Shows for Monday, 2025-01-13" */
+  title: string;
+  showCount: number;
+  networks: WebhookTemplateNetwork[];
+}
+
+/**
+ * Values available to webhook templates
+ */
+export interface WebhookTemplateView {
+  /** Heading such as "TV Shows for 2025-01-13" */
+  title: string;
+  /** First day of the schedule (YYYY-MM-DD) */
+  date: string;
+  /** Last day of the schedule (YYYY-MM-DD); same as date for a single day */
+  endDate: string;
+  showCount: number;
+  /** Options the shows were fetched and filtered with */
+  options: ShowOptions;
+  /** One entry per day, even for a single day */
+  days: WebhookTemplateDay[];
+}
+
+/**
+ * Output service that sends the schedule to a templated webhook
+ */
+@injectable()
+export class WebhookOutputServiceImpl implements OutputService {
+  private readonly webhookConfig: WebhookConfig;
+
+  /**
+   * Create a new WebhookOutputService
+   * @param httpClient HTTP client used to send the request
+   * @param configService Configuration service
+   * @param output Process output, used for errors
+   * @throws Error if the config has no webhook section
+   */
+  constructor(
+    @inject('WebhookHttpClient') private readonly httpClient: HttpClient,
+    @inject('ConfigService') private readonly configService: ConfigService,
+    @inject('ProcessOutput') private readonly output: ProcessOutput
+  ) {
+    const webhookConfig = this.configService.getConfig().webhook;
+    if (webhookConfig === undefined) {
+      throw new Error('Webhook is not configured: add a "webhook" section to config.json');
+    }
+    this.webhookConfig = webhookConfig;
+  }
+
+  /**
+   * Get the configured template, reading it from templateFile when not inline
+   * @returns Template text
+   * @throws Error when neither template nor templateFile is set
+   */
+  private readTemplate(): string {
+    const { template, templateFile } = this.webhookConfig;
+    if (hasContent(template)) {
+      return template;
+    }
+    if (hasContent(templateFile)) {
+      return readFile(templateFile);
+    }
+    throw new Error('Webhook template is not configured: set "template" or "templateFile"');
+  }
+
+  /**
+   * Build the entry for one day
+   * @param date Airdate (YYYY-MM-DD)
+   * @param networkGroups Shows airing that day, grouped by network
+   * @returns Day entry
+   */
+  private toTemplateDay(date: string, networkGroups: NetworkGroups): WebhookTemplateDay {
+    const weekday = formatWeekday(parseDateString(date));
+    const networks = Object.entries(networkGroups).map(([network, shows]) => ({
+      network,
+      shows: sortShowsByTime(shows).map(show => ({
+        ...show,
+        time: hasAirtime(show) ? formatTimeWithPeriod(show.airtime) : '',
+        episode: formatEpisodeInfo(show)
+      }))
+    }));
+
+    return {
+      date,
+      weekday,
+      networks,
+      title: `TV Shows for ${weekday}, ${date}`,
+      showCount: networks.reduce((count, group) => count + group.shows.length, 0)
+    };
+  }
+
+  /**
+   * Build the values the template is rendered with
+   * @param shows Filtered shows
+   * @returns Template view
+   */
+  private createView(shows: Show[]): WebhookTemplateView {
+    const options = this.configService.getShowOptions();
+    const date = formatDate(this.configService.getDate());
+    const dates = getDateRange(date, options.endDate);
+    const endDate = dates.at(-1) ?? date;
+    const shouldKeepCountry = toCountryCodes(options.country).length > 1;
+    const dayGroups = groupShowsByDay(shows, dates, shouldKeepCountry, options.networkAliases);
+
+    return {
+      date,
+      endDate,
+      options,
+      title: endDate === date ? `TV Shows for ${date}` : `TV Shows for ${date} to ${endDate}`,
+      showCount: shows.length,
+      days: dates.map(day => this.toTemplateDay(day, dayGroups[day]))
+    };
+  }
+
+  /**
+   * Get the request headers, sending JSON unless a Content-Type is configured
+   * @returns Request headers
+   */
+  private getHeaders(): Record<string, string> {
+    const { headers = {} } = this.webhookConfig;
+    const hasContentType = Object.keys(headers)
+      .some(name => name.toLowerCase() === 'content-type');
+    return hasContentType ? headers : { ...headers, 'Content-Type': JSON_CONTENT_TYPE };
+  }
+
+  /**
+   * Get how `{{name}}` variables are escaped for the body's content type
+   * @param headers Request headers
+   * @returns Escaping function: JSON strings for JSON bodies, URL encoding for forms,
+   *   and none for anything else
+   */
+  private getEscaper(headers: Record<string, string>): (text: string) => string {
+    const contentType = Object.entries(headers)
+      .find(([name]) => name.toLowerCase() === 'content-type')?.[1].toLowerCase() ?? '';
+    if (contentType.includes('json')) {
+      return escapeJsonString;
+    }
+    if (contentType.startsWith(FORM_CONTENT_TYPE)) {
+      return encodeURIComponent;
+    }
+    return keepText;
+  }
+
+  /**
+   * Send the schedule to the configured webhook
+   * @param shows Filtered shows
+   */
+  public async renderOutput(shows: Show[]): Promise<void> {
+    const { url, method } = this.webhookConfig;
+    try {
+      const headers = this.getHeaders();
+      const body = renderTemplate(
+        this.readTemplate(), this.createView(shows), this.getEscaper(headers)
+      );
+      await this.httpClient.post(url, body, { method, headers });
+    } catch (error) {
+      // The URL may include a secret token, so keep it out of the error
+      this.output.error(
+        formatError(error, 'Error sending webhook: ').replaceAll(url, '<webhook URL>')
+      );
+    }
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Implementation of the TvShowService interface using an XMLTV guide file
+ */
+import { readFile } from 'node:fs/promises';
+import { inject, injectable } from 'tsyringe';
+import type { ConfigService } from '../interfaces/configService.js';
+import type { HttpClient } from '../interfaces/httpClient.js';
+import type { LoggerService } from '../interfaces/loggerService.js';
+import type { Show, ShowSearchResult } from '../schemas/domain.js';
+import type { XmltvGuide } from '../schemas/xmltv.js';
+import { getXmltvShowId, parseXmltv, transformGuide } from '../utils/xmltvUtils.js';
+import { hasContent } from '../utils/stringUtils.js';
+import { BaseTvShowServiceImpl } from './baseTvShowServiceImpl.js';
+
+/** Relevance scores for search matches, highest first */
+const EXACT_MATCH_SCORE = 1;
+const PREFIX_MATCH_SCORE = 0.75;
+const PARTIAL_MATCH_SCORE = 0.5;
+
+/**
+ * Implementation of the TvShowService interface for XMLTV guides
+ * Reads the guide set in the `xmltv.source` config, from a local path or an
+ * http(s) URL, and caches it for the lifetime of the service
+ */
+@injectable()
+export class XmltvServiceImpl extends BaseTvShowServiceImpl {
+  private readonly _apiClient: HttpClient;
+  private readonly configService: ConfigService;
+  private guide: XmltvGuide | null = null;
+
+  constructor(
+    @inject('HttpClient') apiClient: HttpClient,
+    @inject('ConfigService') configService: ConfigService,
+    @inject('LoggerService') logger?: LoggerService
+  ) {
+    super(logger, 'XmltvService');
+    this._apiClient = apiClient;
+    this.configService = configService;
+  }
+
+  /**
+   * Read the guide document from the configured source
+   * @param source Local path or http(s) URL of the guide
+   * @returns Promise resolving to the XML document
+   * @private
+   */
+  private async readSource(source: string): Promise<string> {
+    if (!/^https?:\/\//i.test(source)) {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      return await readFile(source, 'utf8');
+    }
+
+    const response = await this._apiClient.get<unknown>(source);
+    if (typeof response.data !== 'string') {
+      throw new TypeError(`XMLTV source ${source} did not return an XML document`);
+    }
+    return response.data;
+  }
+
+  /**
+   * Get the parsed guide, loading it on first use
+   * @returns Promise resolving to the parsed guide
+   * @throws Error if no source is configured or it cannot be read
+   * @private
+   */
+  private async getGuide(): Promise<XmltvGuide> {
+    if (this.guide !== null) {
+      return this.guide;
+    }
+
+    const source = this.configService.getConfig().xmltv?.source;
+    if (!hasContent(source)) {
+      throw new Error('No XMLTV guide configured; set xmltv.source in config.json');
+    }
+
+    const startTime = Date.now();
+    const guide = parseXmltv(await this.readSource(source));
+    this.logger.info({
+      source,
+      channelCount: guide.channels.length,
+      programmeCount: guide.programmes.length,
+      duration: Date.now() - startTime
+    }, 'Loaded XMLTV guide');
+
+    this.guide = guide;
+    return guide;
+  }
+
+  /**
+   * Guides only number some programmes; news, films and sports usually have no
+   * episode number, so unnumbered programmes are regular listings, not specials
+   * @returns False for every programme
+   * @protected
+   */
+  protected override isSpecial(): boolean {
+    return false;
+  }
+
+  /**
+   * Get the programmes airing on the requested days
+   * Days are matched against the programme start in the guide's own offset.
+   * @param dates Days to fetch (YYYY-MM-DD)
+   * @returns Promise resolving to every show airing on those days
+   * @protected
+   */
+  protected async fetchSchedule(dates: string[]): Promise<Show[]> {
+    const guide = await this.getGuide();
+    const days = new Set(dates);
+    return transformGuide(guide).filter(show =>
+      hasContent(show.airdate) && days.has(show.airdate)
+    );
+  }
+
+  /**
+   * Search the guide for shows by title
+   * Exact title matches rank above prefix matches, then partial matches.
+   * @param query Show name (or part of it) to search for
+   * @returns Promise resolving to matching shows, best match first
+   */
+  async searchShows(query: string): Promise<ShowSearchResult[]> {
+    const normalizedQuery = query.trim().toLowerCase();
+    if (normalizedQuery === '') {
+      return [];
+    }
+
+    try {
+      const shows = transformGuide(await this.getGuide());
+      const seenIds = new Set<number>();
+      const results: ShowSearchResult[] = [];
+      for (const show of shows) {
+        const name = show.name.toLowerCase();
+        const id = getXmltvShowId(show.name);
+        if (!name.includes(normalizedQuery) || seenIds.has(id)) {
+          continue;
+        }
+
+        let score = PARTIAL_MATCH_SCORE;
+        if (name === normalizedQuery) {
+          score = EXACT_MATCH_SCORE;
+        } else if (name.startsWith(normalizedQuery)) {
+          score = PREFIX_MATCH_SCORE;
+        }
+        seenIds.add(id);
+        results.push({
+          id,
+          score,
+          name: show.name,
+          network: show.network,
+          type: show.type,
+          language: show.language,
+          status: null,
+          premiereYear: null,
+          url: null
+        });
+      }
+
+      return results.sort((a, b) =>
+        b.score - a.score || a.name.localeCompare(b.name)
+      );
+    } catch (error) {
+      // Unlike schedules, a failed search must not look like "no matches"
+      this.logger.error({
+        error: String(error),
+        stack: error instanceof Error ? error.stack : undefined
+      }, 'Failed to search shows in XMLTV guide');
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Interface for a client that can post messages to a Discord webhook
+ */
+export interface DiscordClient {
+  /**
+   * Post a message to the configured webhook
+   * @param message The message to post
+   * @returns Promise resolving when Discord has accepted the message
+   */
+  sendMessage(message: DiscordWebhookMessage): Promise<void>;
+}
+
+/**
+ * Discord webhook message
+ */
+export interface DiscordWebhookMessage {
+  content?: string;
+  embeds?: DiscordEmbed[];
+  username?: string;
+  avatar_url?: string;
+}
+
+/**
+ * Discord embed
+ */
+export interface DiscordEmbed {
+  title?: string;
+  description?: string;
+  color?: number;
+  fields?: DiscordEmbedField[];
+  footer?: {
+    text: string;
+  };
+}
+
+/**
+ * Discord embed field
+ */
+export interface DiscordEmbedField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
@@ -0,0 +1,30 @@
+/**
+ * Interface for a client that can send email
+ */
+export interface EmailClient {
+  /**
+   * Send an email
+   * @param message The message to send
+   * @returns Promise resolving when the message is accepted by the server
+   */
+  sendMail(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Email message with HTML and plain-text bodies
+ */
+export interface EmailMessage {
+  /** Recipients; the configured recipients when omitted */
+  to?: string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * One piece of an email digest, rendered as HTML and as plain text
+ */
+export interface EmailDigestPart {
+  html: string;
+  text: string;
+}
@@ -20,6 +20,8 @@ export interface HttpResponse<T> {
 export interface RequestOptions {
   headers?: Record<string, string>;
   timeout?: number;
+  /** Method of post() requests, for endpoints that take the body with PUT or PATCH */
+  method?: 'POST' | 'PUT' | 'PATCH';
   // Allow any additional custom properties
   [key: string]: unknown;
 }
@@ -42,9 +44,9 @@ export interface HttpClient {
   ): Promise<HttpResponse<T>>;
 
   /**
-   * Make a POST request
+   * Make a POST request, or a PUT or PATCH request with options.method
    * @param url The URL to request
-   * @param data Optional request body
+   * @param data Optional request body; strings are sent as is, anything else as JSON
    * @param options Optional request options
    * @param schema Optional Zod schema to validate the response
    * @returns Promise resolving to the response
@@ -0,0 +1,11 @@
+/**
+ * Rate limiter interface for throttling outgoing requests
+ * A single instance is shared by every request made against the same API
+ */
+export interface RateLimiter {
+  /**
+   * Wait until a request may be sent, consuming one slot of the budget
+   * @returns Promise that resolves when the request may proceed
+   */
+  acquire(): Promise<void>;
+}
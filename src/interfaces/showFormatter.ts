@@ -1,8 +1,11 @@
 /**
  * Interface for formatting TV show information
  */
-import type { Show, NetworkGroups } from '../schemas/domain.js';
+import type { ChannelSection, Show, NetworkGroups } from '../schemas/domain.js';
+import type { DiscordEmbedField } from './discordClient.js';
+import type { EmailDigestPart } from './emailClient.js';
 import type { SlackBlock } from './slackClient.js';
+import type { AdaptiveCardElement } from './teamsClient.js';
 
 /**
  * Generic interface for formatting TV show information
@@ -46,6 +49,13 @@ export interface ShowFormatter<TOutput, TGroupOutput = TOutput[]> {
    * @returns Formatted output for the network groups
    */
   formatNetworkGroups(networkGroups: NetworkGroups): TGroupOutput;
+
+  /**
+   * Format network groups split into sections by channel kind
+   * @param sections Sections of network groups (e.g., "Broadcast", "Streaming")
+   * @returns Formatted output for the sections
+   */
+  formatChannelSections(sections: ChannelSection[]): TGroupOutput;
 }
 
 /**
@@ -54,8 +64,32 @@ export interface ShowFormatter<TOutput, TGroupOutput = TOutput[]> {
  */
 export type TextShowFormatter = ShowFormatter<string, string[]>;
 
+/**
+ * Markdown-specific implementation of ShowFormatter
+ * Used for GitHub-flavored Markdown output, one line per item
+ */
+export type MarkdownShowFormatter = ShowFormatter<string, string[]>;
+
 /**
  * Slack-specific implementation of ShowFormatter
  * Used for Slack Block Kit format
  */
 export type SlackShowFormatter = ShowFormatter<SlackBlock, SlackBlock[]>;
+
+/**
+ * Email-specific implementation of ShowFormatter
+ * Used for the HTML and plain-text email digest
+ */
+export type EmailShowFormatter = ShowFormatter<EmailDigestPart, EmailDigestPart[]>;
+
+/**
+ * Discord-specific implementation of ShowFormatter
+ * Used for Discord webhook embeds, one or more fields per network
+ */
+export type DiscordShowFormatter = ShowFormatter<DiscordEmbedField, DiscordEmbedField[]>;
+
+/**
+ * Microsoft Teams-specific implementation of ShowFormatter
+ * Used for Adaptive Card elements, one container per network
+ */
+export type TeamsShowFormatter = ShowFormatter<AdaptiveCardElement, AdaptiveCardElement[]>;
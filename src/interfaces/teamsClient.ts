@@ -0,0 +1,70 @@
+/**
+ * Interface for a client that can post Adaptive Cards to a Microsoft Teams webhook
+ */
+export interface TeamsClient {
+  /**
+   * Post a card to the configured incoming webhook
+   * @param card The card to post
+   * @returns Promise resolving when Teams has accepted the card
+   */
+  sendCard(card: AdaptiveCard): Promise<void>;
+}
+
+/**
+ * Adaptive Card
+ * See https://adaptivecards.io/explorer/AdaptiveCard.html
+ */
+export interface AdaptiveCard {
+  type: 'AdaptiveCard';
+  $schema: string;
+  version: string;
+  body: AdaptiveCardElement[];
+  msteams?: {
+    width?: 'Full';
+  };
+}
+
+/**
+ * Adaptive Card TextBlock
+ */
+export interface AdaptiveTextBlock {
+  type: 'TextBlock';
+  text: string;
+  size?: 'Small' | 'Default' | 'Medium' | 'Large' | 'ExtraLarge';
+  weight?: 'Lighter' | 'Default' | 'Bolder';
+  color?: 'Default' | 'Accent' | 'Good' | 'Warning' | 'Attention';
+  isSubtle?: boolean;
+  wrap?: boolean;
+  spacing?: 'None' | 'Small' | 'Default' | 'Medium' | 'Large';
+}
+
+/**
+ * Adaptive Card Container
+ */
+export interface AdaptiveContainer {
+  type: 'Container';
+  items: AdaptiveCardElement[];
+  separator?: boolean;
+  spacing?: 'None' | 'Small' | 'Default' | 'Medium' | 'Large';
+}
+
+/**
+ * Adaptive Card Fact
+ */
+export interface AdaptiveFact {
+  title: string;
+  value: string;
+}
+
+/**
+ * Adaptive Card FactSet
+ */
+export interface AdaptiveFactSet {
+  type: 'FactSet';
+  facts: AdaptiveFact[];
+}
+
+/**
+ * Union of the Adaptive Card elements used by the Teams output
+ */
+export type AdaptiveCardElement = AdaptiveTextBlock | AdaptiveContainer | AdaptiveFactSet;
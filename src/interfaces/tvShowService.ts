@@ -1,14 +1,30 @@
 /**
  * Interface for services that fetch TV show information
  */
-import type { Show } from '../schemas/domain.js';
+import type { Show, ShowSearchResult } from '../schemas/domain.js';
 import type { ShowOptions } from '../schemas/config.js';
 
+/**
+ * Per-call options of fetchShows that are not part of the configuration
+ */
+export interface FetchShowsOptions {
+  /** Leave out premiere and finale badges, e.g. when only categories are needed */
+  skipBadges?: boolean;
+}
+
 export interface TvShowService {
   /**
    * Fetch shows with filtering options
    * @param options Options for filtering shows
+   * @param fetchOptions Per-call options, such as skipping badges
    * @returns Promise resolving to array of shows
    */
-  fetchShows(options: ShowOptions): Promise<Show[]>;
+  fetchShows(options: ShowOptions, fetchOptions?: FetchShowsOptions): Promise<Show[]>;
+
+  /**
+   * Search for shows by name
+   * @param query Show name (or part of it) to search for
+   * @returns Promise resolving to matching shows, best match first
+   */
+  searchShows(query: string): Promise<ShowSearchResult[]>;
 }
@@ -9,12 +9,10 @@ import { WebClient } from '@slack/web-api';
 // Interface imports
 import type { ConfigService } from './interfaces/configService.js';
 import type { ProcessOutput } from './interfaces/processOutput.js';
-import type { HttpClient } from './interfaces/httpClient.js';
 import type { LoggerService } from './interfaces/loggerService.js';
 import type { OutputService } from './interfaces/outputService.js';
 import type { SlackClient } from './interfaces/slackClient.js';
 import type { SlackShowFormatter } from './interfaces/showFormatter.js';
-import type { TvShowService } from './interfaces/tvShowService.js';
 import type { SlackConfig } from './types/configTypes.js';
 
 /** Factory function that creates WebClient instances from Slack config */
@@ -24,12 +22,11 @@ const createWebClient = (config: SlackConfig): WebClient =>
 // Implementation imports - NO yargs dependency
 import { LambdaConfigServiceImpl } from './implementations/lambda/lambdaConfigServiceImpl.js';
 import { ProcessOutputImpl } from './implementations/processOutputImpl.js';
-import { FetchHttpClientImpl } from './implementations/fetchHttpClientImpl.js';
 import { PinoLoggerServiceImpl } from './implementations/pino/pinoLoggerServiceImpl.js';
 import { SlackClientImpl } from './implementations/slack/slackClientImpl.js';
 import { SlackOutputServiceImpl } from './implementations/slack/slackOutputServiceImpl.js';
 import { SlackShowFormatterImpl } from './implementations/slack/slackShowFormatterImpl.js';
-import { TvMazeServiceImpl } from './implementations/tvMazeServiceImpl.js';
+import { registerHttpServices } from './httpServicesContainer.js';
 
 /**
  * Initialize the Lambda container with all required dependencies
@@ -37,7 +34,6 @@ import { TvMazeServiceImpl } from './implementations/tvMazeServiceImpl.js';
  */
 export function initializeLambdaContainer(): void {
   // Register core services
-  container.registerSingleton<TvShowService>('TvShowService', TvMazeServiceImpl);
   container.registerSingleton<ProcessOutput>('ProcessOutput', ProcessOutputImpl);
   container.registerSingleton<LoggerService>('LoggerService', PinoLoggerServiceImpl);
 
@@ -47,10 +43,8 @@ export function initializeLambdaContainer(): void {
   // Register ConfigService - Lambda-specific, no yargs
   container.registerSingleton<ConfigService>('ConfigService', LambdaConfigServiceImpl);
 
-  // Register HttpClient
-  container.register<HttpClient>('HttpClient', {
-    useFactory: () => new FetchHttpClientImpl()
-  });
+  // Register the TvShowService, RateLimiter and HttpClient
+  registerHttpServices(container, { shouldUseLocalFiles: false });
 
   // Register WebClientFactory for creating Slack WebClient instances
   container.register('WebClientFactory', {
@@ -9,6 +9,50 @@ import { z } from 'zod';
  */
 export const showNameFilterSchema = z.array(z.string()).default([]);
 
+/**
+ * Followed show - a TVMaze show ID (number) or an exact show name (string, case-insensitive)
+ */
+export const followedShowSchema = z.union([z.number().int(), z.string()]);
+
+/**
+ * Country code (e.g., 'US'), comma-separated codes, or a list of codes
+ */
+export const countrySchema = z.union([z.string(), z.array(z.string())]);
+
+/**
+ * Network aliases - alternative network name (case-insensitive) to canonical name
+ * Added to the built-in aliases; an entry here overrides a built-in one
+ */
+export const networkAliasesSchema = z.record(z.string(), z.string());
+
+/**
+ * Airtime window (HH:MM, inclusive); a window whose minimum is later than its
+ * maximum wraps midnight, e.g. 20:00-02:00
+ */
+export const airtimeWindowSchema = z.object({
+  minAirtime: z.string().optional(),
+  maxAirtime: z.string().optional()
+});
+
+/**
+ * Channel filter - every channel, streaming services only, or linear
+ * (broadcast and cable) channels only
+ */
+export const channelFilterSchema = z.enum(['all', 'streaming', 'linear']);
+
+/**
+ * Source of TV listings: the TVMaze API or a local XMLTV guide
+ */
+export const showProviderSchema = z.enum(['tvmaze', 'xmltv']);
+
+/**
+ * XMLTV guide configuration, used when the provider is 'xmltv'
+ */
+export const xmltvConfigSchema = z.object({
+  /** Path or http(s) URL of the XMLTV guide file */
+  source: z.string()
+});
+
 /**
  * Slack integration configuration
  */
@@ -20,29 +64,161 @@ export const slackConfigSchema = z.object({
   dateFormat: z.string().optional()
 });
 
+/**
+ * SMTP delivery of the email digest
+ */
+export const emailConfigSchema = z.object({
+  host: z.string(),
+  /** Defaults to 465 when secure, 587 otherwise */
+  port: z.number().int().positive().optional(),
+  /** Use TLS from the start (port 465); otherwise STARTTLS is used when offered */
+  secure: z.boolean().optional(),
+  auth: z.object({
+    user: z.string(),
+    pass: z.string()
+  }).optional(),
+  from: z.string(),
+  to: z.array(z.string()).min(1)
+});
+
+/**
+ * Discord webhook the schedule is posted to
+ */
+export const discordConfigSchema = z.object({
+  /** Webhook URL from the channel's Integrations settings */
+  webhookUrl: z.string(),
+  /** Overrides the webhook's default name; defaults to "WhatsOnTV" */
+  username: z.string().optional(),
+  /** Overrides the webhook's default avatar */
+  avatarUrl: z.string().optional()
+});
+
+/**
+ * Microsoft Teams incoming webhook the schedule is posted to
+ */
+export const teamsConfigSchema = z.object({
+  /** Incoming webhook URL from the channel's Workflows or Connectors settings */
+  webhookUrl: z.string()
+});
+
+/**
+ * Generic webhook the schedule is sent to as a templated body
+ */
+export const webhookConfigSchema = z.object({
+  url: z.string(),
+  /** Defaults to POST */
+  method: z.enum(['POST', 'PUT', 'PATCH']).optional(),
+  /** Extra request headers, e.g. an Authorization header; Content-Type defaults to JSON */
+  headers: z.record(z.string(), z.string()).optional(),
+  /** Mustache-style template of the request body */
+  template: z.string().optional(),
+  /** Path of a file holding the template, used when template is not set */
+  templateFile: z.string().optional()
+});
+
+/**
+ * Atom/RSS feed output (--format atom or rss)
+ */
+export const feedConfigSchema = z.object({
+  /** Feed title; defaults to "WhatsOnTV" */
+  title: z.string().optional(),
+  /** URL the feed is served from, written as its self link */
+  link: z.string().optional(),
+  /** One entry per episode (default) or one per day */
+  entries: z.enum(['day', 'episode']).optional(),
+  /** Days that entries are kept when appending to an existing feed (default 14) */
+  retentionDays: z.number().int().positive().optional()
+});
+
+/**
+ * On-disk HTTP response cache configuration
+ * The cache is only used when this section is present and not disabled
+ */
+export const httpCacheConfigSchema = z.object({
+  /** Set to false to keep the section but bypass the cache */
+  enabled: z.boolean().optional(),
+  /** Cache directory (defaults to $XDG_CACHE_HOME/whatsontv or ~/.cache/whatsontv) */
+  directory: z.string().optional(),
+  /** Seconds a cached response is served without revalidation */
+  ttlSeconds: z.number().int().nonnegative().optional(),
+  /** Per-URL TTL overrides in seconds, keyed by URL substring (longest match wins) */
+  urlTtls: z.record(z.string(), z.number().int().nonnegative()).optional()
+});
+
+/**
+ * Retry and rate-limit settings for outgoing HTTP requests
+ */
+export const httpConfigSchema = z.object({
+  retry: z.object({
+    /** Number of retries for failed GET requests (network errors, 408, 429, 5xx) */
+    limit: z.number().int().nonnegative().optional(),
+    /** Delay before the first retry in milliseconds; doubles on each retry */
+    delayMs: z.number().int().nonnegative().optional(),
+    /** Upper bound for a single retry delay, including Retry-After waits */
+    maxDelayMs: z.number().int().nonnegative().optional()
+  }).optional(),
+  rateLimit: z.object({
+    /** Requests allowed per interval (TVMaze allows 20 calls per 10 seconds) */
+    requests: z.number().int().positive().optional(),
+    /** Interval length in milliseconds */
+    intervalMs: z.number().int().positive().optional()
+  }).optional()
+});
+
 /**
  * Options for fetching and filtering TV shows
  * Used by both CLI and Lambda to control show filtering
  */
 export const showOptionsSchema = z.object({
-  /** Date in YYYY-MM-DD format */
+  /** Source of TV listings (defaults to 'tvmaze') */
+  provider: showProviderSchema.optional(),
+  /** Date in YYYY-MM-DD format (first day when a date range is requested) */
   date: z.string().optional(),
-  /** Country code (e.g., 'US') */
-  country: z.string().optional(),
+  /** Last day of a date range in YYYY-MM-DD format (inclusive) */
+  endDate: z.string().optional(),
+  /** Country code (e.g., 'US') or list of codes; network schedules are merged */
+  country: countrySchema.optional(),
   /** Timezone for date calculations (IANA format) */
   timezone: z.string().optional(),
+  /** Timezone to show airtimes in (IANA format); network local time when unset */
+  displayTimezone: z.string().optional(),
+  /** Append the timezone abbreviation (e.g., 'PST') to converted airtimes */
+  showTimezoneAbbreviation: z.boolean().optional(),
   /** Show types to include */
   types: z.array(z.string()).optional(),
   /** Networks to include */
   networks: z.array(z.string()).optional(),
+  /** Extra network aliases, applied when filtering and grouping by network */
+  networkAliases: networkAliasesSchema.optional(),
+  /** Channels to include (defaults to 'all') */
+  channels: channelFilterSchema.optional(),
+  /** Split the output into Broadcast, Cable and Streaming sections */
+  groupByChannelKind: z.boolean().optional(),
   /** Genres to include */
   genres: z.array(z.string()).optional(),
   /** Languages to include */
   languages: z.array(z.string()).optional(),
   /** Minimum airtime to include (format: HH:MM, 24-hour format) */
   minAirtime: z.string().optional(),
+  /** Maximum airtime to include (format: HH:MM); earlier than minAirtime wraps midnight */
+  maxAirtime: z.string().optional(),
+  /** Airtime windows by network, replacing minAirtime/maxAirtime for those networks */
+  networkAirtimes: z.record(z.string(), airtimeWindowSchema).optional(),
+  /** Include shows without an airtime, such as streaming drops (defaults to true) */
+  includeUntimed: z.boolean().optional(),
   /** Show names to exclude (regex patterns or literal strings) */
-  excludeShowNames: z.array(z.string()).optional()
+  excludeShowNames: z.array(z.string()).optional(),
+  /** Filter expression, e.g. "(genre:Drama and network:HBO) or type:Reality" */
+  filter: z.string().optional(),
+  /** Shows that are always included, bypassing every other filter */
+  followedShows: z.array(followedShowSchema).optional(),
+  /** Only include series/season premieres and finales */
+  premieresAndFinalesOnly: z.boolean().optional(),
+  /**
+   * Add season and series finale badges; with TVMaze this costs a request per show,
+   * so it is off unless set or premieresAndFinalesOnly is on
+   */
+  finaleBadges: z.boolean().optional()
 });
 
 /**
@@ -50,42 +226,92 @@ export const showOptionsSchema = z.object({
  * Combines ShowOptions fields with operational config
  */
 export const appConfigSchema = z.object({
-  country: z.string().default('US'),
+  provider: showProviderSchema.optional(),
+  country: countrySchema.default('US'),
   timezone: z.string().optional(),
+  displayTimezone: z.string().optional(),
+  showTimezoneAbbreviation: z.boolean().optional(),
   types: z.array(z.string()).default([]),
   networks: z.array(z.string()).default([]),
+  networkAliases: networkAliasesSchema.optional(),
+  channels: channelFilterSchema.optional(),
+  groupByChannelKind: z.boolean().optional(),
   genres: z.array(z.string()).default([]),
   languages: z.array(z.string()).default([]),
   minAirtime: z.string().default('18:00'),
+  maxAirtime: z.string().optional(),
+  networkAirtimes: z.record(z.string(), airtimeWindowSchema).optional(),
+  includeUntimed: z.boolean().optional(),
   notificationTime: z.string().default('09:00'),
   showNameFilter: showNameFilterSchema.optional(),
+  filter: z.string().optional(),
+  followedShows: z.array(followedShowSchema).optional(),
+  premieresAndFinalesOnly: z.boolean().optional(),
+  finaleBadges: z.boolean().optional(),
   slack: slackConfigSchema,
+  xmltv: xmltvConfigSchema.optional(),
+  email: emailConfigSchema.optional(),
+  discord: discordConfigSchema.optional(),
+  teams: teamsConfigSchema.optional(),
+  webhook: webhookConfigSchema.optional(),
+  feed: feedConfigSchema.optional(),
+  cache: httpCacheConfigSchema.optional(),
+  http: httpConfigSchema.optional(),
   operationsEmail: z.string().optional()
 });
 
 // Export inferred types from schemas
 export type ShowNameFilter = z.infer<typeof showNameFilterSchema>;
+export type FollowedShow = z.infer<typeof followedShowSchema>;
+export type NetworkAliases = z.infer<typeof networkAliasesSchema>;
+export type AirtimeWindow = z.infer<typeof airtimeWindowSchema>;
+export type ChannelFilter = z.infer<typeof channelFilterSchema>;
+export type ShowProvider = z.infer<typeof showProviderSchema>;
+export type XmltvConfig = z.infer<typeof xmltvConfigSchema>;
 export type SlackConfig = z.infer<typeof slackConfigSchema>;
+export type EmailConfig = z.infer<typeof emailConfigSchema>;
+export type DiscordConfig = z.infer<typeof discordConfigSchema>;
+export type TeamsConfig = z.infer<typeof teamsConfigSchema>;
+export type WebhookConfig = z.infer<typeof webhookConfigSchema>;
+export type FeedConfig = z.infer<typeof feedConfigSchema>;
+export type HttpCacheConfig = z.infer<typeof httpCacheConfigSchema>;
+export type HttpConfig = z.infer<typeof httpConfigSchema>;
+export type HttpRetryConfig = NonNullable<HttpConfig['retry']>;
+export type RateLimitConfig = NonNullable<HttpConfig['rateLimit']>;
 export type ShowOptions = z.infer<typeof showOptionsSchema>;
 export type AppConfig = z.infer<typeof appConfigSchema>;
 
 /**
  * Extract ShowOptions fields from AppConfig for Lambda environment serialization
- * Excludes operational fields (slack, notificationTime, operationsEmail)
+ * Excludes operational fields (slack, xmltv, email, discord, teams, webhook,
+ * feed, cache, http, notificationTime, operationsEmail)
  * @param config Full application config
  * @returns Partial ShowOptions suitable for Lambda APP_CONFIG env var
  */
 export function extractShowOptionsForLambda(
   config: AppConfig
-): Omit<ShowOptions, 'date'> {
+): Omit<ShowOptions, 'date' | 'endDate'> {
   return {
+    provider: config.provider,
     country: config.country,
     timezone: config.timezone,
+    displayTimezone: config.displayTimezone,
+    showTimezoneAbbreviation: config.showTimezoneAbbreviation,
     types: config.types,
     networks: config.networks,
+    networkAliases: config.networkAliases,
+    channels: config.channels,
+    groupByChannelKind: config.groupByChannelKind,
     genres: config.genres,
     languages: config.languages,
     minAirtime: config.minAirtime,
-    excludeShowNames: config.showNameFilter
+    maxAirtime: config.maxAirtime,
+    networkAirtimes: config.networkAirtimes,
+    includeUntimed: config.includeUntimed,
+    excludeShowNames: config.showNameFilter,
+    filter: config.filter,
+    followedShows: config.followedShows,
+    premieresAndFinalesOnly: config.premieresAndFinalesOnly,
+    finaleBadges: config.finaleBadges
   };
 }
@@ -6,6 +6,31 @@
  */
 import { z } from 'zod';
 
+/**
+ * Premiere and finale badges for an episode
+ */
+export const showBadgeSchema = z.enum([
+  'seriesPremiere',
+  'seasonPremiere',
+  'seasonFinale',
+  'seriesFinale'
+]);
+
+/**
+ * Type alias for the ShowBadge schema
+ */
+export type ShowBadge = z.infer<typeof showBadgeSchema>;
+
+/**
+ * Kind of channel a show airs on: a broadcast or cable network, or a streaming service
+ */
+export const channelKindSchema = z.enum(['broadcast', 'cable', 'streaming']);
+
+/**
+ * Type alias for the ChannelKind schema
+ */
+export type ChannelKind = z.infer<typeof channelKindSchema>;
+
 /**
  * Schema for a TV show with its associated metadata
  */
@@ -16,10 +41,35 @@ export const showSchema = z.object({
   language: z.string().nullable(),
   genres: z.array(z.string()),
   network: z.string(),
+  /** Kind of channel the show airs on, when known */
+  channelKind: channelKindSchema.nullable().optional(),
+  /** TVMaze ID of the show's network, when it has one */
+  networkId: z.number().nullable().optional(),
+  /** TVMaze ID of the show's web channel (streaming service), when it has one */
+  webChannelId: z.number().nullable().optional(),
   summary: z.string().nullable(),
   airtime: z.string().nullable(),
   season: z.number(),
-  number: z.number()
+  number: z.number(),
+  // Episode-level details (absent for shows not built from a schedule item)
+  /** Episode title */
+  episodeName: z.string().nullable().optional(),
+  /** Episode air date in YYYY-MM-DD format */
+  airdate: z.string().nullable().optional(),
+  /** Episode air timestamp (ISO 8601 with UTC offset) */
+  airstamp: z.string().nullable().optional(),
+  /** Short timezone name for airtime (e.g., 'PST'), when converted to a display timezone */
+  airtimeZone: z.string().nullable().optional(),
+  /** Episode runtime in minutes */
+  runtime: z.number().nullable().optional(),
+  /** TVMaze URL for the episode */
+  episodeUrl: z.string().nullable().optional(),
+  /** Episode summary (may contain HTML) */
+  episodeSummary: z.string().nullable().optional(),
+  /** True when the show is on the followedShows list */
+  followed: z.boolean().optional(),
+  /** Premiere or finale badge, when the episode is one */
+  badge: showBadgeSchema.nullable().optional()
 });
 
 /**
@@ -27,7 +77,67 @@ export const showSchema = z.object({
  */
 export type Show = z.infer<typeof showSchema>;
 
+/**
+ * Schema for a show returned by a name search
+ */
+export const showSearchResultSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  /** Relevance score reported by the provider (higher is better) */
+  score: z.number(),
+  network: z.string(),
+  type: z.string().nullable(),
+  language: z.string().nullable(),
+  /** Running, Ended, To Be Determined, ... */
+  status: z.string().nullable(),
+  premiereYear: z.number().nullable(),
+  url: z.string().nullable()
+});
+
+/**
+ * Type alias for the ShowSearchResult schema
+ */
+export type ShowSearchResult = z.infer<typeof showSearchResultSchema>;
+
 /**
  * Groups of shows organized by network
  */
 export type NetworkGroups = Record<string, Show[]>;
+
+/**
+ * Networks of one channel kind, for output that is split into sections
+ */
+export interface ChannelSection {
+  /** Channel kind of the section; null for networks of unknown kind */
+  channelKind: ChannelKind | null;
+  /** Section heading (e.g., "Streaming") */
+  title: string;
+  networkGroups: NetworkGroups;
+}
+
+/**
+ * A network, genre, type or language found in a schedule (discover command)
+ */
+export interface DiscoverEntry {
+  /** Value as it appears in the schedule, with network aliases applied */
+  name: string;
+  /** Number of episodes with this value */
+  count: number;
+  /** Whether the current config's filter for the category keeps this value */
+  isConfigMatch: boolean;
+}
+
+/**
+ * Distinct values of the filterable show fields in a schedule, most episodes first
+ */
+export interface DiscoverCategories {
+  networks: DiscoverEntry[];
+  genres: DiscoverEntry[];
+  types: DiscoverEntry[];
+  languages: DiscoverEntry[];
+}
+
+/**
+ * Shows grouped by airdate (YYYY-MM-DD), then by network
+ */
+export type DayGroups = Record<string, NetworkGroups>;
@@ -2,7 +2,9 @@
  * HTTP Schema Definitions
  *
  * This file contains Zod schema definitions for runtime validation of HTTP
- * requests and responses. These schemas are primarily used for testing.
+ * requests and responses. These schemas are primarily used for testing and
+ * for validating responses persisted by the on-disk HTTP cache and by
+ * --record/--replay.
  *
  * Note: For the canonical TypeScript interface types, see:
  * - src/interfaces/httpClient.ts (RequestOptions, HttpResponse<T>)
@@ -45,3 +47,37 @@ export type RequestOptionsSchema = z.infer<typeof requestOptionsSchema>;
  * Note: Use HttpResponse<T> from httpClient.ts for application code
  */
 export type HttpResponseSchema = z.infer<typeof httpResponseSchema>;
+
+/**
+ * Response persisted by the on-disk HTTP cache
+ */
+export const httpCacheEntrySchema = z.object({
+  url: z.string(),
+  /** Epoch milliseconds when the response was fetched or last revalidated */
+  storedAt: z.number(),
+  status: z.number(),
+  headers: z.record(z.string(), z.string()),
+  data: z.unknown(),
+  etag: z.string().optional(),
+  lastModified: z.string().optional()
+});
+
+export type HttpCacheEntry = z.infer<typeof httpCacheEntrySchema>;
+
+/**
+ * Response written by --record and served by --replay
+ */
+export const httpRecordingSchema = z.object({
+  method: z.enum(['GET', 'POST']),
+  url: z.string(),
+  /** ISO 8601 time the response was recorded */
+  recordedAt: z.string(),
+  /** Response status, or 0 when the request failed */
+  status: z.number(),
+  headers: z.record(z.string(), z.string()),
+  data: z.unknown(),
+  /** Error message when the request failed; replay rethrows it */
+  error: z.string().optional()
+});
+
+export type HttpRecording = z.infer<typeof httpRecordingSchema>;
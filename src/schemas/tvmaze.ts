@@ -6,6 +6,24 @@
  */
 import { z } from 'zod';
 import { numberFromMixed, nullableString } from './common.js';
+import type { ChannelKind } from './domain.js';
+
+const UNKNOWN_SHOW = 'Unknown Show';
+
+/**
+ * Over-the-air networks, by lowercase TVMaze name; other networks are cable channels
+ */
+const BROADCAST_NETWORKS = new Set([
+  // US
+  'abc', 'cbs', 'nbc', 'fox', 'the cw', 'pbs', 'mynetworktv', 'ion television',
+  'telemundo', 'univision', 'unimás',
+  // GB
+  'bbc one', 'bbc two', 'bbc four', 'itv1', 'itv2', 'channel 4', 'e4', 'channel 5',
+  // CA
+  'cbc', 'ctv', 'global', 'citytv',
+  // AU
+  'abc tv', 'seven network', 'nine network', 'network 10', 'sbs'
+]);
 
 /**
  * Network schema (for TV networks and web channels)
@@ -37,7 +55,7 @@ export const baseShowSchema = z.object({
   genres: z.array(z.string()).optional().nullable().default([]),
   status: z.string().optional(),
   runtime: z.number().nullable().optional(),
-  premiered: z.string().optional(),
+  premiered: z.string().nullable().optional(),
   ended: z.string().nullable().optional(),
   officialSite: z.string().nullable().optional(),
   schedule: z.object({
@@ -99,6 +117,35 @@ export const scheduleItemSchema = z.union([
   webScheduleItemSchema
 ]);
 
+/**
+ * Search result schema (/search/shows endpoint)
+ */
+export const searchResultSchema = z.object({
+  score: z.number(),
+  show: showDetailsSchema
+});
+
+/**
+ * Season schema (embedded in /shows/:id?embed=seasons)
+ */
+export const seasonSchema = z.object({
+  id: z.number(),
+  number: z.number(),
+  /** Number of episodes ordered for the season, when announced */
+  episodeOrder: z.number().nullable().optional(),
+  premiereDate: z.string().nullable().optional(),
+  endDate: z.string().nullable().optional()
+});
+
+/**
+ * Show with its seasons embedded (/shows/:id?embed=seasons endpoint)
+ */
+export const showWithSeasonsSchema = showDetailsSchema.extend({
+  _embedded: z.object({
+    seasons: z.array(seasonSchema)
+  }).optional()
+});
+
 /**
  * Type aliases for Zod schema inferred types
  */
@@ -106,6 +153,8 @@ export type NetworkScheduleItem = z.infer<typeof networkScheduleItemSchema>;
 export type WebScheduleItem = z.infer<typeof webScheduleItemSchema>;
 export type Network = z.infer<typeof networkSchema>;
 export type ScheduleItem = z.infer<typeof scheduleItemSchema>;
+export type Season = z.infer<typeof seasonSchema>;
+export type ShowWithSeasons = z.infer<typeof showWithSeasonsSchema>;
 
 /**
  * TVMaze API interfaces
@@ -218,6 +267,78 @@ function formatNetworkName(
   return networkName;
 }
 
+/**
+ * Helper function to tell broadcast networks, cable networks and streaming services apart
+ * The network wins when a show has both, matching formatNetworkName.
+ * @param show Show details with network and web channel
+ * @returns Channel kind and the raw network/web channel IDs
+ */
+function extractChannelDetails(show: z.infer<typeof showDetailsSchema>): {
+  channelKind: ChannelKind | null;
+  networkId: number | null;
+  webChannelId: number | null;
+} {
+  const network = show.network ?? null;
+  const webChannel = show.webChannel ?? null;
+
+  let channelKind: ChannelKind | null = null;
+  if (network !== null) {
+    channelKind = BROADCAST_NETWORKS.has(network.name.toLowerCase()) ? 'broadcast' : 'cable';
+  } else if (webChannel !== null) {
+    channelKind = 'streaming';
+  }
+
+  return {
+    channelKind,
+    networkId: network?.id ?? null,
+    webChannelId: webChannel?.id ?? null
+  };
+}
+
+/**
+ * Helper function to normalize optional strings, treating empty strings as missing
+ * @param value String value from the API
+ * @returns The string, or null if missing or empty
+ */
+function nonEmptyOrNull(value: string | null | undefined): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+/**
+ * Helper function to extract episode-level details from a schedule item
+ * @param item Schedule item (network or web format)
+ * @param show Show details the episode belongs to
+ * @returns Episode fields for the domain Show model
+ */
+function extractEpisodeDetails(
+  item: Pick<NetworkScheduleItem, 'name' | 'airdate' | 'airstamp' | 'runtime' | 'url' | 'summary'>,
+  show: z.infer<typeof showDetailsSchema>
+): {
+  episodeName: string | null;
+  airdate: string | null;
+  airstamp: string | null;
+  runtime: number | null;
+  episodeUrl: string | null;
+  episodeSummary: string | null;
+} {
+  // Fall back to the show's nominal runtime when the episode has none
+  let runtime: number | null = null;
+  if (typeof item.runtime === 'number') {
+    runtime = item.runtime;
+  } else if (typeof show.runtime === 'number') {
+    runtime = show.runtime;
+  }
+
+  return {
+    runtime,
+    episodeName: nonEmptyOrNull(item.name),
+    airdate: nonEmptyOrNull(item.airdate),
+    airstamp: nonEmptyOrNull(item.airstamp),
+    episodeUrl: nonEmptyOrNull(item.url),
+    episodeSummary: nonEmptyOrNull(item.summary)
+  };
+}
+
 /**
  * Transform schema for network schedule items to domain Show model
  */
@@ -225,7 +346,7 @@ export const networkScheduleToShowSchema = networkScheduleItemSchema.transform((
   // Extract show data with safe defaults
   const show = item.show;
   const id = typeof show.id === 'number' ? show.id : 0;
-  const name = typeof show.name === 'string' && show.name.length > 0 ? show.name : 'Unknown Show';
+  const name = typeof show.name === 'string' && show.name.length > 0 ? show.name : UNKNOWN_SHOW;
   const type = typeof show.type === 'string' && show.type.length > 0 ? show.type : 'unknown';
   const language = 
       typeof show.language === 'string' && show.language.length > 0 
@@ -249,7 +370,9 @@ export const networkScheduleToShowSchema = networkScheduleItemSchema.transform((
     airtime,
     season,
     number,
-    network: formatNetworkName(show.network, show.webChannel)
+    network: formatNetworkName(show.network, show.webChannel),
+    ...extractChannelDetails(show),
+    ...extractEpisodeDetails(item, show)
   };
 });
 
@@ -261,7 +384,7 @@ export const webScheduleToShowSchema = webScheduleItemSchema.transform((item) =>
   const embedded = item._embedded;
   const show = embedded.show;
   const id = typeof show.id === 'number' ? show.id : 0;
-  const name = typeof show.name === 'string' && show.name.length > 0 ? show.name : 'Unknown Show';
+  const name = typeof show.name === 'string' && show.name.length > 0 ? show.name : UNKNOWN_SHOW;
   const type = typeof show.type === 'string' && show.type.length > 0 ? show.type : 'unknown';
   const language = 
       typeof show.language === 'string' && show.language.length > 0 
@@ -285,6 +408,37 @@ export const webScheduleToShowSchema = webScheduleItemSchema.transform((item) =>
     airtime,
     season,
     number,
-    network: formatNetworkName(show.network, show.webChannel)
+    network: formatNetworkName(show.network, show.webChannel),
+    ...extractChannelDetails(show),
+    ...extractEpisodeDetails(item, show)
   };
 });
+
+/**
+ * Transform schema for /search/shows results to domain ShowSearchResult model
+ */
+export const searchResultToShowSearchResultSchema = searchResultSchema.transform((item) => {
+  const show = item.show;
+  const premiereYear = typeof show.premiered === 'string' && /^\d{4}/.test(show.premiered)
+    ? Number(show.premiered.slice(0, 4))
+    : null;
+
+  return {
+    premiereYear,
+    id: typeof show.id === 'number' ? show.id : 0,
+    name: typeof show.name === 'string' && show.name.length > 0 ? show.name : UNKNOWN_SHOW,
+    score: item.score,
+    network: formatNetworkName(show.network, show.webChannel),
+    type: nonEmptyOrNull(show.type),
+    language: nonEmptyOrNull(show.language),
+    status: nonEmptyOrNull(show.status),
+    url: nonEmptyOrNull(show.url)
+  };
+});
+
+/**
+ * Schema for the full /search/shows response
+ */
+export const searchResultsToShowSearchResultsSchema = z.array(
+  searchResultToShowSearchResultSchema
+);
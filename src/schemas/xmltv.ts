@@ -0,0 +1,62 @@
+/**
+ * XMLTV guide schemas
+ *
+ * Describes the channels and programmes read from an XMLTV guide file
+ * (see https://github.com/XMLTV/xmltv/blob/master/xmltv.dtd). Only the
+ * elements mapped to the domain model are kept.
+ */
+import { z } from 'zod';
+
+/**
+ * Schema for an XMLTV <channel> element
+ */
+export const xmltvChannelSchema = z.object({
+  id: z.string().min(1),
+  /** First <display-name> of the channel */
+  displayName: z.string().nullable()
+});
+
+/**
+ * Schema for an XMLTV <episode-num> element
+ */
+export const xmltvEpisodeNumSchema = z.object({
+  /** Numbering system, usually 'xmltv_ns' or 'onscreen' */
+  system: z.string().nullable(),
+  value: z.string()
+});
+
+/**
+ * Schema for an XMLTV <programme> element
+ */
+export const xmltvProgrammeSchema = z.object({
+  /** ID of the <channel> the programme airs on */
+  channel: z.string().min(1),
+  /** Start time in XMLTV format (YYYYMMDDhhmmss +hhmm) */
+  start: z.string().min(1),
+  /** Stop time in XMLTV format, when known */
+  stop: z.string().nullable(),
+  title: z.string().min(1),
+  /** Episode title */
+  subTitle: z.string().nullable(),
+  desc: z.string().nullable(),
+  categories: z.array(z.string()),
+  episodeNums: z.array(xmltvEpisodeNumSchema),
+  /** Runtime in minutes, from the <length> element */
+  length: z.number().nullable(),
+  language: z.string().nullable(),
+  url: z.string().nullable()
+});
+
+/**
+ * Schema for a parsed XMLTV guide
+ */
+export const xmltvGuideSchema = z.object({
+  channels: z.array(xmltvChannelSchema),
+  programmes: z.array(xmltvProgrammeSchema)
+});
+
+// Export inferred types from schemas
+export type XmltvChannel = z.infer<typeof xmltvChannelSchema>;
+export type XmltvEpisodeNum = z.infer<typeof xmltvEpisodeNumSchema>;
+export type XmltvProgramme = z.infer<typeof xmltvProgrammeSchema>;
+export type XmltvGuide = z.infer<typeof xmltvGuideSchema>;
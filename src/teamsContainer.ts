@@ -0,0 +1,39 @@
+/**
+ * Teams dependency injection container setup
+ */
+import 'reflect-metadata';
+
+// Interface imports
+import type { TeamsClient } from './interfaces/teamsClient.js';
+import type { TeamsShowFormatter } from './interfaces/showFormatter.js';
+
+// Implementation imports
+import {
+  TeamsWebhookClientImpl
+} from './implementations/teams/teamsWebhookClientImpl.js';
+import { TeamsOutputServiceImpl } from './implementations/teams/teamsOutputServiceImpl.js';
+import { TeamsShowFormatterImpl } from './implementations/teams/teamsShowFormatterImpl.js';
+import {
+  initializeWebhookPlatformContainer,
+  type WebhookPlatform
+} from './webhookPlatformContainer.js';
+
+/** Teams services and their tokens */
+export const TEAMS_PLATFORM: WebhookPlatform<TeamsShowFormatter, TeamsClient> = {
+  platformType: 'teams',
+  formatterToken: 'TeamsShowFormatter',
+  formatter: TeamsShowFormatterImpl,
+  clientToken: 'TeamsClient',
+  client: TeamsWebhookClientImpl,
+  outputServiceToken: 'TeamsOutputService',
+  outputService: TeamsOutputServiceImpl
+};
+
+/**
+ * Initialize the Teams container with all required dependencies
+ */
+export function initializeTeamsContainer(): void {
+  initializeWebhookPlatformContainer(TEAMS_PLATFORM);
+}
+
+export { container } from 'tsyringe';
@@ -9,13 +9,27 @@ import {
 } from '@jest/globals';
 import type { ConfigService } from '../../interfaces/configService.js';
 import type { ProcessOutput } from '../../interfaces/processOutput.js';
-import type { Show } from '../../schemas/domain.js';
+import type { Show, ShowSearchResult } from '../../schemas/domain.js';
 import type { CliOptions, AppConfig } from '../../types/configTypes.js';
 import type { ShowOptions } from '../../schemas/config.js';
 import { Fixtures } from '../helpers/fixtureHelper.js';
+import { ShowBuilder } from '../fixtures/helpers/showFixtureBuilder.js';
 import { BaseCliApplication as BaseCliApp } from '../../cli/cliBase.js';
 
 const TEST_DATE = '2023-01-01';
+const SEARCH_QUERY = 'severance';
+const SEARCH_OPTIONS: CliOptions = {
+  debug: false,
+  groupByNetwork: true,
+  command: 'search',
+  query: SEARCH_QUERY
+};
+
+const DISCOVER_OPTIONS: CliOptions = {
+  debug: false,
+  groupByNetwork: true,
+  command: 'discover'
+};
 
 // Mock the console implementation to avoid actual console output during tests
 jest.spyOn(console, 'log').mockImplementation(() => { /* noop */ });
@@ -28,6 +42,7 @@ describe('CLI', () => {
     getShows: jest.fn<() => Promise<Show[]>>().mockResolvedValue([]),
     getShowsByType: jest.fn<(type: string) => Promise<Show[]>>().mockResolvedValue([]),
     fetchShows: jest.fn<(options: ShowOptions) => Promise<Show[]>>().mockResolvedValue([]),
+    searchShows: jest.fn<(query: string) => Promise<ShowSearchResult[]>>().mockResolvedValue([]),
     isInitialized: jest.fn<() => boolean>().mockReturnValue(true)
   };
 
@@ -176,4 +191,107 @@ describe('CLI', () => {
     // Assert
     expect(mockProcessOutput.error).toHaveBeenCalledWith('Unexpected error: Unexpected test error');
   });
+
+  describe('search command', () => {
+    it('should print matching shows instead of the schedule', async () => {
+      // Arrange
+      mockConfigService.getCliOptions.mockReturnValueOnce(SEARCH_OPTIONS);
+      mockTvShowService.searchShows.mockResolvedValue([{
+        id: 44_933,
+        name: 'Severance',
+        score: 0.91,
+        network: 'Apple TV+',
+        type: 'Scripted',
+        language: 'English',
+        status: 'Running',
+        premiereYear: 2022,
+        url: 'https://www.tvmaze.com/shows/44933/severance'
+      }]);
+
+      // Act
+      await cliApp.run();
+
+      // Assert
+      expect(mockTvShowService.searchShows).toHaveBeenCalledWith(SEARCH_QUERY);
+      expect(mockTvShowService.fetchShows).not.toHaveBeenCalled();
+      expect(mockProcessOutput.log).toHaveBeenCalledTimes(2);
+      expect(mockProcessOutput.log.mock.calls[1][0]).toMatch(
+        /^44933\s+0\.91\s+Severance\s+Apple TV\+\s+Running\s+2022$/
+      );
+    });
+
+    it('should report when no shows match', async () => {
+      // Arrange
+      mockConfigService.getCliOptions.mockReturnValueOnce(SEARCH_OPTIONS);
+      mockTvShowService.searchShows.mockResolvedValue([]);
+
+      // Act
+      await cliApp.run();
+
+      // Assert
+      expect(mockProcessOutput.log).toHaveBeenCalledWith('No shows found matching "severance"');
+    });
+
+    it('should handle errors when searching shows', async () => {
+      // Arrange
+      mockConfigService.getCliOptions.mockReturnValueOnce(SEARCH_OPTIONS);
+      mockTvShowService.searchShows.mockRejectedValue(new Error('Search failed'));
+
+      // Act
+      await cliApp.run();
+
+      // Assert
+      expect(mockProcessOutput.error).toHaveBeenCalledWith(
+        'Error searching TV shows: Search failed'
+      );
+    });
+  });
+
+  describe('discover command', () => {
+    const discoverShows = [
+      new ShowBuilder().withNetwork('CBS').build(),
+      new ShowBuilder().withNetwork('Netflix').build()
+    ];
+
+    beforeEach(() => {
+      mockConfigService.getShowOptions.mockReturnValueOnce({
+        date: TEST_DATE,
+        country: 'US',
+        networks: ['CBS'],
+        types: ['Reality']
+      });
+      mockTvShowService.fetchShows.mockResolvedValue(discoverShows);
+    });
+
+    it('should fetch the schedule without filters and list the categories', async () => {
+      mockConfigService.getCliOptions.mockReturnValueOnce(DISCOVER_OPTIONS);
+
+      await cliApp.run();
+
+      expect(mockTvShowService.fetchShows).toHaveBeenCalledWith(
+        expect.not.objectContaining({ networks: expect.anything() }),
+        { skipBadges: true }
+      );
+      expect(mockOutputService.renderOutput).not.toHaveBeenCalled();
+      const lines = mockProcessOutput.log.mock.calls.map(call => call[0]);
+      expect(lines).toContain('Networks (2):');
+      expect(lines).toContain('* CBS      1');
+      expect(lines).toContain('  Netflix  1');
+    });
+
+    it('should print JSON with the date range when asked to', async () => {
+      mockConfigService.getCliOptions.mockReturnValueOnce({ ...DISCOVER_OPTIONS, json: true });
+
+      await cliApp.run();
+
+      expect(mockProcessOutput.log).toHaveBeenCalledTimes(1);
+      const output = JSON.parse(mockProcessOutput.log.mock.calls[0][0]) as {
+        date: string;
+        endDate: string;
+        networks: unknown[];
+      };
+      expect(output).toMatchObject({ date: TEST_DATE, endDate: TEST_DATE });
+      expect(output.networks).toContainEqual({ name: 'CBS', count: 1, isConfigMatch: true });
+    });
+  });
 });
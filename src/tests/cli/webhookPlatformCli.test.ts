@@ -0,0 +1,87 @@
+/**
+ * Webhook platform CLI Tests
+ *
+ * Tests for the container and CLI setup shared by Discord and Teams
+ */
+import { describe, expect, test, afterEach, jest } from '@jest/globals';
+import { container, initializeTeamsContainer, TEAMS_PLATFORM } from '../../teamsContainer.js';
+import { DISCORD_PLATFORM } from '../../discordContainer.js';
+import { createWebhookPlatformApp } from '../../cli/webhookPlatformCli.js';
+import {
+  TeamsShowFormatterImpl
+} from '../../implementations/teams/teamsShowFormatterImpl.js';
+
+/**
+ * Create a container whose services fail to resolve with the given error
+ * @param message Error message thrown for every service but ProcessOutput
+ * @returns The container and its ProcessOutput mock
+ */
+function createFailingContainer(message: string): {
+  testContainer: typeof container;
+  mockProcessOutput: { error: jest.Mock };
+} {
+  const testContainer = container.createChildContainer();
+  const mockProcessOutput = { error: jest.fn() };
+  testContainer.resolve = jest.fn().mockImplementation((serviceName: unknown) => {
+    if (serviceName === 'ProcessOutput') {
+      return mockProcessOutput;
+    }
+    throw new Error(message);
+  }) as typeof testContainer.resolve;
+  return { testContainer, mockProcessOutput };
+}
+
+describe('Webhook platform CLI Tests', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('initializeWebhookPlatformContainer', () => {
+    test('registers the platform formatter and type', () => {
+      initializeTeamsContainer();
+
+      expect(container.resolve(TEAMS_PLATFORM.formatterToken))
+        .toBeInstanceOf(TeamsShowFormatterImpl);
+      expect(container.resolve('PlatformType')).toBe('teams');
+    });
+  });
+
+  describe('createWebhookPlatformApp error handling', () => {
+    test('names a missing output service', () => {
+      const { testContainer, mockProcessOutput } =
+        createFailingContainer('TeamsOutputService is not registered');
+
+      expect(() => createWebhookPlatformApp(testContainer, TEAMS_PLATFORM))
+        .toThrow('TeamsOutputService is not registered');
+
+      expect(mockProcessOutput.error).toHaveBeenCalledWith(
+        'The TeamsOutputService service is not registered in the container.'
+      );
+    });
+
+    test('names a missing formatter', () => {
+      const { testContainer, mockProcessOutput } =
+        createFailingContainer('DiscordShowFormatter is not registered');
+
+      expect(() => createWebhookPlatformApp(testContainer, DISCORD_PLATFORM))
+        .toThrow('DiscordShowFormatter is not registered');
+
+      expect(mockProcessOutput.error).toHaveBeenCalledWith(
+        'The DiscordShowFormatter service is not registered in the container.'
+      );
+    });
+
+    test('reports other resolution errors without a registration hint', () => {
+      const { testContainer, mockProcessOutput } =
+        createFailingContainer('Generic service resolution error');
+
+      expect(() => createWebhookPlatformApp(testContainer, DISCORD_PLATFORM))
+        .toThrow('Generic service resolution error');
+
+      expect(mockProcessOutput.error).toHaveBeenCalledTimes(1);
+      expect(mockProcessOutput.error).toHaveBeenCalledWith(
+        expect.stringContaining('Error resolving services')
+      );
+    });
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Schedule fixtures
+ *
+ * Provides the days and shows the output service tests render
+ */
+import type { Show } from '../../../schemas/domain.js';
+import { ShowBuilder } from '../helpers/showFixtureBuilder.js';
+
+export const MONDAY = '2025-01-13';
+export const TUESDAY = '2025-01-14';
+export const WEDNESDAY = '2025-01-15';
+
+/**
+ * Options for the schedule shows
+ */
+export interface ScheduleShowsOptions {
+  /** Airdate of Severance; defaults to Tuesday */
+  severanceAirdate?: string;
+  /** Start with a Late Show at 23:35 on Monday, listed before the earlier Survivor */
+  hasLateShow?: boolean;
+}
+
+/**
+ * Get a schedule of Survivor on CBS at 8:00 PM on Monday and Severance on Apple TV+
+ * without an airtime, with IDs numbered from 1 in list order
+ * @param options Options for the schedule shows
+ * @returns Array of shows
+ */
+export function getScheduleShows(options: ScheduleShowsOptions = {}): Show[] {
+  const shows = [
+    new ShowBuilder().withName('Survivor').withNetwork('CBS').withEpisode(47, 3)
+      .withAirdate(MONDAY).withAirtime('20:00'),
+    new ShowBuilder().withName('Severance').withNetwork('Apple TV+')
+      .withAirdate(options.severanceAirdate ?? TUESDAY).withAirtime(null)
+  ];
+  if (options.hasLateShow === true) {
+    shows.unshift(
+      new ShowBuilder().withName('Late Show').withNetwork('CBS')
+        .withAirdate(MONDAY).withAirtime('23:35')
+    );
+  }
+  return shows.map((builder, index) => builder.withId(index + 1).build());
+}
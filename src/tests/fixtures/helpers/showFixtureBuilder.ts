@@ -4,7 +4,7 @@
  * Provides utilities for creating and customizing show fixtures
  * that complement the existing JSON fixtures.
  */
-import type { Show } from '../../../schemas/domain.js';
+import type { ChannelKind, Show, ShowBadge } from '../../../schemas/domain.js';
 import { loadValidatedArrayFixture } from '../../helpers/fixtureHelper.js';
 import { showSchema } from '../../../schemas/domain.js';
 
@@ -341,6 +341,69 @@ export class ShowBuilder {
     return this;
   }
 
+  /**
+   * Set the episode title
+   * @param episodeName Episode title
+   */
+  withEpisodeName(episodeName: string | null): this {
+    this.show.episodeName = episodeName;
+    return this;
+  }
+
+  /**
+   * Set the episode air date
+   * @param airdate Air date in YYYY-MM-DD format
+   */
+  withAirdate(airdate: string | null): this {
+    this.show.airdate = airdate;
+    return this;
+  }
+
+  /**
+   * Set the airtime timezone abbreviation
+   * @param airtimeZone Short timezone name (e.g., 'PST')
+   */
+  withAirtimeZone(airtimeZone: string | null): this {
+    this.show.airtimeZone = airtimeZone;
+    return this;
+  }
+
+  /**
+   * Set the episode runtime
+   * @param runtime Runtime in minutes
+   */
+  withRuntime(runtime: number | null): this {
+    this.show.runtime = runtime;
+    return this;
+  }
+
+  /**
+   * Mark the show as followed
+   * @param isFollowed Whether the show is on the followed shows list
+   */
+  withFollowed(isFollowed = true): this {
+    this.show.followed = isFollowed;
+    return this;
+  }
+
+  /**
+   * Set the channel kind
+   * @param channelKind Broadcast, cable or streaming, or null when unknown
+   */
+  withChannelKind(channelKind: ChannelKind | null): this {
+    this.show.channelKind = channelKind;
+    return this;
+  }
+
+  /**
+   * Set the premiere/finale badge
+   * @param badge Badge for the episode
+   */
+  withBadge(badge: ShowBadge | null): this {
+    this.show.badge = badge;
+    return this;
+  }
+
   /**
    * Build the final show object
    * @returns The constructed Show object
@@ -36,6 +36,12 @@ export const SlackShowFormatterFixture = {
           type: 'header', 
           text: { type: 'plain_text', text: 'TV Shows', emoji: true } 
         }
+      ]),
+      formatChannelSections: jest.fn().mockReturnValue([
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: '*Mocked section*' }
+        }
       ])
     } as jest.Mocked<SlackShowFormatter>;
   },
@@ -16,6 +16,7 @@ import {
   getMixedAirtimeNetworkGroups,
   getMultiEpisodeNetworkGroups
 } from './domain/networks.js';
+import { getScheduleShows } from './domain/schedule.js';
 import {
   getSchedule,
   getNetworkSchedule,
@@ -59,6 +60,7 @@ export const Fixtures = {
     getAllShows,
     getEpisodeSequence,
     getMixedAirtimeShows,
+    getScheduleShows,
     getNetworkGroups,
     getMixedAirtimeNetworkGroups,
     getMultiEpisodeNetworkGroups
@@ -0,0 +1,102 @@
+/**
+ * Tests for the shared HTTP service registration
+ */
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { container, type DependencyContainer } from 'tsyringe';
+
+import { registerHttpServices } from '../httpServicesContainer.js';
+import { CachingHttpClientImpl } from '../implementations/cachingHttpClientImpl.js';
+import { FetchHttpClientImpl } from '../implementations/fetchHttpClientImpl.js';
+import { ReplayHttpClientImpl } from '../implementations/replayHttpClientImpl.js';
+import { MockLoggerServiceImpl } from '../implementations/test/mockLoggerServiceImpl.js';
+import { TestConfigServiceImpl } from '../implementations/test/testConfigServiceImpl.js';
+import { XmltvServiceImpl } from '../implementations/xmltvServiceImpl.js';
+import type { ConfigService } from '../interfaces/configService.js';
+import type { HttpClient } from '../interfaces/httpClient.js';
+import type { RateLimiter } from '../interfaces/rateLimiter.js';
+
+/** Only resolved, never written to */
+const CACHE_DIRECTORY = 'test-cache';
+const REPLAY_DIRECTORY = 'test-replay';
+
+describe('registerHttpServices', () => {
+  let testContainer: DependencyContainer;
+  let configService: TestConfigServiceImpl;
+
+  beforeEach(() => {
+    testContainer = container.createChildContainer();
+    configService = new TestConfigServiceImpl();
+    testContainer.register<ConfigService>('ConfigService', { useValue: configService });
+    testContainer.register('LoggerService', { useValue: new MockLoggerServiceImpl() });
+  });
+
+  it('wraps the HttpClient in the cache when one is configured', () => {
+    configService.setAppConfig({ cache: { directory: CACHE_DIRECTORY } });
+
+    registerHttpServices(testContainer);
+
+    expect(testContainer.resolve('HttpClient')).toBeInstanceOf(CachingHttpClientImpl);
+  });
+
+  it('serves recorded responses with --replay', () => {
+    configService.setCliOptions({ replay: REPLAY_DIRECTORY });
+
+    registerHttpServices(testContainer);
+
+    expect(testContainer.resolve('HttpClient')).toBeInstanceOf(ReplayHttpClientImpl);
+  });
+
+  it('ignores the cache and --replay without local files', () => {
+    configService.setAppConfig({ cache: { directory: CACHE_DIRECTORY } });
+    configService.setCliOptions({ replay: REPLAY_DIRECTORY });
+
+    registerHttpServices(testContainer, { shouldUseLocalFiles: false });
+
+    expect(testContainer.resolve('HttpClient')).toBeInstanceOf(FetchHttpClientImpl);
+  });
+
+  it('sends webhook posts outside the TVMaze rate limiter and cache', async () => {
+    registerHttpServices(testContainer);
+    const rateLimiter = testContainer.resolve<RateLimiter>('RateLimiter');
+    const acquireSpy = jest.spyOn(rateLimiter, 'acquire');
+    const webhookClient = testContainer.resolve<HttpClient>('WebhookHttpClient');
+
+    expect(webhookClient).toBeInstanceOf(FetchHttpClientImpl);
+    const fetchSpy = jest.spyOn(globalThis, 'fetch').mockImplementation(
+      async () => await Promise.resolve(Response.json({}))
+    );
+    try {
+      await webhookClient.post('https://example.com/hook', { text: 'Tonight' });
+      expect(acquireSpy).not.toHaveBeenCalled();
+
+      await testContainer.resolve<HttpClient>('HttpClient').get('https://api.tvmaze.com/schedule');
+      expect(acquireSpy).toHaveBeenCalledTimes(1);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it('never records or replays webhook posts', () => {
+    configService.setCliOptions({ record: 'test-record', replay: REPLAY_DIRECTORY });
+
+    registerHttpServices(testContainer);
+
+    expect(testContainer.resolve('WebhookHttpClient')).toBeInstanceOf(FetchHttpClientImpl);
+  });
+
+  it('shares one RateLimiter between resolutions', () => {
+    registerHttpServices(testContainer);
+
+    expect(testContainer.resolve('RateLimiter')).toBe(testContainer.resolve('RateLimiter'));
+  });
+
+  it('registers the XMLTV TvShowService when the provider is xmltv', () => {
+    configService.setShowOptions({ provider: 'xmltv' });
+    configService.setAppConfig({ xmltv: { source: 'https://example.com/guide.xml' } });
+
+    registerHttpServices(testContainer);
+
+    expect(testContainer.resolve('TvShowService')).toBeInstanceOf(XmltvServiceImpl);
+  });
+});
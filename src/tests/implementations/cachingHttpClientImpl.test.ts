@@ -0,0 +1,178 @@
+/**
+ * Tests for CachingHttpClientImpl
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { z } from 'zod';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  CachingHttpClientImpl,
+  DEFAULT_CACHE_TTL_SECONDS
+} from '../../implementations/cachingHttpClientImpl.js';
+import type { HttpClient } from '../../interfaces/httpClient.js';
+import { createMockHttpClient } from '../mocks/factories/httpClientFactory.js';
+
+const SCHEDULE_URL = 'https://api.tvmaze.com/schedule?date=2025-01-13&country=US';
+const WEB_SCHEDULE_URL = 'https://api.tvmaze.com/schedule/web?date=2025-01-13';
+const ETAG = '"abc123"';
+const LAST_MODIFIED = 'Mon, 13 Jan 2025 08:00:00 GMT';
+const NETWORK_ERROR = 'Network Error';
+const START_TIME = 1_736_755_200_000;
+
+describe('CachingHttpClientImpl', () => {
+  let cacheDir: string;
+  let innerClient: HttpClient;
+  let getSpy: jest.SpiedFunction<HttpClient['get']>;
+  let currentTime: number;
+
+  /** Create a caching client over the mock client with a controllable clock */
+  const createClient = (
+    options: ConstructorParameters<typeof CachingHttpClientImpl>[1] = {}
+  ): CachingHttpClientImpl =>
+    new CachingHttpClientImpl(innerClient, { directory: cacheDir, ...options }, undefined,
+      () => currentTime);
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'whatsontv-cache-'));
+    currentTime = START_TIME;
+    innerClient = createMockHttpClient();
+    getSpy = jest.spyOn(innerClient, 'get').mockResolvedValue({
+      data: [{ id: 1 }],
+      status: 200,
+      headers: { etag: ETAG, 'last-modified': LAST_MODIFIED }
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should serve a fresh response from disk without a request', async () => {
+    const client = createClient();
+
+    const first = await client.get(SCHEDULE_URL);
+    currentTime += 60_000;
+    const second = await client.get(SCHEDULE_URL);
+
+    expect(getSpy).toHaveBeenCalledTimes(1);
+    expect(second.data).toEqual(first.data);
+    expect(fs.readdirSync(cacheDir)).toHaveLength(1);
+  });
+
+  it('should persist entries across client instances', async () => {
+    await createClient().get(SCHEDULE_URL);
+
+    const result = await createClient().get(SCHEDULE_URL);
+
+    expect(getSpy).toHaveBeenCalledTimes(1);
+    expect(result.data).toEqual([{ id: 1 }]);
+  });
+
+  it('should revalidate a stale entry with ETag and Last-Modified', async () => {
+    const client = createClient();
+    await client.get(SCHEDULE_URL);
+    currentTime += (DEFAULT_CACHE_TTL_SECONDS + 1) * 1000;
+    getSpy.mockResolvedValueOnce({ data: '', status: 304, headers: {} });
+
+    const result = await client.get(SCHEDULE_URL);
+
+    expect(getSpy).toHaveBeenCalledTimes(2);
+    expect(getSpy.mock.calls[1][1]?.headers).toEqual({
+      'If-None-Match': ETAG,
+      'If-Modified-Since': LAST_MODIFIED
+    });
+    expect(result.status).toBe(200);
+    expect(result.data).toEqual([{ id: 1 }]);
+
+    // Revalidation refreshes the entry, so the next call is a cache hit
+    await client.get(SCHEDULE_URL);
+    expect(getSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should replace a stale entry when the resource has changed', async () => {
+    const client = createClient({ ttlSeconds: 0 });
+    await client.get(SCHEDULE_URL);
+    getSpy.mockResolvedValueOnce({ data: [{ id: 2 }], status: 200, headers: {} });
+
+    const result = await client.get(SCHEDULE_URL);
+
+    expect(result.data).toEqual([{ id: 2 }]);
+  });
+
+  it('should serve a stale entry when the request fails', async () => {
+    const client = createClient({ ttlSeconds: 0 });
+    await client.get(SCHEDULE_URL);
+    getSpy.mockRejectedValueOnce(new Error(NETWORK_ERROR));
+
+    const result = await client.get(SCHEDULE_URL);
+
+    expect(result.data).toEqual([{ id: 1 }]);
+  });
+
+  it('should rethrow request errors when nothing is cached', async () => {
+    getSpy.mockRejectedValueOnce(new Error(NETWORK_ERROR));
+
+    await expect(createClient().get(SCHEDULE_URL)).rejects.toThrow(NETWORK_ERROR);
+  });
+
+  it('should apply the most specific per-URL TTL', async () => {
+    const client = createClient({
+      ttlSeconds: 3600,
+      urlTtls: { '/schedule': 600, '/schedule/web': 60 }
+    });
+    await client.get(SCHEDULE_URL);
+    await client.get(WEB_SCHEDULE_URL);
+    currentTime += 120_000;
+
+    await client.get(SCHEDULE_URL);
+    await client.get(WEB_SCHEDULE_URL);
+
+    // Only the web schedule (60s TTL) was refetched after two minutes
+    expect(getSpy).toHaveBeenCalledTimes(3);
+    expect(getSpy.mock.calls[2][0]).toBe(WEB_SCHEDULE_URL);
+  });
+
+  it('should not cache error responses', async () => {
+    const client = createClient();
+    getSpy.mockResolvedValueOnce({ data: 'Not Found', status: 404, headers: {} });
+
+    await client.get(SCHEDULE_URL);
+
+    expect(fs.readdirSync(cacheDir)).toHaveLength(0);
+  });
+
+  it('should treat a corrupt cache file as a miss', async () => {
+    const client = createClient();
+    await client.get(SCHEDULE_URL);
+    const [fileName] = fs.readdirSync(cacheDir);
+    fs.writeFileSync(path.join(cacheDir, fileName), '{ not json');
+
+    const result = await client.get(SCHEDULE_URL);
+
+    expect(getSpy).toHaveBeenCalledTimes(2);
+    expect(result.data).toEqual([{ id: 1 }]);
+  });
+
+  it('should validate cached data with the provided schema', async () => {
+    const client = createClient();
+    await client.get(SCHEDULE_URL);
+
+    const stringArraySchema = z.array(z.string());
+
+    await expect(client.get(SCHEDULE_URL, undefined, stringArraySchema)).rejects.toThrow();
+  });
+
+  it('should pass POST requests through uncached', async () => {
+    const postSpy = jest.spyOn(innerClient, 'post').mockResolvedValue({
+      data: { ok: true },
+      status: 200,
+      headers: {}
+    });
+
+    await createClient().post(SCHEDULE_URL, { text: 'hello' });
+
+    expect(postSpy).toHaveBeenCalledWith(SCHEDULE_URL, { text: 'hello' }, undefined, undefined);
+    expect(fs.readdirSync(cacheDir)).toHaveLength(0);
+  });
+});
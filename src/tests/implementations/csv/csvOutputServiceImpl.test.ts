@@ -0,0 +1,93 @@
+/**
+ * Tests for CsvOutputServiceImpl
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { CsvOutputServiceImpl } from '../../../implementations/csv/csvOutputServiceImpl.js';
+import type { ProcessOutput } from '../../../interfaces/processOutput.js';
+import type { ShowOptions } from '../../../schemas/config.js';
+import type { CliOptions } from '../../../types/configTypes.js';
+import { CSV_COLUMNS } from '../../../utils/csvUtils.js';
+import { getScheduleShows, MONDAY, TUESDAY } from '../../fixtures/domain/schedule.js';
+import {
+  createRunOutputServiceFactory
+} from '../../mocks/factories/outputServiceFactory.js';
+import { createJestProcessOutput } from '../../mocks/factories/processOutputFactory.js';
+
+describe('CsvOutputServiceImpl', () => {
+  let output: jest.Mocked<ProcessOutput>;
+  const shows = getScheduleShows({ hasLateShow: true });
+  const createService = createRunOutputServiceFactory(
+    configService => new CsvOutputServiceImpl(output, configService)
+  );
+
+  /**
+   * Render the shows and split the CSV written to stdout into rows
+   * @param showOptions Show options of the run
+   * @param cliOptions CLI options of the run
+   */
+  const renderRows = async (
+    showOptions: Partial<ShowOptions>,
+    cliOptions: Partial<CliOptions> = {}
+  ): Promise<string[]> => {
+    await createService(showOptions, cliOptions).renderOutput(shows);
+    expect(output.log).toHaveBeenCalledTimes(1);
+    return (output.log.mock.calls[0][0] ?? '').split('\r\n');
+  };
+
+  beforeEach(() => {
+    output = createJestProcessOutput();
+  });
+
+  it('writes a header row and one row per episode, by day and airtime', async () => {
+    const rows = await renderRows({ date: MONDAY, endDate: TUESDAY });
+
+    expect(rows[0]).toBe(CSV_COLUMNS.join(','));
+    expect(rows.slice(1).map(row => row.split(',').slice(0, 5))).toEqual([
+      [MONDAY, '20:00', 'CBS', 'Survivor', '2'],
+      [MONDAY, '23:35', 'CBS', 'Late Show', '1'],
+      [TUESDAY, '', 'Apple TV+', 'Severance', '3']
+    ]);
+  });
+
+  it('writes only the selected columns, in order', async () => {
+    const rows = await renderRows({ date: MONDAY }, { csvColumns: ['show', 'date'] });
+
+    expect(rows).toEqual([
+      'show,date',
+      `Survivor,${MONDAY}`,
+      `Late Show,${MONDAY}`,
+      `Severance,${MONDAY}`
+    ]);
+  });
+
+  describe('with an output file', () => {
+    let outputDir: string;
+
+    beforeEach(() => {
+      outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'whatsontv-csv-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    });
+
+    it('writes the document to the file instead of stdout', async () => {
+      const outputFile = path.join(outputDir, 'schedule.csv');
+      await createService({ date: MONDAY }, { outputFile }).renderOutput(shows);
+
+      expect(output.log).not.toHaveBeenCalled();
+      expect(fs.readFileSync(outputFile, 'utf8')).toMatch(/^date,airtime,.*\r\n$/s);
+    });
+
+    it('reports errors writing the file', async () => {
+      await createService({ date: MONDAY }, { outputFile: outputDir }).renderOutput(shows);
+
+      expect(output.error).toHaveBeenCalledWith(
+        expect.stringMatching(/^Error writing CSV output: /)
+      );
+    });
+  });
+});
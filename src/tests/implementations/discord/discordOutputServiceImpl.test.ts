@@ -0,0 +1,79 @@
+/**
+ * Tests for the Discord Output Service Implementation
+ */
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  DiscordOutputServiceImpl
+} from '../../../implementations/discord/discordOutputServiceImpl.js';
+import {
+  DiscordShowFormatterImpl
+} from '../../../implementations/discord/discordShowFormatterImpl.js';
+import type { DiscordClient, DiscordEmbed } from '../../../interfaces/discordClient.js';
+import { getScheduleShows, MONDAY, WEDNESDAY } from '../../fixtures/domain/schedule.js';
+import {
+  createRunOutputServiceFactory
+} from '../../mocks/factories/outputServiceFactory.js';
+
+describe('DiscordOutputServiceImpl', () => {
+  let discordClient: jest.Mocked<DiscordClient>;
+  const shows = getScheduleShows({ severanceAirdate: WEDNESDAY });
+  const createService = createRunOutputServiceFactory(configService =>
+    new DiscordOutputServiceImpl(new DiscordShowFormatterImpl(), discordClient, configService)
+  );
+
+  /**
+   * Get the embeds of each posted message
+   */
+  const getPostedEmbeds = (): DiscordEmbed[][] =>
+    discordClient.sendMessage.mock.calls.map(([message]) => message.embeds ?? []);
+
+  beforeEach(() => {
+    discordClient = {
+      sendMessage: jest.fn<DiscordClient['sendMessage']>().mockResolvedValue()
+    };
+  });
+
+  it('posts the day as an embed with a field per network', async () => {
+    await createService({ date: MONDAY }).renderOutput(shows);
+
+    const [[embed]] = getPostedEmbeds();
+    expect(embed.title).toBe(`TV Shows for ${MONDAY}`);
+    expect(embed.fields?.map(field => field.name)).toEqual(['Apple TV+', 'CBS']);
+    expect(embed.footer?.text).toBe('Data provided by TVMaze API');
+  });
+
+  it('posts a message per day of a range, skipping days without shows', async () => {
+    await createService({ date: MONDAY, endDate: WEDNESDAY }).renderOutput(shows);
+
+    expect(getPostedEmbeds().map(([embed]) => embed.title)).toEqual([
+      `TV Shows for Monday, ${MONDAY}`,
+      `TV Shows for Wednesday, ${WEDNESDAY}`
+    ]);
+  });
+
+  it('says so when there are no shows', async () => {
+    await createService({ date: MONDAY }).renderOutput([]);
+
+    expect(getPostedEmbeds()[0][0].description)
+      .toBe('No shows found for the specified criteria.');
+  });
+
+  it('posts errors to the channel', async () => {
+    discordClient.sendMessage
+      .mockRejectedValueOnce(new Error('Webhook rejected'))
+      .mockResolvedValueOnce();
+
+    await createService({ date: MONDAY }).renderOutput(shows);
+
+    expect(discordClient.sendMessage).toHaveBeenCalledTimes(2);
+    expect(discordClient.sendMessage.mock.calls[1][0]).toEqual({
+      content: 'Error fetching TV shows: Webhook rejected'
+    });
+  });
+
+  it('does not throw when the error message cannot be posted either', async () => {
+    discordClient.sendMessage.mockRejectedValue(new Error('Webhook rejected'));
+
+    await expect(createService({ date: MONDAY }).renderOutput(shows)).resolves.toBeUndefined();
+  });
+});
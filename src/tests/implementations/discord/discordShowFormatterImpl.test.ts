@@ -0,0 +1,88 @@
+/**
+ * Tests for the Discord Show Formatter Implementation
+ */
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  DiscordShowFormatterImpl
+} from '../../../implementations/discord/discordShowFormatterImpl.js';
+import { DISCORD_LIMITS } from '../../../utils/discordUtils.js';
+import { ShowBuilder } from '../../fixtures/helpers/showFixtureBuilder.js';
+
+describe('DiscordShowFormatterImpl', () => {
+  let formatter: DiscordShowFormatterImpl;
+
+  beforeEach(() => {
+    formatter = new DiscordShowFormatterImpl();
+  });
+
+  it('formats a timed show as a bullet line in Discord markdown', () => {
+    const show = new ShowBuilder()
+      .withName('Survivor')
+      .withType('Reality')
+      .withAirtime('20:00')
+      .withEpisode(47, 3)
+      .withEpisodeName('Tribal Council')
+      .withRuntime(60)
+      .build();
+
+    expect(formatter.formatTimedShow(show)).toEqual({
+      name: 'Survivor',
+      value: '• Survivor S47E03 *Tribal Council* (8:00 PM, 60 min)'
+    });
+  });
+
+  it('escapes markdown and highlights followed shows with badges', () => {
+    const show = new ShowBuilder()
+      .withName('*NSYNC_Live')
+      .withAirtime(null)
+      .withFollowed()
+      .withBadge('seasonPremiere')
+      .build();
+
+    const { value } = formatter.formatUntimedShow(show);
+
+    expect(value).toMatch(/^• ★ \*\*\\\*NSYNC\\_Live\*\* S01E01 /);
+    expect(value).toContain('Season Premiere**');
+  });
+
+  it('consolidates episodes of the same show into one line with a range', () => {
+    const shows = ShowBuilder.episodeSequence(3, 'The Bear');
+
+    const fields = formatter.formatMultipleEpisodes(shows);
+
+    expect(fields).toHaveLength(1);
+    expect(fields[0].value).toContain('The Bear S01E01-03');
+  });
+
+  it('formats network groups as one field per network', () => {
+    const fields = formatter.formatNetworkGroups({
+      CBS: [
+        new ShowBuilder().withId(1).withName('Survivor').withAirtime('20:00').build(),
+        new ShowBuilder().withId(2).withName('Tracker').withAirtime('21:00').build()
+      ],
+      NBC: [new ShowBuilder().withName('The Voice').withAirtime('20:00').build()]
+    });
+
+    expect(fields.map(field => field.name)).toEqual(['CBS', 'NBC']);
+    expect(fields[0].value.split('\n')).toEqual([
+      expect.stringContaining('Survivor'),
+      expect.stringContaining('Tracker')
+    ]);
+  });
+
+  it('continues networks in further fields beyond the field value limit', () => {
+    const shows = Array.from({ length: 40 }, (_, index) => new ShowBuilder()
+      .withId(index + 1)
+      .withName(`A show with a rather long name, number ${index + 1}`)
+      .withEpisodeName('An episode title that takes up some more room')
+      .withAirtime('20:00')
+      .build());
+
+    const fields = formatter.formatNetwork('CBS', shows);
+
+    expect(fields.length).toBeGreaterThan(1);
+    expect(fields[1].name).toBe('CBS (continued)');
+    expect(fields.every(field => field.value.length <= DISCORD_LIMITS.fieldValue)).toBe(true);
+    expect(fields.flatMap(field => field.value.split('\n'))).toHaveLength(40);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for the Discord Webhook Client Implementation
+ */
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  DiscordWebhookClientImpl
+} from '../../../implementations/discord/discordWebhookClientImpl.js';
+import { TestConfigServiceImpl } from '../../../implementations/test/testConfigServiceImpl.js';
+import type { HttpClient } from '../../../interfaces/httpClient.js';
+import type { DiscordConfig } from '../../../types/configTypes.js';
+
+const WEBHOOK_URL = 'https://discord.com/api/webhooks/123/secret-token';
+
+describe('DiscordWebhookClientImpl', () => {
+  let httpClient: jest.Mocked<HttpClient>;
+
+  /**
+   * Create a client for the webhook
+   * @param discord Overrides of the discord section of the config
+   */
+  const createClient = (discord: Partial<DiscordConfig> = {}): DiscordWebhookClientImpl =>
+    new DiscordWebhookClientImpl(
+      new TestConfigServiceImpl({}, {}, { discord: { webhookUrl: WEBHOOK_URL, ...discord } }),
+      httpClient
+    );
+
+  beforeEach(() => {
+    httpClient = {
+      get: jest.fn<HttpClient['get']>(),
+      post: jest.fn<HttpClient['post']>().mockResolvedValue({ data: '', status: 204, headers: {} })
+    };
+  });
+
+  it('requires a discord section in the config', () => {
+    expect(() => new DiscordWebhookClientImpl(new TestConfigServiceImpl(), httpClient))
+      .toThrow('Discord is not configured');
+  });
+
+  it('posts the message to the webhook with the default username', async () => {
+    const embeds = [{ title: 'TV Shows' }];
+
+    await createClient().sendMessage({ embeds });
+
+    expect(httpClient.post).toHaveBeenCalledWith(WEBHOOK_URL, {
+      embeds,
+      username: 'WhatsOnTV'
+    });
+  });
+
+  it('posts with the configured username and avatar', async () => {
+    const avatarUrl = 'https://example.com/tv.png';
+
+    await createClient({ avatarUrl, username: 'TV Bot' })
+      .sendMessage({ content: 'Hello' });
+
+    expect(httpClient.post).toHaveBeenCalledWith(WEBHOOK_URL, {
+      content: 'Hello',
+      username: 'TV Bot',
+      avatar_url: avatarUrl
+    });
+  });
+
+  it('wraps errors without revealing the webhook token', async () => {
+    httpClient.post.mockRejectedValue(
+      new Error(`Request failed with status code 404 Not Found: POST ${WEBHOOK_URL}`)
+    );
+
+    const sending = createClient().sendMessage({ content: 'Hello' });
+
+    await expect(sending).rejects.toThrow(/^Failed to send Discord message: .*<webhook URL>$/);
+    await expect(sending).rejects.not.toThrow('secret-token');
+  });
+});
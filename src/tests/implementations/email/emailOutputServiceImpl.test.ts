@@ -0,0 +1,86 @@
+/**
+ * Tests for the Email Output Service Implementation
+ */
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EmailOutputServiceImpl } from '../../../implementations/email/emailOutputServiceImpl.js';
+import { EmailShowFormatterImpl } from '../../../implementations/email/emailShowFormatterImpl.js';
+import type { EmailClient, EmailMessage } from '../../../interfaces/emailClient.js';
+import { getScheduleShows, MONDAY, TUESDAY } from '../../fixtures/domain/schedule.js';
+import {
+  createRunOutputServiceFactory
+} from '../../mocks/factories/outputServiceFactory.js';
+
+const CONNECTION_REFUSED = 'Connection refused';
+
+describe('EmailOutputServiceImpl', () => {
+  let emailClient: jest.Mocked<EmailClient>;
+  const shows = getScheduleShows();
+  const createService = createRunOutputServiceFactory(configService =>
+    new EmailOutputServiceImpl(new EmailShowFormatterImpl(), emailClient, configService)
+  );
+
+  /**
+   * Get the message of the only sendMail call
+   */
+  const getSentMessage = (): EmailMessage => {
+    expect(emailClient.sendMail).toHaveBeenCalledTimes(1);
+    return emailClient.sendMail.mock.calls[0][0];
+  };
+
+  beforeEach(() => {
+    emailClient = {
+      sendMail: jest.fn<EmailClient['sendMail']>().mockResolvedValue()
+    };
+  });
+
+  it('sends one email with the HTML and plain-text digest of the day', async () => {
+    await createService({ date: MONDAY }).renderOutput([shows[0]]);
+
+    const message = getSentMessage();
+    expect(message.to).toBeUndefined();
+    expect(message.subject).toBe(`TV Shows for ${MONDAY}`);
+    expect(message.html).toMatch(/^<!DOCTYPE html>/);
+    expect(message.html).toContain('<h3 style="margin:16px 0 6px 0">CBS</h3>');
+    expect(message.text).toContain('CBS:\n----');
+    expect(message.text).toContain('Survivor');
+    expect(message.text).toMatch(/Data provided by TVMaze API/);
+  });
+
+  it('sends a range as one email with a heading per day', async () => {
+    await createService({ date: MONDAY, endDate: TUESDAY }).renderOutput(shows);
+
+    const message = getSentMessage();
+    expect(message.subject).toBe(`TV Shows for ${MONDAY} to ${TUESDAY}`);
+    expect(message.text).toContain(`Monday, ${MONDAY}`);
+    expect(message.text).toContain(`Tuesday, ${TUESDAY}`);
+    expect(message.html).toContain('Severance');
+  });
+
+  it('says so when there are no shows', async () => {
+    await createService({ date: MONDAY }).renderOutput([]);
+
+    expect(getSentMessage().text).toContain('No shows found for the specified criteria.');
+  });
+
+  it('sends errors to the operations address', async () => {
+    emailClient.sendMail
+      .mockRejectedValueOnce(new Error(CONNECTION_REFUSED))
+      .mockResolvedValueOnce();
+
+    await createService({ date: MONDAY }, {}, { operationsEmail: 'ops@example.com' })
+      .renderOutput(shows);
+
+    expect(emailClient.sendMail).toHaveBeenCalledTimes(2);
+    expect(emailClient.sendMail.mock.calls[1][0]).toMatchObject({
+      to: ['ops@example.com'],
+      text: expect.stringContaining(CONNECTION_REFUSED)
+    });
+  });
+
+  it('does not throw when the error email cannot be sent either', async () => {
+    emailClient.sendMail.mockRejectedValue(new Error(CONNECTION_REFUSED));
+
+    await expect(createService({ date: MONDAY }).renderOutput(shows)).resolves.toBeUndefined();
+    expect(emailClient.sendMail.mock.calls[1][0].to).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for the Email Show Formatter Implementation
+ */
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { EmailShowFormatterImpl } from '../../../implementations/email/emailShowFormatterImpl.js';
+import { ShowBuilder } from '../../fixtures/helpers/showFixtureBuilder.js';
+
+describe('EmailShowFormatterImpl', () => {
+  let formatter: EmailShowFormatterImpl;
+
+  beforeEach(() => {
+    formatter = new EmailShowFormatterImpl();
+  });
+
+  it('formats a timed show as an HTML paragraph and a plain-text line', () => {
+    const show = new ShowBuilder()
+      .withName('Survivor')
+      .withType('Reality')
+      .withAirtime('20:00')
+      .withEpisode(47, 3)
+      .withEpisodeName('Tribal Council')
+      .withRuntime(60)
+      .build();
+
+    const part = formatter.formatTimedShow(show);
+
+    expect(part.text).toBe('  8:00 PM  Survivor S47E03 "Tribal Council" (Reality, 60 min)');
+    expect(part.html).toContain('8:00 PM');
+    expect(part.html).toContain('<em>Tribal Council</em>');
+    expect(part.html).toMatch(/^<p [^<>]+>.*<\/p>$/);
+  });
+
+  it('escapes HTML in show names and episode titles', () => {
+    const show = new ShowBuilder()
+      .withName('Law & Order')
+      .withEpisodeName('<Pilot>')
+      .withAirtime('21:00')
+      .build();
+
+    const { html, text } = formatter.formatTimedShow(show);
+
+    expect(html).toContain('Law &amp; Order');
+    expect(html).toContain('&lt;Pilot&gt;');
+    expect(text).toContain('Law & Order');
+  });
+
+  it('highlights followed shows and shows badges', () => {
+    const show = new ShowBuilder()
+      .withName('Severance')
+      .withAirtime(null)
+      .withFollowed()
+      .withBadge('seasonPremiere')
+      .build();
+
+    const { html, text } = formatter.formatUntimedShow(show);
+
+    expect(text).toMatch(/^ {2}N\/A {6}★ Severance /);
+    expect(text).toContain('Season Premiere');
+    expect(html).toContain('<strong>★ Severance</strong>');
+  });
+
+  it('consolidates episodes of the same show into one line with a range', () => {
+    const shows = ShowBuilder.episodeSequence(3, 'The Bear');
+
+    const parts = formatter.formatMultipleEpisodes(shows);
+
+    expect(parts).toHaveLength(1);
+    expect(parts[0].text).toContain('The Bear S01E01-03');
+  });
+
+  it('formats network groups with a heading per network', () => {
+    const parts = formatter.formatNetworkGroups({
+      CBS: [new ShowBuilder().withName('Survivor').withNetwork('CBS').withAirtime('20:00').build()],
+      NBC: [new ShowBuilder().withName('The Voice').withNetwork('NBC').withAirtime('20:00').build()]
+    });
+
+    expect(parts.map(part => part.text)).toEqual([
+      'CBS:\n----',
+      expect.stringContaining('Survivor'),
+      '',
+      'NBC:\n----',
+      expect.stringContaining('The Voice')
+    ]);
+    expect(parts[0].html).toMatch(/^<h3 [^<>]+>CBS<\/h3>$/);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Tests for the SMTP Email Client Implementation
+ * Mail is delivered to a minimal SMTP stand-in listening on localhost
+ */
+import net from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { SmtpEmailClientImpl } from '../../../implementations/email/smtpEmailClientImpl.js';
+import { TestConfigServiceImpl } from '../../../implementations/test/testConfigServiceImpl.js';
+import type { EmailConfig } from '../../../types/configTypes.js';
+
+/**
+ * Message received by the SMTP stand-in
+ */
+interface ReceivedMail {
+  from: string;
+  recipients: string[];
+  data: string;
+}
+
+/**
+ * Minimal SMTP server that accepts every message
+ */
+class SmtpStandIn {
+  private readonly sockets = new Set<net.Socket>();
+  private readonly server = net.createServer(socket => {
+    this.sockets.add(socket);
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+    });
+    this.handleConnection(socket);
+  });
+  readonly received: ReceivedMail[] = [];
+
+  /**
+   * Answer one SMTP command
+   * @param socket Client connection
+   * @param line Command line, without the line break
+   * @param mail Message being received
+   * @returns True when the message data follows
+   */
+  private answerCommand(socket: net.Socket, line: string, mail: ReceivedMail): boolean {
+    switch (line.slice(0, 4).toUpperCase()) {
+    case 'MAIL': {
+      mail.from = line;
+      socket.write('250 OK\r\n');
+      return false;
+    }
+    case 'RCPT': {
+      mail.recipients.push(line);
+      socket.write('250 OK\r\n');
+      return false;
+    }
+    case 'DATA': {
+      socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+      return true;
+    }
+    case 'QUIT': {
+      socket.end('221 Bye\r\n');
+      return false;
+    }
+    default: {
+      // EHLO, RSET and anything else
+      socket.write('250 localhost\r\n');
+      return false;
+    }
+    }
+  }
+
+  /**
+   * Answer the commands of one client connection
+   * @param socket Client connection
+   */
+  private handleConnection(socket: net.Socket): void {
+    let buffer = '';
+    let isReadingData = false;
+    let mail: ReceivedMail = { from: '', recipients: [], data: '' };
+
+    socket.setEncoding('utf8');
+    socket.write('220 localhost ESMTP stand-in\r\n');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      if (isReadingData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) {
+          return;
+        }
+        mail.data = buffer.slice(0, end);
+        this.received.push(mail);
+        mail = { from: '', recipients: [], data: '' };
+        buffer = buffer.slice(end + 5);
+        isReadingData = false;
+        socket.write('250 OK queued\r\n');
+      }
+
+      let lineEnd = buffer.indexOf('\r\n');
+      while (!isReadingData && lineEnd !== -1) {
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        isReadingData = this.answerCommand(socket, line, mail);
+        lineEnd = buffer.indexOf('\r\n');
+      }
+    });
+  }
+
+  /**
+   * Start listening on a free port
+   * @returns The port
+   */
+  async start(): Promise<number> {
+    await new Promise<void>(resolve => {
+      this.server.listen(0, '127.0.0.1', resolve);
+    });
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  /**
+   * Stop listening and close open connections; does nothing when stopped
+   */
+  async stop(): Promise<void> {
+    if (!this.server.listening) {
+      return;
+    }
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise<void>(resolve => {
+      this.server.close(() => {
+        resolve();
+      });
+    });
+  }
+}
+
+describe('SmtpEmailClientImpl', () => {
+  let smtpServer: SmtpStandIn;
+  let emailConfig: EmailConfig;
+
+  /**
+   * Create a client for the email config
+   */
+  const createClient = (): SmtpEmailClientImpl => new SmtpEmailClientImpl(
+    new TestConfigServiceImpl({}, {}, { email: emailConfig }),
+    undefined
+  );
+
+  beforeEach(async () => {
+    smtpServer = new SmtpStandIn();
+    emailConfig = {
+      host: '127.0.0.1',
+      port: await smtpServer.start(),
+      from: 'whatsontv@example.com',
+      to: ['viewer@example.com', 'other@example.com']
+    };
+  });
+
+  afterEach(async () => {
+    await smtpServer.stop();
+  });
+
+  it('delivers the HTML and plain-text bodies to the configured recipients', async () => {
+    await createClient().sendMail({
+      subject: 'TV Shows for 2025-01-13',
+      html: '<p>Survivor</p>',
+      text: 'Survivor'
+    });
+
+    expect(smtpServer.received).toHaveLength(1);
+    const [mail] = smtpServer.received;
+    expect(mail.from).toContain('<whatsontv@example.com>');
+    expect(mail.recipients).toEqual([
+      'RCPT TO:<viewer@example.com>',
+      'RCPT TO:<other@example.com>'
+    ]);
+    expect(mail.data).toContain('Subject: TV Shows for 2025-01-13');
+    expect(mail.data).toContain('multipart/alternative');
+    expect(mail.data).toContain('<p>Survivor</p>');
+  });
+
+  it('sends to the recipients of the message when given', async () => {
+    await createClient().sendMail({
+      to: ['ops@example.com'],
+      subject: 'WhatsOnTV error',
+      html: '<p>Error</p>',
+      text: 'Error'
+    });
+
+    expect(smtpServer.received[0].recipients).toEqual(['RCPT TO:<ops@example.com>']);
+  });
+
+  it('wraps delivery failures', async () => {
+    await smtpServer.stop();
+
+    await expect(createClient().sendMail({
+      subject: 'TV Shows',
+      html: '',
+      text: ''
+    })).rejects.toThrow(/^Failed to send email: /);
+  });
+
+  it('requires an email section in the config', () => {
+    expect(() => new SmtpEmailClientImpl(new TestConfigServiceImpl(), undefined))
+      .toThrow('Email is not configured');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Tests for FeedOutputServiceImpl
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FeedOutputServiceImpl } from '../../../implementations/feed/feedOutputServiceImpl.js';
+import type { ProcessOutput } from '../../../interfaces/processOutput.js';
+import { createFeed, renderFeedEntry } from '../../../utils/feedUtils.js';
+import { getScheduleShows, MONDAY, TUESDAY } from '../../fixtures/domain/schedule.js';
+import {
+  createRunOutputServiceFactory
+} from '../../mocks/factories/outputServiceFactory.js';
+import { createJestProcessOutput } from '../../mocks/factories/processOutputFactory.js';
+
+const DAY_IN_MILLISECONDS = 24 * 60 * 60 * 1000;
+
+describe('FeedOutputServiceImpl', () => {
+  let output: jest.Mocked<ProcessOutput>;
+  const shows = getScheduleShows({ hasLateShow: true });
+  const createService = createRunOutputServiceFactory(
+    configService => new FeedOutputServiceImpl(output, configService)
+  );
+
+  /**
+   * Get the document written to stdout
+   */
+  const getLoggedFeed = (): string => {
+    expect(output.log).toHaveBeenCalledTimes(1);
+    return output.log.mock.calls[0][0] ?? '';
+  };
+
+  beforeEach(() => {
+    output = createJestProcessOutput();
+  });
+
+  it('writes an Atom feed with one entry per episode', async () => {
+    await createService({ date: MONDAY, endDate: TUESDAY }, { format: 'atom' })
+      .renderOutput(shows);
+
+    const feed = getLoggedFeed();
+    expect(feed).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(feed).toContain('<title>WhatsOnTV</title>');
+    expect(feed.match(/<entry>/g)).toHaveLength(3);
+    expect(feed).toContain('<id>urn:whatsontv:whatsontv-2-s47e3</id>');
+  });
+
+  it('writes an RSS feed with one entry per day when configured', async () => {
+    await createService(
+      { date: MONDAY, endDate: TUESDAY },
+      { format: 'rss' },
+      { feed: { title: 'Tonight', entries: 'day' } }
+    ).renderOutput(shows);
+
+    const feed = getLoggedFeed();
+    expect(feed).toContain('<rss version="2.0">');
+    expect(feed).toContain('<title>Tonight</title>');
+    expect(feed.match(/<item>/g)).toHaveLength(2);
+    expect(feed.indexOf('urn:whatsontv:day-2025-01-14'))
+      .toBeLessThan(feed.indexOf('urn:whatsontv:day-2025-01-13'));
+  });
+
+  describe('with an output file', () => {
+    let outputDir: string;
+    let outputFile: string;
+
+    beforeEach(() => {
+      outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'whatsontv-feed-'));
+      outputFile = path.join(outputDir, 'feed.xml');
+    });
+
+    afterEach(() => {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    });
+
+    /**
+     * Write an existing feed with entries published the given number of days ago
+     * @param ages Entry GUIDs by age in days
+     */
+    const writeExistingFeed = (ages: Record<string, number>): void => {
+      const entries = Object.entries(ages).map(([id, age]) => renderFeedEntry({
+        id,
+        title: id,
+        published: new Date(Date.now() - age * DAY_IN_MILLISECONDS),
+        html: ''
+      }, 'atom'));
+      const feed = createFeed('atom', { title: 'Old', updated: new Date() }, entries);
+      fs.writeFileSync(outputFile, feed);
+    };
+
+    it('replaces the existing feed without --append', async () => {
+      writeExistingFeed({ 'urn:recent': 1 });
+      await createService({ date: MONDAY }, { format: 'atom', outputFile }).renderOutput(shows);
+
+      expect(output.log).not.toHaveBeenCalled();
+      expect(fs.readFileSync(outputFile, 'utf8')).not.toContain('urn:recent');
+    });
+
+    it('keeps existing entries within the retention window with --append', async () => {
+      writeExistingFeed({ 'urn:recent': 1, 'urn:expired': 10 });
+      const service = createService(
+        { date: MONDAY },
+        { outputFile, format: 'atom', append: true },
+        { feed: { retentionDays: 7 } }
+      );
+
+      await service.renderOutput(shows);
+      await service.renderOutput(shows);
+
+      const feed = fs.readFileSync(outputFile, 'utf8');
+      expect(feed).toContain('<id>urn:recent</id>');
+      expect(feed).not.toContain('urn:expired');
+      expect(feed.match(/<entry>/g)).toHaveLength(4);
+    });
+
+    it('reports errors writing the file', async () => {
+      await createService({ date: MONDAY }, { format: 'rss', outputFile: outputDir })
+        .renderOutput(shows);
+
+      expect(output.error).toHaveBeenCalledWith(
+        expect.stringMatching(/^Error writing feed output: /)
+      );
+    });
+  });
+});
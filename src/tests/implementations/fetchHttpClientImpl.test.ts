@@ -9,6 +9,8 @@ import 'reflect-metadata';
 import { z } from 'zod';
 import { describe, expect, it, jest, beforeEach } from '@jest/globals';
 import { FetchHttpClientImpl } from '../../implementations/fetchHttpClientImpl.js';
+import { MockLoggerServiceImpl } from '../../implementations/test/mockLoggerServiceImpl.js';
+import type { RateLimiter } from '../../interfaces/rateLimiter.js';
 import type { BeforeRequestHook, BeforeRequestState } from 'ky';
 
 const CONTENT_TYPE_HEADER = 'Content-Type';
@@ -131,6 +133,17 @@ describe('FetchHttpClientImpl', () => {
       );
     });
     
+    it('should return 304 Not Modified responses instead of throwing', async () => {
+      mockBeforeRequestHook.mockImplementation(() => {
+        return new Response(null, { status: 304, headers: { ETag: '"abc123"' } });
+      });
+
+      const result = await client.get('shows/1', { headers: { 'If-None-Match': '"abc123"' } });
+
+      expect(result.status).toBe(304);
+      expect(result.headers).toHaveProperty('etag', '"abc123"');
+    });
+    
     it('should handle non-JSON content types correctly', async () => {
       const plainTextContent = 'This is plain text content';
       
@@ -242,6 +255,44 @@ describe('FetchHttpClientImpl', () => {
       }
     });
 
+    it('should send the body with the method given in the options', async () => {
+      let capturedMethod = '';
+      let capturedBody = '';
+
+      mockBeforeRequestHook.mockImplementation(async (state: unknown) => {
+        const { request } = state as BeforeRequestState;
+        capturedMethod = request.method;
+        capturedBody = await request.clone().text();
+        return new Response(null, { status: 204 });
+      });
+
+      const result = await client.post('shows/1', { title: 'Test' }, { method: 'PUT' });
+
+      expect(result.status).toBe(204);
+      expect(capturedMethod).toBe('PUT');
+      expect(capturedBody).toBe('{"title":"Test"}');
+    });
+
+    it('should send string data as is with the given content type', async () => {
+      let capturedHeaders: Headers | undefined;
+      let capturedBody = '';
+
+      mockBeforeRequestHook.mockImplementation(async (state: unknown) => {
+        const { request } = state as BeforeRequestState;
+        capturedHeaders = request.headers;
+        capturedBody = await request.clone().text();
+        return new Response(null, { status: 204 });
+      });
+
+      await client.post('hooks', 'text=Tonight%20on%20TV', {
+        headers: { [CONTENT_TYPE_HEADER]: 'application/x-www-form-urlencoded' }
+      });
+
+      expect(capturedBody).toBe('text=Tonight%20on%20TV');
+      expect(capturedHeaders?.get(CONTENT_TYPE_HEADER))
+        .toBe('application/x-www-form-urlencoded');
+    });
+
     it('should throw an error if the POST request fails', async () => {
       mockBeforeRequestHook.mockImplementation(() => {
         return new Response('Server Error', {
@@ -325,4 +376,133 @@ describe('FetchHttpClientImpl', () => {
       }
     });
   });
+
+  describe('retries and rate limiting', () => {
+    let mockFetch: jest.Mock<typeof globalThis.fetch>;
+    let rateLimiter: RateLimiter;
+    let logger: MockLoggerServiceImpl;
+
+    /** Create a client that sends requests through the mock fetch */
+    const createRetryingClient = (): FetchHttpClientImpl =>
+      new FetchHttpClientImpl({
+        rateLimiter,
+        baseUrl: 'https://api.example.com',
+        retry: { limit: 2, delayMs: 1, maxDelayMs: 10 },
+        fetch: mockFetch
+      }, logger);
+
+    beforeEach(() => {
+      mockFetch = jest.fn<typeof globalThis.fetch>();
+      rateLimiter = { acquire: jest.fn<RateLimiter['acquire']>().mockResolvedValue() };
+      logger = new MockLoggerServiceImpl();
+      jest.spyOn(logger, 'child').mockReturnValue(logger);
+    });
+
+    it('should retry server errors with backoff and log each retry', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('Unavailable', { status: 503 }))
+        .mockResolvedValueOnce(new Response('Bad Gateway', { status: 502 }))
+        .mockResolvedValueOnce(Response.json(mockResponseData));
+
+      const result = await createRetryingClient().get('shows/1');
+
+      expect(result.data).toEqual(mockResponseData);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      const retryLogs = logger.getCallsOfLevel('warn');
+      expect(retryLogs.map(call => call.context?.retryCount)).toEqual([1, 2]);
+      expect(retryLogs.map(call => call.context?.status)).toEqual([503, 502]);
+    });
+
+    it('should honour Retry-After on 429 responses', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('Too Many Requests', {
+          status: 429,
+          headers: { 'Retry-After': '0' }
+        }))
+        .mockResolvedValueOnce(Response.json(mockResponseData));
+
+      const result = await createRetryingClient().get('shows/1');
+
+      expect(result.status).toBe(200);
+      expect(logger.hasContext({ status: 429, retryAfter: '0' })).toBe(true);
+    });
+
+    it('should give up after the retry limit', async () => {
+      mockFetch.mockImplementation(async () =>
+        await Promise.resolve(new Response('Unavailable', { status: 503 })));
+
+      await expect(createRetryingClient().get('shows/1')).rejects.toThrow('503');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors', async () => {
+      mockFetch.mockResolvedValueOnce(new Response('Not Found', { status: 404 }));
+
+      await expect(createRetryingClient().get('shows/1')).rejects.toThrow('404');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should acquire a rate limit token for every attempt', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('Unavailable', { status: 503 }))
+        .mockResolvedValueOnce(Response.json(mockResponseData));
+
+      await createRetryingClient().get('shows/1');
+
+      expect(rateLimiter.acquire).toHaveBeenCalledTimes(2);
+    });
+  });
+  describe('URL redaction', () => {
+    const WEBHOOK_TOKEN = 'aSecretWebhookToken0123456789';
+    const WEBHOOK_URL = `https://discord.com/api/webhooks/123456789012345678/${WEBHOOK_TOKEN}`;
+    let mockFetch: jest.Mock<typeof globalThis.fetch>;
+    let logger: MockLoggerServiceImpl;
+
+    /**
+     * Create a redacting client outside the test environment, so every log is written
+     * @returns Client that sends requests through the mock fetch
+     */
+    const createRedactingClient = (): FetchHttpClientImpl => {
+      const { NODE_ENV: nodeEnvironment, JEST_WORKER_ID: jestWorkerId } = process.env;
+      process.env.NODE_ENV = 'production';
+      delete process.env.JEST_WORKER_ID;
+      try {
+        return new FetchHttpClientImpl({
+          shouldRedactUrls: true,
+          retry: { limit: 1, delayMs: 1, maxDelayMs: 10 },
+          fetch: mockFetch
+        }, logger);
+      } finally {
+        process.env.NODE_ENV = nodeEnvironment;
+        process.env.JEST_WORKER_ID = jestWorkerId;
+      }
+    };
+
+    beforeEach(() => {
+      mockFetch = jest.fn<typeof globalThis.fetch>();
+      logger = new MockLoggerServiceImpl();
+      jest.spyOn(logger, 'child').mockReturnValue(logger);
+    });
+
+    it('should keep the webhook token out of retry, response and error logs', async () => {
+      mockFetch.mockImplementation(async () =>
+        await Promise.resolve(new Response('Unavailable', { status: 503 })));
+      const client = createRedactingClient();
+
+      await expect(client.get(WEBHOOK_URL)).rejects.toThrow('503');
+      mockFetch.mockResolvedValueOnce(new Response('Not Found', { status: 404 }));
+      await expect(client.post(WEBHOOK_URL, { content: 'Tonight' }, {
+        headers: { Authorization: 'Bearer secret' }
+      })).rejects.toThrow('404');
+
+      expect(logger.getCallsOfLevel('warn')).toHaveLength(1);
+      expect(logger.getCallsOfLevel('error').length).toBeGreaterThanOrEqual(2);
+      expect(logger.hasContext({
+        url: 'https://discord.com/api/webhooks/<redacted>/<redacted>'
+      })).toBe(true);
+      const logged = JSON.stringify(logger.calls);
+      expect(logged).not.toContain(WEBHOOK_TOKEN);
+      expect(logged).not.toContain('Bearer secret');
+    });
+  });
 });
@@ -0,0 +1,49 @@
+/**
+ * Tests for IcsOutputServiceImpl
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { IcsOutputServiceImpl } from '../../../implementations/ics/icsOutputServiceImpl.js';
+import type { ProcessOutput } from '../../../interfaces/processOutput.js';
+import { getScheduleShows, MONDAY } from '../../fixtures/domain/schedule.js';
+import {
+  createRunOutputServiceFactory
+} from '../../mocks/factories/outputServiceFactory.js';
+import { createJestProcessOutput } from '../../mocks/factories/processOutputFactory.js';
+
+describe('IcsOutputServiceImpl', () => {
+  let output: jest.Mocked<ProcessOutput>;
+  const shows = getScheduleShows();
+  const createService = createRunOutputServiceFactory(
+    configService => new IcsOutputServiceImpl(output, configService)
+  );
+
+  beforeEach(() => {
+    output = createJestProcessOutput();
+  });
+
+  it('prints a calendar named after the date range', async () => {
+    await createService({ date: MONDAY, endDate: '2025-01-19' }).renderOutput(shows);
+
+    expect(output.log).toHaveBeenCalledTimes(1);
+    const calendar = output.log.mock.calls[0][0] ?? '';
+    expect(calendar).toContain('X-WR-CALNAME:WhatsOnTV 2025-01-13 to 2025-01-19\r\n');
+    expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(calendar.endsWith('END:VCALENDAR')).toBe(true);
+  });
+
+  it('writes the calendar to the output file', async () => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'whatsontv-ics-'));
+    const outputFile = path.join(outputDir, 'schedule.ics');
+    try {
+      await createService({ date: MONDAY }, { outputFile }).renderOutput(shows);
+
+      expect(output.log).not.toHaveBeenCalled();
+      expect(fs.readFileSync(outputFile, 'utf8')).toMatch(/^BEGIN:VCALENDAR\r\n[\s\S]*\r\n$/);
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for JsonOutputServiceImpl
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  JSON_SCHEMA_VERSION,
+  JsonOutputServiceImpl,
+  type JsonSchedule
+} from '../../../implementations/json/jsonOutputServiceImpl.js';
+import type { ProcessOutput } from '../../../interfaces/processOutput.js';
+import type { ShowOptions } from '../../../schemas/config.js';
+import { getScheduleShows, MONDAY, TUESDAY } from '../../fixtures/domain/schedule.js';
+import {
+  createRunOutputServiceFactory
+} from '../../mocks/factories/outputServiceFactory.js';
+import { createJestProcessOutput } from '../../mocks/factories/processOutputFactory.js';
+
+describe('JsonOutputServiceImpl', () => {
+  let output: jest.Mocked<ProcessOutput>;
+  const shows = getScheduleShows({ hasLateShow: true });
+  const createService = createRunOutputServiceFactory(
+    configService => new JsonOutputServiceImpl(output, configService)
+  );
+
+  /**
+   * Render the shows and parse the JSON written to stdout
+   * @param showOptions Show options of the run
+   * @param isGrouped Group the output by network
+   */
+  const renderSchedule = async (
+    showOptions: Partial<ShowOptions>,
+    isGrouped = true
+  ): Promise<JsonSchedule> => {
+    await createService(showOptions, { groupByNetwork: isGrouped }).renderOutput(shows);
+    expect(output.log).toHaveBeenCalledTimes(1);
+    return JSON.parse(output.log.mock.calls[0][0] ?? '') as JsonSchedule;
+  };
+
+  beforeEach(() => {
+    output = createJestProcessOutput();
+  });
+
+  it('writes a versioned document with the options and shows grouped by network', async () => {
+    const schedule = await renderSchedule({ date: MONDAY, networks: ['CBS'] });
+
+    expect(schedule).toMatchObject({
+      schemaVersion: JSON_SCHEMA_VERSION,
+      date: MONDAY,
+      endDate: MONDAY,
+      options: { date: MONDAY, networks: ['CBS'] }
+    });
+    expect(schedule.days).toHaveLength(1);
+    expect(schedule.days[0].networks?.map(group => [
+      group.network,
+      group.shows.map(show => show.name)
+    ])).toEqual([
+      ['CBS', ['Survivor', 'Late Show']],
+      ['Apple TV+', ['Severance']]
+    ]);
+  });
+
+  it('writes one entry per day of a range', async () => {
+    const schedule = await renderSchedule({ date: MONDAY, endDate: TUESDAY });
+
+    expect(schedule.endDate).toBe(TUESDAY);
+    expect(schedule.days.map(day => [day.date, day.networks?.length])).toEqual([
+      [MONDAY, 1],
+      [TUESDAY, 1]
+    ]);
+  });
+
+  it('writes flat lists sorted by airtime when not grouped by network', async () => {
+    const schedule = await renderSchedule({ date: MONDAY }, false);
+
+    expect(schedule.days[0].networks).toBeUndefined();
+    expect(schedule.days[0].shows?.map(show => show.id)).toEqual([2, 1, 3]);
+  });
+
+  describe('with an output file', () => {
+    let outputDir: string;
+
+    beforeEach(() => {
+      outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'whatsontv-json-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    });
+
+    it('writes the document to the file instead of stdout', async () => {
+      const outputFile = path.join(outputDir, 'nested', 'schedule.json');
+      await createService({ date: MONDAY }, { outputFile, groupByNetwork: true })
+        .renderOutput(shows);
+
+      expect(output.log).not.toHaveBeenCalled();
+      const schedule = JSON.parse(fs.readFileSync(outputFile, 'utf8')) as JsonSchedule;
+      expect(schedule.schemaVersion).toBe(JSON_SCHEMA_VERSION);
+    });
+
+    it('reports errors writing the file', async () => {
+      await createService({ date: MONDAY }, { outputFile: outputDir }).renderOutput(shows);
+
+      expect(output.error).toHaveBeenCalledWith(
+        expect.stringMatching(/^Error writing JSON output: /)
+      );
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for MarkdownOutputServiceImpl
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  MarkdownOutputServiceImpl
+} from '../../../implementations/markdown/markdownOutputServiceImpl.js';
+import {
+  MarkdownShowFormatterImpl
+} from '../../../implementations/markdown/markdownShowFormatterImpl.js';
+import type { ProcessOutput } from '../../../interfaces/processOutput.js';
+import { getScheduleShows, MONDAY, TUESDAY } from '../../fixtures/domain/schedule.js';
+import {
+  createRunOutputServiceFactory
+} from '../../mocks/factories/outputServiceFactory.js';
+import { createJestProcessOutput } from '../../mocks/factories/processOutputFactory.js';
+
+describe('MarkdownOutputServiceImpl', () => {
+  let output: jest.Mocked<ProcessOutput>;
+  const shows = getScheduleShows();
+  const createService = createRunOutputServiceFactory(configService =>
+    new MarkdownOutputServiceImpl(new MarkdownShowFormatterImpl(), output, configService)
+  );
+
+  /**
+   * Get the document written to stdout
+   */
+  const getMarkdown = (): string => {
+    expect(output.log).toHaveBeenCalledTimes(1);
+    return output.log.mock.calls[0][0] ?? '';
+  };
+
+  beforeEach(() => {
+    output = createJestProcessOutput();
+  });
+
+  it('writes one document with a title, a table per network and the attribution', async () => {
+    await createService({ date: MONDAY }).renderOutput([shows[0]]);
+
+    const lines = getMarkdown().split('\n');
+    expect(lines.slice(0, 6)).toEqual([
+      `# TV Shows for ${MONDAY}`,
+      '',
+      '### CBS',
+      '',
+      '| Time | Show | Episode | Type |',
+      '| --- | --- | --- | --- |'
+    ]);
+    expect(lines.at(-1)).toBe('*Data provided by [TVMaze API](https://api.tvmaze.com)*');
+  });
+
+  it('writes a heading per day of a range', async () => {
+    await createService({ date: MONDAY, endDate: TUESDAY }).renderOutput(shows);
+
+    const markdown = getMarkdown();
+    expect(markdown).toMatch(/^# TV Shows for 2025-01-13 to 2025-01-14\n/);
+    expect(markdown).toContain(`\n## Monday, ${MONDAY}\n\n### CBS\n`);
+    expect(markdown).toContain(`\n## Tuesday, ${TUESDAY}\n\n### Apple TV+\n`);
+  });
+
+  it('says so when there are no shows', async () => {
+    await createService({ date: MONDAY }).renderOutput([]);
+
+    expect(getMarkdown()).toContain('*No shows found for the specified criteria.*');
+  });
+
+  describe('with an output file', () => {
+    let outputDir: string;
+
+    beforeEach(() => {
+      outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'whatsontv-markdown-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    });
+
+    it('writes the document to the file instead of stdout', async () => {
+      const outputFile = path.join(outputDir, 'schedule.md');
+
+      await createService({ date: MONDAY }, { outputFile }).renderOutput(shows);
+
+      expect(output.log).not.toHaveBeenCalled();
+      expect(fs.readFileSync(outputFile, 'utf8')).toMatch(/^# TV Shows for 2025-01-13\n/);
+    });
+
+    it('reports errors writing the file', async () => {
+      await createService({ date: MONDAY }, { outputFile: outputDir }).renderOutput(shows);
+
+      expect(output.error).toHaveBeenCalledWith(
+        expect.stringMatching(/^Error writing Markdown output: /)
+      );
+    });
+  });
+});
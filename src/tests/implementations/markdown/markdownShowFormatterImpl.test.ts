@@ -0,0 +1,87 @@
+/**
+ * Tests for the Markdown Show Formatter Implementation
+ */
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  MarkdownShowFormatterImpl
+} from '../../../implementations/markdown/markdownShowFormatterImpl.js';
+import { ShowBuilder } from '../../fixtures/helpers/showFixtureBuilder.js';
+
+describe('MarkdownShowFormatterImpl', () => {
+  let formatter: MarkdownShowFormatterImpl;
+
+  beforeEach(() => {
+    formatter = new MarkdownShowFormatterImpl();
+  });
+
+  it('formats a timed show as a table row without ANSI codes or padding', () => {
+    const show = new ShowBuilder()
+      .withName('Survivor')
+      .withType('Reality')
+      .withAirtime('20:00')
+      .withEpisode(47, 3)
+      .withEpisodeName('Tribal Council')
+      .withRuntime(60)
+      .build();
+
+    expect(formatter.formatTimedShow(show))
+      .toBe('| 8:00 PM | Survivor | S47E03 *Tribal Council* | Reality, 60 min |');
+  });
+
+  it('escapes Markdown in names so table cells stay intact', () => {
+    const show = new ShowBuilder()
+      .withName('Love | Hate')
+      .withEpisodeName('*Pilot*')
+      .withAirtime('21:00')
+      .build();
+
+    const row = formatter.formatTimedShow(show);
+
+    expect(row).toContain(String.raw`Love \| Hate`);
+    expect(row).toContain(String.raw`*\*Pilot\**`);
+  });
+
+  it('highlights followed shows and shows badges', () => {
+    const show = new ShowBuilder()
+      .withName('Severance')
+      .withAirtime(null)
+      .withFollowed()
+      .withBadge('seasonFinale')
+      .build();
+
+    const row = formatter.formatUntimedShow(show);
+
+    expect(row).toMatch(/^\| N\/A \| ★ \*\*Severance\*\* \| /);
+    expect(row).toContain('**🏁 Season Finale**');
+  });
+
+  it('consolidates episodes of the same show into one row with a range', () => {
+    const rows = formatter.formatMultipleEpisodes(ShowBuilder.episodeSequence(3, 'The Bear'));
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toContain('| The Bear | S01E01-03 |');
+  });
+
+  it('formats network groups as a heading and table per network', () => {
+    const lines = formatter.formatNetworkGroups({
+      CBS: [new ShowBuilder().withName('Survivor').withNetwork('CBS').withAirtime('20:00').build()],
+      'Apple TV+': ShowBuilder.episodeSequence(2, 'Severance').map(show => ({
+        ...show, network: 'Apple TV+', airtime: null
+      }))
+    });
+
+    expect(lines).toEqual([
+      '### Apple TV+',
+      '',
+      '| Time | Show | Episode | Type |',
+      '| --- | --- | --- | --- |',
+      expect.stringContaining('| Severance | S01E01-02 |'),
+      '',
+      '### CBS',
+      '',
+      '| Time | Show | Episode | Type |',
+      '| --- | --- | --- | --- |',
+      expect.stringContaining('| Survivor |')
+    ]);
+  });
+});
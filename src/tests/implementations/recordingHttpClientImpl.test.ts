@@ -0,0 +1,92 @@
+/**
+ * Tests for RecordingHttpClientImpl
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  getRecordingPath,
+  RecordingHttpClientImpl
+} from '../../implementations/recordingHttpClientImpl.js';
+import type { HttpClient } from '../../interfaces/httpClient.js';
+import { httpRecordingSchema } from '../../schemas/http.js';
+import { createMockHttpClient } from '../mocks/factories/httpClientFactory.js';
+
+const SCHEDULE_URL = 'https://api.tvmaze.com/schedule?date=2025-01-13&country=US';
+const WEBHOOK_URL = 'https://hooks.example.com/services/T000/B000';
+const NOT_FOUND_ERROR = 'Request Error: HTTP Error 404: Not Found';
+const SCHEDULE = [{ id: 1, name: 'Pilot' }];
+
+describe('RecordingHttpClientImpl', () => {
+  let recordingDir: string;
+  let innerClient: HttpClient;
+  let getSpy: jest.SpiedFunction<HttpClient['get']>;
+
+  /** Read the single recording file in the recording directory */
+  const readOnlyRecording = (): unknown => {
+    const files = fs.readdirSync(recordingDir);
+    expect(files).toHaveLength(1);
+    return JSON.parse(fs.readFileSync(path.join(recordingDir, files[0]), 'utf8'));
+  };
+
+  beforeEach(() => {
+    recordingDir = fs.mkdtempSync(path.join(os.tmpdir(), 'whatsontv-recording-'));
+    innerClient = createMockHttpClient();
+    getSpy = jest.spyOn(innerClient, 'get').mockResolvedValue({
+      data: SCHEDULE,
+      status: 200,
+      headers: { 'content-type': 'application/json' }
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(recordingDir, { recursive: true, force: true });
+  });
+
+  it('should write GET responses to a file named after the URL', async () => {
+    const client = new RecordingHttpClientImpl(innerClient, recordingDir);
+
+    const response = await client.get(SCHEDULE_URL);
+
+    expect(response.data).toEqual(SCHEDULE);
+    const [fileName] = fs.readdirSync(recordingDir);
+    expect(fileName).toMatch(/^GET_api\.tvmaze\.com_schedule_date_2025-01-13_country_US_/);
+    expect(httpRecordingSchema.parse(readOnlyRecording())).toMatchObject({
+      method: 'GET',
+      url: SCHEDULE_URL,
+      status: 200,
+      data: SCHEDULE
+    });
+  });
+
+  it('should create the recording directory when missing', async () => {
+    const nestedDir = path.join(recordingDir, 'nested', 'day');
+    const client = new RecordingHttpClientImpl(innerClient, nestedDir);
+
+    await client.get(SCHEDULE_URL);
+
+    expect(fs.readdirSync(nestedDir)).toHaveLength(1);
+  });
+
+  it('should record failed requests and rethrow the error', async () => {
+    getSpy.mockRejectedValueOnce(new Error(NOT_FOUND_ERROR));
+    const client = new RecordingHttpClientImpl(innerClient, recordingDir);
+
+    await expect(client.get(SCHEDULE_URL)).rejects.toThrow(NOT_FOUND_ERROR);
+
+    expect(readOnlyRecording()).toMatchObject({ status: 0, error: NOT_FOUND_ERROR });
+  });
+
+  it('should record POST responses separately from GET responses', async () => {
+    jest.spyOn(innerClient, 'post').mockResolvedValue({ data: 'ok', status: 200, headers: {} });
+    const client = new RecordingHttpClientImpl(innerClient, recordingDir);
+
+    await client.get(WEBHOOK_URL);
+    await client.post(WEBHOOK_URL, { text: 'hello' });
+
+    expect(fs.readdirSync(recordingDir)).toHaveLength(2);
+    expect(getRecordingPath(recordingDir, 'GET', WEBHOOK_URL))
+      .not.toBe(getRecordingPath(recordingDir, 'POST', WEBHOOK_URL));
+  });
+});
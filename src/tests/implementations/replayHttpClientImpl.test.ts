@@ -0,0 +1,85 @@
+/**
+ * Tests for ReplayHttpClientImpl
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { z } from 'zod';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { RecordingHttpClientImpl } from '../../implementations/recordingHttpClientImpl.js';
+import { ReplayHttpClientImpl } from '../../implementations/replayHttpClientImpl.js';
+import type { HttpClient } from '../../interfaces/httpClient.js';
+import { createMockHttpClient } from '../mocks/factories/httpClientFactory.js';
+
+const SCHEDULE_URL = 'https://api.tvmaze.com/schedule?date=2025-01-13&country=US';
+const WEBHOOK_URL = 'https://hooks.example.com/services/T000/B000';
+const NOT_FOUND_ERROR = 'Request Error: HTTP Error 404: Not Found';
+const SCHEDULE = [{ id: 1, name: 'Pilot' }];
+
+describe('ReplayHttpClientImpl', () => {
+  let recordingDir: string;
+  let innerClient: HttpClient;
+
+  beforeEach(() => {
+    recordingDir = fs.mkdtempSync(path.join(os.tmpdir(), 'whatsontv-replay-'));
+    innerClient = createMockHttpClient();
+    jest.spyOn(innerClient, 'get').mockResolvedValue({
+      data: SCHEDULE,
+      status: 200,
+      headers: { 'content-type': 'application/json' }
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(recordingDir, { recursive: true, force: true });
+  });
+
+  it('should serve a recorded response', async () => {
+    await new RecordingHttpClientImpl(innerClient, recordingDir).get(SCHEDULE_URL);
+
+    const response = await new ReplayHttpClientImpl(recordingDir).get(SCHEDULE_URL);
+
+    expect(response).toEqual({
+      data: SCHEDULE,
+      status: 200,
+      headers: { 'content-type': 'application/json' }
+    });
+  });
+
+  it('should fail for requests that were not recorded', async () => {
+    const client = new ReplayHttpClientImpl(recordingDir);
+
+    await expect(client.get(SCHEDULE_URL)).rejects.toThrow(
+      `No recorded response for GET ${SCHEDULE_URL}`
+    );
+  });
+
+  it('should rethrow recorded request errors', async () => {
+    jest.spyOn(innerClient, 'get').mockRejectedValueOnce(new Error(NOT_FOUND_ERROR));
+    await expect(new RecordingHttpClientImpl(innerClient, recordingDir).get(SCHEDULE_URL))
+      .rejects.toThrow(NOT_FOUND_ERROR);
+
+    await expect(new ReplayHttpClientImpl(recordingDir).get(SCHEDULE_URL))
+      .rejects.toThrow(NOT_FOUND_ERROR);
+  });
+
+  it('should validate replayed data with the provided schema', async () => {
+    await new RecordingHttpClientImpl(innerClient, recordingDir).get(SCHEDULE_URL);
+
+    const client = new ReplayHttpClientImpl(recordingDir);
+    const stringArraySchema = z.array(z.string());
+
+    await expect(client.get(SCHEDULE_URL, undefined, stringArraySchema)).rejects.toThrow();
+  });
+
+  it('should serve recorded POST responses', async () => {
+    jest.spyOn(innerClient, 'post').mockResolvedValue({ data: 'ok', status: 200, headers: {} });
+    const recorder = new RecordingHttpClientImpl(innerClient, recordingDir);
+    await recorder.post(WEBHOOK_URL, { text: 'recorded' });
+
+    const client = new ReplayHttpClientImpl(recordingDir);
+    const response = await client.post(WEBHOOK_URL, { text: 'replayed' });
+
+    expect(response.data).toBe('ok');
+  });
+});
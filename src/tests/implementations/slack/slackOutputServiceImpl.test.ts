@@ -120,6 +120,31 @@ describe('SlackOutputServiceImpl', () => {
       });
     });
     
+    it('should send one message per day with shows for a date range', async () => {
+      // Arrange
+      mockConfigService.getDate.mockReturnValue(new Date(2025, 0, 13));
+      mockConfigService.getShowOptions.mockReturnValue({
+        date: '2025-01-13',
+        endDate: '2025-01-15'
+      });
+      const rangeShows = testShows.map((show, index) => ({
+        ...show,
+        airdate: index === 0 ? '2025-01-13' : '2025-01-15'
+      }));
+
+      // Act
+      await outputService.renderOutput(rangeShows);
+
+      // Assert - the empty Tuesday is skipped
+      expect(mockSlackClient.sendMessage).toHaveBeenCalledTimes(2);
+      expect(mockSlackClient.sendMessage).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        text: 'TV Shows for Monday, 2025-01-13'
+      }));
+      expect(mockSlackClient.sendMessage).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        text: 'TV Shows for Wednesday, 2025-01-15'
+      }));
+    });
+
     it('should handle errors when formatting shows', async () => {
       // Arrange
       const error = new Error('Formatter error');
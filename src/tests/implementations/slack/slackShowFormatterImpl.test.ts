@@ -365,6 +365,23 @@ describe('SlackShowFormatterImpl', () => {
     });
   });
 
+  describe('formatChannelSections', () => {
+    it('should put a bold section title before the networks of each section', () => {
+      // Act
+      const result = formatter.formatChannelSections([
+        { channelKind: 'streaming', title: 'Streaming', networkGroups: { Netflix: [mockShow] } }
+      ]);
+
+      // Assert - section title, network context block, footer
+      expect(result).toHaveLength(3);
+      expect(result[0]).toEqual({
+        type: 'section',
+        text: { type: 'mrkdwn', text: '*Streaming*' }
+      });
+      expect(isContextBlock(result[1])).toBe(true);
+    });
+  });
+
   describe('compact format', () => {
     // The compact format uses bullet points without type emojis
 
@@ -400,6 +417,63 @@ describe('SlackShowFormatterImpl', () => {
       expect(result.text.text).not.toContain('N/A');
       expect(result.text.text).not.toContain('PM');
     });
+
+    it('should include the episode title and runtime when available', () => {
+      const show = new ShowBuilder()
+        .withName('Titled Show')
+        .withAirtime('20:00')
+        .withEpisodeName('Pilot')
+        .withRuntime(60)
+        .build();
+
+      const result = formatter.formatTimedShow(show);
+      expect(result.text.text).toBe('• Titled Show S01E01 _Pilot_ (8:00 PM, 60 min)');
+    });
+
+    it('should include runtime without airtime for untimed shows', () => {
+      const show = new ShowBuilder()
+        .withName('Streaming Show')
+        .withAirtime(null)
+        .withRuntime(45)
+        .build();
+
+      const result = formatter.formatUntimedShow(show);
+      expect(result.text.text).toBe('• Streaming Show S01E01 (45 min)');
+    });
+
+    it('should include the premiere or finale badge', () => {
+      const show = new ShowBuilder()
+        .withName('Finale Show')
+        .withAirtime('21:00')
+        .withEpisode(4, 10)
+        .withBadge('seriesFinale')
+        .build();
+
+      const result = formatter.formatTimedShow(show);
+      expect(result.text.text).toBe('• Finale Show S04E10 *🏁 Series Finale* (9:00 PM)');
+    });
+
+    it('should append the timezone abbreviation to converted airtimes', () => {
+      const show = new ShowBuilder()
+        .withName('Converted Show')
+        .withAirtime('17:00')
+        .withAirtimeZone('PST')
+        .build();
+
+      const result = formatter.formatTimedShow(show);
+      expect(result.text.text).toBe('• Converted Show S01E01 (5:00 PM PST)');
+    });
+
+    it('should highlight followed shows', () => {
+      const show = new ShowBuilder()
+        .withName('Followed Show')
+        .withAirtime('20:00')
+        .withFollowed()
+        .build();
+
+      const result = formatter.formatTimedShow(show);
+      expect(result.text.text).toBe('• :star: *Followed Show* S01E01 (8:00 PM)');
+    });
   });
 
   describe('formatMultipleEpisodes edge cases', () => {
@@ -0,0 +1,80 @@
+/**
+ * Tests for the Teams Output Service Implementation
+ */
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { TeamsOutputServiceImpl } from '../../../implementations/teams/teamsOutputServiceImpl.js';
+import { TeamsShowFormatterImpl } from '../../../implementations/teams/teamsShowFormatterImpl.js';
+import type { AdaptiveCard, TeamsClient } from '../../../interfaces/teamsClient.js';
+import { getScheduleShows, MONDAY, WEDNESDAY } from '../../fixtures/domain/schedule.js';
+import {
+  createRunOutputServiceFactory
+} from '../../mocks/factories/outputServiceFactory.js';
+
+describe('TeamsOutputServiceImpl', () => {
+  let teamsClient: jest.Mocked<TeamsClient>;
+  const shows = getScheduleShows({ severanceAirdate: WEDNESDAY });
+  const createService = createRunOutputServiceFactory(configService =>
+    new TeamsOutputServiceImpl(new TeamsShowFormatterImpl(), teamsClient, configService)
+  );
+
+  /**
+   * Get the posted cards
+   */
+  const getPostedCards = (): AdaptiveCard[] =>
+    teamsClient.sendCard.mock.calls.map(([card]) => card);
+
+  beforeEach(() => {
+    teamsClient = {
+      sendCard: jest.fn<TeamsClient['sendCard']>().mockResolvedValue()
+    };
+  });
+
+  it('posts the day as a card with a container per network', async () => {
+    await createService({ date: MONDAY }).renderOutput(shows);
+
+    const [card] = getPostedCards();
+    expect(card).toMatchObject({ type: 'AdaptiveCard', version: '1.4' });
+    expect(card.body.map(element => element.type))
+      .toEqual(['TextBlock', 'Container', 'Container', 'TextBlock']);
+    expect(card.body[0]).toMatchObject({ text: `TV Shows for ${MONDAY}`, weight: 'Bolder' });
+    expect(card.body.at(-1)).toMatchObject({ text: 'Data provided by TVMaze API' });
+  });
+
+  it('posts a card per day of a range, skipping days without shows', async () => {
+    await createService({ date: MONDAY, endDate: WEDNESDAY }).renderOutput(shows);
+
+    expect(getPostedCards().map(card => card.body[0])).toMatchObject([
+      { text: `TV Shows for Monday, ${MONDAY}` },
+      { text: `TV Shows for Wednesday, ${WEDNESDAY}` }
+    ]);
+  });
+
+  it('says so when there are no shows', async () => {
+    await createService({ date: MONDAY }).renderOutput([]);
+
+    expect(getPostedCards()[0].body[1])
+      .toMatchObject({ text: 'No shows found for the specified criteria.' });
+  });
+
+  it('posts errors to the channel', async () => {
+    teamsClient.sendCard
+      .mockRejectedValueOnce(new Error('Webhook rejected'))
+      .mockResolvedValueOnce();
+
+    await createService({ date: MONDAY }).renderOutput(shows);
+
+    expect(teamsClient.sendCard).toHaveBeenCalledTimes(2);
+    expect(getPostedCards()[1].body).toEqual([{
+      type: 'TextBlock',
+      text: 'Error fetching TV shows: Webhook rejected',
+      color: 'Attention',
+      wrap: true
+    }]);
+  });
+
+  it('does not throw when the error message cannot be posted either', async () => {
+    teamsClient.sendCard.mockRejectedValue(new Error('Webhook rejected'));
+
+    await expect(createService({ date: MONDAY }).renderOutput(shows)).resolves.toBeUndefined();
+  });
+});
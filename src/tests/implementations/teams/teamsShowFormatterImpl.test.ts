@@ -0,0 +1,86 @@
+/**
+ * Tests for the Teams Show Formatter Implementation
+ */
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { TeamsShowFormatterImpl } from '../../../implementations/teams/teamsShowFormatterImpl.js';
+import { ShowBuilder } from '../../fixtures/helpers/showFixtureBuilder.js';
+
+describe('TeamsShowFormatterImpl', () => {
+  let formatter: TeamsShowFormatterImpl;
+
+  beforeEach(() => {
+    formatter = new TeamsShowFormatterImpl();
+  });
+
+  it('formats a timed show as a fact of airtime and show', () => {
+    const show = new ShowBuilder()
+      .withName('Survivor')
+      .withType('Reality')
+      .withAirtime('20:00')
+      .withEpisode(47, 3)
+      .withEpisodeName('Tribal Council')
+      .withRuntime(60)
+      .build();
+
+    expect(formatter.formatTimedShow(show)).toEqual({
+      type: 'FactSet',
+      facts: [{
+        title: '8:00 PM',
+        value: 'Survivor S47E03 "Tribal Council" (Reality, 60 min)'
+      }]
+    });
+  });
+
+  it('highlights followed shows and shows N/A without an airtime', () => {
+    const show = new ShowBuilder()
+      .withName('Severance')
+      .withAirtime(null)
+      .withFollowed()
+      .build();
+
+    expect(formatter.formatUntimedShow(show)).toMatchObject({
+      facts: [{ title: 'N/A', value: expect.stringMatching(/^★ \*\*Severance\*\* S01E01 /) }]
+    });
+  });
+
+  it('consolidates episodes of the same show into one fact with a range', () => {
+    const shows = ShowBuilder.episodeSequence(3, 'The Bear');
+
+    expect(formatter.formatMultipleEpisodes(shows)).toMatchObject([{
+      facts: [{ value: expect.stringContaining('The Bear S01E01-03') }]
+    }]);
+  });
+
+  it('formats each network as a container with one FactSet of its shows', () => {
+    const elements = formatter.formatNetworkGroups({
+      CBS: [
+        new ShowBuilder().withId(1).withName('Survivor').withAirtime('20:00').build(),
+        new ShowBuilder().withId(2).withName('Tracker').withAirtime('21:00').build()
+      ],
+      NBC: [new ShowBuilder().withName('The Voice').withAirtime('20:00').build()]
+    });
+
+    expect(elements).toHaveLength(2);
+    expect(elements[0]).toEqual({
+      type: 'Container',
+      separator: true,
+      items: [
+        { type: 'TextBlock', text: 'CBS', weight: 'Bolder', wrap: true },
+        {
+          type: 'FactSet',
+          facts: [
+            { title: '8:00 PM', value: expect.stringContaining('Survivor') },
+            { title: '9:00 PM', value: expect.stringContaining('Tracker') }
+          ]
+        }
+      ]
+    });
+  });
+
+  it('notes networks without shows', () => {
+    expect(formatter.formatNetwork('CBS', [])).toMatchObject([{
+      type: 'Container',
+      items: [{ text: 'CBS' }, { text: 'No shows found' }]
+    }]);
+  });
+});
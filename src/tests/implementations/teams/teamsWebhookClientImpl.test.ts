@@ -0,0 +1,61 @@
+/**
+ * Tests for the Teams Webhook Client Implementation
+ */
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { TeamsWebhookClientImpl } from '../../../implementations/teams/teamsWebhookClientImpl.js';
+import { TestConfigServiceImpl } from '../../../implementations/test/testConfigServiceImpl.js';
+import type { HttpClient } from '../../../interfaces/httpClient.js';
+import type { AdaptiveCard } from '../../../interfaces/teamsClient.js';
+
+const WEBHOOK_URL = 'https://example.webhook.office.com/webhookb2/abc/IncomingWebhook/secret-sig';
+
+describe('TeamsWebhookClientImpl', () => {
+  let httpClient: jest.Mocked<HttpClient>;
+  const card: AdaptiveCard = {
+    type: 'AdaptiveCard',
+    $schema: 'https://adaptivecards.io/schemas/adaptive-card.json',
+    version: '1.4',
+    body: [{ type: 'TextBlock', text: 'TV Shows' }]
+  };
+
+  /**
+   * Create a client for the webhook
+   */
+  const createClient = (): TeamsWebhookClientImpl =>
+    new TeamsWebhookClientImpl(
+      new TestConfigServiceImpl({}, {}, { teams: { webhookUrl: WEBHOOK_URL } }),
+      httpClient
+    );
+
+  beforeEach(() => {
+    httpClient = {
+      get: jest.fn<HttpClient['get']>(),
+      post: jest.fn<HttpClient['post']>().mockResolvedValue({ data: '1', status: 200, headers: {} })
+    };
+  });
+
+  it('requires a teams section in the config', () => {
+    expect(() => new TeamsWebhookClientImpl(new TestConfigServiceImpl(), httpClient))
+      .toThrow('Teams is not configured');
+  });
+
+  it('posts the card as an Adaptive Card attachment of a message', async () => {
+    await createClient().sendCard(card);
+
+    expect(httpClient.post).toHaveBeenCalledWith(WEBHOOK_URL, {
+      type: 'message',
+      attachments: [{ contentType: 'application/vnd.microsoft.card.adaptive', content: card }]
+    });
+  });
+
+  it('wraps errors without revealing the webhook signature', async () => {
+    httpClient.post.mockRejectedValue(
+      new Error(`Request failed with status code 400 Bad Request: POST ${WEBHOOK_URL}`)
+    );
+
+    const sending = createClient().sendCard(card);
+
+    await expect(sending).rejects.toThrow(/^Failed to send Teams card: .*<webhook URL>$/);
+    await expect(sending).rejects.not.toThrow('secret-sig');
+  });
+});
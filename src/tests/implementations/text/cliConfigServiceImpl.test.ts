@@ -40,6 +40,19 @@ function toStringArrayFromArgv(value: unknown): string[] {
 }
 
 // Create a test subclass that extends the implementation
+/**
+ * Exposes the real argument parser without loading any config
+ */
+class ArgumentParsingCliConfigService extends CliConfigServiceImpl {
+  constructor() {
+    super(true);
+  }
+
+  public parse(arguments_: string[]): CliArguments {
+    return this.parseArgs(arguments_);
+  }
+}
+
 class TestCliConfigService extends CliConfigServiceImpl {
   // Mock data for tests
   private mockCliArgs: Partial<CliArguments> = {
@@ -1169,4 +1182,75 @@ describe('CliConfigServiceImpl', () => {
       expect(config.slack.username).toBe(WHATS_ON_TV);
     });
   });
+
+  describe('search command', () => {
+    it('should parse the search subcommand and join the query words', () => {
+      const cliArguments = new ArgumentParsingCliConfigService().parse(['search', 'the', 'office']);
+
+      expect(cliArguments.command).toBe('search');
+      expect(cliArguments.query).toBe('the office');
+    });
+
+    it('should parse the discover subcommand with JSON output', () => {
+      const cliArguments = new ArgumentParsingCliConfigService().parse(['discover', '--json']);
+
+      expect(cliArguments.command).toBe('discover');
+      expect(cliArguments.json).toBe(true);
+    });
+
+    it('should parse the output format, file and grouping', () => {
+      const cliArguments = new ArgumentParsingCliConfigService().parse([
+        '--format', 'json', '--output', 'schedule.json', '--no-group-by-network'
+      ]);
+
+      expect(cliArguments).toMatchObject({
+        format: 'json',
+        outputFile: 'schedule.json',
+        groupByNetwork: false
+      });
+    });
+
+    it('should parse the CSV columns in the given order', () => {
+      const cliArguments = new ArgumentParsingCliConfigService().parse([
+        '--format', 'csv', '--columns', 'date,SHOW,episode'
+      ]);
+
+      expect(cliArguments.format).toBe('csv');
+      expect(cliArguments.csvColumns).toEqual(['date', 'show', 'episode']);
+    });
+
+    it('should parse appending to a feed file', () => {
+      const cliArguments = new ArgumentParsingCliConfigService().parse([
+        '--format', 'rss', '--output', 'feed.xml', '--append'
+      ]);
+
+      expect(cliArguments).toMatchObject({ format: 'rss', outputFile: 'feed.xml', append: true });
+    });
+
+    it('should default to the shows command', () => {
+      const cliArguments = new ArgumentParsingCliConfigService().parse(['--country', 'GB']);
+
+      expect(cliArguments.command).toBe('shows');
+      expect(cliArguments.query).toBeUndefined();
+    });
+  });
+
+  describe('record and replay', () => {
+    it('should parse the record and replay directories', () => {
+      const parser = new ArgumentParsingCliConfigService();
+      const directory = 'recordings/2025-01-13';
+
+      expect(parser.parse(['--record', directory]).record).toBe(directory);
+      expect(parser.parse(['--replay', directory]).replay).toBe(directory);
+    });
+  });
+
+  describe('filter', () => {
+    it('should parse the filter expression', () => {
+      const filter = '(genre:Drama and network:HBO) or type:Reality';
+
+      expect(new ArgumentParsingCliConfigService().parse(['--filter', filter]).filter)
+        .toBe(filter);
+    });
+  });
 });
@@ -104,7 +104,7 @@ describe('TextOutputServiceImpl', () => {
         debug: false,
         groupByNetwork: true
       }),
-      getShowOptions: jest.fn(),
+      getShowOptions: jest.fn().mockReturnValue({}),
       getShowOption: jest.fn(),
       getConfig: jest.fn(),
       getEnvironment: jest.fn(),
@@ -241,6 +241,39 @@ describe('TextOutputServiceImpl', () => {
       expect(mockFormatter.formatNetworkGroups).toHaveBeenCalled();
     });
     
+    it('should keep network country codes when several countries are merged', async () => {
+      // Arrange
+      const shows = [
+        new ShowBuilder().withId(1).withNetwork('CBC (CA)').build(),
+        new ShowBuilder().withId(2).withNetwork('BBC One (GB)').build()
+      ];
+      jest.spyOn(mockConfigService, 'getShowOptions').mockReturnValue({ country: ['CA', 'GB'] });
+
+      // Act
+      await service.renderOutput(shows);
+
+      // Assert
+      const [networkGroups] = mockFormatter.formatNetworkGroups.mock.calls[0];
+      expect(Object.keys(networkGroups)).toEqual(['CBC (CA)', 'BBC One (GB)']);
+    });
+
+    it('should split networks into channel kind sections when requested', async () => {
+      // Arrange
+      const shows = [
+        new ShowBuilder().withId(1).withNetwork('Netflix').withChannelKind('streaming').build(),
+        new ShowBuilder().withId(2).withNetwork('NBC').withChannelKind('broadcast').build()
+      ];
+      jest.spyOn(mockConfigService, 'getShowOptions').mockReturnValue({ groupByChannelKind: true });
+
+      // Act
+      await service.renderOutput(shows);
+
+      // Assert
+      expect(mockFormatter.formatNetworkGroups).not.toHaveBeenCalled();
+      const [sections] = mockFormatter.formatChannelSections.mock.calls[0];
+      expect(sections.map(section => section.title)).toEqual(['Broadcast', 'Streaming']);
+    });
+
     it('should handle error in formatter', async () => {
       // Arrange
       mockFormatter.formatNetworkGroups.mockImplementationOnce(() => {
@@ -307,5 +340,34 @@ describe('TextOutputServiceImpl', () => {
       expect(callOrder.indexOf('header')).toBeLessThan(callOrder.indexOf('content'));
       expect(callOrder.indexOf('content')).toBeLessThan(callOrder.indexOf('footer'));
     });
+
+    it('should render a multi-day range grouped by day', async () => {
+      // Arrange
+      jest.spyOn(mockConfigService, 'getDate').mockReturnValue(new Date(2025, 0, 13));
+      jest.spyOn(mockConfigService, 'getShowOptions').mockReturnValue({
+        date: '2025-01-13',
+        endDate: '2025-01-15'
+      });
+      const rangeShows = [
+        new ShowBuilder().withId(1).withName('Monday Show').withAirdate('2025-01-13').build(),
+        new ShowBuilder().withId(2).withName('Wednesday Show').withAirdate('2025-01-15').build()
+      ];
+
+      // Act
+      await service.renderOutput(rangeShows);
+
+      // Assert
+      const lines = jest.mocked(mockOutput.log).mock.calls.map(call => call[0]);
+      expect(lines).toContain('Shows for 2025-01-13 to 2025-01-15');
+      expect(lines).toContain('Monday, 2025-01-13');
+      expect(lines).toContain('Tuesday, 2025-01-14');
+      expect(lines).toContain('Wednesday, 2025-01-15');
+      expect(lines).toContain('No shows found for the specified criteria.');
+
+      // Formatter is called once per day that has shows
+      expect(mockFormatter.formatNetworkGroups).toHaveBeenCalledTimes(2);
+      const mondayGroups = mockFormatter.formatNetworkGroups.mock.calls[0][0];
+      expect(Object.values(mondayGroups).flat().map(show => show.name)).toEqual(['Monday Show']);
+    });
   });
 });
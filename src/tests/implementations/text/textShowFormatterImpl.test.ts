@@ -76,6 +76,74 @@ describe('TextShowFormatterImpl', () => {
     });
   });
 
+  describe('episode details', () => {
+    it('should include the episode title and runtime when available', () => {
+      const show = ShowFixtures.createTestShow({ episodeName: 'Pilot', runtime: 60 });
+
+      const result = formatter.formatTimedShow(show);
+      expect(result).toContain('"Pilot"');
+      expect(result).toContain('(Test Network, Scripted, 60 min)');
+    });
+
+    it('should omit the episode title and runtime when unknown', () => {
+      const result = formatter.formatTimedShow(mockShow);
+      expect(result).not.toContain('"');
+      expect(result).toContain('(Test Network, Scripted)');
+    });
+
+    it('should not show an episode title for an episode range', () => {
+      const episodes = [
+        ShowFixtures.createTestShow({ number: 1, airtime: null, episodeName: 'Pilot' }),
+        ShowFixtures.createTestShow({ number: 2, airtime: null, episodeName: 'Second' })
+      ];
+
+      const result = formatter.formatMultipleEpisodes(episodes);
+      expect(result[0]).toContain('S01E01-02');
+      expect(result[0]).not.toContain('Pilot');
+    });
+  });
+
+  describe('display timezone', () => {
+    it('should append the timezone abbreviation to converted airtimes', () => {
+      const show = new ShowBuilder().withAirtime('17:00').withAirtimeZone('PST').build();
+
+      expect(formatter.formatTimedShow(show)).toMatch(/^17:00 PST /);
+    });
+  });
+
+  describe('badges', () => {
+    it('should show the badge before the details', () => {
+      const show = new ShowBuilder().withNetwork(TEST_NETWORK).withType('Scripted')
+        .withBadge('seriesPremiere').build();
+
+      expect(formatter.formatTimedShow(show))
+        .toContain('🆕 Series Premiere (Test Network, Scripted)');
+    });
+
+    it('should show the badges of every episode in a range', () => {
+      const episodes = [
+        new ShowBuilder().withEpisode(2, 1).withAirtime(null).withBadge('seasonPremiere').build(),
+        new ShowBuilder().withEpisode(2, 2).withAirtime(null).withBadge('seasonFinale').build()
+      ];
+
+      const [result] = formatter.formatMultipleEpisodes(episodes);
+      expect(result).toContain('S02E01-02');
+      expect(result).toContain('🆕 Season Premiere 🏁 Season Finale');
+    });
+  });
+
+  describe('followed shows', () => {
+    it('should mark followed shows with a star', () => {
+      const show = new ShowBuilder().withName(TEST_SHOW).withFollowed().build();
+
+      expect(formatter.formatTimedShow(show)).toContain(`★ ${TEST_SHOW}`);
+    });
+
+    it('should not mark other shows', () => {
+      expect(formatter.formatTimedShow(mockShow)).not.toContain('★');
+    });
+  });
+
   describe('formatUntimedShow', () => {
     it('should format a show without airtime correctly', () => {
       const result = formatter.formatUntimedShow(mockShowNoAirtime);
@@ -279,4 +347,30 @@ describe('TextShowFormatterImpl', () => {
       expect(withAirtimeIndex).toBeLessThan(withoutAirtimeIndex);
     });
   });
+
+  describe('formatChannelSections', () => {
+    it('should put a heading above each section and a blank line between sections', () => {
+      const result = formatter.formatChannelSections([
+        { channelKind: 'broadcast', title: 'Broadcast', networkGroups: { NBC: [mockShow] } },
+        { channelKind: 'streaming', title: 'Streaming', networkGroups: { Netflix: [mockShow] } }
+      ]);
+
+      expect(result[0]).toBe('BROADCAST');
+      expect(result[1]).toBe('');
+      expect(result[2]).toContain('NBC');
+      expect(result[5]).toBe('');
+      expect(result[6]).toBe('STREAMING');
+      expect(result).toHaveLength(11);
+    });
+
+    it('should leave out sections without shows', () => {
+      const result = formatter.formatChannelSections([
+        { channelKind: 'cable', title: 'Cable', networkGroups: { HBO: [] } },
+        { channelKind: null, title: 'Other', networkGroups: { [TEST_NETWORK]: [mockShow] } }
+      ]);
+
+      expect(result[0]).toBe('OTHER');
+      expect(result.some(line => line.includes('CABLE'))).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,89 @@
+/**
+ * Tests for TokenBucketRateLimiterImpl
+ */
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { TokenBucketRateLimiterImpl } from '../../implementations/tokenBucketRateLimiterImpl.js';
+
+describe('TokenBucketRateLimiterImpl', () => {
+  let currentTime: number;
+  let waits: number[];
+
+  /** Fake sleep that advances the fake clock */
+  const wait = async (ms: number): Promise<void> => {
+    waits.push(ms);
+    currentTime += ms;
+    await Promise.resolve();
+  };
+
+  /** Create a limiter with 2 tokens refilling every second */
+  const createLimiter = (): TokenBucketRateLimiterImpl =>
+    new TokenBucketRateLimiterImpl(
+      { requests: 2, intervalMs: 1000 },
+      undefined,
+      () => currentTime,
+      wait
+    );
+
+  beforeEach(() => {
+    currentTime = 0;
+    waits = [];
+  });
+
+  it('should allow a burst up to the bucket size without waiting', async () => {
+    const limiter = createLimiter();
+
+    await limiter.acquire();
+    await limiter.acquire();
+
+    expect(waits).toEqual([]);
+  });
+
+  it('should delay requests once the bucket is empty', async () => {
+    const limiter = createLimiter();
+
+    await limiter.acquire();
+    await limiter.acquire();
+    await limiter.acquire();
+
+    // 2 tokens per second means one token every 500ms
+    expect(waits).toEqual([500]);
+  });
+
+  it('should refill tokens over time', async () => {
+    const limiter = createLimiter();
+    await limiter.acquire();
+    await limiter.acquire();
+
+    currentTime += 1000;
+    await limiter.acquire();
+    await limiter.acquire();
+
+    expect(waits).toEqual([]);
+  });
+
+  it('should hand out tokens to concurrent callers in order', async () => {
+    const limiter = createLimiter();
+    const order: number[] = [];
+
+    await Promise.all([1, 2, 3, 4].map(async id => {
+      await limiter.acquire();
+      order.push(id);
+    }));
+
+    expect(order).toEqual([1, 2, 3, 4]);
+    expect(waits).toEqual([500, 500]);
+  });
+
+  it('should use the TVMaze limit by default', async () => {
+    const sleep = jest.fn(wait);
+    const limiter = new TokenBucketRateLimiterImpl({}, undefined, () => currentTime, sleep);
+
+    for (let index = 0; index < 20; index++) {
+      await limiter.acquire();
+    }
+    expect(sleep).not.toHaveBeenCalled();
+
+    await limiter.acquire();
+    expect(sleep).toHaveBeenCalledWith(500);
+  });
+});
@@ -17,6 +17,8 @@ import { expectValidShow, createTestShows } from '../utils/assertions.js';
 
 const TEST_DATE = '2023-01-01';
 const NETWORK_ERROR = 'Network error';
+const RANGE_START_DATE = '2025-01-13';
+const RANGE_END_DATE = '2025-01-14';
 const SHOW_WITH_UNMATCHED_PAREN = 'Show (Test';
 
 describe('TvMazeServiceImpl', () => {
@@ -258,6 +260,278 @@ describe('TvMazeServiceImpl', () => {
       expect(webShowIds).toHaveLength(2);
     });
     
+    it('fetches every day in a date range and tags shows with their airdate', async () => {
+      // Network schedules for two consecutive days; the second day has no airdate
+      const firstDayItems = TvMazeScheduleItemBuilder.createNetworkScheduleItems(
+        2,
+        { airdate: RANGE_START_DATE }
+      );
+      const secondDayItems = TvMazeScheduleItemBuilder.createNetworkScheduleItems(
+        1,
+        { showId: 300 }
+      ).map(item => ({ ...item, airdate: '' }));
+
+      const getSpy = jest.spyOn(mockHttpClient, 'get').mockImplementation(async url => {
+        let data: unknown[] = firstDayItems;
+        if (url.includes('/web')) {
+          data = [];
+        } else if (url.includes(RANGE_END_DATE)) {
+          data = secondDayItems;
+        }
+        return await Promise.resolve({ data, status: 200, headers: {} });
+      });
+
+      const shows = await tvMazeService.fetchShows({
+        date: RANGE_START_DATE,
+        endDate: RANGE_END_DATE
+      });
+
+      // Network and web schedules are requested for each day
+      const scheduleCalls = getSpy.mock.calls.filter(([url]) => url.includes('/schedule'));
+      expect(scheduleCalls).toHaveLength(4);
+      expect(shows).toHaveLength(3);
+      expect(shows.find(show => show.id === 100)?.airdate).toBe(RANGE_START_DATE);
+      expect(shows.find(show => show.id === 300)?.airdate).toBe(RANGE_END_DATE);
+    });
+
+    it('merges network schedules for several countries and dedupes shared episodes', async () => {
+      const usItems = TvMazeScheduleItemBuilder.createNetworkScheduleItems(2, { showId: 100 });
+      // The second US episode also airs in GB
+      const gbItems = [
+        usItems[1],
+        ...TvMazeScheduleItemBuilder.createNetworkScheduleItems(1, { showId: 300 })
+      ];
+      const getSpy = jest.spyOn(mockHttpClient, 'get').mockImplementation(async url => {
+        let data: unknown[] = [];
+        if (url.includes('country=US')) {
+          data = usItems;
+        } else if (url.includes('country=GB')) {
+          data = gbItems;
+        }
+        return await Promise.resolve({ data, status: 200, headers: {} });
+      });
+
+      const shows = await tvMazeService.fetchShows({ date: TEST_DATE, country: ['us', 'GB'] });
+
+      const scheduleUrls = getSpy.mock.calls
+        .map(([url]) => url)
+        .filter(url => url.includes('/schedule'));
+      expect(scheduleUrls).toEqual([
+        `https://api.tvmaze.com/schedule?date=${TEST_DATE}&country=US`,
+        `https://api.tvmaze.com/schedule?date=${TEST_DATE}&country=GB`,
+        `https://api.tvmaze.com/schedule/web?date=${TEST_DATE}`
+      ]);
+      expect(shows.map(show => `${show.id}-${show.number}`)).toEqual(['100-1', '101-2', '300-1']);
+    });
+
+    it('converts airtimes to the display timezone before applying minAirtime', async () => {
+      const scheduleItems = TvMazeScheduleItemBuilder.createNetworkScheduleItems(2).map(
+        (item, index) => ({
+          ...item,
+          airtime: index === 0 ? '20:00' : '22:00',
+          airstamp: index === 0 ? '2023-01-02T01:00:00+00:00' : '2023-01-02T03:00:00+00:00'
+        })
+      );
+      jest.spyOn(mockHttpClient, 'get').mockImplementation(async url =>
+        await Promise.resolve({
+          data: url.includes('/web') ? [] : scheduleItems,
+          status: 200,
+          headers: {}
+        })
+      );
+
+      // 20:00 and 22:00 Eastern are 17:00 and 19:00 Pacific
+      const shows = await tvMazeService.fetchShows({
+        date: TEST_DATE,
+        minAirtime: '18:00',
+        displayTimezone: 'America/Los_Angeles',
+        showTimezoneAbbreviation: true
+      });
+
+      expect(shows).toHaveLength(1);
+      expect(shows[0].airtime).toBe('19:00');
+      expect(shows[0].airtimeZone).toBe('PST');
+    });
+
+    describe('with airtimes converted past midnight', () => {
+      const previousDate = '2022-12-31';
+      const nextDate = '2023-01-02';
+      const options = { minAirtime: '00:00', displayTimezone: 'America/New_York' };
+
+      /**
+       * Serve network schedules with Pacific airtimes that are three hours
+       * later in New York: 20:00 and 22:00 on the first day, 22:00 the day before
+       * @returns Spy on the HTTP client's get method
+       */
+      const mockPacificSchedules = (): ReturnType<typeof jest.spyOn> => {
+        const [early, late, previous] = TvMazeScheduleItemBuilder.createNetworkScheduleItems(3);
+        const itemsByDate: Record<string, unknown[]> = {
+          [previousDate]: [
+            { ...previous, airdate: previousDate, airtime: '22:00',
+              airstamp: '2022-12-31T22:00:00-08:00' }
+          ],
+          [TEST_DATE]: [
+            { ...early, airdate: TEST_DATE, airtime: '20:00',
+              airstamp: '2023-01-01T20:00:00-08:00' },
+            { ...late, airdate: TEST_DATE, airtime: '22:00',
+              airstamp: '2023-01-01T22:00:00-08:00' }
+          ]
+        };
+        return jest.spyOn(mockHttpClient, 'get').mockImplementation(async url => {
+          const date = new URL(url).searchParams.get('date') ?? '';
+          return await Promise.resolve({
+            data: url.includes('/web') ? [] : itemsByDate[date] ?? [],
+            status: 200,
+            headers: {}
+          });
+        });
+      };
+
+      it('moves the airdate with the airtime across the range', async () => {
+        mockPacificSchedules();
+
+        const shows = await tvMazeService.fetchShows({
+          ...options,
+          date: TEST_DATE,
+          endDate: nextDate
+        });
+
+        expect(shows.map(show => [show.airdate, show.airtime])).toEqual([
+          [TEST_DATE, '01:00'],
+          [TEST_DATE, '23:00'],
+          [nextDate, '01:00']
+        ]);
+      });
+
+      it('brings in episodes from the day before the range', async () => {
+        const getSpy = mockPacificSchedules();
+
+        const shows = await tvMazeService.fetchShows({ ...options, date: TEST_DATE });
+
+        expect(getSpy).toHaveBeenCalledWith(
+          `https://api.tvmaze.com/schedule?date=${previousDate}&country=US`
+        );
+        expect(shows.map(show => [show.airdate, show.airtime])).toContainEqual(
+          [TEST_DATE, '01:00']
+        );
+      });
+
+      it('drops episodes that move past the end of the range', async () => {
+        mockPacificSchedules();
+
+        const shows = await tvMazeService.fetchShows({ ...options, date: TEST_DATE });
+
+        expect(shows.map(show => [show.airdate, show.airtime])).toEqual([
+          [TEST_DATE, '01:00'],
+          [TEST_DATE, '23:00']
+        ]);
+      });
+
+      it('only fetches the requested days without a display timezone', async () => {
+        const getSpy = mockPacificSchedules();
+
+        const shows = await tvMazeService.fetchShows({ minAirtime: '00:00', date: TEST_DATE });
+
+        expect(getSpy.mock.calls.map(([url]) => url)).not.toContainEqual(
+          expect.stringContaining(previousDate)
+        );
+        expect(shows.map(show => show.airtime)).toEqual(['20:00', '22:00']);
+      });
+    });
+
+    it('marks followed shows by ID or name and keeps them despite filters', async () => {
+      const scheduleItems = TvMazeScheduleItemBuilder.createNetworkScheduleItems(3);
+      jest.spyOn(mockHttpClient, 'get').mockImplementation(async url =>
+        await Promise.resolve({
+          data: url.includes('/web') ? [] : scheduleItems,
+          status: 200,
+          headers: {}
+        })
+      );
+
+      const shows = await tvMazeService.fetchShows({
+        date: TEST_DATE,
+        networks: ['No Such Network'],
+        followedShows: [100, 'TEST SHOW 2']
+      });
+
+      expect(shows.map(show => show.id)).toEqual([100, 101]);
+      expect(shows.every(show => show.followed === true)).toBe(true);
+    });
+
+    it('rejects an invalid filter expression before fetching', async () => {
+      const getSpy = jest.spyOn(mockHttpClient, 'get');
+
+      await expect(tvMazeService.fetchShows({ date: TEST_DATE, filter: 'genre:Drama and' }))
+        .rejects.toThrow('Invalid filter: expected field:value, found end of filter');
+      expect(getSpy).not.toHaveBeenCalled();
+    });
+
+    describe('premiere and finale badges', () => {
+      const scheduleItems = TvMazeScheduleItemBuilder.createNetworkScheduleItems(3);
+
+      /** Serve the schedule items, and a season list in which episode 2 is the finale */
+      const mockScheduleAndSeasons = (): jest.SpiedFunction<HttpClient['get']> =>
+        jest.spyOn(mockHttpClient, 'get').mockImplementation(async url => {
+          let data: unknown = [];
+          if (url.includes('/shows/')) {
+            data = { id: 101, status: 'Running', _embedded: { seasons: [
+              { id: 1, number: 1, episodeOrder: 2 }
+            ] } };
+          } else if (!url.includes('/web')) {
+            data = scheduleItems;
+          }
+          return await Promise.resolve({ data, status: 200, headers: {} });
+        });
+
+      it('adds premiere badges without requests and finale badges from seasons', async () => {
+        const getSpy = mockScheduleAndSeasons();
+
+        const shows = await tvMazeService.fetchShows({ date: TEST_DATE, finaleBadges: true });
+
+        expect(shows.map(show => show.badge ?? null))
+          .toEqual(['seriesPremiere', 'seasonFinale', null]);
+        // Seasons are only requested for the two non-premiere shows
+        const showCalls = getSpy.mock.calls.filter(([url]) => url.includes('/shows/'));
+        expect(showCalls.map(([url]) => url)).toEqual([
+          'https://api.tvmaze.com/shows/101?embed=seasons',
+          'https://api.tvmaze.com/shows/102?embed=seasons'
+        ]);
+      });
+
+      it('does not request seasons when finale badges are off', async () => {
+        const getSpy = mockScheduleAndSeasons();
+
+        const shows = await tvMazeService.fetchShows({ date: TEST_DATE });
+
+        expect(shows.map(show => show.badge ?? null)).toEqual(['seriesPremiere', null, null]);
+        expect(getSpy.mock.calls.filter(([url]) => url.includes('/shows/'))).toEqual([]);
+      });
+
+      it('skips badges and their requests when asked to', async () => {
+        const getSpy = mockScheduleAndSeasons();
+
+        const shows = await tvMazeService.fetchShows(
+          { date: TEST_DATE, finaleBadges: true },
+          { skipBadges: true }
+        );
+
+        expect(shows.map(show => show.badge ?? null)).toEqual([null, null, null]);
+        expect(getSpy.mock.calls.filter(([url]) => url.includes('/shows/'))).toEqual([]);
+      });
+
+      it('only returns premieres and finales when requested', async () => {
+        mockScheduleAndSeasons();
+
+        const shows = await tvMazeService.fetchShows({
+          date: TEST_DATE,
+          premieresAndFinalesOnly: true
+        });
+
+        expect(shows.map(show => show.id)).toEqual([100, 101]);
+      });
+    });
+
     it('handles non-array response data', async () => {
       // Mock a response with non-array data
       jest.spyOn(mockHttpClient, 'get').mockResolvedValueOnce({
@@ -321,6 +595,40 @@ describe('TvMazeServiceImpl', () => {
     });
   });
   
+  describe('searchShows', () => {
+    it('returns matches sorted by score', async () => {
+      const getSpy = jest.spyOn(mockHttpClient, 'get').mockResolvedValueOnce({
+        data: [
+          { score: 0.3, show: { id: 2, name: 'Severance Pay', network: null } },
+          { score: 0.9, show: { id: 1, name: 'Severance', premiered: '2022-02-18' } }
+        ],
+        status: 200,
+        headers: {}
+      });
+
+      const results = await tvMazeService.searchShows('severance');
+
+      expect(getSpy).toHaveBeenCalledWith('https://api.tvmaze.com/search/shows?q=severance');
+      expect(results.map(result => result.id)).toEqual([1, 2]);
+      expect(results[0].premiereYear).toBe(2022);
+    });
+
+    it('returns no results for a blank query without a request', async () => {
+      const getSpy = jest.spyOn(mockHttpClient, 'get');
+
+      const results = await tvMazeService.searchShows(' '.repeat(3));
+
+      expect(results).toEqual([]);
+      expect(getSpy).not.toHaveBeenCalled();
+    });
+
+    it('rethrows request errors', async () => {
+      jest.spyOn(mockHttpClient, 'get').mockRejectedValueOnce(new Error(NETWORK_ERROR));
+
+      await expect(tvMazeService.searchShows('severance')).rejects.toThrow(NETWORK_ERROR);
+    });
+  });
+
   describe('applyFilters', () => {
     // Create a test class that exposes the protected applyFilters method
     class TestTvMazeService extends TvMazeServiceImpl {
@@ -445,6 +753,54 @@ describe('TvMazeServiceImpl', () => {
         show.network === 'Netflix' || show.network === 'HBO'
       )).toBe(true);
     });
+
+    it('applies channel filter correctly', () => {
+      const channelShows = [
+        { ...testShows[0], channelKind: 'broadcast' as const },
+        { ...testShows[1], channelKind: 'streaming' as const },
+        { ...testShows[2], channelKind: null }
+      ];
+
+      const result = testService.testApplyFilters(channelShows, {
+        date: '',
+        country: 'US',
+        types: [],
+        genres: [],
+        languages: [],
+        networks: [],
+        channels: 'streaming'
+      });
+
+      expect(result.map(show => show.id)).toEqual([2]);
+    });
+
+    it('applies the filter expression alongside the list filters', () => {
+      const result = testService.testApplyFilters(testShows, {
+        date: '',
+        country: 'US',
+        types: ['Scripted'],
+        genres: [],
+        languages: [],
+        networks: [],
+        filter: 'network:HBO or genre:Drama'
+      });
+
+      expect(result.map(show => show.id)).toEqual([1, 4]);
+    });
+
+    it('resolves network aliases when filtering by network', () => {
+      const result = testService.testApplyFilters(testShows, {
+        date: '',
+        country: 'US',
+        types: [],
+        genres: [],
+        languages: [],
+        networks: ['Home Box Office'],
+        networkAliases: { 'home box office': 'HBO' }
+      });
+
+      expect(result.map(show => show.id)).toEqual([4]);
+    });
     
     it('applies genre filter correctly', () => {
       const result = testService.testApplyFilters(testShows, {
@@ -536,6 +892,30 @@ describe('TvMazeServiceImpl', () => {
       expect(result.some(show => show.airtime === '08:00')).toBe(false);
     });
     
+    it('applies maxAirtime, midnight-wrapping windows and includeUntimed', () => {
+      const showsWithAirtimes = [
+        { ...testShows[0], airtime: '20:00' },
+        { ...testShows[1], airtime: '23:35' },
+        { ...testShows[2], airtime: '01:00' },
+        { ...testShows[3], airtime: '' },
+        { ...testShows[4], airtime: '08:00' }
+      ];
+
+      const result = testService.testApplyFilters(showsWithAirtimes, {
+        date: '',
+        country: 'US',
+        types: [],
+        genres: [],
+        languages: [],
+        networks: [],
+        minAirtime: '22:00',
+        maxAirtime: '02:00',
+        includeUntimed: false
+      });
+
+      expect(result.map(show => show.airtime)).toEqual(['23:35', '01:00']);
+    });
+    
     it('handles case insensitive language matching', () => {
       const result = testService.testApplyFilters(testShows, {
         date: '',
@@ -794,5 +1174,17 @@ describe('TvMazeServiceImpl', () => {
 
       expect(result).toHaveLength(5);
     });
+
+    it('keeps followed shows that other filters would remove', () => {
+      const shows = testShows.map(show => (show.id === 2 ? { ...show, followed: true } : show));
+
+      const result = testService.testApplyFilters(shows, {
+        networks: ['ABC'],
+        languages: ['English'],
+        excludeShowNames: ['Show 2']
+      });
+
+      expect(result.map(show => show.id)).toEqual([1, 2]);
+    });
   });
 });
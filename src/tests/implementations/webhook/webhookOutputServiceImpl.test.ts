@@ -0,0 +1,155 @@
+/**
+ * Tests for the Webhook Output Service Implementation
+ */
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  WebhookOutputServiceImpl
+} from '../../../implementations/webhook/webhookOutputServiceImpl.js';
+import type { HttpClient } from '../../../interfaces/httpClient.js';
+import type { ProcessOutput } from '../../../interfaces/processOutput.js';
+import type { AppConfig, WebhookConfig } from '../../../types/configTypes.js';
+import { getScheduleShows, MONDAY, TUESDAY } from '../../fixtures/domain/schedule.js';
+import { ShowBuilder } from '../../fixtures/helpers/showFixtureBuilder.js';
+import {
+  createRunOutputServiceFactory
+} from '../../mocks/factories/outputServiceFactory.js';
+import { createJestProcessOutput } from '../../mocks/factories/processOutputFactory.js';
+
+const WEBHOOK_URL = 'https://chat.example.com/hooks/secret-token';
+const TEMPLATE = [
+  '{"text": "{{title}}", "days": [{{#days}}{"day": "{{weekday}}", "lines": [',
+  '{{#networks}}{{#shows}}"{{network}}: {{name}} {{episode}} {{time}}"{{^@last}},{{/@last}}',
+  '{{/shows}}{{/networks}}]}{{^@last}},{{/@last}}{{/days}}]}'
+].join('');
+const FORM_TEMPLATE =
+  'title={{title}}{{#days}}{{#networks}}{{#shows}}&show={{name}}{{/shows}}{{/networks}}{{/days}}';
+
+/**
+ * Get the config of a run posting to the test webhook
+ * @param webhook Overrides of the webhook section
+ * @returns App config with the webhook section
+ */
+function withWebhook(webhook: Partial<WebhookConfig> = {}): Partial<AppConfig> {
+  return { webhook: { url: WEBHOOK_URL, template: TEMPLATE, ...webhook } };
+}
+
+describe('WebhookOutputServiceImpl', () => {
+  let httpClient: jest.Mocked<HttpClient>;
+  let output: jest.Mocked<ProcessOutput>;
+  const [survivor] = getScheduleShows();
+  const shows = [
+    survivor,
+    new ShowBuilder().withId(2).withName('"Quoted" Show').withNetwork('CBS').withEpisode(1, 1)
+      .withAirdate(MONDAY).withAirtime('21:00').build()
+  ];
+  const createService = createRunOutputServiceFactory(
+    configService => new WebhookOutputServiceImpl(httpClient, configService, output)
+  );
+
+  beforeEach(() => {
+    httpClient = {
+      get: jest.fn<HttpClient['get']>(),
+      post: jest.fn<HttpClient['post']>().mockResolvedValue({ data: '', status: 200, headers: {} })
+    };
+    output = createJestProcessOutput();
+  });
+
+  it('requires a webhook section in the config', () => {
+    expect(() => createService({ date: MONDAY }))
+      .toThrow('Webhook is not configured');
+  });
+
+  /**
+   * Get the body of the only request, parsed as JSON
+   * @returns Parsed request body
+   */
+  const getJsonBody = (): unknown => JSON.parse(httpClient.post.mock.calls[0][1] as string);
+
+  it('posts the rendered template as a JSON body', async () => {
+    await createService({ date: MONDAY }, {}, withWebhook()).renderOutput(shows);
+
+    expect(output.error).not.toHaveBeenCalled();
+    expect(httpClient.post).toHaveBeenCalledWith(WEBHOOK_URL, expect.any(String), {
+      method: undefined,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    expect(getJsonBody()).toEqual({
+      text: `TV Shows for ${MONDAY}`,
+      days: [{
+        day: 'Monday',
+        lines: ['CBS: Survivor S47E03 8:00 PM', 'CBS: "Quoted" Show S01E01 9:00 PM']
+      }]
+    });
+  });
+
+  it('renders every day of a range in one request', async () => {
+    await createService({ date: MONDAY, endDate: TUESDAY }, {}, withWebhook())
+      .renderOutput(shows);
+
+    expect(httpClient.post).toHaveBeenCalledTimes(1);
+    expect(getJsonBody()).toMatchObject({
+      text: `TV Shows for ${MONDAY} to ${TUESDAY}`,
+      days: [{ day: 'Monday' }, { day: 'Tuesday', lines: [] }]
+    });
+  });
+
+  it('sends with the configured method and headers', async () => {
+    const headers = { Authorization: 'Bearer token' };
+
+    await createService({ date: MONDAY }, {}, withWebhook({ headers, method: 'PUT' }))
+      .renderOutput(shows);
+
+    expect(httpClient.post).toHaveBeenCalledWith(WEBHOOK_URL, expect.anything(), {
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      method: 'PUT'
+    });
+  });
+
+  it('posts form-encoded templates with their configured content type', async () => {
+    const headers = { 'content-type': 'application/x-www-form-urlencoded' };
+
+    await createService({ date: MONDAY }, {}, withWebhook({ headers, template: FORM_TEMPLATE }))
+      .renderOutput(shows);
+
+    expect(output.error).not.toHaveBeenCalled();
+    expect(httpClient.post).toHaveBeenCalledWith(
+      WEBHOOK_URL,
+      `title=TV%20Shows%20for%20${MONDAY}&show=Survivor&show=%22Quoted%22%20Show`,
+      { headers, method: undefined }
+    );
+  });
+
+  it('posts plain-text templates without escaping', async () => {
+    const headers = { 'Content-Type': 'text/plain' };
+
+    await createService({ date: MONDAY }, {}, withWebhook({ headers, template: 'TV: {{title}}' }))
+      .renderOutput(shows);
+
+    expect(httpClient.post).toHaveBeenCalledWith(
+      WEBHOOK_URL,
+      `TV: TV Shows for ${MONDAY}`,
+      { headers, method: undefined }
+    );
+  });
+
+  it('reports a missing template', async () => {
+    await createService({ date: MONDAY }, {}, withWebhook({ template: undefined }))
+      .renderOutput(shows);
+
+    expect(output.error).toHaveBeenCalledWith(
+      'Error sending webhook: Webhook template is not configured: set "template" or "templateFile"'
+    );
+  });
+
+  it('reports failed requests without revealing the webhook URL', async () => {
+    httpClient.post.mockRejectedValue(
+      new Error(`Request failed with status code 403 Forbidden: POST ${WEBHOOK_URL}`)
+    );
+
+    await createService({ date: MONDAY }, {}, withWebhook()).renderOutput(shows);
+
+    expect(output.error).toHaveBeenCalledWith(
+      'Error sending webhook: Request failed with status code 403 Forbidden: POST <webhook URL>'
+    );
+  });
+});
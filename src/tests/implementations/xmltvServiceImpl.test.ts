@@ -0,0 +1,160 @@
+/**
+ * Tests for XMLTV service implementation
+ */
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { XmltvServiceImpl } from '../../implementations/xmltvServiceImpl.js';
+import { TestConfigServiceImpl } from '../../implementations/test/testConfigServiceImpl.js';
+import type { HttpClient } from '../../interfaces/httpClient.js';
+import { createMockHttpClient } from '../mocks/factories/httpClientFactory.js';
+import { getXmltvShowId } from '../../utils/xmltvUtils.js';
+import { Fixtures } from '../fixtures/index.js';
+
+const GUIDE_PATH = Fixtures.utils.getFixturePath('xmltv/guide.xml');
+const GUIDE_URL = 'https://example.com/guide.xml';
+const FIRST_DATE = '2025-01-13';
+const SECOND_DATE = '2025-01-14';
+const NATURE = 'Nature';
+const LOCAL_STORIES = 'Local Stories';
+const NATURAL_WONDERS = 'Natural Wonders';
+const NEWS = 'KTVU News at Six';
+
+/**
+ * Create the service with a guide source
+ * @param httpClient HTTP client used for URL sources
+ * @param source Guide path or URL, or undefined for no guide
+ */
+function createService(httpClient: HttpClient, source?: string): XmltvServiceImpl {
+  const configService = new TestConfigServiceImpl({}, {}, {
+    ...(source !== undefined && { xmltv: { source } })
+  });
+  return new XmltvServiceImpl(httpClient, configService);
+}
+
+describe('XmltvServiceImpl', () => {
+  let mockHttpClient: HttpClient;
+  let service: XmltvServiceImpl;
+
+  beforeEach(() => {
+    mockHttpClient = createMockHttpClient();
+    service = createService(mockHttpClient, GUIDE_PATH);
+  });
+
+  describe('fetchShows', () => {
+    it('returns the programmes for the day, deduplicated across channels', async () => {
+      const shows = await service.fetchShows({ date: FIRST_DATE });
+
+      // Nature airs on both channels
+      expect(shows.map(show => [show.name, show.network])).toEqual([
+        [NATURE, 'KQED'],
+        [LOCAL_STORIES, 'KQED'],
+        [NEWS, 'KTVU']
+      ]);
+    });
+
+    it('keeps programmes without an episode number, once per airing', async () => {
+      const shows = await service.fetchShows({ date: FIRST_DATE, endDate: SECOND_DATE });
+
+      const news = shows.filter(show => show.name === NEWS);
+      expect(news.map(show => [show.airdate, show.season, show.number, show.badge])).toEqual([
+        [FIRST_DATE, 0, 0, undefined],
+        [SECOND_DATE, 0, 0, undefined]
+      ]);
+    });
+
+    it('returns every day of a date range with premiere badges', async () => {
+      const shows = await service.fetchShows({ date: FIRST_DATE, endDate: SECOND_DATE });
+
+      expect(shows.map(show => show.name)).toEqual([
+        NATURE, LOCAL_STORIES, NEWS, NEWS, NATURAL_WONDERS
+      ]);
+      expect(shows[4].badge).toBe('seriesPremiere');
+      expect(shows[1].badge).toBe('seasonPremiere');
+    });
+
+    it('applies the shared filters', async () => {
+      const shows = await service.fetchShows({
+        date: FIRST_DATE,
+        types: ['Reality'],
+        followedShows: [NATURE]
+      });
+
+      expect(shows.map(show => [show.name, show.followed])).toEqual([
+        [NATURE, true],
+        [LOCAL_STORIES, undefined]
+      ]);
+    });
+
+    it('converts airtimes to the display timezone', async () => {
+      const shows = await service.fetchShows({
+        date: FIRST_DATE,
+        displayTimezone: 'America/New_York'
+      });
+
+      expect(shows[0].airtime).toBe('23:00');
+    });
+
+    it('reads a guide from a URL once', async () => {
+      const getSpy = jest.spyOn(mockHttpClient, 'get').mockResolvedValue({
+        data: Fixtures.utils.loadFixtureString('xmltv/guide.xml'),
+        status: 200,
+        headers: { 'content-type': 'application/xml' }
+      });
+      service = createService(mockHttpClient, GUIDE_URL);
+
+      await service.fetchShows({ date: FIRST_DATE });
+      const shows = await service.fetchShows({ date: SECOND_DATE });
+
+      expect(getSpy).toHaveBeenCalledTimes(1);
+      expect(getSpy).toHaveBeenCalledWith(GUIDE_URL);
+      expect(shows.map(show => show.name)).toEqual([NEWS, NATURAL_WONDERS]);
+    });
+
+    it('returns an empty list when no guide is configured', async () => {
+      service = createService(mockHttpClient);
+
+      await expect(service.fetchShows({ date: FIRST_DATE })).resolves.toEqual([]);
+    });
+
+    it('returns an empty list when the guide file is missing', async () => {
+      service = createService(mockHttpClient, `${GUIDE_PATH}.missing`);
+
+      await expect(service.fetchShows({ date: FIRST_DATE })).resolves.toEqual([]);
+    });
+  });
+
+  describe('searchShows', () => {
+    it('returns each title once, exact matches first', async () => {
+      const results = await service.searchShows('NATURE');
+
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({
+        name: NATURE,
+        score: 1,
+        id: getXmltvShowId(NATURE),
+        network: 'KQED',
+        type: 'Documentary',
+        status: null
+      });
+    });
+
+    it('ranks prefix matches above partial matches', async () => {
+      const results = await service.searchShows('n');
+
+      expect(results.map(result => [result.name, result.score])).toEqual([
+        [NATURAL_WONDERS, 0.75],
+        [NATURE, 0.75],
+        ['KTVU News at Six', 0.5]
+      ]);
+    });
+
+    it('returns an empty list for an empty query', async () => {
+      await expect(service.searchShows('  ')).resolves.toEqual([]);
+    });
+
+    it('rethrows errors loading the guide', async () => {
+      service = createService(mockHttpClient);
+
+      await expect(service.searchShows(NATURE)).rejects.toThrow('No XMLTV guide configured');
+    });
+  });
+});
@@ -45,6 +45,20 @@ describe('lambdaContainer', () => {
     expect(tvShowService).toBeDefined();
   });
 
+  it('registers the XMLTV TvShowService when the provider is xmltv', async () => {
+    process.env.APP_CONFIG = JSON.stringify({
+      provider: 'xmltv',
+      xmltv: { source: 'https://example.com/guide.xml' }
+    });
+    const { initializeLambdaContainer, container: lambdaContainer } =
+      await import('../lambdaContainer.js');
+    const { XmltvServiceImpl } = await import('../implementations/xmltvServiceImpl.js');
+
+    initializeLambdaContainer();
+
+    expect(lambdaContainer.resolve('TvShowService')).toBeInstanceOf(XmltvServiceImpl);
+  });
+
   it('registers ConfigService as LambdaConfigServiceImpl', async () => {
     const { initializeLambdaContainer, container: lambdaContainer } =
       await import('../lambdaContainer.js');
@@ -1,5 +1,5 @@
 import type { TextShowFormatter } from '../../../interfaces/showFormatter.js';
-import type { NetworkGroups, Show } from '../../../schemas/domain.js';
+import type { ChannelSection, NetworkGroups, Show } from '../../../schemas/domain.js';
 import { MockOptions } from './types.js';
 import { jest } from '@jest/globals';
 
@@ -92,6 +92,20 @@ export function createMockFormatter(
         }
       }
       
+      return result;
+    }),
+
+    formatChannelSections: jest.fn((sections: ChannelSection[]) => {
+      // Generate a section heading followed by its networks
+      const result: string[] = [];
+
+      for (const section of sections) {
+        result.push(`Section: ${section.title}`);
+        for (const network of Object.keys(section.networkGroups)) {
+          result.push(`Network: ${network}`);
+        }
+      }
+
       return result;
     })
   };
@@ -2,7 +2,11 @@
  * Tests for the OutputServiceFactory
  */
 import { describe, it, expect, jest } from '@jest/globals';
-import { createMockOutputService } from './outputServiceFactory.js';
+import {
+  createMockOutputService,
+  createRunOutputServiceFactory
+} from './outputServiceFactory.js';
+import type { TestConfigServiceImpl } from '../../../implementations/test/testConfigServiceImpl.js';
 import type { Show } from '../../../schemas/domain.js';
 
 describe('OutputServiceFactory', () => {
@@ -76,4 +80,28 @@ describe('OutputServiceFactory', () => {
       expect(customRenderOutput).toHaveBeenCalledWith([sampleShow]);
     });
   });
+
+  describe('createRunOutputServiceFactory', () => {
+    it('should create each service with the options of its run', () => {
+      // Arrange
+      const configServices: TestConfigServiceImpl[] = [];
+      const createService = createRunOutputServiceFactory(configService => {
+        configServices.push(configService);
+        return createMockOutputService();
+      });
+
+      // Act
+      createService({ date: '2025-01-13' }, { outputFile: 'schedule.json' }, {
+        operationsEmail: 'ops@example.com'
+      });
+      createService({ date: '2025-01-14' });
+
+      // Assert
+      expect(configServices.map(configService => configService.getShowOptions().date))
+        .toEqual(['2025-01-13', '2025-01-14']);
+      expect(configServices[0].getCliOptions().outputFile).toBe('schedule.json');
+      expect(configServices[0].getConfig().operationsEmail).toBe('ops@example.com');
+      expect(configServices[1].getCliOptions().outputFile).toBeUndefined();
+    });
+  });
 });
@@ -2,8 +2,11 @@
  * Factory for creating mock OutputService instances
  */
 import { jest } from '@jest/globals';
+import { TestConfigServiceImpl } from '../../../implementations/test/testConfigServiceImpl.js';
 import type { OutputService } from '../../../interfaces/outputService.js';
+import type { ShowOptions } from '../../../schemas/config.js';
 import type { Show } from '../../../schemas/domain.js';
+import type { AppConfig, CliOptions } from '../../../types/configTypes.js';
 import { MockOptions } from './types.js';
 
 /**
@@ -78,3 +81,24 @@ export function createMockOutputService(
   
   return mockOutputService;
 }
+
+/**
+ * Creates an output service configured for one run
+ */
+export type RunOutputServiceFactory<T extends OutputService> = (
+  showOptions: Partial<ShowOptions>,
+  cliOptions?: Partial<CliOptions>,
+  appConfig?: Partial<AppConfig>
+) => T;
+
+/**
+ * Creates a factory for output services under test, each configured for one run
+ * @param createService Creates the service with the config service of the run
+ * @returns A factory taking the show options, CLI options and config of the run
+ */
+export function createRunOutputServiceFactory<T extends OutputService>(
+  createService: (configService: TestConfigServiceImpl) => T
+): RunOutputServiceFactory<T> {
+  return (showOptions, cliOptions = {}, appConfig = {}) =>
+    createService(new TestConfigServiceImpl(showOptions, cliOptions, appConfig));
+}
@@ -1,3 +1,4 @@
+import { jest } from '@jest/globals';
 import { MockProcessOutput } from '../implementations/mockProcessOutput.js';
 import type { ProcessOutput } from '../../../interfaces/processOutput.js';
 import { MockOptions } from './types.js';
@@ -29,3 +30,16 @@ export function createMockProcessOutput(options: ProcessOutputOptions = {}): Moc
 
   return mockProcessOutput;
 }
+
+/**
+ * Creates a process output whose methods are Jest mocks, for asserting on what was written
+ * @returns A process output with mocked methods
+ */
+export function createJestProcessOutput(): jest.Mocked<ProcessOutput> {
+  return {
+    log: jest.fn<ProcessOutput['log']>(),
+    error: jest.fn<ProcessOutput['error']>(),
+    warn: jest.fn<ProcessOutput['warn']>(),
+    logWithLevel: jest.fn<ProcessOutput['logWithLevel']>()
+  };
+}
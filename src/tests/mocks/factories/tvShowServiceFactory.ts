@@ -1,6 +1,7 @@
 import type { TvShowService } from '../../../interfaces/tvShowService.js';
-import type { Show } from '../../../schemas/domain.js';
+import type { Show, ShowSearchResult } from '../../../schemas/domain.js';
 import type { ShowOptions } from '../../../schemas/config.js';
+import { toStringArray } from '../../../utils/configUtils.js';
 import { MockOptions } from './types.js';
 import { jest } from '@jest/globals';
 
@@ -28,6 +29,9 @@ export interface TvShowServiceOptions extends MockOptions<TvShowService> {
   
   /** Error to throw when fetchShows is called */
   fetchError?: Error;
+
+  /** Results to return from searchShows */
+  searchResults?: ShowSearchResult[];
 }
 
 /**
@@ -46,7 +50,9 @@ export function createMockTvShowService(
       }
 
       return resolveShows(showOptions, options);
-    })
+    }),
+    // eslint-disable-next-line @typescript-eslint/require-await
+    searchShows: jest.fn(async (): Promise<ShowSearchResult[]> => options.searchResults ?? [])
   };
 
   if (options.implementation) {
@@ -90,7 +96,7 @@ function resolveShows(
   showOptions: ShowOptions, options: TvShowServiceOptions
 ): Show[] {
   return lookupByKey(showOptions.date, options.showsByDate)
-    ?? lookupByKey(showOptions.country, options.showsByCountry)
+    ?? lookupByArray(toStringArray(showOptions.country), options.showsByCountry)
     ?? lookupByArray(showOptions.networks, options.showsByNetwork)
     ?? lookupByArray(showOptions.genres, options.showsByGenre)
     ?? lookupByArray(showOptions.languages, options.showsByLanguage)
@@ -3,10 +3,12 @@
  */
 import {
   networkScheduleToShowSchema,
-  webScheduleToShowSchema
+  webScheduleToShowSchema,
+  searchResultsToShowSearchResultsSchema
 } from '../../schemas/tvmaze.js';
 
 const EPISODE_TITLE = 'Episode Title';
+const EPISODE_SUMMARY = 'Episode summary';
 const COUNTRY_US = 'United States';
 const NY_TIMEZONE = 'America/New_York';
 const SHOW_SUMMARY = 'Show summary';
@@ -23,7 +25,7 @@ describe('TVMaze Schema Transformations', () => {
         season: 5,
         number: 10,
         airtime: '20:00',
-        summary: 'Episode summary',
+        summary: EPISODE_SUMMARY,
         show: {
           id: 456,
           name: SHOW_NAME,
@@ -54,10 +56,19 @@ describe('TVMaze Schema Transformations', () => {
         language: 'English',
         genres: ['Drama', 'Thriller'],
         network: 'ABC (US)',
+        channelKind: 'broadcast',
+        networkId: 1,
+        webChannelId: null,
         summary: SHOW_SUMMARY,
         airtime: '20:00',
         season: 5,
-        number: 10
+        number: 10,
+        episodeName: EPISODE_TITLE,
+        airdate: null,
+        airstamp: null,
+        runtime: null,
+        episodeUrl: null,
+        episodeSummary: EPISODE_SUMMARY
       });
     });
 
@@ -82,10 +93,19 @@ describe('TVMaze Schema Transformations', () => {
         language: null,
         genres: [],
         network: 'Unknown Network',
+        channelKind: null,
+        networkId: null,
+        webChannelId: null,
         summary: null,
         airtime: null,
         season: 0,
-        number: 0
+        number: 0,
+        episodeName: null,
+        airdate: null,
+        airstamp: null,
+        runtime: null,
+        episodeUrl: null,
+        episodeSummary: null
       });
     });
 
@@ -122,6 +142,78 @@ describe('TVMaze Schema Transformations', () => {
 
       // Assert
       expect(result.network).toBe('Netflix (US)');
+      expect(result.channelKind).toBe('streaming');
+      expect(result.webChannelId).toBe(2);
+    });
+
+    it('should treat networks that are not broadcast networks as cable', () => {
+      const networkScheduleItem = {
+        id: 123,
+        number: 1,
+        show: {
+          id: 456,
+          name: SHOW_NAME,
+          network: { id: 8, name: 'HBO', country: null },
+          webChannel: { id: 329, name: 'Max', country: null }
+        }
+      };
+
+      const result = networkScheduleToShowSchema.parse(networkScheduleItem);
+
+      expect(result).toMatchObject({
+        network: 'HBO',
+        channelKind: 'cable',
+        networkId: 8,
+        webChannelId: 329
+      });
+    });
+
+    it('should carry episode details into the Show object', () => {
+      // Arrange
+      const networkScheduleItem = {
+        id: 123,
+        url: 'https://www.tvmaze.com/episodes/123/show-name-5x10-episode-title',
+        name: EPISODE_TITLE,
+        season: 5,
+        number: 10,
+        airdate: '2025-03-10',
+        airtime: '20:00',
+        airstamp: '2025-03-11T01:00:00+00:00',
+        runtime: 30,
+        show: {
+          id: 456,
+          name: SHOW_NAME,
+          runtime: 60
+        }
+      };
+
+      // Act
+      const result = networkScheduleToShowSchema.parse(networkScheduleItem);
+
+      // Assert
+      expect(result.episodeName).toBe(EPISODE_TITLE);
+      expect(result.airdate).toBe('2025-03-10');
+      expect(result.airstamp).toBe('2025-03-11T01:00:00+00:00');
+      expect(result.runtime).toBe(30);
+      expect(result.episodeUrl).toBe(networkScheduleItem.url);
+    });
+
+    it('should fall back to the show runtime when the episode has none', () => {
+      // Arrange
+      const networkScheduleItem = {
+        id: 123,
+        runtime: null,
+        show: {
+          id: 456,
+          runtime: 60
+        }
+      };
+
+      // Act
+      const result = networkScheduleToShowSchema.parse(networkScheduleItem);
+
+      // Assert
+      expect(result.runtime).toBe(60);
     });
   });
 
@@ -134,7 +226,7 @@ describe('TVMaze Schema Transformations', () => {
         season: 5,
         number: 10,
         airtime: '20:00',
-        summary: 'Episode summary',
+        summary: EPISODE_SUMMARY,
         _embedded: {
           show: {
             id: 456,
@@ -167,10 +259,19 @@ describe('TVMaze Schema Transformations', () => {
         language: 'English',
         genres: ['Drama', 'Thriller'],
         network: 'Netflix (US)',
+        channelKind: 'streaming',
+        networkId: null,
+        webChannelId: 2,
         summary: SHOW_SUMMARY,
         airtime: '20:00',
         season: 5,
-        number: 10
+        number: 10,
+        episodeName: EPISODE_TITLE,
+        airdate: null,
+        airstamp: null,
+        runtime: null,
+        episodeUrl: null,
+        episodeSummary: EPISODE_SUMMARY
       });
     });
 
@@ -196,11 +297,89 @@ describe('TVMaze Schema Transformations', () => {
         language: null,
         genres: [],
         network: 'Unknown Network',
+        channelKind: null,
+        networkId: null,
+        webChannelId: null,
         summary: null,
         airtime: null,
         season: 0,
-        number: 0
+        number: 0,
+        episodeName: null,
+        airdate: null,
+        airstamp: null,
+        runtime: null,
+        episodeUrl: null,
+        episodeSummary: null
       });
     });
   });
+
+  describe('searchResultsToShowSearchResultsSchema', () => {
+    it('should transform search results to ShowSearchResult objects', () => {
+      // Arrange
+      const searchResults = [
+        {
+          score: 0.9,
+          show: {
+            id: 456,
+            name: SHOW_NAME,
+            type: SHOW_TYPE,
+            language: 'English',
+            status: 'Ended',
+            premiered: '2004-09-22',
+            url: 'https://www.tvmaze.com/shows/456/show-name',
+            network: {
+              id: 1,
+              name: 'ABC',
+              country: { name: COUNTRY_US, code: 'US', timezone: NY_TIMEZONE }
+            }
+          }
+        },
+        {
+          score: 0.4,
+          show: {
+            id: 789,
+            name: 'Web Show',
+            premiered: null,
+            network: null,
+            webChannel: { id: 2, name: 'Netflix', country: null }
+          }
+        }
+      ];
+
+      // Act
+      const results = searchResultsToShowSearchResultsSchema.parse(searchResults);
+
+      // Assert
+      expect(results).toEqual([
+        {
+          id: 456,
+          name: SHOW_NAME,
+          score: 0.9,
+          network: 'ABC (US)',
+          type: SHOW_TYPE,
+          language: 'English',
+          status: 'Ended',
+          premiereYear: 2004,
+          url: 'https://www.tvmaze.com/shows/456/show-name'
+        },
+        {
+          id: 789,
+          name: 'Web Show',
+          score: 0.4,
+          network: 'Netflix',
+          type: null,
+          language: null,
+          status: null,
+          premiereYear: null,
+          url: null
+        }
+      ]);
+    });
+
+    it('should reject results without a score', () => {
+      expect(() => searchResultsToShowSearchResultsSchema.parse([{ show: { id: 1 } }]))
+        .toThrow();
+    });
+  });
 });
@@ -8,12 +8,15 @@ import {
   mergeArraysWithPriority,
   getDirPathFromImportMeta,
   resolveRelativePath,
-  mergeShowOptions
+  mergeShowOptions,
+  resolveEndDate,
+  toCountryCodes
 } from '../../utils/configUtils.js';
 import { CliArgs as CliArguments } from '../../types/cliArgs.js';
 import { AppConfig } from '../../types/configTypes.js';
 import { getTodayDate } from '../../utils/dateUtils.js';
 
+const RANGE_END_DATE = '2025-04-07';
 const DEFAULT_USERNAME = 'WhatsOnTV';
 const TEST_DATE = '2025-04-01';
 
@@ -62,6 +65,19 @@ describe('configUtils', () => {
     });
   });
 
+  describe('toCountryCodes', () => {
+    it('should normalize strings, comma-separated strings and lists', () => {
+      expect(toCountryCodes('us')).toEqual(['US']);
+      expect(toCountryCodes('US, gb,CA')).toEqual(['US', 'GB', 'CA']);
+      expect(toCountryCodes(['GB', 'gb', 'US'])).toEqual(['GB', 'US']);
+    });
+
+    it('should fall back to the default country', () => {
+      expect(toCountryCodes(undefined)).toEqual(['US']);
+      expect(toCountryCodes([], 'GB')).toEqual(['GB']);
+    });
+  });
+
   describe('mergeArraysWithPriority', () => {
     it('should return primary array if not empty', () => {
       expect(mergeArraysWithPriority(['a', 'b'], ['c', 'd'])).toEqual(['a', 'b']);
@@ -124,6 +140,7 @@ describe('configUtils', () => {
       // Arrange
       const cliArguments: CliArguments = {
         date: TEST_DATE,
+        endDate: RANGE_END_DATE,
         country: 'CA',
         types: ['Drama'],
         networks: [],
@@ -142,6 +159,7 @@ describe('configUtils', () => {
         languages: ['English'],
         notificationTime: '09:00',
         minAirtime: '18:00',
+        followedShows: [44_933, 'Severance'],
         slack: {
           token: '',
           channelId: '',
@@ -154,6 +172,7 @@ describe('configUtils', () => {
 
       // Assert - CLI values should override config values when provided
       expect(showOptions.date).toBe(TEST_DATE); // From CLI
+      expect(showOptions.endDate).toBe(RANGE_END_DATE); // From CLI
       expect(showOptions.country).toBe('CA'); // From CLI
       expect(showOptions.types).toEqual(['Drama']); // From CLI
 
@@ -161,6 +180,7 @@ describe('configUtils', () => {
       expect(showOptions.networks).toEqual(['ABC']); // From config
       expect(showOptions.genres).toEqual(['Comedy']); // From config
       expect(showOptions.languages).toEqual(['English']); // From config
+      expect(showOptions.followedShows).toEqual([44_933, 'Severance']); // From config
     });
 
     it('should handle merging arrays with different priorities correctly', () => {
@@ -360,4 +380,28 @@ describe('configUtils', () => {
       expect(showOptions.excludeShowNames).toEqual(['Days of Our Lives', 'General Hospital']);
     });
   });
+
+  describe('resolveEndDate', () => {
+    it('should return undefined for a single day', () => {
+      expect(resolveEndDate(TEST_DATE)).toBeUndefined();
+      expect(resolveEndDate(TEST_DATE, TEST_DATE)).toBeUndefined();
+      expect(resolveEndDate(TEST_DATE, undefined, 1)).toBeUndefined();
+    });
+
+    it('should use an explicit --to date', () => {
+      expect(resolveEndDate(TEST_DATE, RANGE_END_DATE)).toBe(RANGE_END_DATE);
+    });
+
+    it('should compute the end date from --days, counting the start date', () => {
+      expect(resolveEndDate(TEST_DATE, undefined, 7)).toBe(RANGE_END_DATE);
+    });
+
+    it('should reject invalid ranges', () => {
+      expect(() => resolveEndDate(TEST_DATE, '2025-03-31')).toThrow('is before start date');
+      expect(() => resolveEndDate(TEST_DATE, '04/07/2025')).toThrow('Expected YYYY-MM-DD');
+      expect(() => resolveEndDate(TEST_DATE, '2025-06-01')).toThrow('cannot be longer than');
+      expect(() => resolveEndDate(TEST_DATE, undefined, 0)).toThrow('--days must be');
+      expect(() => resolveEndDate(TEST_DATE, undefined, 2.5)).toThrow('--days must be');
+    });
+  });
 });
@@ -0,0 +1,83 @@
+/**
+ * Tests for CSV utilities
+ */
+import { describe, expect, it } from '@jest/globals';
+import {
+  CSV_COLUMNS,
+  createCsv,
+  createCsvRecord,
+  escapeCsvField,
+  parseCsvColumns
+} from '../../utils/csvUtils.js';
+import { ShowBuilder } from '../fixtures/helpers/showFixtureBuilder.js';
+
+const MONDAY = '2025-01-13';
+
+describe('csvUtils', () => {
+  describe('escapeCsvField', () => {
+    it('leaves plain values unquoted', () => {
+      expect(escapeCsvField('Survivor')).toBe('Survivor');
+    });
+
+    it('quotes values with commas, quotes or line breaks and doubles the quotes', () => {
+      expect(escapeCsvField('Law & Order, SVU')).toBe('"Law & Order, SVU"');
+      expect(escapeCsvField('The "Best" Show')).toBe('"The ""Best"" Show"');
+      expect(escapeCsvField('Line\r\nbreak')).toBe('"Line\r\nbreak"');
+    });
+  });
+
+  describe('parseCsvColumns', () => {
+    it('keeps the given order and ignores case', () => {
+      expect(parseCsvColumns(['Show', 'DATE', 'showid'])).toEqual(['show', 'date', 'showId']);
+    });
+
+    it('rejects unknown columns', () => {
+      expect(() => parseCsvColumns(['date', 'rating']))
+        .toThrow(`Unknown CSV column "rating"; expected one of ${CSV_COLUMNS.join(', ')}`);
+    });
+  });
+
+  describe('createCsvRecord', () => {
+    it('fills every column, leaving unknown values empty', () => {
+      const show = new ShowBuilder()
+        .withId(42)
+        .withName('Survivor')
+        .withType('Reality')
+        .withEpisode(47, 3)
+        .withAirtime(null)
+        .build();
+
+      expect(createCsvRecord({ ...show, genres: ['Drama', 'Thriller'], language: null },
+        MONDAY, 'CBS')).toEqual({
+        date: MONDAY,
+        airtime: '',
+        network: 'CBS',
+        show: 'Survivor',
+        showId: '42',
+        season: '47',
+        episode: '3',
+        type: 'Reality',
+        genres: 'Drama; Thriller',
+        language: ''
+      });
+    });
+  });
+
+  describe('createCsv', () => {
+    it('writes a header row and the selected columns with CRLF line breaks', () => {
+      const record = createCsvRecord(
+        new ShowBuilder().withName('Love, Death & Robots').withAirtime('20:00').build(),
+        MONDAY,
+        'Netflix'
+      );
+
+      expect(createCsv([record], ['date', 'show', 'network'])).toBe(
+        'date,show,network\r\n2025-01-13,"Love, Death & Robots",Netflix\r\n'
+      );
+    });
+
+    it('writes only the header row without records', () => {
+      expect(createCsv([], CSV_COLUMNS)).toBe(`${CSV_COLUMNS.join(',')}\r\n`);
+    });
+  });
+});
@@ -11,10 +11,17 @@ import {
   parseTimeString,
   formatTimeWithPeriod,
   isValidTime,
-  parseDateString
+  parseDateString,
+  addDays,
+  getDateRange,
+  formatWeekday,
+  isValidTimezone,
+  convertToTimezone,
+  MAX_DATE_RANGE_DAYS
 } from '../../utils/dateUtils.js';
 
 const TEST_DATE = '2025-03-20';
+const LOS_ANGELES = 'America/Los_Angeles';
 const INVALID_INPUT = 'invalid';
 const INVALID_TIME = 'abc:def';
 describe('DateUtils', () => {
@@ -40,7 +47,7 @@ describe('DateUtils', () => {
 
     it('returns date in YYYY-MM-DD format with timezone', () => {
       // Test with a specific timezone - this tests the Intl.DateTimeFormat path
-      const result = getTodayDate('America/Los_Angeles');
+      const result = getTodayDate(LOS_ANGELES);
 
       // Should return a valid date format
       expect(result).toMatch(/^\d{4}-\d{2}-\d{2}$/);
@@ -204,4 +211,60 @@ describe('DateUtils', () => {
       expect(Math.abs(result4.getTime() - now.getTime())).toBeLessThan(1000);
     });
   });
+
+  describe('addDays', () => {
+    it('adds days across month and year boundaries', () => {
+      expect(addDays('2025-01-31', 1)).toBe('2025-02-01');
+      expect(addDays('2024-12-30', 3)).toBe('2025-01-02');
+    });
+
+    it('subtracts days with a negative count', () => {
+      expect(addDays(TEST_DATE, -20)).toBe('2025-02-28');
+    });
+  });
+
+  describe('getDateRange', () => {
+    it('returns every date in an inclusive range', () => {
+      expect(getDateRange('2025-03-30', '2025-04-02')).toEqual([
+        '2025-03-30', '2025-03-31', '2025-04-01', '2025-04-02'
+      ]);
+    });
+
+    it('returns only the start date without a later end date', () => {
+      expect(getDateRange(TEST_DATE)).toEqual([TEST_DATE]);
+      expect(getDateRange(TEST_DATE, '')).toEqual([TEST_DATE]);
+      expect(getDateRange(TEST_DATE, '2025-03-01')).toEqual([TEST_DATE]);
+    });
+
+    it('caps the range at the maximum number of days', () => {
+      expect(getDateRange('2025-01-01', '2025-12-31')).toHaveLength(MAX_DATE_RANGE_DAYS);
+    });
+  });
+
+  describe('formatWeekday', () => {
+    it('returns the weekday name', () => {
+      expect(formatWeekday(parseDateString(TEST_DATE))).toBe('Thursday');
+    });
+  });
+
+  describe('isValidTimezone', () => {
+    it('accepts IANA timezones and rejects unknown ones', () => {
+      expect(isValidTimezone(LOS_ANGELES)).toBe(true);
+      expect(isValidTimezone('UTC')).toBe(true);
+      expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('convertToTimezone', () => {
+    it('converts a timestamp to the local date, time and abbreviation', () => {
+      expect(convertToTimezone('2025-01-14T01:00:00+00:00', LOS_ANGELES))
+        .toEqual({ date: '2025-01-13', time: '17:00', abbreviation: 'PST' });
+      expect(convertToTimezone('2025-07-14T00:30:00-04:00', 'America/New_York'))
+        .toEqual({ date: '2025-07-14', time: '00:30', abbreviation: 'EDT' });
+    });
+
+    it('returns null for an invalid timestamp', () => {
+      expect(convertToTimezone('not a date', 'UTC')).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,106 @@
+/**
+ * Tests for Discord embed utilities
+ */
+import { describe, expect, it } from '@jest/globals';
+import type { DiscordEmbed, DiscordEmbedField } from '../../interfaces/discordClient.js';
+import {
+  createDiscordMessages,
+  DISCORD_LIMITS,
+  splitFieldValue
+} from '../../utils/discordUtils.js';
+
+const TITLE = 'TV Shows for 2025-01-13';
+const FOOTER = 'Data provided by TVMaze API';
+const EMPTY_TEXT = 'No shows found';
+
+/**
+ * Count the characters of an embed toward the per-message limit
+ * @param embed Embed to measure
+ */
+const getEmbedLength = (embed: DiscordEmbed): number =>
+  (embed.title?.length ?? 0) +
+  (embed.description?.length ?? 0) +
+  (embed.footer?.text.length ?? 0) +
+  (embed.fields ?? []).reduce((sum, field) => sum + field.name.length + field.value.length, 0);
+
+/**
+ * Create fields with values of the given length
+ * @param count Number of fields
+ * @param valueLength Characters per value
+ */
+const createFields = (count: number, valueLength: number): DiscordEmbedField[] =>
+  Array.from({ length: count }, (_, index) => ({
+    name: `Network ${index}`,
+    value: 'x'.repeat(valueLength)
+  }));
+
+describe('discordUtils', () => {
+  describe('splitFieldValue', () => {
+    it('keeps lines whole and within the limit', () => {
+      expect(splitFieldValue(['aaaa', 'bbbb', 'cccc'], 10)).toEqual(['aaaa\nbbbb', 'cccc']);
+    });
+
+    it('truncates single lines longer than the limit', () => {
+      expect(splitFieldValue(['a'.repeat(12)], 10)).toEqual([`${'a'.repeat(9)}…`]);
+    });
+
+    it('returns no values for no lines', () => {
+      expect(splitFieldValue([])).toEqual([]);
+    });
+  });
+
+  describe('createDiscordMessages', () => {
+    it('posts one embed with the title, fields and footer', () => {
+      const fields = createFields(2, 20);
+
+      expect(createDiscordMessages(TITLE, fields, FOOTER, EMPTY_TEXT)).toEqual([{
+        embeds: [{
+          fields,
+          title: TITLE,
+          color: expect.any(Number),
+          footer: { text: FOOTER }
+        }]
+      }]);
+    });
+
+    it('describes an empty schedule', () => {
+      const [message] = createDiscordMessages(TITLE, [], FOOTER, EMPTY_TEXT);
+
+      expect(message.embeds?.[0]).toMatchObject({ title: TITLE, description: EMPTY_TEXT });
+    });
+
+    it('splits more than 25 fields into several embeds', () => {
+      const messages = createDiscordMessages(TITLE, createFields(30, 10), FOOTER, EMPTY_TEXT);
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0].embeds?.map(embed => embed.fields?.length)).toEqual([25, 5]);
+      expect(messages[0].embeds?.[1].title).toBeUndefined();
+    });
+
+    it('splits fields over messages within the character limit', () => {
+      const messages = createDiscordMessages(TITLE, createFields(20, 1000), FOOTER, EMPTY_TEXT);
+      const embeds = messages.flatMap(message => message.embeds ?? []);
+
+      expect(messages.length).toBeGreaterThan(1);
+      expect(messages.every(message =>
+        (message.embeds ?? []).reduce((sum, embed) => sum + getEmbedLength(embed), 0) <=
+          DISCORD_LIMITS.embedCharactersPerMessage
+      )).toBe(true);
+      expect(messages.every(message => message.embeds?.[0].title === TITLE)).toBe(true);
+      expect(embeds.flatMap(embed => embed.fields ?? [])).toHaveLength(20);
+      expect(embeds.at(-1)?.footer?.text).toBe(FOOTER);
+      expect(embeds.filter(embed => embed.footer !== undefined)).toHaveLength(1);
+    });
+
+    it('truncates field names and values over their limits', () => {
+      const [message] = createDiscordMessages(TITLE, [{
+        name: 'n'.repeat(300),
+        value: 'v'.repeat(2000)
+      }], FOOTER, EMPTY_TEXT);
+      const field = message.embeds?.[0].fields?.[0];
+
+      expect(field?.name).toHaveLength(DISCORD_LIMITS.fieldName);
+      expect(field?.value).toHaveLength(DISCORD_LIMITS.fieldValue);
+    });
+  });
+});
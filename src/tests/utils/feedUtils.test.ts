@@ -0,0 +1,137 @@
+/**
+ * Tests for Atom and RSS feed utilities
+ */
+import { describe, expect, it } from '@jest/globals';
+import {
+  createDayEntry,
+  createEpisodeEntry,
+  createFeed,
+  type FeedEntry,
+  mergeFeedEntries,
+  readFeedEntries,
+  renderFeedEntry
+} from '../../utils/feedUtils.js';
+import { ShowBuilder } from '../fixtures/helpers/showFixtureBuilder.js';
+
+const MONDAY = '2025-01-13';
+const UPDATED = new Date('2025-01-13T12:00:00Z');
+
+const survivor = new ShowBuilder({
+  airstamp: '2025-01-14T01:00:00+00:00',
+  episodeUrl: 'https://www.tvmaze.com/episodes/3'
+})
+  .withId(7).withName('Survivor').withNetwork('CBS').withEpisode(47, 3)
+  .withEpisodeName('Tribal <Council>').withAirdate(MONDAY).withAirtime('20:00')
+  .withSummary('<p>Someone is voted out.</p>').build();
+
+/**
+ * Create an entry published at the given time
+ * @param id Entry GUID
+ * @param published Publication time
+ */
+const entryAt = (id: string, published: string): FeedEntry => ({
+  id,
+  title: id,
+  published: new Date(published),
+  html: '<p>Content</p>'
+});
+
+describe('feedUtils', () => {
+  describe('createEpisodeEntry', () => {
+    it('builds a stable GUID from the show ID, season and episode number', () => {
+      const entry = createEpisodeEntry(survivor, MONDAY, 'CBS');
+
+      expect(entry.id).toBe('urn:whatsontv:whatsontv-7-s47e3');
+      expect(entry.title).toBe('Survivor S47E03');
+      expect(entry.link).toBe('https://www.tvmaze.com/episodes/3');
+    });
+
+    it('publishes at the airstamp and escapes the content', () => {
+      const entry = createEpisodeEntry(survivor, MONDAY, 'CBS');
+
+      expect(entry.published.toISOString()).toBe('2025-01-14T01:00:00.000Z');
+      expect(entry.html).toContain('<p>CBS · 8:00 PM · Scripted</p>');
+      expect(entry.html).toContain('<em>Tribal &lt;Council&gt;</em>');
+      expect(entry.html).toContain('<p>Someone is voted out.</p>');
+    });
+
+    it('publishes at the start of the airdate without an airtime', () => {
+      const show = new ShowBuilder().withAirdate(null).withAirtime(null).build();
+
+      expect(createEpisodeEntry(show, MONDAY, 'CBS').published.toISOString())
+        .toBe('2025-01-13T00:00:00.000Z');
+    });
+  });
+
+  describe('createDayEntry', () => {
+    it('lists the day by network with a GUID built from the date', () => {
+      const entry = createDayEntry(MONDAY, { CBS: [survivor] });
+
+      expect(entry.id).toBe('urn:whatsontv:day-2025-01-13');
+      expect(entry.title).toBe('TV Shows for Monday, 2025-01-13');
+      expect(entry.html).toBe('<h3>CBS</h3><ul><li>8:00 PM Survivor S47E03</li></ul>');
+    });
+
+    it('notes days without shows', () => {
+      expect(createDayEntry(MONDAY, {}).html).toContain('No shows found');
+    });
+  });
+
+  describe('createFeed', () => {
+    it('writes an Atom feed with escaped entry content', () => {
+      const entry = renderFeedEntry(createEpisodeEntry(survivor, MONDAY, 'CBS'), 'atom');
+      const feed = createFeed('atom', { title: 'My TV', updated: UPDATED }, [entry]);
+
+      expect(feed).toMatch(/^<\?xml version="1.0" encoding="utf-8"\?>\n<feed /);
+      expect(feed).toContain('<updated>2025-01-13T12:00:00.000Z</updated>');
+      expect(feed).toContain('<id>urn:whatsontv:whatsontv-7-s47e3</id>');
+      expect(feed).toContain('<content type="html">&lt;p&gt;CBS');
+      expect(feed).toContain('<link href="https://www.tvmaze.com/episodes/3"/>');
+    });
+
+    it('writes an RSS 2.0 feed with GUIDs that are not permalinks', () => {
+      const entry = renderFeedEntry(createEpisodeEntry(survivor, MONDAY, 'CBS'), 'rss');
+      const link = 'https://example.com/feed.xml';
+      const feed = createFeed('rss', { link, title: 'My TV', updated: UPDATED }, [entry]);
+
+      expect(feed).toContain(`<link>${link}</link>`);
+      expect(feed).toContain(
+        '<guid isPermaLink="false">urn:whatsontv:whatsontv-7-s47e3</guid>'
+      );
+      expect(feed).toContain('<pubDate>Tue, 14 Jan 2025 01:00:00 GMT</pubDate>');
+    });
+  });
+
+  describe('readFeedEntries', () => {
+    it.each(['atom', 'rss'] as const)('reads back the entries of a %s feed', format => {
+      const entries = [
+        renderFeedEntry(entryAt('urn:a&b', '2025-01-13T20:00:00Z'), format),
+        renderFeedEntry(entryAt('urn:c', '2025-01-12T20:00:00Z'), format)
+      ];
+      const feed = createFeed(format, { title: 'My TV', updated: UPDATED }, entries);
+
+      expect(readFeedEntries(feed, format)).toEqual(entries);
+    });
+  });
+
+  describe('mergeFeedEntries', () => {
+    it('replaces entries by GUID, drops old ones and sorts newest first', () => {
+      const cutoff = new Date('2025-01-10T00:00:00Z');
+      const updated = entryAt('urn:updated', '2025-01-12T00:00:00Z');
+      const existing = [
+        entryAt('urn:kept', '2025-01-11T00:00:00Z'),
+        entryAt('urn:expired', '2025-01-01T00:00:00Z'),
+        { ...updated, title: 'Old' }
+      ].map(entry => renderFeedEntry(entry, 'atom'));
+      const entries = [
+        { ...updated, title: 'New' },
+        entryAt('urn:new', '2025-01-13T00:00:00Z')
+      ].map(entry => renderFeedEntry(entry, 'atom'));
+
+      const merged = mergeFeedEntries(entries, existing, cutoff);
+
+      expect(merged.map(entry => entry.id)).toEqual(['urn:new', 'urn:updated', 'urn:kept']);
+      expect(merged[1].xml).toContain('<title>New</title>');
+    });
+  });
+});
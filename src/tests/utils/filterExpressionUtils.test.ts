@@ -0,0 +1,123 @@
+/**
+ * Tests for the filter expression language
+ */
+import { describe, it, expect } from '@jest/globals';
+import {
+  filterByExpression,
+  isFilterExpressionMatch,
+  parseFilterExpression
+} from '../../utils/filterExpressionUtils.js';
+import { ShowBuilder } from '../fixtures/helpers/showFixtureBuilder.js';
+
+const DRAMA_ON_HBO = 'genre:Drama and network:HBO';
+
+describe('Filter Expression Utils', () => {
+  describe('parseFilterExpression', () => {
+    it('should bind "and" tighter than "or"', () => {
+      expect(parseFilterExpression('type:Reality or genre:Drama and network:HBO')).toEqual({
+        kind: 'or',
+        left: { kind: 'term', field: 'type', value: 'Reality' },
+        right: {
+          kind: 'and',
+          left: { kind: 'term', field: 'genre', value: 'Drama' },
+          right: { kind: 'term', field: 'network', value: 'HBO' }
+        }
+      });
+    });
+
+    it('should read groups, "not", quoted values and any keyword case', () => {
+      expect(parseFilterExpression(String.raw`NOT (Network:"Paramount \"Plus\"" OR name:news)`))
+        .toEqual({
+          kind: 'not',
+          operand: {
+            kind: 'or',
+            left: { kind: 'term', field: 'network', value: 'Paramount "Plus"' },
+            right: { kind: 'term', field: 'name', value: 'news' }
+          }
+        });
+    });
+
+    it('should accept keywords as values', () => {
+      expect(parseFilterExpression('name:and')).toEqual({
+        kind: 'term', field: 'name', value: 'and'
+      });
+    });
+
+    it('should point at the position of a syntax error', () => {
+      expect(() => parseFilterExpression('genre:Drama and')).toThrow(
+        'Invalid filter: expected field:value, found end of filter at position 16\n' +
+        '  genre:Drama and\n' +
+        '                 ^'
+      );
+    });
+
+    it.each([
+      ['', 'expression is empty'],
+      ['genre:Drama network:HBO', 'expected "and" or "or", found "network"'],
+      ['(genre:Drama', 'expected ")" to close the "(" at position 1, found end of filter'],
+      ['genre:Drama)', 'unexpected ")" without a matching "("'],
+      ['genr:Drama', 'unknown field "genr"; expected one of name, type, network'],
+      ['Drama', 'expected field:value, found "Drama"'],
+      ['genre Drama', 'expected ":" after "genre"'],
+      ['genre:', 'expected a value after "genre:"'],
+      ['network:"HBO', 'unterminated quoted value'],
+      ['channel:satellite', 'unknown channel "satellite"']
+    ])('should reject %j', (source, message) => {
+      expect(() => parseFilterExpression(source)).toThrow(message);
+    });
+  });
+
+  describe('isFilterExpressionMatch', () => {
+    const show = new ShowBuilder()
+      .withName('The Last of Us')
+      .withType('Scripted')
+      .withNetwork('HBO (US)')
+      .withGenres(['Drama', 'Horror'])
+      .withLanguage('English')
+      .withChannelKind('cable')
+      .build();
+
+    it.each([
+      ['name:"last of"', true],
+      ['type:scripted', true],
+      ['network:hbo', true],
+      ['genre:horror', true],
+      ['language:English', true],
+      ['channel:linear', true],
+      ['channel:streaming', false],
+      [DRAMA_ON_HBO, true],
+      ['genre:Comedy or not network:HBO', false]
+    ])('should evaluate %j as %s', (source, isExpected) => {
+      expect(isFilterExpressionMatch(show, parseFilterExpression(source))).toBe(isExpected);
+    });
+
+    it('should resolve network aliases on both sides', () => {
+      const maxShow = new ShowBuilder().withNetwork('Max').build();
+
+      expect(isFilterExpressionMatch(maxShow, parseFilterExpression('network:"HBO Max"')))
+        .toBe(true);
+    });
+  });
+
+  describe('filterByExpression', () => {
+    const shows = [
+      new ShowBuilder().withId(1).withGenres(['Drama']).withNetwork('HBO').build(),
+      new ShowBuilder().withId(2).withType('Reality').withNetwork('Bravo').build(),
+      new ShowBuilder().withId(3).withGenres(['Drama']).withNetwork('Bravo').build()
+    ];
+
+    it('should keep the shows that match', () => {
+      const result = filterByExpression(
+        shows,
+        `(${DRAMA_ON_HBO}) or (type:Reality and network:Bravo)`
+      );
+
+      expect(result.map(show => show.id)).toEqual([1, 2]);
+    });
+
+    it('should keep every show without an expression', () => {
+      expect(filterByExpression(shows, undefined)).toBe(shows);
+      expect(filterByExpression(shows, '  ')).toBe(shows);
+    });
+  });
+});
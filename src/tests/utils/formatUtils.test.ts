@@ -2,11 +2,15 @@ import {
   formatNetworkName, 
   formatShowType, 
   formatEpisodeInfo, 
+  formatRuntime,
   hasAirtime,
   allShowsHaveNoAirtime,
   prepareShowComponents,
   groupShowsByShowId,
-  formatNetworkHeader
+  formatNetworkHeader,
+  formatSearchResults,
+  formatDiscoverCategories,
+  formatBadges
 } from '../../utils/formatUtils.js';
 import { Show } from '../../schemas/domain.js';
 import { ShowBuilder } from '../fixtures/helpers/showFixtureBuilder.js';
@@ -111,6 +115,18 @@ describe('formatUtils', () => {
     });
   });
 
+  describe('formatRuntime', () => {
+    it('should format a runtime in minutes', () => {
+      expect(formatRuntime(60)).toBe('60 min');
+    });
+
+    it('should return empty string for missing or zero runtime', () => {
+      expect(formatRuntime(null)).toBe('');
+      expect(formatRuntime(undefined)).toBe('');
+      expect(formatRuntime(0)).toBe('');
+    });
+  });
+
   describe('hasAirtime', () => {
     it('should return true for show with airtime', () => {
       const show = ShowBuilder.createTestShow({
@@ -358,4 +374,77 @@ describe('formatUtils', () => {
       expect(separator).toBe(NETWORK_HEADER_SEPARATOR);
     });
   });
+
+  describe('formatSearchResults', () => {
+    it('should align columns under a header row', () => {
+      const lines = formatSearchResults([
+        {
+          id: 44_933, name: 'Severance', score: 0.9, network: 'Apple TV+',
+          type: 'Scripted', language: 'English', status: 'Running', premiereYear: 2022,
+          url: null
+        },
+        {
+          id: 7, name: 'Lost', score: 0.45, network: 'ABC',
+          type: 'Scripted', language: 'English', status: null, premiereYear: null,
+          url: null
+        }
+      ]);
+
+      expect(lines).toEqual([
+        'ID     Score  Name       Network    Status   Premiered',
+        '44933  0.90   Severance  Apple TV+  Running  2022',
+        '7      0.45   Lost       ABC        -        -'
+      ]);
+    });
+
+    it('should return only the header for no results', () => {
+      expect(formatSearchResults([])).toHaveLength(1);
+    });
+  });
+
+  describe('formatDiscoverCategories', () => {
+    it('should list each category with aligned counts and config markers', () => {
+      const lines = formatDiscoverCategories({
+        networks: [
+          { name: 'CBS', count: 12, isConfigMatch: true },
+          { name: 'Netflix', count: 3, isConfigMatch: false }
+        ],
+        genres: [],
+        types: [{ name: 'Scripted', count: 15, isConfigMatch: true }],
+        languages: [{ name: 'English', count: 15, isConfigMatch: true }]
+      });
+
+      expect(lines).toEqual([
+        'Networks (2):',
+        '* CBS      12',
+        '  Netflix   3',
+        '',
+        'Genres (0):',
+        '',
+        'Types (1):',
+        '* Scripted  15',
+        '',
+        'Languages (1):',
+        '* English  15',
+        '',
+        '* kept by the current config'
+      ]);
+    });
+  });
+
+  describe('formatBadges', () => {
+    it('should format unique badges in episode order', () => {
+      const shows = [
+        new ShowBuilder().withEpisode(2, 1).withBadge('seasonPremiere').build(),
+        new ShowBuilder().withEpisode(2, 2).build(),
+        new ShowBuilder().withEpisode(2, 3).withBadge('seasonFinale').build()
+      ];
+
+      expect(formatBadges(shows)).toBe('🆕 Season Premiere 🏁 Season Finale');
+    });
+
+    it('should return an empty string without badges', () => {
+      expect(formatBadges([new ShowBuilder().build()])).toBe('');
+    });
+  });
 });
@@ -0,0 +1,100 @@
+/**
+ * Tests for iCalendar utilities
+ */
+import { Buffer } from 'node:buffer';
+import { describe, expect, it } from '@jest/globals';
+import {
+  createIcsCalendar,
+  createIcsEvent,
+  escapeIcsText,
+  foldIcsLine,
+  ICS_PRODUCT_ID
+} from '../../utils/icsUtils.js';
+import { ShowBuilder } from '../fixtures/helpers/showFixtureBuilder.js';
+
+const TIMESTAMP = new Date('2025-01-13T12:00:00Z');
+const MONDAY = '2025-01-13';
+
+describe('icsUtils', () => {
+  describe('escapeIcsText', () => {
+    it('escapes backslashes, semicolons, commas and newlines', () => {
+      expect(escapeIcsText('a\\b; c, d\ne')).toBe(String.raw`a\\b\; c\, d\ne`);
+    });
+  });
+
+  describe('foldIcsLine', () => {
+    it('keeps short lines unchanged', () => {
+      expect(foldIcsLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+    });
+
+    it('folds at 75 octets without splitting multi-byte characters', () => {
+      const folded = foldIcsLine(`DESCRIPTION:${'é'.repeat(80)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines).toHaveLength(3);
+      expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+      expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+      expect(lines.map((line, index) => index === 0 ? line : line.slice(1)).join(''))
+        .toBe(`DESCRIPTION:${'é'.repeat(80)}`);
+    });
+  });
+
+  describe('createIcsEvent', () => {
+    it('uses the airstamp and runtime for timed episodes', () => {
+      const show = new ShowBuilder()
+        .withId(7).withName('Survivor').withEpisode(47, 3)
+        .withAirtime('20:00').withRuntime(90)
+        .withSummary('<p>Castaways, <i>again</i>.</p>')
+        .build();
+      const event = createIcsEvent(
+        { ...show, airstamp: '2025-01-14T01:00:00+00:00', episodeUrl: 'https://tvmaze.com/e/1' },
+        MONDAY,
+        TIMESTAMP
+      );
+
+      expect(event).toEqual(expect.arrayContaining([
+        'UID:whatsontv-7-s47e3',
+        'DTSTAMP:20250113T120000Z',
+        'DTSTART:20250114T010000Z',
+        'DTEND:20250114T023000Z',
+        'SUMMARY:Survivor S47E03',
+        String.raw`DESCRIPTION:Castaways\, again.\n\nhttps://tvmaze.com/e/1`,
+        'URL:https://tvmaze.com/e/1'
+      ]));
+    });
+
+    it('makes untimed episodes all-day events on their airdate', () => {
+      const show = new ShowBuilder()
+        .withAirtime(null).withAirdate('2025-01-31').withSummary(null).build();
+      const event = createIcsEvent(show, MONDAY, TIMESTAMP);
+
+      expect(event).toContain('DTSTART;VALUE=DATE:20250131');
+      expect(event).toContain('DTEND;VALUE=DATE:20250201');
+      expect(event.some(line => line.startsWith('DESCRIPTION:'))).toBe(false);
+    });
+  });
+
+  describe('createIcsCalendar', () => {
+    it('wraps one event per episode in a calendar with CRLF line breaks', () => {
+      const shows = [
+        new ShowBuilder().withId(1).withAirtime(null).build(),
+        new ShowBuilder().withId(2).withAirtime(null).build()
+      ];
+      const calendar = createIcsCalendar(shows, {
+        name: 'WhatsOnTV 2025-01-13',
+        fallbackDate: MONDAY,
+        timestamp: TIMESTAMP
+      });
+      const lines = calendar.split('\r\n');
+
+      expect(lines.slice(0, 3)).toEqual([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${ICS_PRODUCT_ID}`
+      ]);
+      expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(2);
+      expect(lines.at(-2)).toBe('END:VCALENDAR');
+      expect(lines.at(-1)).toBe('');
+    });
+  });
+});
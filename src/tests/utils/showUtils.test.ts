@@ -6,15 +6,29 @@ import { jest, describe, it, expect } from '@jest/globals';
 // Import the functions to test
 import {
   groupShowsByNetwork,
+  groupShowsByDay,
   sortShowsByTime,
   filterByType,
   filterByNetwork,
   filterByGenre,
-  filterByLanguage
+  filterByLanguage,
+  isFollowedShow,
+  getPremiereBadge,
+  getEpisodeKey,
+  normalizeNetworkName,
+  filterByChannelKind,
+  groupNetworksByChannelKind,
+  isInAirtimeWindow,
+  filterByAirtime,
+  summarizeShowCategories
 } from '../../utils/showUtils.js';
 import { getTodayDate } from '../../utils/dateUtils.js';
 import { ShowBuilder, ShowFixtures } from '../fixtures/helpers/showFixtureBuilder.js';
 
+const MONDAY = '2025-01-13';
+const TUESDAY = '2025-01-14';
+const WEDNESDAY = '2025-01-15';
+
 describe('ShowUtils', () => {
   describe('getTodayDate', () => {
     it('returns date in YYYY-MM-DD format', () => {
@@ -114,6 +128,186 @@ describe('ShowUtils', () => {
       expect(huluShows).toEqual(['Show 1', 'Show 2']);
       expect(result.Netflix[0].name).toBe('Show 3');
     });
+
+    it('keeps country codes when requested', () => {
+      const shows = [
+        new ShowBuilder().withName('Show 1').withNetwork('Hulu (JP)').build(),
+        new ShowBuilder().withName('Show 2').withNetwork('Hulu').build()
+      ];
+
+      const result = groupShowsByNetwork(shows, true);
+
+      expect(Object.keys(result)).toEqual(['Hulu (JP)', 'Hulu']);
+    });
+
+    it('groups network aliases under the canonical name', () => {
+      const shows = [
+        new ShowBuilder().withName('Show 1').withNetwork('HBO Max').build(),
+        new ShowBuilder().withName('Show 2').withNetwork('Max').build(),
+        new ShowBuilder().withName('Show 3').withNetwork('Showcase (CA)').build()
+      ];
+
+      const result = groupShowsByNetwork(shows, true, { showcase: 'Max' });
+
+      expect(Object.keys(result)).toEqual(['Max', 'Max (CA)']);
+      expect(result.Max).toHaveLength(2);
+    });
+  });
+
+  describe('groupNetworksByChannelKind', () => {
+    it('orders sections broadcast, cable, streaming, then unknown', () => {
+      const netflixShow = new ShowBuilder().withChannelKind('streaming').build();
+      const nbcShow = new ShowBuilder().withChannelKind('broadcast').build();
+      const guideShow = new ShowBuilder().withChannelKind(null).build();
+
+      const sections = groupNetworksByChannelKind({
+        Netflix: [netflixShow],
+        Guide: [guideShow],
+        NBC: [nbcShow]
+      });
+
+      expect(sections.map(section => [section.title, Object.keys(section.networkGroups)]))
+        .toEqual([
+          ['Broadcast', ['NBC']],
+          ['Streaming', ['Netflix']],
+          ['Other', ['Guide']]
+        ]);
+    });
+  });
+
+  describe('filterByChannelKind', () => {
+    const shows = [
+      new ShowBuilder().withId(1).withChannelKind('broadcast').build(),
+      new ShowBuilder().withId(2).withChannelKind('cable').build(),
+      new ShowBuilder().withId(3).withChannelKind('streaming').build(),
+      new ShowBuilder().withId(4).withChannelKind(null).build()
+    ];
+
+    it('keeps broadcast and cable shows for linear channels', () => {
+      expect(filterByChannelKind(shows, 'linear').map(show => show.id)).toEqual([1, 2]);
+    });
+
+    it('keeps streaming shows for streaming channels', () => {
+      expect(filterByChannelKind(shows, 'streaming').map(show => show.id)).toEqual([3]);
+    });
+
+    it('keeps every show, including unknown channels, for all channels', () => {
+      expect(filterByChannelKind(shows, 'all')).toHaveLength(4);
+    });
+  });
+
+  describe('isInAirtimeWindow', () => {
+    it('includes both bounds of a same-day window', () => {
+      const window = { minAirtime: '18:00', maxAirtime: '23:00' };
+      expect(isInAirtimeWindow('18:00', window)).toBe(true);
+      expect(isInAirtimeWindow('23:00', window)).toBe(true);
+      expect(isInAirtimeWindow('23:01', window)).toBe(false);
+      expect(isInAirtimeWindow('17:59', window)).toBe(false);
+    });
+
+    it('wraps midnight when the minimum is later than the maximum', () => {
+      const window = { minAirtime: '20:00', maxAirtime: '02:00' };
+      expect(isInAirtimeWindow('23:35', window)).toBe(true);
+      expect(isInAirtimeWindow('00:30', window)).toBe(true);
+      expect(isInAirtimeWindow('02:30', window)).toBe(false);
+      expect(isInAirtimeWindow('19:00', window)).toBe(false);
+    });
+
+    it('supports open-ended windows and ignores invalid bounds', () => {
+      expect(isInAirtimeWindow('01:00', { maxAirtime: '02:00' })).toBe(true);
+      expect(isInAirtimeWindow('03:00', { maxAirtime: '02:00' })).toBe(false);
+      expect(isInAirtimeWindow('03:00', { minAirtime: 'late', maxAirtime: '' })).toBe(true);
+    });
+  });
+
+  describe('filterByAirtime', () => {
+    const shows = [
+      new ShowBuilder().withId(1).withNetwork('NBC').withAirtime('20:00').build(),
+      new ShowBuilder().withId(2).withNetwork('NBC').withAirtime('23:35').build(),
+      new ShowBuilder().withId(3).withNetwork('CBS').withAirtime('23:35').build(),
+      new ShowBuilder().withId(4).withNetwork('HBO Max').withAirtime(null).build()
+    ];
+    const primetime = { minAirtime: '18:00', maxAirtime: '23:00' };
+
+    it('applies the global window and keeps untimed shows by default', () => {
+      expect(filterByAirtime(shows, primetime).map(show => show.id)).toEqual([1, 4]);
+    });
+
+    it('uses per-network windows instead of the global window', () => {
+      const result = filterByAirtime(shows, {
+        ...primetime,
+        networkAirtimes: { nbc: { minAirtime: '20:00', maxAirtime: '01:00' } }
+      });
+
+      expect(result.map(show => show.id)).toEqual([1, 2, 4]);
+    });
+
+    it('drops untimed shows when includeUntimed is false', () => {
+      const result = filterByAirtime(shows, { ...primetime, includeUntimed: false });
+
+      expect(result.map(show => show.id)).toEqual([1]);
+    });
+
+    it('matches per-network windows through network aliases', () => {
+      const result = filterByAirtime(shows, {
+        minAirtime: '21:00',
+        networkAirtimes: { Network: { minAirtime: '18:00' } },
+        networkAliases: { nbc: 'Network' }
+      });
+
+      expect(result.map(show => show.id)).toEqual([1, 2, 3, 4]);
+    });
+  });
+
+  describe('summarizeShowCategories', () => {
+    const shows = [
+      new ShowBuilder().withNetwork('HBO Max').withType('Scripted')
+        .withGenres(['Drama', 'Fantasy']).withLanguage('English').build(),
+      new ShowBuilder().withNetwork('Max').withType('Scripted')
+        .withGenres(['Drama']).withLanguage('English').build(),
+      new ShowBuilder().withNetwork('Bravo').withType('Reality')
+        .withGenres([]).withLanguage(null).build()
+    ];
+
+    it('counts episodes per value, most first, with network aliases applied', () => {
+      const categories = summarizeShowCategories(shows, {});
+
+      expect(categories.networks).toEqual([
+        { name: 'Max', count: 2, isConfigMatch: true },
+        { name: 'Bravo', count: 1, isConfigMatch: true }
+      ]);
+      expect(categories.genres.map(entry => [entry.name, entry.count]))
+        .toEqual([['Drama', 2], ['Fantasy', 1]]);
+      expect(categories.types.map(entry => entry.name)).toEqual(['Scripted', 'Reality']);
+      expect(categories.languages.map(entry => entry.name)).toEqual(['English']);
+    });
+
+    it('marks the values the config filters keep', () => {
+      const categories = summarizeShowCategories(shows, {
+        networks: ['hbo max'],
+        genres: ['fantasy'],
+        types: ['Reality']
+      });
+
+      expect(categories.networks.map(entry => entry.isConfigMatch)).toEqual([true, false]);
+      expect(categories.genres.map(entry => entry.isConfigMatch)).toEqual([false, true]);
+      expect(categories.types.map(entry => entry.isConfigMatch)).toEqual([false, true]);
+    });
+  });
+
+  describe('normalizeNetworkName', () => {
+    it('maps built-in aliases regardless of case', () => {
+      expect(normalizeNetworkName('paramount plus')).toBe('Paramount+');
+      expect(normalizeNetworkName('Netflix')).toBe('Netflix');
+    });
+
+    it('keeps the country code suffix', () => {
+      expect(normalizeNetworkName('Disney Plus (GB)')).toBe('Disney+ (GB)');
+    });
+
+    it('lets configured aliases override built-in ones', () => {
+      expect(normalizeNetworkName('HBO Max', { 'hbo max': 'HBO' })).toBe('HBO');
+    });
   });
   
   describe('sortShowsByTime', () => {
@@ -168,6 +362,51 @@ describe('ShowUtils', () => {
     });
   });
   
+  describe('isFollowedShow', () => {
+    const show = new ShowBuilder().withId(42).withName('The Office').build();
+
+    it('should match by TVMaze ID', () => {
+      expect(isFollowedShow(show, [7, 42])).toBe(true);
+    });
+
+    it('should match by name ignoring case and surrounding spaces', () => {
+      expect(isFollowedShow(show, [' the office '])).toBe(true);
+    });
+
+    it('should not match partial names or numeric-looking names as IDs', () => {
+      expect(isFollowedShow(show, ['Office', '42'])).toBe(false);
+      expect(isFollowedShow(show, [])).toBe(false);
+    });
+  });
+
+  describe('getPremiereBadge', () => {
+    it('should detect series and season premieres from the episode number', () => {
+      expect(getPremiereBadge(new ShowBuilder().withEpisode(1, 1).build())).toBe('seriesPremiere');
+      expect(getPremiereBadge(new ShowBuilder().withEpisode(3, 1).build())).toBe('seasonPremiere');
+    });
+
+    it('should return null for other episodes', () => {
+      expect(getPremiereBadge(new ShowBuilder().withEpisode(1, 2).build())).toBeNull();
+      expect(getPremiereBadge(new ShowBuilder().withEpisode(0, 1).build())).toBeNull();
+    });
+  });
+
+  describe('getEpisodeKey', () => {
+    it('should key numbered episodes by show, season and episode', () => {
+      const show = new ShowBuilder().withId(7).withEpisode(2, 3).build();
+
+      expect(getEpisodeKey(show)).toBe('7-s2e3');
+    });
+
+    it('should key unnumbered programmes by their start', () => {
+      const monday = new ShowBuilder().withId(7).withEpisode(0, 0).withAirdate(MONDAY).build();
+      const tuesday = { ...monday, airdate: TUESDAY, airstamp: `${TUESDAY}T18:00:00-08:00` };
+
+      expect(getEpisodeKey(monday)).toBe(`7-${MONDAY}`);
+      expect(getEpisodeKey(tuesday)).toBe(`7-${TUESDAY}T18:00:00-08:00`);
+    });
+  });
+
   describe('filterByType', () => {
     it('should filter shows by type', () => {
       // Create test data with different types using ShowFixtures
@@ -271,4 +510,33 @@ describe('ShowUtils', () => {
       expect(nullLanguageShows).toHaveLength(0);
     });
   });
+
+  describe('groupShowsByDay', () => {
+    it('groups shows by airdate and then by network', () => {
+      const shows = [
+        new ShowBuilder().withId(1).withNetwork('ABC').withAirdate(MONDAY).build(),
+        new ShowBuilder().withId(2).withNetwork('NBC').withAirdate(TUESDAY).build(),
+        new ShowBuilder().withId(3).withNetwork('ABC').withAirdate(TUESDAY).build()
+      ];
+
+      const groups = groupShowsByDay(shows, [MONDAY, TUESDAY, WEDNESDAY]);
+
+      expect(Object.keys(groups)).toEqual([MONDAY, TUESDAY, WEDNESDAY]);
+      expect(groups[MONDAY].ABC.map(show => show.id)).toEqual([1]);
+      expect(Object.keys(groups[TUESDAY])).toEqual(expect.arrayContaining(['ABC', 'NBC']));
+      expect(groups[WEDNESDAY]).toEqual({});
+    });
+
+    it('places shows without a matching airdate on the first day', () => {
+      const shows = [
+        new ShowBuilder().withId(1).withNetwork('ABC').withAirdate(null).build(),
+        new ShowBuilder().withId(2).withNetwork('ABC').withAirdate('2024-12-31').build()
+      ];
+
+      const groups = groupShowsByDay(shows, [MONDAY, TUESDAY]);
+
+      expect(groups[MONDAY].ABC).toHaveLength(2);
+      expect(groups[TUESDAY]).toEqual({});
+    });
+  });
 });
@@ -12,7 +12,10 @@ import {
   truncateString,
   formatListWithSeparator,
   wrapText,
-  createSeparator
+  createSeparator,
+  stripHtml,
+  escapeMarkdown,
+  redactUrl
 } from '../../utils/stringUtils.js';
 
 describe('stringUtils', () => {
@@ -303,4 +306,49 @@ describe('stringUtils', () => {
       expect(createSeparator(10, '-')).toBe('----------');
     });
   });
+
+  describe('stripHtml', () => {
+    it('should drop tags and turn paragraphs and line breaks into newlines', () => {
+      expect(stripHtml('<p>First <b>bold</b> line.</p><p>Second<br/>line</p>'))
+        .toBe('First bold line.\nSecond\nline');
+    });
+
+    it('should decode common and numeric entities', () => {
+      expect(stripHtml('Tom &amp; Jerry&#39;s &quot;show&quot; &hellip;'))
+        .toBe('Tom & Jerry\'s "show" &hellip;');
+    });
+
+    it('should return an empty string for missing values', () => {
+      expect(stripHtml(null)).toBe('');
+    });
+  });
+
+  describe('escapeMarkdown', () => {
+    it('should escape emphasis, links, tags and table pipes', () => {
+      expect(escapeMarkdown('*Love* [Island] <US> | _After_'))
+        .toBe(String.raw`\*Love\* \[Island\] \<US\> \| \_After\_`);
+    });
+
+    it('should leave plain text unchanged', () => {
+      expect(escapeMarkdown('Survivor 47')).toBe('Survivor 47');
+    });
+  });
+
+  describe('redactUrl', () => {
+    it('should remove IDs and tokens from webhook URLs', () => {
+      expect(redactUrl('https://discord.com/api/webhooks/123456789012345678/aB-c_dEf0123456'))
+        .toBe('https://discord.com/api/webhooks/<redacted>/<redacted>');
+      expect(redactUrl('https://hooks.slack.com/services/T0123ABC/B0123DEF/xoxTokenValue1'))
+        .toBe('https://hooks.slack.com/services/<redacted>/<redacted>/<redacted>');
+    });
+
+    it('should drop the query and fragment', () => {
+      expect(redactUrl('https://example.com/hooks/tv?token=secret#top'))
+        .toBe('https://example.com/hooks/tv');
+    });
+
+    it('should not echo a URL it cannot parse', () => {
+      expect(redactUrl('not a url with secret')).toBe('<redacted URL>');
+    });
+  });
 });
@@ -0,0 +1,82 @@
+/**
+ * Tests for Mustache-style template utilities
+ */
+import { describe, expect, it } from '@jest/globals';
+import { escapeJsonString, renderTemplate } from '../../utils/templateUtils.js';
+
+/**
+ * Render without escaping
+ * @param template Template text
+ * @param view Values the template refers to
+ */
+const render = (template: string, view: unknown): string =>
+  renderTemplate(template, view, text => text);
+
+describe('templateUtils', () => {
+  describe('renderTemplate', () => {
+    it('replaces variables, including nested names', () => {
+      expect(render('{{title}} ({{ options.country }})', {
+        title: 'TV Shows',
+        options: { country: 'US' }
+      })).toBe('TV Shows (US)');
+    });
+
+    it('renders missing values as empty and objects as JSON', () => {
+      expect(render('[{{missing}}] {{{options}}}', { options: { types: ['Scripted'] } }))
+        .toBe('[] {"types":["Scripted"]}');
+    });
+
+    it('escapes variables unless triple-braced or marked with &', () => {
+      const view = { name: 'Law & Order' };
+
+      expect(renderTemplate('{{name}}|{{{name}}}|{{& name}}', view, text => text.toUpperCase()))
+        .toBe('LAW & ORDER|Law & Order|Law & Order');
+    });
+
+    it('repeats sections for each item of a list, looking up names outward', () => {
+      const view = {
+        days: [
+          { date: 'Mon', networks: [{ network: 'CBS' }, { network: 'NBC' }] },
+          { date: 'Tue', networks: [] }
+        ],
+        separator: '/'
+      };
+
+      const template =
+        '{{#days}}{{date}}:{{#networks}}{{network}}{{separator}}{{/networks}} {{/days}}';
+
+      expect(render(template, view)).toBe('Mon:CBS/NBC/ Tue: ');
+    });
+
+    it('describes the position of list items', () => {
+      expect(render('[{{#items}}{{@index}}={{.}}{{^@last}},{{/@last}}{{/items}}]', {
+        items: ['a', 'b', 'c']
+      })).toBe('[0=a,1=b,2=c]');
+    });
+
+    it('renders sections for truthy values and inverted sections otherwise', () => {
+      const template = '{{#isFollowed}}★ {{/isFollowed}}{{name}}{{^episode}} (new){{/episode}}';
+
+      expect(render(template, { name: 'Severance', isFollowed: true, episode: '' }))
+        .toBe('★ Severance (new)');
+      expect(render(template, { name: 'Severance', isFollowed: false, episode: 'S02E01' }))
+        .toBe('Severance');
+    });
+
+    it('drops comments', () => {
+      expect(render('a{{! not rendered }}b', {})).toBe('ab');
+    });
+
+    it('rejects malformed templates', () => {
+      expect(() => render('{{#days}}', {})).toThrow('Unclosed section "days"');
+      expect(() => render('{{/days}}', {})).toThrow('Unexpected closing tag "days"');
+      expect(() => render('{{title', {})).toThrow('Unclosed tag at position 0');
+    });
+  });
+
+  describe('escapeJsonString', () => {
+    it('escapes text for use inside a JSON string', () => {
+      expect(escapeJsonString('"Quoted"\\\n')).toBe(String.raw`\"Quoted\"\\\n`);
+    });
+  });
+});
@@ -5,11 +5,15 @@ import { describe, it, expect, jest } from '@jest/globals';
 import { 
   getNetworkScheduleUrl, 
   getWebScheduleUrl,
+  getSearchShowsUrl,
+  getShowWithSeasonsUrl,
+  getFinaleBadge,
   isWebScheduleItem,
   transformScheduleItem,
   transformSchedule
 } from '../../utils/tvMazeUtils.js';
 import { Fixtures } from '../fixtures/index.js';
+import { ShowBuilder } from '../fixtures/helpers/showFixtureBuilder.js';
 import type { NetworkScheduleItem, WebScheduleItem } from '../../schemas/tvmaze.js';
 import { 
   networkScheduleToShowSchema, 
@@ -56,6 +60,43 @@ describe('TVMaze Utils', () => {
       const url = getWebScheduleUrl('');
       expect(url).toBe('https://api.tvmaze.com/schedule/web');
     });
+
+    it('should generate an encoded show search URL', () => {
+      const url = getSearchShowsUrl(' the office ');
+      expect(url).toBe('https://api.tvmaze.com/search/shows?q=the+office');
+    });
+
+    it('should generate a show URL with embedded seasons', () => {
+      expect(getShowWithSeasonsUrl(42)).toBe('https://api.tvmaze.com/shows/42?embed=seasons');
+    });
+  });
+
+  describe('getFinaleBadge', () => {
+    const seasons = [
+      { id: 1, number: 1, episodeOrder: 10 },
+      { id: 2, number: 2, episodeOrder: 8 },
+      { id: 3, number: 3, episodeOrder: null }
+    ];
+
+    it('should detect a season finale from the episode order', () => {
+      const show = new ShowBuilder().withEpisode(1, 10).build();
+      expect(getFinaleBadge(show, { status: 'Running', _embedded: { seasons } }))
+        .toBe('seasonFinale');
+    });
+
+    it('should detect a series finale in the last season of an ended show', () => {
+      const show = new ShowBuilder().withEpisode(2, 8).build();
+      const finishedSeasons = seasons.slice(0, 2);
+      expect(getFinaleBadge(show, { status: 'Ended', _embedded: { seasons: finishedSeasons } }))
+        .toBe('seriesFinale');
+    });
+
+    it('should return null for other episodes and unknown episode orders', () => {
+      const details = { status: 'Running', _embedded: { seasons } };
+      expect(getFinaleBadge(new ShowBuilder().withEpisode(1, 9).build(), details)).toBeNull();
+      expect(getFinaleBadge(new ShowBuilder().withEpisode(3, 6).build(), details)).toBeNull();
+      expect(getFinaleBadge(new ShowBuilder().withEpisode(1, 10).build(), {})).toBeNull();
+    });
   });
   
   describe('isWebScheduleItem', () => {
@@ -0,0 +1,167 @@
+/**
+ * Tests for XMLTV utility functions
+ */
+import { describe, it, expect } from '@jest/globals';
+import {
+  decodeXmlText,
+  getXmltvShowId,
+  getXmltvShowType,
+  parseEpisodeNumber,
+  parseXmltv,
+  parseXmltvTime,
+  transformGuide,
+  XMLTV_UNKNOWN_TYPE
+} from '../../utils/xmltvUtils.js';
+import { Fixtures } from '../fixtures/index.js';
+
+const XMLTV_NS = 'xmltv_ns';
+const NATURE = 'Nature';
+
+describe('XMLTV Utils', () => {
+  const guideXml = Fixtures.utils.loadFixtureString('xmltv/guide.xml');
+
+  describe('decodeXmlText', () => {
+    it('should decode named and numeric entities', () => {
+      expect(decodeXmlText('Law &amp; Order &#8211; SVU &#x2019;s')).toBe('Law & Order – SVU ’s');
+    });
+
+    it('should unwrap CDATA sections', () => {
+      expect(decodeXmlText(' <![CDATA[A <b>bold</b> move]]> ')).toBe('A <b>bold</b> move');
+    });
+  });
+
+  describe('parseXmltv', () => {
+    it('should read channels with their first display name', () => {
+      const guide = parseXmltv(guideXml);
+
+      expect(guide.channels).toEqual([
+        { id: 'KQED.us', displayName: 'KQED' },
+        { id: 'KTVU.us', displayName: 'KTVU' }
+      ]);
+    });
+
+    it('should read programme fields and skip programmes without a start', () => {
+      const guide = parseXmltv(guideXml);
+
+      expect(guide.programmes).toHaveLength(6);
+      expect(guide.programmes[0]).toEqual({
+        channel: 'KQED.us',
+        start: '20250113200000 -0800',
+        stop: '20250113210000 -0800',
+        title: NATURE,
+        subTitle: 'Penguins & Puffins',
+        desc: 'Seabirds <at> home.',
+        categories: ['Documentary', NATURE],
+        episodeNums: [
+          { system: XMLTV_NS, value: '42.4/10.0/1' },
+          { system: 'onscreen', value: 'S43E05' }
+        ],
+        length: null,
+        language: 'English',
+        url: 'https://example.com/nature/4305'
+      });
+    });
+
+    it('should return an empty guide for a document without listings', () => {
+      expect(parseXmltv('<tv></tv>')).toEqual({ channels: [], programmes: [] });
+    });
+  });
+
+  describe('parseXmltvTime', () => {
+    it('should keep the local time of the timestamp offset', () => {
+      expect(parseXmltvTime('20250113200000 -0800')).toEqual({
+        airdate: '2025-01-13',
+        airtime: '20:00',
+        airstamp: '2025-01-13T20:00:00-08:00'
+      });
+    });
+
+    it('should treat a timestamp without an offset as UTC', () => {
+      expect(parseXmltvTime('202501132030')?.airstamp).toBe('2025-01-13T20:30:00+00:00');
+    });
+
+    it('should return null for malformed timestamps', () => {
+      expect(parseXmltvTime('2025-01-13 20:00')).toBeNull();
+      expect(parseXmltvTime('20250113200000 PST')).toBeNull();
+    });
+  });
+
+  describe('parseEpisodeNumber', () => {
+    it('should convert zero-based xmltv_ns numbers', () => {
+      expect(parseEpisodeNumber([{ system: XMLTV_NS, value: ' 2 . 9/10 . 0/1 ' }]))
+        .toEqual({ season: 3, number: 10 });
+    });
+
+    it('should default to season 1 when xmltv_ns has no season', () => {
+      expect(parseEpisodeNumber([{ system: XMLTV_NS, value: '.4.' }]))
+        .toEqual({ season: 1, number: 5 });
+    });
+
+    it('should fall back to onscreen numbering', () => {
+      expect(parseEpisodeNumber([
+        { system: 'dd_progid', value: 'EP01234567.0012' },
+        { system: 'onscreen', value: 'S02 E11' }
+      ])).toEqual({ season: 2, number: 11 });
+    });
+
+    it('should return null when no episode number is known', () => {
+      expect(parseEpisodeNumber([])).toBeNull();
+      expect(parseEpisodeNumber([{ system: XMLTV_NS, value: '1..' }])).toBeNull();
+    });
+  });
+
+  describe('getXmltvShowId', () => {
+    it('should return the same positive ID for the same title in any case', () => {
+      const id = getXmltvShowId(NATURE);
+
+      expect(id).toBeGreaterThan(0);
+      expect(getXmltvShowId(' nature ')).toBe(id);
+      expect(getXmltvShowId('Natural Wonders')).not.toBe(id);
+    });
+  });
+
+  describe('getXmltvShowType', () => {
+    it('should use the first category that is a show type', () => {
+      expect(getXmltvShowType(['Drama', 'talk show', 'News'])).toBe('Talk Show');
+    });
+
+    it('should fall back to the unknown type', () => {
+      expect(getXmltvShowType(['Drama'])).toBe(XMLTV_UNKNOWN_TYPE);
+    });
+  });
+
+  describe('transformGuide', () => {
+    it('should map programmes and channels to shows', () => {
+      const shows = transformGuide(parseXmltv(guideXml));
+
+      expect(shows).toHaveLength(6);
+      expect(shows[0]).toMatchObject({
+        id: getXmltvShowId(NATURE),
+        name: NATURE,
+        type: 'Documentary',
+        network: 'KQED',
+        genres: ['Documentary', NATURE],
+        airdate: '2025-01-13',
+        airtime: '20:00',
+        airstamp: '2025-01-13T20:00:00-08:00',
+        season: 43,
+        number: 5,
+        episodeName: 'Penguins & Puffins',
+        runtime: 60,
+        episodeUrl: 'https://example.com/nature/4305'
+      });
+    });
+
+    it('should prefer the programme length over the stop time for runtime', () => {
+      const shows = transformGuide(parseXmltv(guideXml));
+
+      expect(shows[1].runtime).toBe(55);
+    });
+
+    it('should give programmes without episode numbers episode 0', () => {
+      const shows = transformGuide(parseXmltv(guideXml));
+
+      expect(shows[2]).toMatchObject({ name: 'KTVU News at Six', season: 0, number: 0 });
+    });
+  });
+});
@@ -2,12 +2,70 @@
  * Command line arguments interface
  * Defines the structure of parsed command line arguments
  */
+import type { CsvColumn } from '../utils/csvUtils.js';
+import type { ChannelFilter, CliCommand, OutputFormat, ShowProvider } from './configTypes.js';
+
 export interface CliArgs {
+  /**
+   * Subcommand to run (defaults to `shows`)
+   */
+  command?: CliCommand;
+
+  /**
+   * Search query for the `search` command
+   */
+  query?: string;
+
+  /**
+   * Output format of the schedule
+   */
+  format?: OutputFormat;
+
+  /**
+   * File to write the schedule to instead of stdout
+   */
+  outputFile?: string;
+
+  /**
+   * Columns of CSV output, in order
+   */
+  csvColumns?: CsvColumn[];
+
+  /**
+   * Whether to merge new entries into the existing feed file
+   */
+  append?: boolean;
+
+  /**
+   * Whether to print `discover` results as JSON
+   */
+  json?: boolean;
+
+  /**
+   * Directory to record every HTTP response to
+   */
+  record?: string;
+
+  /**
+   * Directory to serve recorded HTTP responses from
+   */
+  replay?: string;
+
+  /**
+   * Source of TV listings, when set on the command line
+   */
+  provider?: ShowProvider;
+
   /**
    * Date to search for shows (YYYY-MM-DD format)
    */
   date: string;
 
+  /**
+   * Last date of a multi-day range (YYYY-MM-DD format), when one was requested
+   */
+  endDate?: string;
+
   /**
    * Country code to filter shows by
    */
@@ -47,4 +105,39 @@ export interface CliArgs {
    * Minimum airtime to include (format: HH:MM, 24-hour format)
    */
   minAirtime: string;
+
+  /**
+   * Maximum airtime to include (format: HH:MM), when set on the command line
+   */
+  maxAirtime?: string;
+
+  /**
+   * Whether to include shows without an airtime, when set on the command line
+   */
+  includeUntimed?: boolean;
+
+  /**
+   * Timezone to show airtimes in (IANA format), when set on the command line
+   */
+  displayTimezone?: string;
+
+  /**
+   * Only include series/season premieres and finales, when set on the command line
+   */
+  premieresAndFinalesOnly?: boolean;
+
+  /**
+   * Filter expression, when set on the command line
+   */
+  filter?: string;
+
+  /**
+   * Channels to include (all, streaming or linear), when set on the command line
+   */
+  channels?: ChannelFilter;
+
+  /**
+   * Split the output into channel kind sections, when set on the command line
+   */
+  groupByChannelKind?: boolean;
 }
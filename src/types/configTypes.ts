@@ -3,17 +3,62 @@
  * Re-exports types from Zod schemas and defines CLI-only types
  */
 
+import type { CsvColumn } from '../utils/csvUtils.js';
+
 // Re-export schema-derived types
 export type {
   SlackConfig,
+  EmailConfig,
+  DiscordConfig,
+  TeamsConfig,
+  WebhookConfig,
+  FeedConfig,
+  HttpCacheConfig,
+  HttpConfig,
+  HttpRetryConfig,
+  RateLimitConfig,
   AppConfig,
-  ShowNameFilter
+  ShowNameFilter,
+  AirtimeWindow,
+  ChannelFilter,
+  FollowedShow,
+  NetworkAliases,
+  ShowProvider,
+  XmltvConfig
 } from '../schemas/config.js';
 
+/**
+ * CLI subcommands; `shows` (the default) prints the schedule
+ */
+export type CliCommand = 'shows' | 'search' | 'discover';
+
+/**
+ * Output formats of the schedule; `text` (the default) prints colored listings
+ */
+export type OutputFormat = 'text' | 'json' | 'ics' | 'markdown' | 'csv' | 'atom' | 'rss';
+
 /**
  * CLI-specific options (not serialized to Lambda)
  */
 export interface CliOptions {
   debug: boolean;
   groupByNetwork: boolean;
+  /** Subcommand to run (defaults to `shows`) */
+  command?: CliCommand;
+  /** Search query for the `search` command */
+  query?: string;
+  /** Output format of the schedule (--format) */
+  format?: OutputFormat;
+  /** File to write the schedule to instead of stdout (--output) */
+  outputFile?: string;
+  /** Columns of CSV output, in order (--columns); all columns when unset */
+  csvColumns?: CsvColumn[];
+  /** Merge new entries into the existing --output feed (--append) */
+  append?: boolean;
+  /** Print `discover` results as JSON (--json) */
+  json?: boolean;
+  /** Directory to record every HTTP response to (--record) */
+  record?: string;
+  /** Directory to serve recorded HTTP responses from, without network access (--replay) */
+  replay?: string;
 }
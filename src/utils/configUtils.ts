@@ -6,8 +6,8 @@ import { fileURLToPath } from 'node:url';
 import { CliArgs as CliArguments } from '../types/cliArgs.js';
 import { AppConfig } from '../types/configTypes.js';
 import { ShowOptions } from '../schemas/config.js';
-import { getTodayDate } from './dateUtils.js';
-import { getStringValue } from './stringUtils.js';
+import { addDays, getTodayDate, MAX_DATE_RANGE_DAYS } from './dateUtils.js';
+import { getStringValue, hasContent } from './stringUtils.js';
 
 /**
  * Safely convert a string, comma-separated value, or array to a string array
@@ -41,6 +41,22 @@ export function toStringArray(
   return [String(value)];
 }
 
+/**
+ * Normalize a country option to a list of unique, upper-case country codes
+ * @param country Country code, comma-separated codes, or a list of codes
+ * @param defaultCountry Country to use when none is given
+ * @returns Country codes in the order given
+ */
+export function toCountryCodes(
+  country: string | string[] | undefined | null,
+  defaultCountry = 'US'
+): string[] {
+  const codes = toStringArray(country)
+    .map(code => code.trim().toUpperCase())
+    .filter(code => code !== '');
+  return codes.length > 0 ? [...new Set(codes)] : [defaultCountry];
+}
+
 /**
  * Safely merge arrays with priority
  * @param primary Primary array (takes precedence if not empty)
@@ -116,6 +132,9 @@ export function mergeShowOptions(
   const cliDate = cliArgs.date;
   const cliCountry = cliArgs.country;
   const cliMinAirtime = cliArgs.minAirtime;
+  const displayTimezone = cliArgs.displayTimezone ?? appConfig.displayTimezone;
+  const filter = cliArgs.filter ?? appConfig.filter;
+  const maxAirtime = cliArgs.maxAirtime ?? appConfig.maxAirtime;
 
   // Safely handle base options
   const baseDate = base.date ?? getTodayDate(appConfig.timezone);
@@ -123,15 +142,13 @@ export function mergeShowOptions(
   const baseMinAirtime = base.minAirtime ?? appConfig.minAirtime;
 
   return {
+    provider: cliArgs.provider ?? appConfig.provider ?? 'tvmaze',
     // Use base options as fallback if provided
     date: getStringValue(
       cliDate,
       baseDate
     ),
-    country: getStringValue(
-      cliCountry,
-      baseCountry
-    ),
+    country: hasContent(cliCountry) ? cliCountry : baseCountry,
     // Use utility functions for array handling
     types: mergeArraysWithPriority(
       toStringArray(cliArgs.types),
@@ -154,7 +171,61 @@ export function mergeShowOptions(
       cliMinAirtime,
       baseMinAirtime
     ),
+    networkAirtimes: appConfig.networkAirtimes ?? {},
+    includeUntimed: cliArgs.includeUntimed ?? appConfig.includeUntimed ?? true,
+    networkAliases: appConfig.networkAliases ?? {},
+    channels: cliArgs.channels ?? appConfig.channels ?? 'all',
+    groupByChannelKind: cliArgs.groupByChannelKind ?? appConfig.groupByChannelKind ?? false,
     // Include show name exclusion patterns from config
-    excludeShowNames: appConfig.showNameFilter ?? []
+    excludeShowNames: appConfig.showNameFilter ?? [],
+    // Followed shows bypass the filters above
+    followedShows: appConfig.followedShows ?? [],
+    premieresAndFinalesOnly:
+      cliArgs.premieresAndFinalesOnly ?? appConfig.premieresAndFinalesOnly ?? false,
+    finaleBadges: appConfig.finaleBadges ?? false,
+    showTimezoneAbbreviation: appConfig.showTimezoneAbbreviation ?? false,
+    ...(hasContent(maxAirtime) && { maxAirtime }),
+    // A filter on the command line replaces the one in the config
+    ...(hasContent(filter) && { filter }),
+    // Only set an end date when a multi-day range was requested
+    ...(hasContent(cliArgs.endDate) && { endDate: cliArgs.endDate }),
+    // Airtimes stay in network local time unless a display timezone is set
+    ...(hasContent(displayTimezone) && { displayTimezone })
   };
 }
+
+/**
+ * Resolve the last date of a multi-day range from --to or --days
+ * @param startDate First date of the range (YYYY-MM-DD)
+ * @param toDate Optional explicit last date (YYYY-MM-DD)
+ * @param days Optional number of days, including the start date
+ * @returns Last date of the range, or undefined for a single day
+ * @throws Error if the range is invalid or longer than MAX_DATE_RANGE_DAYS
+ */
+export function resolveEndDate(
+  startDate: string,
+  toDate?: string,
+  days?: number
+): string | undefined {
+  if (hasContent(toDate)) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(toDate)) {
+      throw new Error(`Invalid --to date "${toDate}". Expected YYYY-MM-DD`);
+    }
+    if (toDate < startDate) {
+      throw new Error(`--to date ${toDate} is before start date ${startDate}`);
+    }
+    if (toDate > addDays(startDate, MAX_DATE_RANGE_DAYS - 1)) {
+      throw new Error(`Date range cannot be longer than ${MAX_DATE_RANGE_DAYS} days`);
+    }
+    return toDate === startDate ? undefined : toDate;
+  }
+
+  if (days !== undefined) {
+    if (!Number.isSafeInteger(days) || days < 1 || days > MAX_DATE_RANGE_DAYS) {
+      throw new Error(`--days must be a whole number between 1 and ${MAX_DATE_RANGE_DAYS}`);
+    }
+    return days === 1 ? undefined : addDays(startDate, days - 1);
+  }
+
+  return undefined;
+}
@@ -0,0 +1,100 @@
+/**
+ * CSV (RFC 4180) utilities for exporting episodes to spreadsheets
+ */
+import type { Show } from '../schemas/domain.js';
+
+/** Line break between records */
+const CSV_LINE_BREAK = '\r\n';
+
+/** Separator of multiple values in one field, e.g. genres */
+const CSV_VALUE_SEPARATOR = '; ';
+
+/**
+ * Columns of CSV output, in their default order
+ */
+export const CSV_COLUMNS = [
+  'date',
+  'airtime',
+  'network',
+  'show',
+  'showId',
+  'season',
+  'episode',
+  'type',
+  'genres',
+  'language'
+] as const;
+
+/**
+ * Column of CSV output
+ */
+export type CsvColumn = typeof CSV_COLUMNS[number];
+
+/**
+ * Field values of one episode, by column
+ */
+export type CsvRecord = Record<CsvColumn, string>;
+
+/**
+ * Escape a field; fields with commas, double quotes or line breaks are quoted
+ * and their double quotes doubled
+ * @param value - Field value
+ * @returns Field as written to the file
+ */
+export function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+/**
+ * Parse a column selection
+ * @param names - Column names, case-insensitive
+ * @returns Columns in the given order
+ * @throws Error for unknown columns
+ */
+export function parseCsvColumns(names: string[]): CsvColumn[] {
+  return names.map(name => {
+    const column = CSV_COLUMNS.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+    if (column === undefined) {
+      throw new Error(`Unknown CSV column "${name}"; expected one of ${CSV_COLUMNS.join(', ')}`);
+    }
+    return column;
+  });
+}
+
+/**
+ * Get the field values of an episode
+ * @param show - Episode
+ * @param date - Day (YYYY-MM-DD) the episode is listed on
+ * @param network - Network the episode is listed under
+ * @returns Field values by column; unknown values are empty
+ */
+export function createCsvRecord(show: Show, date: string, network: string): CsvRecord {
+  return {
+    date,
+    network,
+    airtime: show.airtime ?? '',
+    show: show.name,
+    showId: String(show.id),
+    season: String(show.season),
+    episode: String(show.number),
+    type: show.type,
+    genres: show.genres.join(CSV_VALUE_SEPARATOR),
+    language: show.language ?? ''
+  };
+}
+
+/**
+ * Create a CSV document with a header row
+ * @param records - Field values of each row
+ * @param columns - Columns to write, in order
+ * @returns CSV document with CRLF line breaks
+ */
+export function createCsv(records: CsvRecord[], columns: readonly CsvColumn[]): string {
+  const rows = [
+    [...columns],
+    ...records.map(record => columns.map(column => record[column]))
+  ];
+  return rows
+    .map(fields => fields.map(field => escapeCsvField(field)).join(','))
+    .join(CSV_LINE_BREAK) + CSV_LINE_BREAK;
+}
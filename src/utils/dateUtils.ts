@@ -26,6 +26,56 @@ export function getTodayDate(timezone?: string): string {
   return formatDate(now);
 }
 
+/**
+ * Check whether a string is a timezone supported by Intl (e.g., 'America/New_York')
+ * @param timezone - Timezone to check
+ * @returns True if the timezone can be used for formatting
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone }).resolvedOptions();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a timestamp to the local date and time of day in a timezone
+ * @param timestamp - ISO 8601 timestamp with UTC offset (e.g., a TVMaze airstamp)
+ * @param timezone - IANA timezone (e.g., 'America/Los_Angeles')
+ * @returns Local date (YYYY-MM-DD), 24-hour time (HH:MM) and short timezone name
+ *   (e.g., 'PST'), or null if the timestamp is invalid
+ * @throws RangeError if the timezone is invalid
+ */
+export function convertToTimezone(
+  timestamp: string,
+  timezone: string
+): { date: string; time: string; abbreviation: string } | null {
+  const instant = new Date(timestamp);
+  if (Number.isNaN(instant.getTime())) {
+    return null;
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short'
+  }).formatToParts(instant);
+  const values = Object.fromEntries(parts.map(part => [part.type, part.value]));
+
+  return {
+    date: `${values.year}-${values.month}-${values.day}`,
+    time: `${values.hour}:${values.minute}`,
+    abbreviation: values.timeZoneName
+  };
+}
+
 /**
  * Format a date as YYYY-MM-DD
  * @param date - The date to format
@@ -160,3 +210,50 @@ export function parseDateString(dateStr: string | null | undefined): Date {
   // Return current date as fallback
   return new Date();
 }
+
+/**
+ * Maximum number of days that can be requested in a single date range
+ */
+export const MAX_DATE_RANGE_DAYS = 31;
+
+/**
+ * Add a number of days to a date string
+ * @param dateStr - The date string in YYYY-MM-DD format
+ * @param days - Number of days to add (may be negative)
+ * @returns The resulting date in YYYY-MM-DD format
+ */
+export function addDays(dateStr: string, days: number): string {
+  const date = parseDateString(dateStr);
+  date.setDate(date.getDate() + days);
+  return formatDate(date);
+}
+
+/**
+ * Get every date in an inclusive date range
+ * Returns only the start date when no end date is given or it is not after the start
+ * @param startDate - First date in YYYY-MM-DD format
+ * @param endDate - Optional last date in YYYY-MM-DD format
+ * @returns Array of dates in YYYY-MM-DD format, capped at MAX_DATE_RANGE_DAYS
+ */
+export function getDateRange(startDate: string, endDate?: string | null): string[] {
+  const dates = [startDate];
+  if (!hasContent(endDate) || endDate <= startDate) {
+    return dates;
+  }
+
+  let current = startDate;
+  while (current < endDate && dates.length < MAX_DATE_RANGE_DAYS) {
+    current = addDays(current, 1);
+    dates.push(current);
+  }
+  return dates;
+}
+
+/**
+ * Get the full weekday name for a date
+ * @param date - The date to format
+ * @returns Weekday name (e.g., "Monday")
+ */
+export function formatWeekday(date: Date): string {
+  return date.toLocaleDateString('en-US', { weekday: 'long' });
+}
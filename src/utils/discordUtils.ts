@@ -0,0 +1,143 @@
+/**
+ * Utilities for fitting the schedule into Discord embeds
+ * See https://discord.com/developers/docs/resources/message#embed-object-embed-limits
+ */
+import type {
+  DiscordEmbed,
+  DiscordEmbedField,
+  DiscordWebhookMessage
+} from '../interfaces/discordClient.js';
+import { truncateString } from './stringUtils.js';
+
+/**
+ * Limits Discord puts on webhook messages and their embeds
+ */
+export const DISCORD_LIMITS = {
+  /** Characters in a message's plain content */
+  content: 2000,
+  embedTitle: 256,
+  embedDescription: 4096,
+  fieldsPerEmbed: 25,
+  fieldName: 256,
+  fieldValue: 1024,
+  footerText: 2048,
+  embedsPerMessage: 10,
+  /** Characters in titles, descriptions, fields and footers of all embeds of a message */
+  embedCharactersPerMessage: 6000
+} as const;
+
+/** Accent color of embeds (Discord blurple) */
+const DISCORD_EMBED_COLOR = 0x58_65_F2;
+
+/**
+ * Split lines into field values within the field value limit
+ * Lines are kept whole unless a single line is longer than the limit.
+ * @param lines - Lines of one field
+ * @param limit - Maximum characters per value
+ * @returns Values, each with one or more lines
+ */
+export function splitFieldValue(
+  lines: string[],
+  limit: number = DISCORD_LIMITS.fieldValue
+): string[] {
+  const values: string[] = [];
+  let value = '';
+  for (const text of lines) {
+    const line = truncateString(text, limit, '…');
+    if (value !== '' && value.length + 1 + line.length > limit) {
+      values.push(value);
+      value = '';
+    }
+    value = value === '' ? line : `${value}\n${line}`;
+  }
+  return value === '' ? values : [...values, value];
+}
+
+/**
+ * Count the characters of a field toward the per-message limit
+ * @param field - Embed field
+ * @returns Characters of its name and value
+ */
+function getFieldLength(field: DiscordEmbedField): number {
+  return field.name.length + field.value.length;
+}
+
+/**
+ * Split fields into groups that each fit the embed limits of one message
+ * @param fields - Fields, already within the name and value limits
+ * @param budget - Characters available for fields in each message
+ * @returns Field groups, one per message
+ */
+function groupFieldsByMessage(fields: DiscordEmbedField[], budget: number): DiscordEmbedField[][] {
+  const maxFields = DISCORD_LIMITS.fieldsPerEmbed * DISCORD_LIMITS.embedsPerMessage;
+  const groups: DiscordEmbedField[][] = [];
+  let group: DiscordEmbedField[] = [];
+  let length = 0;
+  for (const field of fields) {
+    const fieldLength = getFieldLength(field);
+    if (group.length > 0 && (length + fieldLength > budget || group.length === maxFields)) {
+      groups.push(group);
+      group = [];
+      length = 0;
+    }
+    group.push(field);
+    length += fieldLength;
+  }
+  return group.length > 0 ? [...groups, group] : groups;
+}
+
+/**
+ * Create the webhook messages of a schedule
+ * Fields are packed into embeds of at most 25 fields, and embeds into messages
+ * within the per-message embed and character limits. Each message starts with
+ * the title; the footer ends the last message.
+ * @param title - Title of the schedule
+ * @param fields - Fields, e.g. one or more per network
+ * @param footer - Footer text
+ * @param emptyText - Description when there are no fields
+ * @returns Messages to post, in order
+ */
+export function createDiscordMessages(
+  title: string,
+  fields: DiscordEmbedField[],
+  footer: string,
+  emptyText: string
+): DiscordWebhookMessage[] {
+  const embedTitle = truncateString(title, DISCORD_LIMITS.embedTitle, '…');
+  const footerText = truncateString(footer, DISCORD_LIMITS.footerText, '…');
+  const budget = DISCORD_LIMITS.embedCharactersPerMessage - embedTitle.length - footerText.length;
+  const fittedFields = fields.map(field => ({
+    ...field,
+    name: truncateString(field.name, DISCORD_LIMITS.fieldName, '…'),
+    value: truncateString(field.value, DISCORD_LIMITS.fieldValue, '…')
+  }));
+
+  const messages = groupFieldsByMessage(fittedFields, budget).map(group => {
+    const embeds: DiscordEmbed[] = [];
+    for (let start = 0; start < group.length; start += DISCORD_LIMITS.fieldsPerEmbed) {
+      embeds.push({
+        ...(start === 0 && { title: embedTitle }),
+        color: DISCORD_EMBED_COLOR,
+        fields: group.slice(start, start + DISCORD_LIMITS.fieldsPerEmbed)
+      });
+    }
+    return { embeds };
+  });
+
+  if (messages.length === 0) {
+    return [{
+      embeds: [{
+        title: embedTitle,
+        description: truncateString(emptyText, DISCORD_LIMITS.embedDescription, '…'),
+        color: DISCORD_EMBED_COLOR,
+        footer: { text: footerText }
+      }]
+    }];
+  }
+
+  const lastEmbed = messages.at(-1)?.embeds.at(-1);
+  if (lastEmbed !== undefined) {
+    lastEmbed.footer = { text: footerText };
+  }
+  return messages;
+}
@@ -0,0 +1,268 @@
+/**
+ * Atom and RSS 2.0 utilities for publishing the schedule as a feed
+ *
+ * Existing feeds are only ever ones we wrote, so appending reads their entries
+ * back with the same small regex-based approach as the XMLTV reader and keeps
+ * them verbatim.
+ */
+import type { NetworkGroups, Show } from '../schemas/domain.js';
+import { formatDate, formatTimeWithPeriod, formatWeekday, parseDateString } from './dateUtils.js';
+import { formatEpisodeInfo, formatRuntime, hasAirtime } from './formatUtils.js';
+import { getEpisodeUid, sortShowsByTime } from './showUtils.js';
+import { escapeHtml, hasContent, stripHtml } from './stringUtils.js';
+import { decodeXmlText } from './xmltvUtils.js';
+
+/** Name written as the feed generator and author */
+const FEED_GENERATOR = 'WhatsOnTV';
+
+/** Prefix of entry GUIDs */
+const FEED_ID_PREFIX = 'urn:whatsontv:';
+
+/**
+ * Feed document format
+ */
+export type FeedFormat = 'atom' | 'rss';
+
+/**
+ * Content of one feed entry
+ */
+export interface FeedEntry {
+  /** Stable GUID, so feed readers recognize entries they have seen */
+  id: string;
+  title: string;
+  /** Airstamp of the episode, or midnight UTC of its day */
+  published: Date;
+  /** Entry content as HTML */
+  html: string;
+  link?: string;
+}
+
+/**
+ * Feed entry rendered as XML, with the fields needed to merge feeds
+ */
+export interface RenderedFeedEntry {
+  id: string;
+  published: Date;
+  /** <entry> or <item> element */
+  xml: string;
+}
+
+/**
+ * Feed-level fields
+ */
+export interface FeedMetadata {
+  title: string;
+  /** URL the feed is served from */
+  link?: string;
+  updated: Date;
+}
+
+/**
+ * Get the start of a day in UTC
+ * @param date - Date in YYYY-MM-DD format
+ * @returns Midnight UTC of the day
+ */
+function toStartOfDay(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+/**
+ * Get the time an episode is published at in the feed
+ * @param show - Episode
+ * @param fallbackDate - Date (YYYY-MM-DD) for episodes without an airdate
+ * @returns Airstamp for episodes with an airtime, otherwise midnight UTC of the airdate
+ */
+function getPublishedTime(show: Show, fallbackDate: string): Date {
+  const airstamp = hasAirtime(show) && hasContent(show.airstamp) ? new Date(show.airstamp) : null;
+  if (airstamp !== null && !Number.isNaN(airstamp.getTime())) {
+    return airstamp;
+  }
+  return toStartOfDay(hasContent(show.airdate) ? show.airdate : fallbackDate);
+}
+
+/**
+ * Format the airtime of an episode for entry content
+ * @param show - Episode
+ * @returns Airtime in 12-hour format, or "N/A"
+ */
+function formatAirtime(show: Show): string {
+  return hasAirtime(show) ? formatTimeWithPeriod(show.airtime) : 'N/A';
+}
+
+/**
+ * Create the entry of one episode
+ * @param show - Episode
+ * @param date - Day (YYYY-MM-DD) the episode is listed on
+ * @param network - Network the episode is listed under
+ * @returns Feed entry with a GUID built from the show ID, season and episode number
+ */
+export function createEpisodeEntry(show: Show, date: string, network: string): FeedEntry {
+  const runtime = formatRuntime(show.runtime);
+  const details = [network, formatAirtime(show), show.type, ...(runtime === '' ? [] : [runtime])];
+  const summary = stripHtml(show.summary);
+
+  return {
+    id: `${FEED_ID_PREFIX}${getEpisodeUid(show)}`,
+    title: `${show.name} ${formatEpisodeInfo(show)}`.trim(),
+    published: getPublishedTime(show, date),
+    html: [
+      `<p>${escapeHtml(details.join(' · '))}</p>`,
+      ...(hasContent(show.episodeName) ? [`<p><em>${escapeHtml(show.episodeName)}</em></p>`] : []),
+      ...(summary === '' ? [] : [`<p>${escapeHtml(summary)}</p>`])
+    ].join(''),
+    ...(hasContent(show.episodeUrl) && { link: show.episodeUrl })
+  };
+}
+
+/**
+ * Create the entry of one day, listing its episodes by network
+ * @param date - Day (YYYY-MM-DD)
+ * @param networkGroups - Shows airing that day, grouped by network
+ * @returns Feed entry with a GUID built from the date
+ */
+export function createDayEntry(date: string, networkGroups: NetworkGroups): FeedEntry {
+  const networks = Object.keys(networkGroups).sort((a, b) => a.localeCompare(b));
+  const html = networks.map(network => {
+    const items = sortShowsByTime(networkGroups[network]).map(show => {
+      const line = [formatAirtime(show), show.name, formatEpisodeInfo(show)].join(' ');
+      return `<li>${escapeHtml(line)}</li>`;
+    });
+    return `<h3>${escapeHtml(network)}</h3><ul>${items.join('')}</ul>`;
+  });
+  const day = parseDateString(date);
+
+  return {
+    id: `${FEED_ID_PREFIX}day-${date}`,
+    title: `TV Shows for ${formatWeekday(day)}, ${formatDate(day)}`,
+    published: toStartOfDay(date),
+    html: html.length > 0 ? html.join('') : '<p>No shows found for the specified criteria.</p>'
+  };
+}
+
+/**
+ * Render an entry as an Atom <entry> or RSS <item>
+ * @param entry - Entry content
+ * @param format - Feed format
+ * @returns Rendered entry; nested lines are indented for their place in the feed
+ */
+export function renderFeedEntry(entry: FeedEntry, format: FeedFormat): RenderedFeedEntry {
+  const link = entry.link === undefined ? '' : escapeHtml(entry.link);
+  const lines = format === 'atom'
+    ? [
+      '<entry>',
+      `    <id>${escapeHtml(entry.id)}</id>`,
+      `    <title>${escapeHtml(entry.title)}</title>`,
+      `    <published>${entry.published.toISOString()}</published>`,
+      `    <updated>${entry.published.toISOString()}</updated>`,
+      ...(link === '' ? [] : [`    <link href="${link}"/>`]),
+      `    <content type="html">${escapeHtml(entry.html)}</content>`,
+      '  </entry>'
+    ]
+    : [
+      '<item>',
+      `      <guid isPermaLink="false">${escapeHtml(entry.id)}</guid>`,
+      `      <title>${escapeHtml(entry.title)}</title>`,
+      ...(link === '' ? [] : [`      <link>${link}</link>`]),
+      `      <pubDate>${entry.published.toUTCString()}</pubDate>`,
+      `      <description>${escapeHtml(entry.html)}</description>`,
+      '    </item>'
+    ];
+  return { id: entry.id, published: entry.published, xml: lines.join('\n') };
+}
+
+/**
+ * Read the entries of a feed written by createFeed
+ * Entries without a GUID or a readable date are skipped.
+ * @param xml - Feed document
+ * @param format - Feed format
+ * @returns Entries in document order, with their XML kept verbatim
+ */
+export function readFeedEntries(xml: string, format: FeedFormat): RenderedFeedEntry[] {
+  const [element, idPattern, datePattern] = format === 'atom'
+    ? ['entry', /<id>([^<]*)<\/id>/, /<published>([^<]*)<\/published>/]
+    : ['item', /<guid\b[^<>]*>([^<]*)<\/guid>/, /<pubDate>([^<]*)<\/pubDate>/];
+
+  // eslint-disable-next-line security/detect-non-literal-regexp
+  const pattern = new RegExp(String.raw`<${element}>[\s\S]*?</${element}>`, 'g');
+  return Array.from(xml.matchAll(pattern), ([entryXml]) => {
+    const id = idPattern.exec(entryXml)?.[1];
+    const published = new Date(decodeXmlText(datePattern.exec(entryXml)?.[1] ?? ''));
+    return id === undefined || Number.isNaN(published.getTime())
+      ? null
+      : { published, id: decodeXmlText(id), xml: entryXml };
+  }).filter(entry => entry !== null);
+}
+
+/**
+ * Sort entries newest first, then by GUID
+ * @param entries - Entries to sort
+ * @returns Sorted entries
+ */
+function sortFeedEntries(entries: RenderedFeedEntry[]): RenderedFeedEntry[] {
+  return [...entries].sort((a, b) =>
+    b.published.getTime() - a.published.getTime() || a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Merge new entries into the entries of an existing feed
+ * New entries replace existing ones with the same GUID; existing entries
+ * published before the cutoff are dropped.
+ * @param entries - New entries
+ * @param existingEntries - Entries of the existing feed
+ * @param cutoff - Oldest publication time of existing entries to keep
+ * @returns Merged entries, newest first
+ */
+export function mergeFeedEntries(
+  entries: RenderedFeedEntry[],
+  existingEntries: RenderedFeedEntry[],
+  cutoff: Date
+): RenderedFeedEntry[] {
+  const ids = new Set(entries.map(entry => entry.id));
+  const keptEntries = existingEntries.filter(entry =>
+    !ids.has(entry.id) && entry.published.getTime() >= cutoff.getTime()
+  );
+  return sortFeedEntries([...entries, ...keptEntries]);
+}
+
+/**
+ * Create an Atom or RSS 2.0 feed document
+ * @param format - Feed format
+ * @param metadata - Feed title, link and update time
+ * @param entries - Rendered entries, in feed order
+ * @returns Feed document
+ */
+export function createFeed(
+  format: FeedFormat,
+  metadata: FeedMetadata,
+  entries: RenderedFeedEntry[]
+): string {
+  const title = escapeHtml(metadata.title);
+  const link = metadata.link === undefined ? undefined : escapeHtml(metadata.link);
+  const feedId = link ?? FEED_ID_PREFIX + 'feed';
+  const lines = format === 'atom'
+    ? [
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      `  <title>${title}</title>`,
+      `  <id>${feedId}</id>`,
+      `  <updated>${metadata.updated.toISOString()}</updated>`,
+      ...(link === undefined ? [] : [`  <link rel="self" href="${link}"/>`]),
+      `  <author><name>${FEED_GENERATOR}</name></author>`,
+      `  <generator>${FEED_GENERATOR}</generator>`,
+      ...entries.map(entry => `  ${entry.xml}`),
+      '</feed>'
+    ]
+    : [
+      '<rss version="2.0">',
+      '  <channel>',
+      `    <title>${title}</title>`,
+      `    <link>${link ?? 'https://www.tvmaze.com'}</link>`,
+      '    <description>TV schedule from WhatsOnTV</description>',
+      `    <lastBuildDate>${metadata.updated.toUTCString()}</lastBuildDate>`,
+      `    <generator>${FEED_GENERATOR}</generator>`,
+      ...entries.map(entry => `    ${entry.xml}`),
+      '  </channel>',
+      '</rss>'
+    ];
+  return ['<?xml version="1.0" encoding="utf-8"?>', ...lines].join('\n') + '\n';
+}
@@ -26,6 +26,18 @@ export function readFile(filePath: string): string {
   return fs.readFileSync(filePath, 'utf8');
 }
 
+/**
+ * Write a text file, creating its directory when missing
+ * @param filePath Path to the file
+ * @param contents Text to write
+ */
+export async function writeTextFile(filePath: string, contents: string): Promise<void> {
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  await fs.promises.writeFile(filePath, contents, 'utf8');
+}
+
 /**
  * Parse a JSON config file
  * @param fileContents File contents as string
@@ -0,0 +1,410 @@
+/**
+ * Filter expression language for show selection
+ *
+ * Lets users combine conditions that the list filters in ShowOptions cannot,
+ * e.g. `(genre:Drama and network:HBO) or (type:Reality and network:Bravo)`.
+ *
+ * Grammar (keywords and field names are case-insensitive):
+ *   expression := andExpr ("or" andExpr)*
+ *   andExpr    := unary ("and" unary)*
+ *   unary      := "not" unary | "(" expression ")" | term
+ *   term       := field ":" value
+ *   value      := word | "quoted string"
+ */
+import type { NetworkAliases } from '../schemas/config.js';
+import type { Show } from '../schemas/domain.js';
+import { getNetworkName, normalizeNetworkName } from './showUtils.js';
+import { isEmptyString } from './stringUtils.js';
+
+/**
+ * Show fields that can be used in filter terms
+ */
+export const FILTER_FIELDS = ['name', 'type', 'network', 'genre', 'language', 'channel'] as const;
+
+/**
+ * Values accepted by the channel field; linear matches broadcast and cable
+ */
+export const FILTER_CHANNEL_VALUES = ['broadcast', 'cable', 'streaming', 'linear'] as const;
+
+/**
+ * Show field used in a filter term
+ */
+export type FilterField = typeof FILTER_FIELDS[number];
+
+/**
+ * Parsed filter expression
+ */
+export type FilterExpression =
+  | { kind: 'and' | 'or'; left: FilterExpression; right: FilterExpression }
+  | { kind: 'not'; operand: FilterExpression }
+  | { kind: 'term'; field: FilterField; value: string };
+
+/**
+ * Token of a filter expression, with its 0-based position in the source
+ */
+interface FilterToken {
+  kind: 'word' | 'string' | 'colon' | 'open' | 'close' | 'end';
+  text: string;
+  position: number;
+}
+
+/** Characters that end an unquoted word */
+const WORD_DELIMITERS = new Set(['(', ')', ':', '"']);
+
+/** Token kinds of single-character punctuation */
+const PUNCTUATION_KINDS: Partial<Record<string, FilterToken['kind']>> = {
+  '(': 'open',
+  ')': 'close',
+  ':': 'colon'
+};
+
+/**
+ * Create a parse error that points at the offending position
+ * @param source Filter expression
+ * @param position 0-based position of the problem
+ * @param message What is wrong
+ * @returns Error with the expression and a caret under the position
+ */
+function createFilterError(source: string, position: number, message: string): Error {
+  return new Error(
+    `Invalid filter: ${message} at position ${position + 1}\n` +
+    `  ${source}\n` +
+    `  ${' '.repeat(position)}^`
+  );
+}
+
+/**
+ * Read a quoted string; a backslash escapes the next character
+ * @param source Filter expression
+ * @param start Position of the opening quote
+ * @returns String token and the position after the closing quote
+ * @throws Error if the string is not terminated
+ */
+function readQuotedString(source: string, start: number): { token: FilterToken; end: number } {
+  let text = '';
+  let index = start + 1;
+  while (index < source.length) {
+    const char = source[index];
+    if (char === '"') {
+      return { token: { text, kind: 'string', position: start }, end: index + 1 };
+    }
+    if (char === '\\' && index + 1 < source.length) {
+      index++;
+    }
+    text += source[index];
+    index++;
+  }
+  throw createFilterError(source, start, 'unterminated quoted value');
+}
+
+/**
+ * Find the end of an unquoted word
+ * @param source Filter expression
+ * @param start Position of the first character of the word
+ * @returns Position after the last character of the word
+ */
+function findWordEnd(source: string, start: number): number {
+  let index = start;
+  while (
+    index < source.length &&
+    !WORD_DELIMITERS.has(source[index]) &&
+    !/\s/.test(source[index])
+  ) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Split a filter expression into tokens
+ * @param source Filter expression
+ * @returns Tokens, ending with an end token
+ * @throws Error for unterminated quoted values
+ */
+function tokenize(source: string): FilterToken[] {
+  const tokens: FilterToken[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    const punctuationKind = PUNCTUATION_KINDS[char];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '"') {
+      const { token, end } = readQuotedString(source, index);
+      tokens.push(token);
+      index = end;
+    } else if (punctuationKind === undefined) {
+      const end = findWordEnd(source, index);
+      tokens.push({ kind: 'word', text: source.slice(index, end), position: index });
+      index = end;
+    } else {
+      tokens.push({ kind: punctuationKind, text: char, position: index });
+      index++;
+    }
+  }
+
+  tokens.push({ kind: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Describe a token for error messages
+ * @param token Token to describe
+ * @returns Quoted token text, or "end of filter"
+ */
+function describeToken(token: FilterToken): string {
+  return token.kind === 'end' ? 'end of filter' : `"${token.text}"`;
+}
+
+/**
+ * Recursive descent parser over the tokens of one expression
+ */
+class FilterParser {
+  private readonly tokens: FilterToken[];
+  private index = 0;
+
+  constructor(private readonly source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  /**
+   * Get a token without consuming it
+   * @param offset Tokens to look ahead of the current one
+   * @returns The token, or the end token past the end
+   */
+  private peek(offset = 0): FilterToken {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  /**
+   * Check whether the current token is a keyword (and not a field name)
+   * @param keyword Lowercase keyword
+   */
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.kind === 'word' &&
+      token.text.toLowerCase() === keyword &&
+      this.peek(1).kind !== 'colon';
+  }
+
+  /**
+   * Create an error at a token
+   * @param token Token the error is about
+   * @param message What is wrong
+   */
+  private error(token: FilterToken, message: string): Error {
+    return createFilterError(this.source, token.position, message);
+  }
+
+  /**
+   * Consume the ")" that closes a group
+   * @param openToken The "(" that opened the group
+   * @throws Error if the current token is not ")"
+   */
+  private expectClose(openToken: FilterToken): void {
+    const token = this.peek();
+    if (token.kind !== 'close') {
+      throw this.error(
+        token,
+        `expected ")" to close the "(" at position ${openToken.position + 1}, ` +
+        `found ${describeToken(token)}`
+      );
+    }
+    this.index++;
+  }
+
+  /**
+   * Check that the whole expression was read
+   * @throws Error for a stray ")" or a missing operator
+   */
+  private expectEnd(): void {
+    const token = this.peek();
+    if (token.kind === 'close') {
+      throw this.error(token, 'unexpected ")" without a matching "("');
+    }
+    if (token.kind !== 'end') {
+      throw this.error(token, `expected "and" or "or", found ${describeToken(token)}`);
+    }
+  }
+
+  /** expression := andExpr ("or" andExpr)* */
+  private parseOr(): FilterExpression {
+    let left = this.parseAnd();
+    while (this.isKeyword('or')) {
+      this.index++;
+      left = { left, kind: 'or', right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  /** andExpr := unary ("and" unary)* */
+  private parseAnd(): FilterExpression {
+    let left = this.parseUnary();
+    while (this.isKeyword('and')) {
+      this.index++;
+      left = { left, kind: 'and', right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  /** unary := "not" unary | "(" expression ")" | term */
+  private parseUnary(): FilterExpression {
+    if (this.isKeyword('not')) {
+      this.index++;
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+
+    const token = this.peek();
+    if (token.kind === 'open') {
+      this.index++;
+      const expression = this.parseOr();
+      this.expectClose(token);
+      return expression;
+    }
+
+    return this.parseTerm();
+  }
+
+  /**
+   * Read the field of a term
+   * @returns Field name
+   * @throws Error for anything but a known field followed by ":"
+   */
+  private parseField(): FilterField {
+    const token = this.peek();
+    if (token.kind !== 'word') {
+      throw this.error(token, `expected field:value, found ${describeToken(token)}`);
+    }
+
+    const field = FILTER_FIELDS.find(candidate => candidate === token.text.toLowerCase());
+    if (this.peek(1).kind !== 'colon') {
+      throw this.error(token, field === undefined
+        ? `expected field:value, found "${token.text}"`
+        : `expected ":" after "${token.text}"`);
+    }
+    if (field === undefined) {
+      throw this.error(
+        token,
+        `unknown field "${token.text}"; expected one of ${FILTER_FIELDS.join(', ')}`
+      );
+    }
+
+    this.index += 2;
+    return field;
+  }
+
+  /** term := field ":" value */
+  private parseTerm(): FilterExpression {
+    const fieldText = this.peek().text;
+    const field = this.parseField();
+
+    const token = this.peek();
+    if ((token.kind !== 'word' && token.kind !== 'string') || token.text.trim() === '') {
+      throw this.error(token, `expected a value after "${fieldText}:"`);
+    }
+    this.index++;
+
+    const value = token.text.trim();
+    const channels: readonly string[] = FILTER_CHANNEL_VALUES;
+    if (field === 'channel' && !channels.includes(value.toLowerCase())) {
+      throw this.error(
+        token,
+        `unknown channel "${value}"; expected one of ${FILTER_CHANNEL_VALUES.join(', ')}`
+      );
+    }
+
+    return { field, value, kind: 'term' };
+  }
+
+  /**
+   * Parse the whole expression
+   * @returns Parsed expression
+   * @throws Error describing the first problem found
+   */
+  parse(): FilterExpression {
+    if (this.peek().kind === 'end') {
+      throw this.error(this.peek(), 'expression is empty');
+    }
+
+    const expression = this.parseOr();
+    this.expectEnd();
+    return expression;
+  }
+}
+
+/**
+ * Parse a filter expression
+ * @param source Filter expression, e.g. `genre:Drama and network:HBO`
+ * @returns Parsed expression
+ * @throws Error pointing at the first syntax error
+ */
+export function parseFilterExpression(source: string): FilterExpression {
+  return new FilterParser(source).parse();
+}
+
+/**
+ * Matchers for each filter field (case-insensitive)
+ */
+const FILTER_FIELD_MATCHERS: Record<
+  FilterField,
+  (show: Show, value: string, networkAliases: NetworkAliases) => boolean
+> = {
+  name: (show, value) => show.name.toLowerCase().includes(value.toLowerCase()),
+  type: (show, value) => show.type.toLowerCase() === value.toLowerCase(),
+  network: (show, value, networkAliases) =>
+    getNetworkName(show, false, networkAliases).toLowerCase() ===
+      normalizeNetworkName(value, networkAliases).toLowerCase(),
+  genre: (show, value) => show.genres.some(genre => genre.toLowerCase() === value.toLowerCase()),
+  language: (show, value) => show.language?.toLowerCase() === value.toLowerCase(),
+  channel: (show, value) => value.toLowerCase() === 'linear'
+    ? show.channelKind === 'broadcast' || show.channelKind === 'cable'
+    : show.channelKind === value.toLowerCase()
+};
+
+/**
+ * Check whether a show matches a filter expression
+ * @param show Show to check
+ * @param expression Parsed filter expression
+ * @param networkAliases Network aliases, applied to network terms
+ * @returns True if the show matches
+ */
+export function isFilterExpressionMatch(
+  show: Show,
+  expression: FilterExpression,
+  networkAliases: NetworkAliases = {}
+): boolean {
+  if (expression.kind === 'term') {
+    return FILTER_FIELD_MATCHERS[expression.field](show, expression.value, networkAliases);
+  }
+  if (expression.kind === 'not') {
+    return !isFilterExpressionMatch(show, expression.operand, networkAliases);
+  }
+
+  const isLeftMatch = isFilterExpressionMatch(show, expression.left, networkAliases);
+  if (expression.kind === 'and') {
+    return isLeftMatch && isFilterExpressionMatch(show, expression.right, networkAliases);
+  }
+  return isLeftMatch || isFilterExpressionMatch(show, expression.right, networkAliases);
+}
+
+/**
+ * Filter shows by a filter expression
+ * @param shows Shows to filter
+ * @param source Filter expression; every show is kept when it is empty
+ * @param networkAliases Network aliases, applied to network terms
+ * @returns Matching shows
+ * @throws Error if the expression is invalid
+ */
+export function filterByExpression(
+  shows: Show[],
+  source: string | undefined,
+  networkAliases: NetworkAliases = {}
+): Show[] {
+  if (source === undefined || isEmptyString(source, true)) {
+    return shows;
+  }
+
+  const expression = parseFilterExpression(source);
+  return shows.filter(show => isFilterExpressionMatch(show, expression, networkAliases));
+}
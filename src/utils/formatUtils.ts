@@ -2,11 +2,29 @@
  * Format utility functions for handling show data across different output formats
  */
 
-import { Show } from '../schemas/domain.js';
+import {
+  DiscoverCategories,
+  Show,
+  ShowBadge,
+  ShowSearchResult
+} from '../schemas/domain.js';
 import { getStringValue, hasElements } from './stringUtils.js';
 import { formatTimeWithPeriod, isValidTime } from './dateUtils.js';
 
 const UNKNOWN_NETWORK_LABEL = 'Unknown Network';
+const BADGE_LABELS: Record<ShowBadge, string> = {
+  seriesPremiere: '🆕 Series Premiere',
+  seasonPremiere: '🆕 Season Premiere',
+  seasonFinale: '🏁 Season Finale',
+  seriesFinale: '🏁 Series Finale'
+};
+const SEARCH_RESULT_COLUMNS = ['ID', 'Score', 'Name', 'Network', 'Status', 'Premiered'];
+const DISCOVER_HEADINGS: Record<keyof DiscoverCategories, string> = {
+  networks: 'Networks',
+  genres: 'Genres',
+  types: 'Types',
+  languages: 'Languages'
+};
 
 /**
  * Format network name with fallback for null/undefined values
@@ -68,6 +86,18 @@ export function formatEpisodeInfo(show: Show | null | undefined): string {
   return result;
 }
 
+/**
+ * Format an episode runtime in minutes
+ * @param runtime - Runtime in minutes
+ * @returns Formatted runtime (e.g., "60 min"), or empty string if unknown
+ */
+export function formatRuntime(runtime: number | null | undefined): string {
+  if (typeof runtime !== 'number' || runtime <= 0) {
+    return '';
+  }
+  return `${runtime} min`;
+}
+
 /**
  * Check if a show has a valid airtime
  * @param show - The show to check
@@ -187,3 +217,61 @@ export function formatNetworkHeader(
   const separator = '-'.repeat(header.length);
   return [header, separator];
 }
+
+/**
+ * Format the premiere and finale badges of one or more episodes
+ * @param shows - Episodes to collect badges from, in episode order
+ * @returns Badge labels separated by spaces (empty when there are none)
+ */
+export function formatBadges(shows: Show[]): string {
+  const labels = shows
+    .map(show => (show.badge ? BADGE_LABELS[show.badge] : ''))
+    .filter(label => label !== '');
+  return [...new Set(labels)].join(' ');
+}
+
+/**
+ * Format show search results as an aligned plain-text table
+ * @param results - Search results, in the order they should be listed
+ * @returns Table lines, starting with a header row
+ */
+export function formatSearchResults(results: ShowSearchResult[]): string[] {
+  const rows = results.map(result => [
+    String(result.id),
+    result.score.toFixed(2),
+    result.name,
+    result.network,
+    getStringValue(result.status, '-'),
+    result.premiereYear === null ? '-' : String(result.premiereYear)
+  ]);
+  const table = [SEARCH_RESULT_COLUMNS, ...rows];
+  const widths = SEARCH_RESULT_COLUMNS.map((_, column) =>
+    Math.max(...table.map(row => row[column].length)));
+
+  return table.map(row =>
+    row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+}
+
+/**
+ * Format discover results as plain-text lists, one per category
+ * Entries the current config keeps are marked with an asterisk.
+ * @param categories - Networks, genres, types and languages with episode counts
+ * @returns Lines, ending with a legend for the marker
+ */
+export function formatDiscoverCategories(categories: DiscoverCategories): string[] {
+  const lines: string[] = [];
+  for (const [category, heading] of Object.entries(DISCOVER_HEADINGS)) {
+    const entries = categories[category as keyof DiscoverCategories];
+    const nameWidth = Math.max(0, ...entries.map(entry => entry.name.length));
+    const countWidth = Math.max(0, ...entries.map(entry => String(entry.count).length));
+    lines.push(
+      `${heading} (${entries.length}):`,
+      ...entries.map(entry =>
+        `${entry.isConfigMatch ? '*' : ' '} ${entry.name.padEnd(nameWidth)}  ` +
+        String(entry.count).padStart(countWidth)),
+      ''
+    );
+  }
+  lines.push('* kept by the current config');
+  return lines;
+}
@@ -0,0 +1,156 @@
+/**
+ * iCalendar (RFC 5545) utilities for exporting the schedule as .ics
+ */
+import { Buffer } from 'node:buffer';
+import type { Show } from '../schemas/domain.js';
+import { addDays } from './dateUtils.js';
+import { formatEpisodeInfo } from './formatUtils.js';
+import { getEpisodeUid } from './showUtils.js';
+import { hasContent, stripHtml } from './stringUtils.js';
+
+/** Line break required between content lines */
+const ICS_LINE_BREAK = '\r\n';
+
+/** Longest content line, in octets, before it is folded */
+const MAX_ICS_LINE_OCTETS = 75;
+
+/** Length of timed events whose runtime is unknown */
+const DEFAULT_EVENT_MINUTES = 30;
+
+/**
+ * Product identifier written to every calendar
+ */
+export const ICS_PRODUCT_ID = '-//WhatsOnTV//Schedule//EN';
+
+/**
+ * Escape text for a TEXT property value
+ * @param text - Plain text
+ * @returns Text with backslashes, semicolons, commas and newlines escaped
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replaceAll('\\', '\\\\')
+    .replaceAll(';', String.raw`\;`)
+    .replaceAll(',', String.raw`\,`)
+    .replaceAll(/\r?\n/g, String.raw`\n`);
+}
+
+/**
+ * Fold a content line longer than 75 octets; continuation lines start with a
+ * space, and multi-byte characters are never split
+ * @param line - Unfolded content line
+ * @returns Folded line
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > MAX_ICS_LINE_OCTETS) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join(ICS_LINE_BREAK);
+}
+
+/**
+ * Format a UTC date-time value
+ * @param date - Date to format
+ * @returns Date-time in the form 20250113T200000Z
+ */
+function formatIcsDateTime(date: Date): string {
+  return date.toISOString().replaceAll(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format a date value
+ * @param date - Date in YYYY-MM-DD format
+ * @returns Date in the form 20250113
+ */
+function formatIcsDate(date: string): string {
+  return date.replaceAll('-', '');
+}
+
+/**
+ * Get the start and end properties of an episode
+ * Episodes with an airtime and airstamp start at the airstamp and last their
+ * runtime; the others (usually streaming drops) are all-day events.
+ * @param show - Episode
+ * @param fallbackDate - Date (YYYY-MM-DD) for episodes without an airdate
+ * @returns DTSTART and DTEND lines
+ */
+function getEventTimes(show: Show, fallbackDate: string): string[] {
+  const start = hasContent(show.airtime) && hasContent(show.airstamp)
+    ? new Date(show.airstamp)
+    : null;
+  if (start !== null && !Number.isNaN(start.getTime())) {
+    const minutes = typeof show.runtime === 'number' && show.runtime > 0
+      ? show.runtime
+      : DEFAULT_EVENT_MINUTES;
+    const end = new Date(start.getTime() + minutes * 60_000);
+    return [`DTSTART:${formatIcsDateTime(start)}`, `DTEND:${formatIcsDateTime(end)}`];
+  }
+
+  const day = hasContent(show.airdate) ? show.airdate : fallbackDate;
+  return [
+    `DTSTART;VALUE=DATE:${formatIcsDate(day)}`,
+    `DTEND;VALUE=DATE:${formatIcsDate(addDays(day, 1))}`
+  ];
+}
+
+/**
+ * Create the VEVENT of an episode
+ * @param show - Episode
+ * @param fallbackDate - Date (YYYY-MM-DD) for episodes without an airdate
+ * @param timestamp - Time the calendar is generated (DTSTAMP)
+ * @returns Unfolded content lines of the event
+ */
+export function createIcsEvent(show: Show, fallbackDate: string, timestamp: Date): string[] {
+  const summary = `${show.name} ${formatEpisodeInfo(show)}`.trim();
+  const description = [stripHtml(show.summary), show.episodeUrl ?? '']
+    .filter(part => part !== '')
+    .join('\n\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${getEpisodeUid(show)}`,
+    `DTSTAMP:${formatIcsDateTime(timestamp)}`,
+    ...getEventTimes(show, fallbackDate),
+    `SUMMARY:${escapeIcsText(summary)}`,
+    ...(description === '' ? [] : [`DESCRIPTION:${escapeIcsText(description)}`]),
+    ...(hasContent(show.network) ? [`LOCATION:${escapeIcsText(show.network)}`] : []),
+    ...(hasContent(show.episodeUrl) ? [`URL:${show.episodeUrl}`] : []),
+    'END:VEVENT'
+  ];
+}
+
+/**
+ * Create a calendar with one event per episode
+ * @param shows - Episodes to include
+ * @param options - Calendar name, date for episodes without an airdate, and
+ *   the generation time (defaults to now)
+ * @returns iCalendar document with CRLF line breaks
+ */
+export function createIcsCalendar(
+  shows: Show[],
+  options: { name: string; fallbackDate: string; timestamp?: Date }
+): string {
+  const timestamp = options.timestamp ?? new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(options.name)}`,
+    ...shows.flatMap(show => createIcsEvent(show, options.fallbackDate, timestamp)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(line => foldIcsLine(line)).join(ICS_LINE_BREAK) + ICS_LINE_BREAK;
+}
@@ -1,34 +1,147 @@
 /**
  * Utility functions for working with TV shows
  */
-import type { Show, NetworkGroups } from '../schemas/domain.js';
+import type {
+  ChannelKind,
+  ChannelSection,
+  DayGroups,
+  DiscoverCategories,
+  DiscoverEntry,
+  NetworkGroups,
+  Show,
+  ShowBadge
+} from '../schemas/domain.js';
+import type {
+  AirtimeWindow,
+  ChannelFilter,
+  FollowedShow,
+  NetworkAliases,
+  ShowOptions
+} from '../schemas/config.js';
 import { convertTimeToMinutes } from './dateUtils.js';
 import { isEmptyArray, hasContent } from './stringUtils.js';
 
+/**
+ * Built-in network aliases for renamed services and common spelling variants
+ * Keys are matched case-insensitively; values are the names TVMaze uses
+ */
+export const DEFAULT_NETWORK_ALIASES: NetworkAliases = {
+  'HBO Max': 'Max',
+  'Paramount Plus': 'Paramount+',
+  'CBS All Access': 'Paramount+',
+  'Disney Plus': 'Disney+',
+  'Apple TV Plus': 'Apple TV+',
+  'AppleTV+': 'Apple TV+',
+  'Amazon Prime Video': 'Prime Video',
+  'Discovery Plus': 'discovery+',
+  'Peacock Premium': 'Peacock',
+  'AMC Plus': 'AMC+',
+  'BET Plus': 'BET+'
+};
+
+/**
+ * Get the canonical name of a network using the built-in and configured aliases
+ * A country code suffix (e.g., " (US)") is kept.
+ * @param network - Network name, possibly with a country code suffix
+ * @param networkAliases - Configured aliases, which override built-in ones
+ * @returns Canonical network name, or the name itself when it has no alias
+ */
+export function normalizeNetworkName(
+  network: string,
+  networkAliases: NetworkAliases = {}
+): string {
+  const suffix = / \([A-Z]{2}\)$/.exec(network)?.[0] ?? '';
+  const baseName = network.slice(0, network.length - suffix.length).trim();
+
+  // Configured aliases come last so they override built-in ones
+  const aliasEntries = Object.entries({ ...DEFAULT_NETWORK_ALIASES, ...networkAliases });
+  const aliases = new Map<string, string>();
+  for (const [alias, canonical] of aliasEntries) {
+    aliases.set(alias.trim().toLowerCase(), canonical.trim());
+  }
+
+  return `${aliases.get(baseName.toLowerCase()) ?? baseName}${suffix}`;
+}
+
 /**
  * Get the network name from a show with fallback to "Unknown Network"
  * Removes country codes from network names (e.g., "Hulu (JP)" becomes "Hulu")
+ * unless they are kept to tell apart networks from several countries
  * @param show - Show to get network name from
- * @returns Network name or fallback value
+ * @param shouldKeepCountry - Keep the country code suffix
+ * @param networkAliases - Configured network aliases
+ * @returns Canonical network name or fallback value
  */
-export function getNetworkName(show: Show): string {
+export function getNetworkName(
+  show: Show,
+  shouldKeepCountry = false,
+  networkAliases: NetworkAliases = {}
+): string {
+  if (!show.network) {
+    return 'Unknown Network';
+  }
+  const network = normalizeNetworkName(show.network, networkAliases);
   // Remove country codes in parentheses, e.g., "Hulu (JP)" -> "Hulu"
-  return show.network
-    ? show.network.replace(/ \([A-Z]{2}\)$/, '')
-    : 'Unknown Network';
+  return shouldKeepCountry ? network : network.replace(/ \([A-Z]{2}\)$/, '');
+}
+
+/**
+ * Section headings for output split by channel kind, in display order
+ */
+export const CHANNEL_SECTION_TITLES: Record<ChannelKind, string> = {
+  broadcast: 'Broadcast',
+  cable: 'Cable',
+  streaming: 'Streaming'
+};
+
+/**
+ * Section heading for networks whose channel kind is unknown
+ */
+export const OTHER_CHANNEL_SECTION_TITLE = 'Other';
+
+/**
+ * Split network groups into sections by channel kind
+ * A network belongs to the section of its first show with a known channel kind.
+ * Sections are ordered broadcast, cable, streaming, then unknown; empty
+ * sections are left out.
+ * @param networkGroups Shows grouped by network
+ * @returns Non-empty sections in display order
+ */
+export function groupNetworksByChannelKind(networkGroups: NetworkGroups): ChannelSection[] {
+  const sectionKinds: (ChannelKind | null)[] = ['broadcast', 'cable', 'streaming', null];
+  const sections: ChannelSection[] = sectionKinds.map(channelKind => ({
+    channelKind,
+    title: channelKind === null ? OTHER_CHANNEL_SECTION_TITLE : CHANNEL_SECTION_TITLES[channelKind],
+    networkGroups: {}
+  }));
+
+  for (const [network, shows] of Object.entries(networkGroups)) {
+    const channelKind = shows.find(show => hasContent(show.channelKind))?.channelKind ?? null;
+    const section = sections[sectionKinds.indexOf(channelKind)];
+    section.networkGroups[network] = shows;
+  }
+
+  return sections.filter(section => Object.keys(section.networkGroups).length > 0);
 }
 
 /**
  * Group shows by their network
+ * Network aliases are resolved so each service appears under one heading.
  * @param shows - Array of shows to group
+ * @param shouldKeepCountry - Keep country codes in network names (e.g., "CBC (CA)")
+ * @param networkAliases - Configured network aliases
  * @returns Object with network names as keys and arrays of shows as values
  */
-export function groupShowsByNetwork(shows: Show[]): NetworkGroups {
+export function groupShowsByNetwork(
+  shows: Show[],
+  shouldKeepCountry = false,
+  networkAliases: NetworkAliases = {}
+): NetworkGroups {
   const groups: NetworkGroups = {};
   
   for (const show of shows) {
     // Get the network name using the utility function
-    const networkName = getNetworkName(show);
+    const networkName = getNetworkName(show, shouldKeepCountry, networkAliases);
     
     if (!Object.prototype.hasOwnProperty.call(groups, networkName)) {
       groups[networkName] = [];
@@ -40,6 +153,59 @@ export function groupShowsByNetwork(shows: Show[]): NetworkGroups {
   return groups;
 }
 
+/**
+ * Group shows by airdate and then by network
+ * Every requested date gets an entry, even when no shows air that day.
+ * Shows without an airdate in the range are placed on the first date.
+ * @param shows - Array of shows to group
+ * @param dates - Dates in the range (YYYY-MM-DD), in display order
+ * @param shouldKeepCountry - Keep country codes in network names
+ * @param networkAliases - Configured network aliases
+ * @returns Object with dates as keys and network groups as values
+ */
+export function groupShowsByDay(
+  shows: Show[],
+  dates: string[],
+  shouldKeepCountry = false,
+  networkAliases: NetworkAliases = {}
+): DayGroups {
+  const showsByDate = new Map<string, Show[]>(dates.map(date => [date, []]));
+
+  for (const show of shows) {
+    const airdate = show.airdate ?? '';
+    const dateShows = showsByDate.get(airdate) ?? showsByDate.get(dates[0]);
+    dateShows?.push(show);
+  }
+
+  const groups: DayGroups = {};
+  for (const [date, dateShows] of showsByDate) {
+    groups[date] = groupShowsByNetwork(dateShows, shouldKeepCountry, networkAliases);
+  }
+
+  return groups;
+}
+
+/**
+ * Get the key that tells episodes apart
+ * Unnumbered programmes (XMLTV news, films, sports) are told apart by their start
+ * @param show - Episode
+ * @returns Key built from the show ID and the season and episode number, or the airstamp
+ */
+export function getEpisodeKey(show: Show): string {
+  return show.number > 0
+    ? `${show.id}-s${show.season}e${show.number}`
+    : `${show.id}-${show.airstamp ?? show.airdate ?? ''}`;
+}
+
+/**
+ * Get the stable identifier of an episode, used as calendar UID and feed GUID
+ * @param show - Episode
+ * @returns Identifier built from the episode key
+ */
+export function getEpisodeUid(show: Show): string {
+  return `whatsontv-${getEpisodeKey(show)}`;
+}
+
 /**
  * Sort episodes by season and episode number
  * @param a - First episode
@@ -234,6 +400,32 @@ export function sortEpisodesByNumber(shows: Show[]): Show[] {
   });
 }
 
+/**
+ * Check whether a show is on a followed shows list
+ * @param show - Show to check
+ * @param followedShows - TVMaze show IDs or exact show names (case-insensitive)
+ * @returns True if the show's ID or name is on the list
+ */
+export function isFollowedShow(show: Show, followedShows: FollowedShow[]): boolean {
+  const showName = show.name.toLowerCase();
+  return followedShows.some(followed => typeof followed === 'number'
+    ? followed === show.id
+    : followed.trim().toLowerCase() === showName);
+}
+
+/**
+ * Get the premiere badge for an episode, based on its season and episode number
+ * @param show - Episode to check
+ * @returns Series premiere for S01E01, season premiere for the first episode of
+ *   a later season, otherwise null
+ */
+export function getPremiereBadge(show: Show): ShowBadge | null {
+  if (show.number !== 1 || show.season < 1) {
+    return null;
+  }
+  return show.season === 1 ? 'seriesPremiere' : 'seasonPremiere';
+}
+
 /**
  * Filter shows by type
  * @param shows - Shows to filter
@@ -251,6 +443,88 @@ export function filterByType(shows: Show[], types: string[]): Show[] {
   });
 }
 
+/**
+ * Filter shows by channel kind
+ * Shows whose channel kind is unknown are dropped unless every channel is wanted.
+ * @param shows - Shows to filter
+ * @param channels - 'streaming', 'linear' (broadcast and cable), or 'all'
+ * @returns Filtered shows
+ */
+export function filterByChannelKind(shows: Show[], channels: ChannelFilter): Show[] {
+  if (channels === 'all') {
+    return shows;
+  }
+
+  const isStreamingWanted = channels === 'streaming';
+  return shows.filter(show =>
+    hasContent(show.channelKind) && (show.channelKind === 'streaming') === isStreamingWanted
+  );
+}
+
+/**
+ * Check whether an airtime falls in an airtime window
+ * Bounds are inclusive and optional; a window whose minimum is later than its
+ * maximum wraps midnight (e.g., 20:00-02:00). Invalid bounds are ignored.
+ * @param airtime - Airtime to check (HH:MM)
+ * @param window - Airtime window
+ * @returns True if the airtime is in the window
+ */
+export function isInAirtimeWindow(airtime: string, window: AirtimeWindow): boolean {
+  const minMinutes = hasContent(window.minAirtime) ? convertTimeToMinutes(window.minAirtime) : -1;
+  const maxMinutes = hasContent(window.maxAirtime) ? convertTimeToMinutes(window.maxAirtime) : -1;
+  const minutes = convertTimeToMinutes(airtime);
+
+  // Unreadable airtimes only pass a window without bounds
+  if (minutes < 0) {
+    return minMinutes < 0 && maxMinutes < 0;
+  }
+
+  if (minMinutes >= 0 && maxMinutes >= 0 && minMinutes > maxMinutes) {
+    return minutes >= minMinutes || minutes <= maxMinutes;
+  }
+  return (minMinutes < 0 || minutes >= minMinutes) && (maxMinutes < 0 || minutes <= maxMinutes);
+}
+
+/**
+ * Filter shows by airtime
+ * Shows on a network listed in networkAirtimes use that window instead of
+ * minAirtime/maxAirtime. Untimed shows are kept unless includeUntimed is false.
+ * @param shows - Shows to filter
+ * @param options - Airtime options and the network aliases used to match networks
+ * @returns Filtered shows
+ */
+export function filterByAirtime(
+  shows: Show[],
+  options: Pick<
+    ShowOptions,
+    'minAirtime' | 'maxAirtime' | 'networkAirtimes' | 'includeUntimed' | 'networkAliases'
+  >
+): Show[] {
+  const networkAliases = options.networkAliases ?? {};
+  const defaultWindow: AirtimeWindow = {
+    minAirtime: options.minAirtime,
+    maxAirtime: options.maxAirtime
+  };
+  // Network windows keyed by lowercase canonical network name
+  const networkWindows = new Map(
+    Object.entries(options.networkAirtimes ?? {}).map(([network, window]) => [
+      normalizeNetworkName(network, networkAliases).toLowerCase(),
+      window
+    ])
+  );
+  const isUntimedIncluded = options.includeUntimed ?? true;
+
+  return shows.filter(show => {
+    // Streaming drops often have no airtime
+    if (show.airtime === null || show.airtime.trim() === '') {
+      return isUntimedIncluded;
+    }
+
+    const network = getNetworkName(show, false, networkAliases).toLowerCase();
+    return isInAirtimeWindow(show.airtime, networkWindows.get(network) ?? defaultWindow);
+  });
+}
+
 /**
  * Filter shows by network
  * @param shows - Shows to filter
@@ -339,3 +613,61 @@ export function filterByCountry(shows: Show[], _country: string): Show[] {
   // For now, we don't filter by country since we don't have that data
   return shows;
 }
+
+/**
+ * Count the episodes of each value, most episodes first (ties by name)
+ * @param values - One value per episode (or per genre of an episode)
+ * @param configValues - Values the config filters by; an empty list keeps every value
+ * @param toKey - Key used to compare values with the config values
+ * @returns Entries with their counts and config matches
+ */
+function toDiscoverEntries(
+  values: string[],
+  configValues: string[] | undefined,
+  toKey: (value: string) => string = value => value.toLowerCase()
+): DiscoverEntry[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  const configKeys = new Set((configValues ?? []).map(value => toKey(value)));
+
+  return Array.from(counts, ([name, count]) => ({
+    name,
+    count,
+    isConfigMatch: configKeys.size === 0 || configKeys.has(toKey(name))
+  }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/**
+ * Collect the networks, genres, types and languages of a schedule
+ * Networks use their canonical names without country suffixes, the way the
+ * networks filter compares them.
+ * @param shows - Unfiltered shows
+ * @param options - Current filters, used to mark the values they keep
+ * @returns Distinct values with episode counts
+ */
+export function summarizeShowCategories(
+  shows: Show[],
+  options: Pick<ShowOptions, 'networks' | 'genres' | 'types' | 'languages' | 'networkAliases'>
+): DiscoverCategories {
+  const networkAliases = options.networkAliases ?? {};
+  const networks = shows
+    .filter(show => hasContent(show.network))
+    .map(show => getNetworkName(show, false, networkAliases));
+
+  return {
+    networks: toDiscoverEntries(networks, options.networks, network =>
+      normalizeNetworkName(network, networkAliases).toLowerCase()),
+    genres: toDiscoverEntries(shows.flatMap(show => show.genres), options.genres),
+    types: toDiscoverEntries(
+      shows.map(show => show.type).filter(type => hasContent(type)),
+      options.types
+    ),
+    languages: toDiscoverEntries(
+      shows.map(show => show.language).filter(language => hasContent(language)),
+      options.languages
+    )
+  };
+}
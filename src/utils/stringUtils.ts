@@ -196,3 +196,82 @@ function appendOverflowWord(
 export function createSeparator(length = 30, char = '='): string {
   return padString('', length, char);
 }
+
+/** HTML entities decoded by stripHtml */
+const HTML_ENTITIES: Partial<Record<string, string>> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+  nbsp: ' '
+};
+
+/**
+ * Convert an HTML snippet (such as a TVMaze summary) to plain text
+ * Paragraph and line breaks become newlines; tags are dropped and common
+ * entities are decoded.
+ * @param html - HTML snippet
+ * @returns Plain text, trimmed
+ */
+export function stripHtml(html: string | null | undefined): string {
+  if (!hasContent(html)) {
+    return '';
+  }
+  return html
+    .replaceAll(/<br ?\/?>|<\/p>/gi, '\n')
+    .replaceAll(/<[^<>]*>/g, '')
+    .replaceAll(/&(#\d+|[a-z]+);/gi, (entity: string, name: string) => {
+      if (name.startsWith('#')) {
+        return String.fromCodePoint(Number.parseInt(name.slice(1), 10));
+      }
+      return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .replaceAll(/\n{2,}/g, '\n')
+    .trim();
+}
+
+/**
+ * Escape text for use in HTML element content and attribute values
+ * @param text - Plain text
+ * @returns Text with &, <, >, " and ' escaped
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll('\'', '&#39;');
+}
+
+/**
+ * Escape text for use in Markdown, including inside table cells
+ * @param text - Plain text
+ * @returns Text with Markdown punctuation and pipes backslash-escaped
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replaceAll(/[\\`*_[\]<>|~]/g, String.raw`\$&`);
+}
+
+/** Path segments kept by redactUrl: short words, never IDs or tokens */
+const PLAIN_PATH_SEGMENT = /^[a-z][a-z_-]{0,19}$/i;
+
+/**
+ * Remove secrets from a URL before it is logged
+ * Keeps the origin and word-like path segments; other segments (IDs, tokens),
+ * the query and the fragment are dropped, e.g. a Discord webhook becomes
+ * `https://discord.com/api/webhooks/<redacted>/<redacted>`
+ * @param url - URL that may contain secrets
+ * @returns Redacted URL, or `<redacted URL>` when it cannot be parsed
+ */
+export function redactUrl(url: string): string {
+  if (!URL.canParse(url)) {
+    return '<redacted URL>';
+  }
+  const { origin, pathname } = new URL(url);
+  const path = pathname.split('/').map(segment =>
+    segment === '' || PLAIN_PATH_SEGMENT.test(segment) ? segment : '<redacted>'
+  ).join('/');
+  return `${origin}${path}`;
+}
@@ -0,0 +1,238 @@
+/**
+ * Mustache-style templates for user-supplied request bodies
+ *
+ * Supports variables (`{{name}}`, `{{a.b}}`, `{{.}}`), unescaped variables
+ * (`{{{name}}}`, `{{& name}}`), sections (`{{#name}}…{{/name}}`), inverted
+ * sections (`{{^name}}…{{/name}}`) and comments (`{{! … }}`). Inside a section
+ * over a list, `{{@index}}`, `{{#@first}}` and `{{#@last}}` describe the item.
+ */
+
+/**
+ * Node of a parsed template
+ */
+type TemplateNode =
+  | string
+  | { kind: 'variable'; name: string; isEscaped: boolean }
+  | { kind: 'section'; name: string; isInverted: boolean; children: TemplateNode[] };
+
+/**
+ * Context a name is looked up in; list items also describe their position
+ */
+interface TemplateFrame {
+  value: unknown;
+  loop?: { '@index': number; '@first': boolean; '@last': boolean };
+}
+
+/**
+ * Section being parsed
+ */
+interface OpenSection {
+  name: string;
+  nodes: TemplateNode[];
+}
+
+/**
+ * Add a tag to the section being parsed
+ * @param sections - Open sections, innermost first
+ * @param tag - Tag contents without braces
+ * @param isTriple - Whether the tag was triple-braced
+ * @throws Error for closing tags that do not match the open section
+ */
+function addTag(sections: OpenSection[], tag: string, isTriple: boolean): void {
+  const sigil = isTriple ? '{' : tag.charAt(0);
+  const name = isTriple ? tag : tag.slice(1).trim();
+
+  switch (sigil) {
+  case '!': {
+    break;
+  }
+  case '{':
+  case '&': {
+    sections[0].nodes.push({ name, kind: 'variable', isEscaped: false });
+    break;
+  }
+  case '#':
+  case '^': {
+    const section: OpenSection = { name, nodes: [] };
+    sections[0].nodes.push({
+      name,
+      kind: 'section',
+      isInverted: sigil === '^',
+      children: section.nodes
+    });
+    sections.unshift(section);
+    break;
+  }
+  case '/': {
+    if (sections.length === 1 || sections[0].name !== name) {
+      throw new Error(`Unexpected closing tag "${name}" in template`);
+    }
+    sections.shift();
+    break;
+  }
+  default: {
+    sections[0].nodes.push({ name: tag, kind: 'variable', isEscaped: true });
+  }
+  }
+}
+
+/**
+ * Parse a template into nodes
+ * @param template - Template text
+ * @returns Parsed nodes
+ * @throws Error for unclosed tags and unbalanced sections
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: OpenSection = { name: '', nodes: [] };
+  const sections: OpenSection[] = [root];
+  let position = 0;
+
+  while (position < template.length) {
+    const start = template.indexOf('{{', position);
+    if (start === -1) {
+      sections[0].nodes.push(template.slice(position));
+      break;
+    }
+    if (start > position) {
+      sections[0].nodes.push(template.slice(position, start));
+    }
+
+    const isTriple = template.startsWith('{{{', start);
+    const closing = isTriple ? '}}}' : '}}';
+    const end = template.indexOf(closing, start + closing.length);
+    if (end === -1) {
+      throw new Error(`Unclosed tag at position ${start} in template`);
+    }
+    addTag(sections, template.slice(start + closing.length, end).trim(), isTriple);
+    position = end + closing.length;
+  }
+
+  if (sections.length > 1) {
+    throw new Error(`Unclosed section "${sections[0].name}" in template`);
+  }
+  return root.nodes;
+}
+
+/**
+ * Look up a name, starting at the innermost context
+ * @param name - Variable name; dots walk into nested objects, `.` is the current item
+ * @param frames - Contexts, innermost first
+ * @returns Value, or undefined when not found
+ */
+function lookup(name: string, frames: TemplateFrame[]): unknown {
+  if (name === '.') {
+    return frames[0].value;
+  }
+  if (name.startsWith('@')) {
+    const loop = frames.find(frame => frame.loop !== undefined)?.loop;
+    return loop?.[name as keyof typeof loop];
+  }
+
+  const [first, ...rest] = name.split('.');
+  const frame = frames.find(candidate =>
+    typeof candidate.value === 'object' && candidate.value !== null &&
+      Object.hasOwn(candidate.value, first)
+  );
+  let value = (frame?.value as Record<string, unknown> | undefined)?.[first];
+  for (const key of rest) {
+    value = typeof value === 'object' && value !== null
+      ? (value as Record<string, unknown>)[key]
+      : undefined;
+  }
+  return value;
+}
+
+/**
+ * Check whether a section renders
+ * @param value - Section value
+ * @returns False for missing and falsy values and empty lists
+ */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+/**
+ * Convert a variable to text; objects and lists are written as JSON
+ * @param value - Variable value
+ * @returns Text, empty for missing values
+ */
+function stringifyValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Render parsed nodes
+ * @param nodes - Parsed nodes
+ * @param frames - Contexts, innermost first
+ * @param escapeText - Escapes the text of `{{name}}` variables
+ * @returns Rendered text
+ */
+function renderNodes(
+  nodes: TemplateNode[],
+  frames: TemplateFrame[],
+  escapeText: (text: string) => string
+): string {
+  return nodes.map(node => {
+    if (typeof node === 'string') {
+      return node;
+    }
+
+    const value = lookup(node.name, frames);
+    if (node.kind === 'variable') {
+      const text = stringifyValue(value);
+      return node.isEscaped ? escapeText(text) : text;
+    }
+
+    if (node.isInverted) {
+      return isTruthy(value) ? '' : renderNodes(node.children, frames, escapeText);
+    }
+    if (!isTruthy(value)) {
+      return '';
+    }
+    if (Array.isArray(value)) {
+      return value.map((item: unknown, index) => renderNodes(node.children, [{
+        value: item,
+        loop: { '@index': index, '@first': index === 0, '@last': index === value.length - 1 }
+      }, ...frames], escapeText)).join('');
+    }
+    return renderNodes(
+      node.children,
+      typeof value === 'object' ? [{ value }, ...frames] : frames,
+      escapeText
+    );
+  }).join('');
+}
+
+/**
+ * Escape text for use inside a JSON string
+ * @param text - Plain text
+ * @returns Text with quotes, backslashes and control characters escaped
+ */
+export function escapeJsonString(text: string): string {
+  return JSON.stringify(text).slice(1, -1);
+}
+
+/**
+ * Render a Mustache-style template
+ * @param template - Template text
+ * @param view - Values the template refers to
+ * @param escapeText - Escapes the text of `{{name}}` variables; `{{{name}}}` is never escaped
+ * @returns Rendered text
+ * @throws Error for unclosed tags and unbalanced sections
+ */
+export function renderTemplate(
+  template: string,
+  view: unknown,
+  escapeText: (text: string) => string
+): string {
+  return renderNodes(parseTemplate(template), [{ value: view }], escapeText);
+}
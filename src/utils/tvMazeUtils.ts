@@ -5,8 +5,9 @@ import {
   networkScheduleToShowSchema,
   webScheduleToShowSchema
 } from '../schemas/tvmaze.js';
+import type { ShowWithSeasons } from '../schemas/tvmaze.js';
 import { getStringOrDefault } from './stringUtils.js';
-import type { Show } from '../schemas/domain.js';
+import type { Show, ShowBadge } from '../schemas/domain.js';
 
 /**
  * Base URL for TVMaze API
@@ -55,6 +56,46 @@ export function getWebScheduleUrl(
     (trimmedDate ? `?date=${trimmedDate}` : '');
 }
 
+/**
+ * Generate URL for show search endpoint
+ * @param query Show name (or part of it) to search for
+ * @returns Full URL for show search endpoint
+ */
+export function getSearchShowsUrl(query: string): string {
+  const parameters = new URLSearchParams({ q: query.trim() });
+  return `${TV_MAZE_BASE_URL}/search/shows?${parameters.toString()}`;
+}
+
+/**
+ * Generate URL for a show with its seasons embedded
+ * @param showId TVMaze show ID
+ * @returns Full URL for show details endpoint
+ */
+export function getShowWithSeasonsUrl(showId: number): string {
+  return `${TV_MAZE_BASE_URL}/shows/${showId}?embed=seasons`;
+}
+
+/**
+ * Get the finale badge for an episode from its show's season list
+ * An episode is a season finale when its number matches the season's episode
+ * order, and a series finale when that season is the last of an ended show.
+ * Seasons without an announced episode order never produce a badge.
+ *
+ * @param show Episode to check
+ * @param details Show details with embedded seasons
+ * @returns Finale badge or null
+ */
+export function getFinaleBadge(show: Show, details: ShowWithSeasons): ShowBadge | null {
+  const seasons = details._embedded?.seasons ?? [];
+  const season = seasons.find(candidate => candidate.number === show.season);
+  if (season?.episodeOrder !== show.number) {
+    return null;
+  }
+
+  const isLastSeason = seasons.every(candidate => candidate.number <= season.number);
+  return isLastSeason && details.status === 'Ended' ? 'seriesFinale' : 'seasonFinale';
+}
+
 /**
  * Check if an item is a web schedule item (from /schedule/web endpoint)
  * 
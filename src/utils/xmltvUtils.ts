@@ -0,0 +1,362 @@
+/**
+ * Utility functions for reading XMLTV guide files
+ *
+ * XMLTV guides are flat enough that a small regex-based reader covers the
+ * elements we map to the domain model, without pulling in an XML parser.
+ */
+import {
+  xmltvChannelSchema,
+  xmltvProgrammeSchema
+} from '../schemas/xmltv.js';
+import type {
+  XmltvChannel,
+  XmltvEpisodeNum,
+  XmltvGuide,
+  XmltvProgramme
+} from '../schemas/xmltv.js';
+import type { Show } from '../schemas/domain.js';
+import { hasContent } from './stringUtils.js';
+
+/**
+ * TVMaze show types that XMLTV categories are matched against
+ */
+export const XMLTV_SHOW_TYPES = [
+  'Scripted',
+  'Reality',
+  'Animation',
+  'Documentary',
+  'News',
+  'Sports',
+  'Talk Show',
+  'Game Show',
+  'Variety',
+  'Award Show',
+  'Panel Show'
+];
+
+/**
+ * Show type for programmes whose categories match none of XMLTV_SHOW_TYPES
+ */
+export const XMLTV_UNKNOWN_TYPE = 'Unknown';
+
+/** Named XML entities; numeric entities are decoded separately */
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\''
+};
+
+/**
+ * A child element of a <channel> or <programme>
+ */
+interface XmlChildElement {
+  name: string;
+  attributes: Partial<Record<string, string>>;
+  text: string;
+}
+
+/**
+ * Decode XML entities and CDATA sections in element text
+ * @param text Raw element text
+ * @returns Decoded, trimmed text
+ */
+export function decodeXmlText(text: string): string {
+  return text
+    .replaceAll(/<!\[CDATA\[([\s\S]*?)]]>/g, '$1')
+    .replaceAll(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity: string, name: string) => {
+      if (name.startsWith('#x') || name.startsWith('#X')) {
+        return String.fromCodePoint(Number.parseInt(name.slice(2), 16));
+      }
+      if (name.startsWith('#')) {
+        return String.fromCodePoint(Number.parseInt(name.slice(1), 10));
+      }
+      return XML_ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .trim();
+}
+
+/**
+ * Parse the attributes of an XML start tag
+ * @param source Attribute part of the tag (everything after the element name,
+ *   including the leading whitespace)
+ * @returns Attribute values by name
+ */
+function parseAttributes(source: string): Partial<Record<string, string>> {
+  const attributes: Partial<Record<string, string>> = {};
+  for (const match of source.matchAll(/\s([\w:-]+)=("[^"]*"|'[^']*')/g)) {
+    attributes[match[1]] = decodeXmlText(match[2].slice(1, -1));
+  }
+  return attributes;
+}
+
+/**
+ * Parse the direct children of an element
+ * Nested elements (e.g., <credits>) are returned as one child with raw text.
+ * @param content Element content
+ * @returns Child elements in document order
+ */
+function parseChildElements(content: string): XmlChildElement[] {
+  const pattern = /<([a-z][\w-]*)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1\s*>)/gi;
+  return Array.from(content.matchAll(pattern), match => ({
+    name: match[1].toLowerCase(),
+    attributes: parseAttributes(match[2]),
+    text: decodeXmlText((match[3] as string | undefined) ?? '')
+  }));
+}
+
+/**
+ * Find all elements with the given name
+ * @param xml XML document
+ * @param name Element name
+ * @returns Attribute source and content of each element
+ */
+function findElements(xml: string, name: string): { attributes: string; content: string }[] {
+  // eslint-disable-next-line security/detect-non-literal-regexp
+  const pattern = new RegExp(String.raw`<${name}\b([^>]*)>([\s\S]*?)</${name}\s*>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => ({
+    attributes: match[1],
+    content: match[2]
+  }));
+}
+
+/**
+ * Get the text of the first child element with the given name
+ * @param children Child elements
+ * @param name Element name
+ * @returns Element text, or null if absent or empty
+ */
+function getChildText(children: XmlChildElement[], name: string): string | null {
+  const text = children.find(child => child.name === name)?.text;
+  return hasContent(text) ? text : null;
+}
+
+/**
+ * Convert an XMLTV <length> element to minutes
+ * @param child Length element
+ * @returns Length in minutes, or null if it cannot be read
+ */
+function toLengthInMinutes(child: XmlChildElement | undefined): number | null {
+  const value = Number.parseFloat(child?.text ?? '');
+  if (child === undefined || Number.isNaN(value)) {
+    return null;
+  }
+  if (child.attributes.units === 'hours') {
+    return Math.round(value * 60);
+  }
+  if (child.attributes.units === 'seconds') {
+    return Math.round(value / 60);
+  }
+  return Math.round(value);
+}
+
+/**
+ * Read a <programme> element
+ * @param attributes Attribute source of the element
+ * @param content Element content
+ * @returns Programme fields, before validation
+ */
+function readProgramme(attributes: string, content: string): Record<string, unknown> {
+  const attributeValues = parseAttributes(attributes);
+  const children = parseChildElements(content);
+  return {
+    channel: attributeValues.channel,
+    start: attributeValues.start,
+    stop: attributeValues.stop ?? null,
+    title: getChildText(children, 'title'),
+    subTitle: getChildText(children, 'sub-title'),
+    desc: getChildText(children, 'desc'),
+    categories: children
+      .filter(child => child.name === 'category' && hasContent(child.text))
+      .map(child => child.text),
+    episodeNums: children
+      .filter(child => child.name === 'episode-num' && hasContent(child.text))
+      .map((child): XmltvEpisodeNum => ({
+        system: child.attributes.system ?? null,
+        value: child.text
+      })),
+    length: toLengthInMinutes(children.find(child => child.name === 'length')),
+    language: getChildText(children, 'language'),
+    url: getChildText(children, 'url')
+  };
+}
+
+/**
+ * Parse an XMLTV guide document
+ * Channels and programmes missing required fields are skipped.
+ * @param xml XMLTV document
+ * @returns Channels and programmes in document order
+ */
+export function parseXmltv(xml: string): XmltvGuide {
+  const document = xml.replaceAll(/<!--[\s\S]*?-->/g, '');
+
+  const channels = findElements(document, 'channel')
+    .map(({ attributes, content }) => xmltvChannelSchema.safeParse({
+      id: parseAttributes(attributes).id,
+      displayName: getChildText(parseChildElements(content), 'display-name')
+    }))
+    .filter(result => result.success)
+    .map(result => result.data);
+
+  const programmes = findElements(document, 'programme')
+    .map(({ attributes, content }) =>
+      xmltvProgrammeSchema.safeParse(readProgramme(attributes, content))
+    )
+    .filter(result => result.success)
+    .map(result => result.data);
+
+  return { channels, programmes };
+}
+
+/**
+ * Parse an XMLTV timestamp (YYYYMMDDhhmmss +hhmm)
+ * Seconds are optional; a missing offset means UTC, as in the XMLTV DTD.
+ * @param value XMLTV timestamp
+ * @returns Local airdate and airtime in the timestamp's own offset, and an
+ *   ISO 8601 airstamp; or null if the timestamp cannot be read
+ */
+export function parseXmltvTime(
+  value: string
+): { airdate: string; airtime: string; airstamp: string } | null {
+  const [stamp = '', zone = '+0000'] = value.trim().split(/\s+/, 2);
+  if (!/^(?:\d{12}|\d{14})$/.test(stamp) || !/^[+-]\d{4}$/.test(zone)) {
+    return null;
+  }
+
+  const year = stamp.slice(0, 4);
+  const month = stamp.slice(4, 6);
+  const day = stamp.slice(6, 8);
+  const hours = stamp.slice(8, 10);
+  const minutes = stamp.slice(10, 12);
+  const seconds = stamp.slice(12, 14) || '00';
+  const offset = `${zone.slice(0, 3)}:${zone.slice(3)}`;
+  return {
+    airdate: `${year}-${month}-${day}`,
+    airtime: `${hours}:${minutes}`,
+    airstamp: `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${offset}`
+  };
+}
+
+/**
+ * Parse the season and episode number of a programme
+ * Prefers the zero-based xmltv_ns system ("season.episode.part"), then the
+ * onscreen "S01E05" form. A missing season is treated as season 1.
+ * @param episodeNums Programme <episode-num> elements
+ * @returns One-based season and episode number, or null if neither is known
+ */
+export function parseEpisodeNumber(
+  episodeNums: XmltvEpisodeNum[]
+): { season: number; number: number } | null {
+  const xmltvNs = episodeNums.find(episodeNum => episodeNum.system === 'xmltv_ns');
+  if (xmltvNs !== undefined) {
+    const [seasonPart = '', episodePart = ''] = xmltvNs.value.replaceAll(/\s/g, '').split('.', 2);
+    const season = Number.parseInt(seasonPart.split('/', 1)[0], 10);
+    const episode = Number.parseInt(episodePart.split('/', 1)[0], 10);
+    if (!Number.isNaN(episode)) {
+      return { season: Number.isNaN(season) ? 1 : season + 1, number: episode + 1 };
+    }
+  }
+
+  for (const episodeNum of episodeNums) {
+    const match = /S(\d+)\s*E(\d+)/i.exec(episodeNum.value);
+    if (match !== null) {
+      return {
+        season: Number.parseInt(match[1], 10),
+        number: Number.parseInt(match[2], 10)
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Get a stable numeric show ID for a programme title
+ * XMLTV has no show IDs, so the case-insensitive title is hashed (FNV-1a)
+ * to keep deduplication and grouping working across days and channels.
+ * @param title Programme title
+ * @returns Positive 31-bit integer
+ */
+export function getXmltvShowId(title: string): number {
+  let hash = 0x81_1C_9D_C5;
+  for (const char of title.trim().toLowerCase()) {
+    hash ^= char.codePointAt(0) ?? 0;
+    hash = Math.imul(hash, 0x01_00_01_93);
+  }
+  return (hash >>> 1) || 1;
+}
+
+/**
+ * Get the show type for a programme from its categories
+ * @param categories Programme categories
+ * @returns Matching TVMaze show type, or XMLTV_UNKNOWN_TYPE
+ */
+export function getXmltvShowType(categories: string[]): string {
+  for (const category of categories) {
+    const type = XMLTV_SHOW_TYPES.find(
+      candidate => candidate.toLowerCase() === category.toLowerCase()
+    );
+    if (type !== undefined) {
+      return type;
+    }
+  }
+  return XMLTV_UNKNOWN_TYPE;
+}
+
+/**
+ * Transform an XMLTV programme to our domain model
+ * Programmes without episode numbers get season and episode 0; XmltvServiceImpl
+ * keeps them, and they are told apart by their start. Every channel counts as a
+ * broadcast channel.
+ * @param programme XMLTV programme
+ * @param channels Channels in the guide, used for network names
+ * @returns Show object, or null if the start time cannot be read
+ */
+export function transformProgramme(
+  programme: XmltvProgramme,
+  channels: XmltvChannel[]
+): Show | null {
+  const start = parseXmltvTime(programme.start);
+  if (start === null) {
+    return null;
+  }
+
+  const stop = programme.stop === null ? null : parseXmltvTime(programme.stop);
+  const stopRuntime = stop === null
+    ? null
+    : Math.round((Date.parse(stop.airstamp) - Date.parse(start.airstamp)) / 60_000);
+  const channel = channels.find(candidate => candidate.id === programme.channel);
+  const episode = parseEpisodeNumber(programme.episodeNums);
+
+  return {
+    id: getXmltvShowId(programme.title),
+    name: programme.title,
+    type: getXmltvShowType(programme.categories),
+    language: programme.language,
+    genres: programme.categories,
+    network: channel?.displayName ?? programme.channel,
+    // Guides list linear channels, and are mostly over-the-air lineups
+    channelKind: 'broadcast',
+    summary: null,
+    airtime: start.airtime,
+    season: episode?.season ?? 0,
+    number: episode?.number ?? 0,
+    episodeName: programme.subTitle,
+    airdate: start.airdate,
+    airstamp: start.airstamp,
+    runtime: programme.length ?? stopRuntime,
+    episodeUrl: programme.url,
+    episodeSummary: programme.desc
+  };
+}
+
+/**
+ * Transform an XMLTV guide into our domain model
+ * @param guide Parsed XMLTV guide
+ * @returns Array of transformed Show objects
+ */
+export function transformGuide(guide: XmltvGuide): Show[] {
+  return guide.programmes
+    .map(programme => transformProgramme(programme, guide.channels))
+    .filter((show): show is Show => show !== null);
+}
@@ -0,0 +1,53 @@
+/**
+ * Webhook dependency injection container setup
+ */
+import 'reflect-metadata';
+import { container } from 'tsyringe';
+
+// Interface imports
+import type { ConfigService } from './interfaces/configService.js';
+import type { ProcessOutput } from './interfaces/processOutput.js';
+import type { HttpClient } from './interfaces/httpClient.js';
+import type { LoggerService } from './interfaces/loggerService.js';
+import type { OutputService } from './interfaces/outputService.js';
+
+// Implementation imports
+import { CliConfigServiceImpl } from './implementations/text/cliConfigServiceImpl.js';
+import { ProcessOutputImpl } from './implementations/processOutputImpl.js';
+import { PinoLoggerServiceImpl } from './implementations/pino/pinoLoggerServiceImpl.js';
+import {
+  WebhookOutputServiceImpl
+} from './implementations/webhook/webhookOutputServiceImpl.js';
+import { registerHttpServices } from './httpServicesContainer.js';
+
+/**
+ * Initialize the webhook container with all required dependencies
+ */
+export function initializeWebhookContainer(): void {
+  // Register core services
+  container.registerSingleton<ProcessOutput>('ProcessOutput', ProcessOutputImpl);
+  container.registerSingleton<LoggerService>('LoggerService', PinoLoggerServiceImpl);
+  
+  // Register ConfigService with factory to handle the optional parameter
+  container.register<ConfigService>('ConfigService', {
+    useFactory: () => new CliConfigServiceImpl(false)
+  });
+  
+  // Register the TvShowService, RateLimiter and HttpClient
+  registerHttpServices(container);
+  
+  // Register WebhookOutputService with factory to properly inject dependencies
+  container.register<OutputService>('WebhookOutputService', {
+    useFactory: (dependencyContainer) => {
+      const httpClient = dependencyContainer.resolve<HttpClient>('WebhookHttpClient');
+      const configService = dependencyContainer.resolve<ConfigService>('ConfigService');
+      const processOutput = dependencyContainer.resolve<ProcessOutput>('ProcessOutput');
+      return new WebhookOutputServiceImpl(httpClient, configService, processOutput);
+    }
+  });
+  
+  // Register platform type
+  container.register('PlatformType', { useValue: 'webhook' });
+}
+
+export { container } from 'tsyringe';
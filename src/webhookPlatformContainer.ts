@@ -0,0 +1,77 @@
+/**
+ * Dependency injection container setup shared by the chat platforms that post
+ * a formatted schedule to a webhook (Discord, Teams)
+ */
+import 'reflect-metadata';
+import { container, type InjectionToken } from 'tsyringe';
+
+// Interface imports
+import type { ConfigService } from './interfaces/configService.js';
+import type { ProcessOutput } from './interfaces/processOutput.js';
+import type { LoggerService } from './interfaces/loggerService.js';
+import type { OutputService } from './interfaces/outputService.js';
+
+// Implementation imports
+import { CliConfigServiceImpl } from './implementations/text/cliConfigServiceImpl.js';
+import { ProcessOutputImpl } from './implementations/processOutputImpl.js';
+import { PinoLoggerServiceImpl } from './implementations/pino/pinoLoggerServiceImpl.js';
+import { registerHttpServices } from './httpServicesContainer.js';
+
+/**
+ * Services and tokens of a webhook chat platform
+ */
+export interface WebhookPlatform<TFormatter, TClient> {
+  /** Value registered as PlatformType */
+  platformType: string;
+  formatterToken: string;
+  formatter: InjectionToken<TFormatter>;
+  /** Client that posts to the webhook through the WebhookHttpClient */
+  clientToken: string;
+  client: InjectionToken<TClient>;
+  outputServiceToken: string;
+  outputService: new (
+    formatter: TFormatter,
+    client: TClient,
+    configService: ConfigService,
+    logger: LoggerService
+  ) => OutputService;
+}
+
+/**
+ * Initialize the container with all dependencies of a webhook chat platform
+ * @param platform Services and tokens of the platform
+ */
+export function initializeWebhookPlatformContainer<TFormatter, TClient>(
+  platform: WebhookPlatform<TFormatter, TClient>
+): void {
+  // Register core services
+  container.registerSingleton<ProcessOutput>('ProcessOutput', ProcessOutputImpl);
+  container.registerSingleton<LoggerService>('LoggerService', PinoLoggerServiceImpl);
+
+  // Register platform-specific services
+  container.registerSingleton<TFormatter>(platform.formatterToken, platform.formatter);
+
+  // Register ConfigService with factory to handle the optional parameter
+  container.register<ConfigService>('ConfigService', {
+    useFactory: () => new CliConfigServiceImpl(false)
+  });
+
+  // Register the TvShowService, RateLimiter and HttpClient
+  registerHttpServices(container);
+
+  // Register the platform client that posts to the webhook
+  container.registerSingleton<TClient>(platform.clientToken, platform.client);
+
+  // Register the platform OutputService with factory to properly inject dependencies
+  container.register<OutputService>(platform.outputServiceToken, {
+    useFactory: (dependencyContainer) => new platform.outputService(
+      dependencyContainer.resolve<TFormatter>(platform.formatterToken),
+      dependencyContainer.resolve<TClient>(platform.clientToken),
+      dependencyContainer.resolve<ConfigService>('ConfigService'),
+      dependencyContainer.resolve<LoggerService>('LoggerService')
+    )
+  });
+
+  // Register platform type
+  container.register('PlatformType', { useValue: platform.platformType });
+}